@@ -0,0 +1,58 @@
+import { Link } from "wouter";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { useReasonLanguage } from "@/hooks/useReasonLanguage";
+import { ShieldAlert } from "lucide-react";
+import type { RightToWorkCheck } from "@shared/schema";
+import {
+  authenticitySignalLabels,
+  describeAuthenticitySignal,
+  getStoredAuthenticitySignals,
+} from "../../../lib/documentAuthenticity";
+
+interface AuthenticitySignalsCardProps {
+  check: RightToWorkCheck;
+}
+
+// Traits of an edited or forged document found when the check was made;
+// hidden when there are none
+export function AuthenticitySignalsCard({ check }: AuthenticitySignalsCardProps) {
+  const { language } = useReasonLanguage();
+  const signals = getStoredAuthenticitySignals(check.authenticitySignals);
+  if (signals.length === 0) return null;
+
+  return (
+    <Card className="border-amber-200 dark:border-amber-900" data-testid="card-authenticity-signals">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-sm font-medium flex items-center gap-2">
+          <ShieldAlert className="h-4 w-4 text-amber-600 dark:text-amber-400" />
+          Authenticity signals
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <p className="text-sm text-muted-foreground">
+          These traits are typical of edited or forged documents. None of them proves anything on its own – compare the document with the original before relying on it.
+        </p>
+        <ul className="space-y-2 text-sm">
+          {signals.map((signal, index) => (
+            <li key={index} className="space-y-1" data-testid={`authenticity-signal-${signal.code.toLowerCase()}`}>
+              <Badge variant="secondary" className="text-xs bg-amber-100 text-amber-900 dark:bg-amber-950 dark:text-amber-100">
+                {authenticitySignalLabels[signal.code][language]}
+              </Badge>
+              <p className="text-muted-foreground">{describeAuthenticitySignal(signal, language)}</p>
+              {signal.code === "DUPLICATE_DOCUMENT_NUMBER" && typeof signal.params.otherCheckId === "string" && (
+                <Link
+                  href={`/checks/${signal.params.otherCheckId}`}
+                  className="text-xs text-primary hover:underline print:hidden"
+                  data-testid={`link-duplicate-check-${index}`}
+                >
+                  Open the other check
+                </Link>
+              )}
+            </li>
+          ))}
+        </ul>
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,400 @@
+import { useRef, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { StatusBadge } from "@/components/StatusBadge";
+import { DecisionReasonList } from "@/components/check-components";
+import { useToast } from "@/hooks/use-toast";
+import { formatDate } from "@/lib/dateUtils";
+import { FileCheck, Plus, RotateCcw, ScanLine, Trash2 } from "lucide-react";
+import type { BaApproval, RightToWorkCheck, RightToWorkCheckDocument } from "@shared/schema";
+import type { DecisionReason } from "../../../lib/reasonCodes";
+import type { BaApprovalFields } from "../../../lib/baApproval";
+
+interface ApprovalEvaluation {
+  workStatus: RightToWorkCheck["workStatus"];
+  decisionSummary: string;
+  decisionReasons: DecisionReason[];
+  ruleSetVersion: string;
+  evaluatedAsOf: string;
+}
+
+interface ApprovalForm {
+  referenceNumber: string;
+  employerName: string;
+  occupation: string;
+  hoursPerWeek: string;
+  workLocation: string;
+  validFrom: string;
+  validTo: string;
+}
+
+const emptyForm: ApprovalForm = {
+  referenceNumber: "",
+  employerName: "",
+  occupation: "",
+  hoursPerWeek: "",
+  workLocation: "",
+  validFrom: "",
+  validTo: "",
+};
+
+const approvalFormFields: Array<{ key: keyof ApprovalForm; label: string; type: string; placeholder?: string }> = [
+  { key: "referenceNumber", label: "Reference (Geschäftszeichen)", type: "text" },
+  { key: "employerName", label: "Employer", type: "text" },
+  { key: "occupation", label: "Occupation", type: "text", placeholder: "e.g., Softwareentwickler" },
+  { key: "hoursPerWeek", label: "Hours per week", type: "number" },
+  { key: "workLocation", label: "Place of work", type: "text", placeholder: "e.g., 10115 Berlin" },
+  { key: "validFrom", label: "Valid from", type: "date" },
+  { key: "validTo", label: "Valid until", type: "date" },
+];
+
+// Days until the approval ends; negative once it has expired.
+function daysUntil(isoDate: string): number {
+  return Math.ceil((new Date(isoDate).getTime() - Date.now()) / (1000 * 60 * 60 * 24));
+}
+
+function approvalValidityBadge(validTo: string | null) {
+  if (!validTo) {
+    return { label: "No end date", className: "bg-gray-100 text-gray-900 border-gray-300 dark:bg-gray-800 dark:text-gray-100 dark:border-gray-700" };
+  }
+  const days = daysUntil(validTo);
+  if (days < 0) {
+    return { label: "Expired", className: "bg-red-100 text-red-900 border-red-300 dark:bg-red-950 dark:text-red-100 dark:border-red-800" };
+  }
+  if (days <= 90) {
+    return { label: `Expires in ${days}d`, className: "bg-amber-100 text-amber-900 border-amber-300 dark:bg-amber-950 dark:text-amber-100 dark:border-amber-800" };
+  }
+  return { label: "Valid", className: "bg-green-100 text-green-900 border-green-300 dark:bg-green-950 dark:text-green-100 dark:border-green-800" };
+}
+
+interface BaApprovalsCardProps {
+  check: RightToWorkCheck;
+}
+
+// Zustimmung der Bundesagentur für Arbeit recorded for the check. Work is only
+// authorised while both the title and the approval allow it.
+export function BaApprovalsCard({ check }: BaApprovalsCardProps) {
+  const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [form, setForm] = useState<ApprovalForm>(emptyForm);
+  const [scannedFile, setScannedFile] = useState<File | null>(null);
+  const [ocrRawText, setOcrRawText] = useState<string | null>(null);
+  const [ocrFields, setOcrFields] = useState<BaApprovalFields | null>(null);
+  const [evaluation, setEvaluation] = useState<ApprovalEvaluation | null>(null);
+
+  const { data: approvals = [] } = useQuery<BaApproval[]>({
+    queryKey: ["/api/checks", check.id, "ba-approvals"],
+  });
+
+  const resetForm = () => {
+    setShowForm(false);
+    setForm(emptyForm);
+    setScannedFile(null);
+    setOcrRawText(null);
+    setOcrFields(null);
+  };
+
+  const scanMutation = useMutation({
+    mutationFn: async (file: File) => {
+      const formData = new FormData();
+      formData.append("file", file);
+      const res = await fetch("/api/ocr/extract", {
+        method: "POST",
+        body: formData,
+        credentials: "include",
+      });
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error(error.message || error.error || "Text extraction failed");
+      }
+      return await res.json() as { rawText: string; baApprovalGuess?: BaApprovalFields };
+    },
+    onSuccess: (result) => {
+      setOcrRawText(result.rawText);
+      const guess = result.baApprovalGuess;
+      if (!guess) {
+        toast({
+          title: "No approval detected",
+          description: "The document does not look like a Bundesagentur für Arbeit approval. Please enter the details manually.",
+        });
+        return;
+      }
+      setOcrFields(guess);
+      setForm((current) => ({
+        referenceNumber: guess.referenceNumber ?? current.referenceNumber,
+        employerName: guess.employerName ?? current.employerName,
+        occupation: guess.occupation ?? current.occupation,
+        hoursPerWeek: guess.hoursPerWeek != null ? String(guess.hoursPerWeek) : current.hoursPerWeek,
+        workLocation: guess.workLocation ?? current.workLocation,
+        validFrom: guess.validFrom ?? current.validFrom,
+        validTo: guess.validTo ?? current.validTo,
+      }));
+      toast({ title: "Approval scanned", description: "Please check the extracted details before saving." });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Scan failed",
+        description: error.message || "Could not read the document. Please enter the details manually.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const saveMutation = useMutation({
+    mutationFn: async () => {
+      // Keep the scanned letter with the check's other attachments
+      let documentId: string | undefined;
+      if (scannedFile) {
+        const formData = new FormData();
+        formData.append("files", scannedFile);
+        const res = await fetch(`/api/checks/${check.id}/attachments`, {
+          method: "POST",
+          body: formData,
+          credentials: "include",
+        });
+        if (!res.ok) {
+          const error = await res.json();
+          throw new Error(error.error || "Failed to upload the approval letter");
+        }
+        const [document] = await res.json() as RightToWorkCheckDocument[];
+        documentId = document?.id;
+      }
+
+      const response = await apiRequest("POST", `/api/checks/${check.id}/ba-approvals`, {
+        documentId,
+        referenceNumber: form.referenceNumber.trim() || null,
+        employerName: form.employerName.trim() || null,
+        occupation: form.occupation.trim() || null,
+        hoursPerWeek: form.hoursPerWeek ? Number(form.hoursPerWeek) : null,
+        workLocation: form.workLocation.trim() || null,
+        validFrom: form.validFrom || null,
+        validTo: form.validTo || null,
+        ocrRawText,
+        ocrExtractedFields: ocrFields,
+      });
+      return await response.json() as BaApproval;
+    },
+    onSuccess: () => {
+      resetForm();
+      setEvaluation(null);
+      queryClient.invalidateQueries({ queryKey: ["/api/checks", check.id, "ba-approvals"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/checks", check.id, "attachments"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/checks", check.id, "audit-logs"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/reports/expiring-ba-approvals"] });
+      toast({ title: "Approval saved", description: "Re-evaluate to combine it with the residence title." });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save the approval.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (approvalId: string) => {
+      await apiRequest("DELETE", `/api/checks/${check.id}/ba-approvals/${approvalId}`);
+    },
+    onSuccess: () => {
+      setEvaluation(null);
+      queryClient.invalidateQueries({ queryKey: ["/api/checks", check.id, "ba-approvals"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/checks", check.id, "audit-logs"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/reports/expiring-ba-approvals"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to remove the approval.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const evaluateMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/checks/${check.id}/ba-approvals/evaluate`);
+      return await response.json() as ApprovalEvaluation;
+    },
+    onSuccess: (result) => {
+      setEvaluation(result);
+      queryClient.invalidateQueries({ queryKey: ["/api/checks", check.id, "audit-logs"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to evaluate the approval.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleScanFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+    setScannedFile(file);
+    scanMutation.mutate(file);
+  };
+
+  // The earlier of the two end dates limits the work authorisation
+  const currentApproval = approvals[0];
+  const effectiveUntil = currentApproval?.validTo && check.expiryDate && check.expiryDate < currentApproval.validTo
+    ? check.expiryDate
+    : currentApproval?.validTo ?? check.expiryDate;
+
+  return (
+    <Card className="print:hidden" data-testid="card-ba-approvals">
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between gap-3">
+          <CardTitle className="text-sm font-medium flex items-center gap-2">
+            <FileCheck className="h-4 w-4" />
+            Bundesagentur für Arbeit approval
+          </CardTitle>
+          {!showForm && (
+            <Button variant="outline" size="sm" onClick={() => setShowForm(true)} data-testid="button-add-ba-approval">
+              <Plus className="h-4 w-4 mr-2" />
+              Add approval
+            </Button>
+          )}
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {approvals.length === 0 && !showForm && (
+          <p className="text-sm text-muted-foreground" data-testid="text-no-ba-approvals">
+            No approval recorded. Titles issued "nur mit Zustimmung der Bundesagentur für Arbeit" only cover the employment the approval describes.
+          </p>
+        )}
+
+        {approvals.map((approval, index) => {
+          const badge = approvalValidityBadge(approval.validTo);
+          return (
+            <div key={approval.id} className="rounded-lg border p-3 space-y-1 text-sm" data-testid={`ba-approval-${approval.id}`}>
+              <div className="flex items-center justify-between gap-2">
+                <p className="font-medium">
+                  {approval.referenceNumber || "Approval"}
+                  {index > 0 && <span className="text-xs text-muted-foreground font-normal"> (superseded)</span>}
+                </p>
+                <div className="flex items-center gap-2">
+                  <Badge variant="outline" className={`${badge.className} text-xs`} data-testid={`badge-ba-approval-validity-${approval.id}`}>
+                    {badge.label}
+                  </Badge>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-7 w-7"
+                    onClick={() => deleteMutation.mutate(approval.id)}
+                    disabled={deleteMutation.isPending}
+                    data-testid={`button-delete-ba-approval-${approval.id}`}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+              <p className="text-muted-foreground">
+                {[approval.occupation, approval.employerName, approval.workLocation].filter(Boolean).join(" · ") || "No conditions recorded"}
+                {approval.hoursPerWeek != null && ` · ${approval.hoursPerWeek}h/week`}
+              </p>
+              <p className="text-xs text-muted-foreground">
+                Valid {approval.validFrom ? `from ${formatDate(approval.validFrom)} ` : ""}until {approval.validTo ? formatDate(approval.validTo) : "not recorded"}
+              </p>
+            </div>
+          );
+        })}
+
+        {currentApproval && (
+          <div className="flex flex-wrap items-center justify-between gap-2">
+            <p className="text-sm" data-testid="text-effective-authorisation">
+              Work authorised until{" "}
+              <span className="font-semibold">{effectiveUntil ? formatDate(effectiveUntil) : "not recorded"}</span>
+              <span className="text-muted-foreground"> (earlier of title and approval)</span>
+            </p>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => evaluateMutation.mutate()}
+              disabled={evaluateMutation.isPending}
+              data-testid="button-evaluate-ba-approval"
+            >
+              <RotateCcw className="h-4 w-4 mr-2" />
+              {evaluateMutation.isPending ? "Evaluating..." : "Evaluate with approval"}
+            </Button>
+          </div>
+        )}
+
+        {showForm && (
+          <div className="rounded-lg border p-3 space-y-3" data-testid="form-ba-approval">
+            <div className="flex flex-wrap items-center gap-2">
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept=".pdf,.jpg,.jpeg,.png"
+                className="hidden"
+                onChange={handleScanFile}
+                data-testid="input-ba-approval-file"
+              />
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => fileInputRef.current?.click()}
+                disabled={scanMutation.isPending}
+                data-testid="button-scan-ba-approval"
+              >
+                <ScanLine className="h-4 w-4 mr-2" />
+                {scanMutation.isPending ? "Scanning..." : "Scan approval letter"}
+              </Button>
+              {scannedFile && <span className="text-xs text-muted-foreground truncate">{scannedFile.name}</span>}
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              {approvalFormFields.map((field) => (
+                <div key={field.key} className="space-y-1">
+                  <Label htmlFor={`ba-approval-${field.key}`}>{field.label}</Label>
+                  <Input
+                    id={`ba-approval-${field.key}`}
+                    type={field.type}
+                    value={form[field.key]}
+                    placeholder={field.placeholder}
+                    onChange={(e) => setForm((current) => ({ ...current, [field.key]: e.target.value }))}
+                    data-testid={`input-ba-approval-${field.key}`}
+                  />
+                </div>
+              ))}
+            </div>
+            <div className="flex gap-2">
+              <Button
+                size="sm"
+                onClick={() => saveMutation.mutate()}
+                disabled={saveMutation.isPending || scanMutation.isPending}
+                data-testid="button-save-ba-approval"
+              >
+                {saveMutation.isPending ? "Saving..." : "Save approval"}
+              </Button>
+              <Button variant="ghost" size="sm" onClick={resetForm} data-testid="button-cancel-ba-approval">
+                Cancel
+              </Button>
+            </div>
+          </div>
+        )}
+
+        {evaluation && (
+          <div className="space-y-2 rounded-lg border p-3" data-testid="ba-approval-evaluation">
+            <div className="flex items-center gap-3">
+              <StatusBadge status={evaluation.workStatus} />
+              <span className="text-xs text-muted-foreground">
+                Rule set {evaluation.ruleSetVersion}, as of {formatDate(evaluation.evaluatedAsOf)}
+              </span>
+            </div>
+            <p className="text-sm">{evaluation.decisionSummary}</p>
+            <DecisionReasonList reasons={evaluation.decisionReasons} />
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,144 @@
+import { useState } from "react";
+import { useMutation } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { StatusBadge } from "@/components/StatusBadge";
+import { DecisionReasonList } from "@/components/check-components";
+import { useToast } from "@/hooks/use-toast";
+import { formatDate } from "@/lib/dateUtils";
+import { formatBlueCardSalaryCategory, formatEuro } from "@/lib/workEligibilityUtils";
+import { Euro } from "lucide-react";
+import { blueCardSalaryCategories } from "@shared/schema";
+import type { BlueCardSalaryCategory, RightToWorkCheck } from "@shared/schema";
+import type { DecisionReason } from "../../../lib/reasonCodes";
+
+interface SalaryChangeResult {
+  workStatus: RightToWorkCheck["workStatus"];
+  decisionSummary: string;
+  decisionReasons: DecisionReason[];
+  ruleSetVersion: string;
+  previousContractGrossSalaryPerYear: number | null;
+  contractGrossSalaryPerYear: number;
+  evaluatedAsOf: string;
+}
+
+interface BlueCardSalaryChangeCardProps {
+  check: RightToWorkCheck;
+}
+
+// Lets HR check a changed Blue Card contract (e.g. reduced hours and pay)
+// against the minimum salary in force when the change takes effect.
+export function BlueCardSalaryChangeCard({ check }: BlueCardSalaryChangeCardProps) {
+  const { toast } = useToast();
+  const [salary, setSalary] = useState("");
+  const [effectiveDate, setEffectiveDate] = useState("");
+  const [category, setCategory] = useState<BlueCardSalaryCategory | "">(check.blueCardSalaryCategory ?? "");
+  const [result, setResult] = useState<SalaryChangeResult | null>(null);
+
+  const salaryChangeMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/checks/${check.id}/salary-change`, {
+        contractGrossSalaryPerYear: Number(salary),
+        blueCardSalaryCategory: category || undefined,
+        effectiveDate: effectiveDate || undefined,
+      });
+      return await response.json() as SalaryChangeResult;
+    },
+    onSuccess: (data) => {
+      setResult(data);
+      queryClient.invalidateQueries({ queryKey: ["/api/checks", check.id, "audit-logs"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to re-evaluate the salary change.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  return (
+    <Card className="print:hidden" data-testid="card-blue-card-salary-change">
+      <CardHeader className="pb-3">
+        <CardTitle className="text-sm font-medium flex items-center gap-2">
+          <Euro className="h-4 w-4" />
+          Contract salary change
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        <p className="text-sm text-muted-foreground">
+          Recorded salary:{" "}
+          <span data-testid="text-recorded-salary">
+            {check.contractGrossSalaryPerYear != null ? `${formatEuro(check.contractGrossSalaryPerYear)} per year` : "not recorded"}
+          </span>
+          . Enter the new contract salary to check it against the Blue Card minimum. The stored decision is not changed.
+        </p>
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+          <div className="space-y-1">
+            <Label htmlFor="newContractSalary">New gross salary (EUR / year)</Label>
+            <Input
+              id="newContractSalary"
+              type="number"
+              min={0}
+              value={salary}
+              onChange={(e) => setSalary(e.target.value)}
+              placeholder="e.g., 45000"
+              data-testid="input-new-contract-salary"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="salaryChangeEffectiveDate">Effective from</Label>
+            <Input
+              id="salaryChangeEffectiveDate"
+              type="date"
+              value={effectiveDate}
+              onChange={(e) => setEffectiveDate(e.target.value)}
+              data-testid="input-salary-change-date"
+            />
+          </div>
+          <div className="space-y-1">
+            <Label htmlFor="salaryChangeCategory">Occupation group</Label>
+            <Select value={category} onValueChange={(value) => setCategory(value as BlueCardSalaryCategory)}>
+              <SelectTrigger id="salaryChangeCategory" data-testid="select-salary-change-category">
+                <SelectValue placeholder="Standard occupation" />
+              </SelectTrigger>
+              <SelectContent>
+                {blueCardSalaryCategories.map((value) => (
+                  <SelectItem key={value} value={value}>
+                    {formatBlueCardSalaryCategory(value)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => salaryChangeMutation.mutate()}
+          disabled={salary === "" || salaryChangeMutation.isPending}
+          data-testid="button-reevaluate-salary"
+        >
+          {salaryChangeMutation.isPending ? "Re-evaluating..." : "Re-evaluate"}
+        </Button>
+
+        {result && (
+          <div className="space-y-2 rounded-lg border p-3" data-testid="salary-change-result">
+            <div className="flex items-center gap-3">
+              <StatusBadge status={result.workStatus} />
+              <span className="text-xs text-muted-foreground">
+                Rule set {result.ruleSetVersion}, as of {formatDate(result.evaluatedAsOf)}
+              </span>
+            </div>
+            <p className="text-sm">{result.decisionSummary}</p>
+            <DecisionReasonList reasons={result.decisionReasons} />
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,249 @@
+import { useEffect, useRef, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { useToast } from "@/hooks/use-toast";
+import { ChevronLeft, ChevronRight, X } from "lucide-react";
+import type { RedactableField, RightToWorkCheckDocument } from "@shared/schema";
+import { redactableFieldLabels, type RedactionRegion } from "../../../lib/documentRedaction";
+
+interface RedactionDetection {
+  fields: RedactableField[];
+  pageCount: number;
+  regions: RedactionRegion[];
+}
+
+interface Point {
+  x: number;
+  y: number;
+}
+
+// Drags smaller than this share of the page are clicks, not regions
+const MIN_DRAWN_SIDE = 0.01;
+
+interface DocumentRedactionDialogProps {
+  checkId: string;
+  document: RightToWorkCheckDocument | null;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Redaction editor: the regions found in the OCR layout are shown over each
+// page, can be removed and added to by dragging, and are masked on apply
+export function DocumentRedactionDialog({ checkId, document, onOpenChange }: DocumentRedactionDialogProps) {
+  const { toast } = useToast();
+  const [regions, setRegions] = useState<RedactionRegion[]>([]);
+  const [page, setPage] = useState(1);
+  const [dragStart, setDragStart] = useState<Point | null>(null);
+  const [dragEnd, setDragEnd] = useState<Point | null>(null);
+  const overlayRef = useRef<HTMLDivElement>(null);
+  const documentUrl = document ? `/api/checks/${checkId}/documents/${document.id}` : "";
+
+  const { data: detection, isLoading: isDetecting, error: detectionError } = useQuery<RedactionDetection>({
+    queryKey: [documentUrl, "redaction", "detect"],
+    queryFn: async () => {
+      const response = await apiRequest("POST", `${documentUrl}/redaction/detect`, {});
+      return response.json();
+    },
+    enabled: !!document,
+    // Detect again each time the editor opens
+    staleTime: 0,
+    gcTime: 0,
+  });
+
+  useEffect(() => {
+    setRegions(detection?.regions ?? []);
+    setPage(1);
+  }, [detection]);
+
+  const applyMutation = useMutation({
+    mutationFn: async (regionsToMask: RedactionRegion[]) => {
+      const response = await apiRequest("POST", `${documentUrl}/redaction`, { regions: regionsToMask });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/checks", checkId, "attachments"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/checks", checkId, "audit-logs"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/checks", checkId] });
+      toast({
+        title: "Document redacted",
+        description: "The redacted copy is stored. The original is deleted after the retention period.",
+      });
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to redact the document.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const pageCount = detection?.pageCount ?? 1;
+  const pageRegions = regions
+    .map((region, index) => ({ region, index }))
+    .filter(({ region }) => region.page === page);
+
+  // Pointer position as a fraction of the page image
+  const toPoint = (event: React.PointerEvent<HTMLDivElement>): Point | null => {
+    const rect = overlayRef.current?.getBoundingClientRect();
+    if (!rect || rect.width === 0 || rect.height === 0) return null;
+    return {
+      x: Math.min(1, Math.max(0, (event.clientX - rect.left) / rect.width)),
+      y: Math.min(1, Math.max(0, (event.clientY - rect.top) / rect.height)),
+    };
+  };
+
+  const dragBox = dragStart && dragEnd
+    ? {
+        x: Math.min(dragStart.x, dragEnd.x),
+        y: Math.min(dragStart.y, dragEnd.y),
+        width: Math.abs(dragEnd.x - dragStart.x),
+        height: Math.abs(dragEnd.y - dragStart.y),
+      }
+    : null;
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLDivElement>) => {
+    const point = toPoint(event);
+    if (!point) return;
+    event.currentTarget.setPointerCapture(event.pointerId);
+    setDragStart(point);
+    setDragEnd(point);
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLDivElement>) => {
+    if (!dragStart) return;
+    const point = toPoint(event);
+    if (point) setDragEnd(point);
+  };
+
+  const handlePointerUp = () => {
+    if (dragBox && dragBox.width >= MIN_DRAWN_SIDE && dragBox.height >= MIN_DRAWN_SIDE) {
+      setRegions((current) => [...current, { page, box: dragBox }]);
+    }
+    setDragStart(null);
+    setDragEnd(null);
+  };
+
+  const boxStyle = (box: RedactionRegion["box"]) => ({
+    left: `${box.x * 100}%`,
+    top: `${box.y * 100}%`,
+    width: `${box.width * 100}%`,
+    height: `${box.height * 100}%`,
+  });
+
+  return (
+    <Dialog open={!!document} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl" data-testid="dialog-document-redaction">
+        <DialogHeader>
+          <DialogTitle>Redact {document?.fileName}</DialogTitle>
+          <DialogDescription>
+            Black boxes are masked in the stored copy. Check the detected regions, remove any that are wrong and drag over the page to add your own.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isDetecting ? (
+          <p className="text-sm text-muted-foreground">Finding the parts to mask…</p>
+        ) : (
+          <div className="space-y-3">
+            {detectionError && (
+              <p className="text-sm text-amber-700 dark:text-amber-300" data-testid="text-redaction-detection-error">
+                {detectionError.message}
+              </p>
+            )}
+            <div className="relative max-h-[60vh] overflow-auto rounded-md border">
+              <div className="relative">
+                <img
+                  src={`${documentUrl}/pages/${page}`}
+                  alt={`Page ${page} of ${document?.fileName ?? "the document"}`}
+                  className="block w-full select-none"
+                  draggable={false}
+                  data-testid="img-redaction-page"
+                />
+                <div
+                  ref={overlayRef}
+                  className="absolute inset-0 cursor-crosshair touch-none"
+                  onPointerDown={handlePointerDown}
+                  onPointerMove={handlePointerMove}
+                  onPointerUp={handlePointerUp}
+                  data-testid="overlay-redaction-editor"
+                >
+                  {pageRegions.map(({ region, index }) => (
+                    <div
+                      key={index}
+                      className="absolute border border-red-500 bg-black/75"
+                      style={boxStyle(region.box)}
+                      data-testid={`redaction-region-${index}`}
+                    >
+                      <span className="absolute left-0 top-0 bg-red-500 px-1 text-[10px] leading-4 text-white">
+                        {region.field ? redactableFieldLabels[region.field] : "Manual"}
+                      </span>
+                      <button
+                        type="button"
+                        className="absolute right-0 top-0 bg-red-500 text-white"
+                        onPointerDown={(event) => event.stopPropagation()}
+                        onClick={() => setRegions((current) => current.filter((_, i) => i !== index))}
+                        title="Remove region"
+                        data-testid={`button-remove-redaction-region-${index}`}
+                      >
+                        <X className="h-3 w-3" />
+                      </button>
+                    </div>
+                  ))}
+                  {dragBox && (
+                    <div className="absolute border border-dashed border-red-500 bg-black/40" style={boxStyle(dragBox)} />
+                  )}
+                </div>
+              </div>
+            </div>
+
+            <div className="flex items-center justify-between text-sm text-muted-foreground">
+              <span data-testid="text-redaction-region-count">
+                {regions.length} region{regions.length === 1 ? "" : "s"} to mask
+              </span>
+              {pageCount > 1 && (
+                <div className="flex items-center gap-2">
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8"
+                    onClick={() => setPage(page - 1)}
+                    disabled={page <= 1}
+                    data-testid="button-redaction-previous-page"
+                  >
+                    <ChevronLeft className="h-4 w-4" />
+                  </Button>
+                  <span>Page {page} of {pageCount}</span>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8"
+                    onClick={() => setPage(page + 1)}
+                    disabled={page >= pageCount}
+                    data-testid="button-redaction-next-page"
+                  >
+                    <ChevronRight className="h-4 w-4" />
+                  </Button>
+                </div>
+              )}
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} data-testid="button-cancel-redaction">
+            Cancel
+          </Button>
+          <Button
+            onClick={() => applyMutation.mutate(regions)}
+            disabled={isDetecting || regions.length === 0 || applyMutation.isPending}
+            data-testid="button-apply-redaction"
+          >
+            {applyMutation.isPending ? "Redacting..." : "Apply redaction"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,129 @@
+import { useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { useToast } from "@/hooks/use-toast";
+import { Trash2 } from "lucide-react";
+import type { EmployerAlias } from "@shared/schema";
+
+interface EmployerAliasesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function EmployerAliasesDialog({ open, onOpenChange }: EmployerAliasesDialogProps) {
+  const { toast } = useToast();
+  const [alias, setAlias] = useState("");
+
+  const { data: aliases = [], isLoading } = useQuery<EmployerAlias[]>({
+    queryKey: ["/api/employer-aliases"],
+    enabled: open,
+  });
+
+  const addMutation = useMutation({
+    mutationFn: async (value: string) => {
+      const response = await apiRequest("POST", "/api/employer-aliases", { alias: value });
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/employer-aliases"] });
+      setAlias("");
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to add alias.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => {
+      await apiRequest("DELETE", `/api/employer-aliases/${id}`);
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/employer-aliases"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to remove alias.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleAdd = () => {
+    if (alias.trim()) {
+      addMutation.mutate(alias.trim());
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md" data-testid="dialog-employer-aliases">
+        <DialogHeader>
+          <DialogTitle>Employer Aliases</DialogTitle>
+          <DialogDescription>
+            Subsidiaries and trading names you hire under. A permit naming one of these counts as naming your company.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex gap-2">
+          <Input
+            value={alias}
+            onChange={(e) => setAlias(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === "Enter") {
+                e.preventDefault();
+                handleAdd();
+              }
+            }}
+            placeholder="e.g., Muster Personalservice GmbH"
+            data-testid="input-employer-alias"
+          />
+          <Button
+            type="button"
+            onClick={handleAdd}
+            disabled={!alias.trim() || addMutation.isPending}
+            data-testid="button-add-employer-alias"
+          >
+            Add
+          </Button>
+        </div>
+
+        <div className="space-y-2">
+          {isLoading ? (
+            <p className="text-sm text-muted-foreground">Loading…</p>
+          ) : aliases.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No aliases yet.</p>
+          ) : (
+            aliases.map((entry) => (
+              <div
+                key={entry.id}
+                className="flex items-center justify-between gap-2 rounded-md border px-3 py-2 text-sm"
+                data-testid={`employer-alias-${entry.id}`}
+              >
+                <span className="truncate">{entry.alias}</span>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7"
+                  onClick={() => deleteMutation.mutate(entry.id)}
+                  disabled={deleteMutation.isPending}
+                  data-testid={`button-delete-employer-alias-${entry.id}`}
+                >
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            ))
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
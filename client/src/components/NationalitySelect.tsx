@@ -0,0 +1,96 @@
+import { useState } from "react";
+import { Check, ChevronsUpDown } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from "@/components/ui/command";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { cn } from "@/lib/utils";
+import { COUNTRIES, classifyNationality, getCountry, type NationalityCategory } from "../../../lib/nationality";
+
+export const nationalityCategoryLabels: Record<NationalityCategory, string> = {
+  EU_EEA_CH: "EU / EEA / Swiss national",
+  PRIVILEGED_THIRD_COUNTRY: "Privileged third country (§26 Abs. 1 BeschV)",
+  WESTERN_BALKANS: "Western Balkans (§26 Abs. 2 BeschV)",
+  THIRD_COUNTRY: "Third-country national",
+};
+
+interface NationalitySelectProps {
+  id: string;
+  value: string;
+  onChange: (alpha2: string) => void;
+  testId?: string;
+}
+
+// Searchable ISO 3166 country picker; shows the citizenship category the
+// chosen nationality falls into.
+export function NationalitySelect({ id, value, onChange, testId }: NationalitySelectProps) {
+  const [open, setOpen] = useState(false);
+  const selected = getCountry(value);
+  const category = classifyNationality(value);
+
+  const select = (alpha2: string) => {
+    onChange(alpha2);
+    setOpen(false);
+  };
+
+  return (
+    <div className="space-y-1">
+      <Popover open={open} onOpenChange={setOpen}>
+        <PopoverTrigger asChild>
+          <Button
+            id={id}
+            type="button"
+            variant="outline"
+            role="combobox"
+            aria-expanded={open}
+            className="w-full justify-between font-normal"
+            data-testid={testId}
+          >
+            <span className={cn("truncate", !selected && "text-muted-foreground")}>
+              {selected ? `${selected.en} (${selected.alpha2})` : "Select nationality"}
+            </span>
+            <ChevronsUpDown className="ml-2 h-4 w-4 shrink-0 opacity-50" />
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-[--radix-popover-trigger-width] p-0" align="start">
+          <Command>
+            <CommandInput
+              placeholder="Search country or ISO code…"
+              data-testid={testId ? `${testId}-search` : undefined}
+            />
+            <CommandList>
+              <CommandEmpty>No country found.</CommandEmpty>
+              {selected && (
+                <CommandGroup>
+                  <CommandItem value="clear-nationality" onSelect={() => select("")}>
+                    Clear nationality
+                  </CommandItem>
+                </CommandGroup>
+              )}
+              <CommandGroup>
+                {COUNTRIES.map((country) => (
+                  <CommandItem
+                    key={country.alpha2}
+                    value={`${country.en} ${country.de} ${country.alpha2} ${country.alpha3}`}
+                    onSelect={() => select(country.alpha2)}
+                    data-testid={`option-nationality-${country.alpha2.toLowerCase()}`}
+                  >
+                    <Check
+                      className={cn("mr-2 h-4 w-4", selected?.alpha2 === country.alpha2 ? "opacity-100" : "opacity-0")}
+                    />
+                    <span className="flex-1">{country.en}</span>
+                    <span className="text-xs font-mono text-muted-foreground">{country.alpha2}</span>
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            </CommandList>
+          </Command>
+        </PopoverContent>
+      </Popover>
+      {category && (
+        <p className="text-xs text-muted-foreground" data-testid={testId ? `${testId}-category` : undefined}>
+          {nationalityCategoryLabels[category]}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,109 @@
+import { useState } from "react";
+import { Check, ChevronsUpDown } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Command, CommandEmpty, CommandGroup, CommandInput, CommandItem, CommandList } from "@/components/ui/command";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { cn } from "@/lib/utils";
+import {
+  formatOccupationValue,
+  occupationTaxonomyCoverage,
+  resolveOccupation,
+  searchOccupations,
+} from "../../../lib/occupationMatch";
+
+interface OccupationPickerProps {
+  id: string;
+  value: string;
+  onChange: (value: string) => void;
+  placeholder?: string;
+  testId?: string;
+}
+
+// Searchable KldB 2010 / ISCO-08 picker. Free text stays possible for
+// occupations that are not in the bundled taxonomy.
+export function OccupationPicker({ id, value, onChange, placeholder, testId }: OccupationPickerProps) {
+  const [open, setOpen] = useState(false);
+  const [query, setQuery] = useState("");
+
+  const results = searchOccupations(query);
+  const resolved = resolveOccupation(value);
+
+  const select = (nextValue: string) => {
+    onChange(nextValue);
+    setQuery("");
+    setOpen(false);
+  };
+
+  return (
+    <div className="space-y-1">
+      <Popover open={open} onOpenChange={setOpen}>
+        <PopoverTrigger asChild>
+          <Button
+            id={id}
+            type="button"
+            variant="outline"
+            role="combobox"
+            aria-expanded={open}
+            className="w-full justify-between font-normal"
+            data-testid={testId}
+          >
+            <span className={cn("truncate", !value && "text-muted-foreground")}>
+              {value || placeholder || "Select occupation"}
+            </span>
+            <ChevronsUpDown className="ml-2 h-4 w-4 shrink-0 opacity-50" />
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-[--radix-popover-trigger-width] p-0" align="start">
+          <Command shouldFilter={false}>
+            <CommandInput
+              value={query}
+              onValueChange={setQuery}
+              placeholder="Search title, synonym or KldB / ISCO code…"
+              data-testid={testId ? `${testId}-search` : undefined}
+            />
+            <CommandList>
+              <CommandEmpty>No occupation found.</CommandEmpty>
+              {query.trim() && (
+                <CommandGroup>
+                  <CommandItem value={`free-text-${query}`} onSelect={() => select(query.trim())}>
+                    Use “{query.trim()}”
+                  </CommandItem>
+                </CommandGroup>
+              )}
+              <CommandGroup heading="KldB 2010">
+                {results.map((entry) => (
+                  <CommandItem
+                    key={entry.kldb}
+                    value={entry.kldb}
+                    onSelect={() => select(formatOccupationValue(entry))}
+                    data-testid={`option-occupation-${entry.kldb}`}
+                  >
+                    <Check
+                      className={cn(
+                        "mr-2 h-4 w-4",
+                        resolved?.entry.kldb === entry.kldb ? "opacity-100" : "opacity-0"
+                      )}
+                    />
+                    <div className="flex flex-col">
+                      <span>{entry.de}</span>
+                      <span className="text-xs text-muted-foreground">
+                        {entry.en} · KldB {entry.kldb} · ISCO {entry.isco}
+                      </span>
+                    </div>
+                  </CommandItem>
+                ))}
+              </CommandGroup>
+            </CommandList>
+          </Command>
+        </PopoverContent>
+      </Popover>
+      {value && (
+        <p className="text-xs text-muted-foreground" data-testid={testId ? `${testId}-code` : undefined}>
+          {resolved
+            ? `KldB ${resolved.entry.kldb} · ISCO-08 ${resolved.entry.isco}`
+            : `Not in the occupation list (${occupationTaxonomyCoverage.bundledOccupations} of ${occupationTaxonomyCoverage.totalOccupations} KldB 2010 occupations) – compared as free text`}
+        </p>
+      )}
+    </div>
+  );
+}
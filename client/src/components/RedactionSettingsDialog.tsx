@@ -0,0 +1,146 @@
+import { useEffect, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Dialog, DialogContent, DialogDescription, DialogFooter, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { useToast } from "@/hooks/use-toast";
+import { redactableFields, type DocumentRedactionSettings, type RedactableField } from "@shared/schema";
+import { redactableFieldLabels } from "../../../lib/documentRedaction";
+
+export type RedactionSettingsValues = Pick<DocumentRedactionSettings, "enabled" | "maskedFields" | "originalRetentionDays">;
+
+interface RedactionSettingsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function RedactionSettingsDialog({ open, onOpenChange }: RedactionSettingsDialogProps) {
+  const { toast } = useToast();
+  const [enabled, setEnabled] = useState(false);
+  const [maskedFields, setMaskedFields] = useState<RedactableField[]>([]);
+  const [retentionDays, setRetentionDays] = useState("30");
+
+  const { data: settings, isLoading } = useQuery<RedactionSettingsValues>({
+    queryKey: ["/api/redaction-settings"],
+    enabled: open,
+  });
+
+  // Start from the saved settings each time the dialog opens
+  useEffect(() => {
+    if (open && settings) {
+      setEnabled(settings.enabled);
+      setMaskedFields(settings.maskedFields);
+      setRetentionDays(String(settings.originalRetentionDays));
+    }
+  }, [open, settings]);
+
+  const saveMutation = useMutation({
+    mutationFn: async (values: RedactionSettingsValues) => {
+      const response = await apiRequest("PUT", "/api/redaction-settings", values);
+      return response.json();
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ["/api/redaction-settings"] });
+      toast({
+        title: "Redaction settings saved",
+        description: "New redactions use these settings.",
+      });
+      onOpenChange(false);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to save redaction settings.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const days = Number(retentionDays);
+  const isValidDays = retentionDays.trim() !== "" && Number.isInteger(days) && days >= 0 && days <= 3650;
+
+  const toggleField = (field: RedactableField, checked: boolean) => {
+    setMaskedFields((current) => (checked ? [...current, field] : current.filter((entry) => entry !== field)));
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md" data-testid="dialog-redaction-settings">
+        <DialogHeader>
+          <DialogTitle>Document Redaction</DialogTitle>
+          <DialogDescription>
+            Keep only what the check needs. Redacted copies mask the parts below; the unredacted original is deleted once the retention period has passed.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Loading…</p>
+        ) : (
+          <div className="space-y-5">
+            <div className="flex items-center justify-between gap-4">
+              <Label htmlFor="redaction-enabled">Redact stored documents</Label>
+              <Switch
+                id="redaction-enabled"
+                checked={enabled}
+                onCheckedChange={setEnabled}
+                data-testid="switch-redaction-enabled"
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label>Mask</Label>
+              <div className="grid grid-cols-2 gap-3">
+                {redactableFields.map((field) => (
+                  <div key={field} className="flex items-center space-x-2">
+                    <Checkbox
+                      id={`redact-${field}`}
+                      checked={maskedFields.includes(field)}
+                      onCheckedChange={(checked) => toggleField(field, checked === true)}
+                      disabled={!enabled}
+                      data-testid={`checkbox-redact-${field.toLowerCase()}`}
+                    />
+                    <Label htmlFor={`redact-${field}`} className="font-normal">
+                      {redactableFieldLabels[field]}
+                    </Label>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="redaction-retention-days">Keep originals for (days)</Label>
+              <Input
+                id="redaction-retention-days"
+                type="number"
+                min={0}
+                max={3650}
+                value={retentionDays}
+                onChange={(e) => setRetentionDays(e.target.value)}
+                disabled={!enabled}
+                data-testid="input-redaction-retention-days"
+              />
+              <p className="text-xs text-muted-foreground">
+                Counted from the redaction. With 0 the original is deleted straight away.
+              </p>
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button
+            type="button"
+            onClick={() => saveMutation.mutate({ enabled, maskedFields, originalRetentionDays: days })}
+            disabled={isLoading || !isValidDays || saveMutation.isPending}
+            data-testid="button-save-redaction-settings"
+          >
+            {saveMutation.isPending ? "Saving..." : "Save"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
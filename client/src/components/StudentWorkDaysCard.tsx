@@ -0,0 +1,227 @@
+import { useRef, useState } from "react";
+import { useMutation, useQuery } from "@tanstack/react-query";
+import { apiRequest, queryClient } from "@/lib/queryClient";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { StatusBadge } from "@/components/StatusBadge";
+import { DecisionReasonList } from "@/components/check-components";
+import { useToast } from "@/hooks/use-toast";
+import { formatDate } from "@/lib/dateUtils";
+import { GraduationCap, RotateCcw, Upload } from "lucide-react";
+import type { RightToWorkCheck } from "@shared/schema";
+import type { DecisionReason } from "../../../lib/reasonCodes";
+import type { StudentAllowanceLevel, StudentWorkDayUsage } from "../../../lib/studentWorkDays";
+
+interface StudentWorkDaysResponse {
+  studentCheckId: string | null;
+  usage: StudentWorkDayUsage;
+}
+
+interface TimesheetImportResult {
+  total: number;
+  successful: number;
+  failed: number;
+  errors: Array<{ row: number; message: string }>;
+  daysImported: number;
+}
+
+interface AllowanceEvaluation {
+  workStatus: RightToWorkCheck["workStatus"];
+  decisionSummary: string;
+  decisionReasons: DecisionReason[];
+  ruleSetVersion: string;
+  evaluatedAsOf: string;
+}
+
+export const studentAllowanceLevelConfig: Record<StudentAllowanceLevel, { label: string; className: string }> = {
+  WITHIN: {
+    label: "Within allowance",
+    className: "bg-green-100 text-green-900 border-green-300 dark:bg-green-950 dark:text-green-100 dark:border-green-800",
+  },
+  APPROACHING: {
+    label: "Approaching limit",
+    className: "bg-amber-100 text-amber-900 border-amber-300 dark:bg-amber-950 dark:text-amber-100 dark:border-amber-800",
+  },
+  EXCEEDED: {
+    label: "Limit exceeded",
+    className: "bg-red-100 text-red-900 border-red-300 dark:bg-red-950 dark:text-red-100 dark:border-red-800",
+  },
+};
+
+interface StudentWorkDaysCardProps {
+  employeeId: string;
+}
+
+// Days worked this calendar year by a student on a §16b title, with timesheet
+// import and a re-evaluation of the student permit check.
+export function StudentWorkDaysCard({ employeeId }: StudentWorkDaysCardProps) {
+  const { toast } = useToast();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [importResult, setImportResult] = useState<TimesheetImportResult | null>(null);
+  const [evaluation, setEvaluation] = useState<AllowanceEvaluation | null>(null);
+
+  const { data, isLoading } = useQuery<StudentWorkDaysResponse>({
+    queryKey: ["/api/employees", employeeId, "student-work-days"],
+  });
+
+  const importMutation = useMutation({
+    mutationFn: async (file: File) => {
+      const formData = new FormData();
+      formData.append("file", file);
+      const res = await fetch(`/api/employees/${employeeId}/student-work-days/import`, {
+        method: "POST",
+        body: formData,
+        credentials: "include",
+      });
+      if (!res.ok) {
+        const error = await res.json();
+        throw new Error(error.error || "Import failed");
+      }
+      return await res.json() as TimesheetImportResult;
+    },
+    onSuccess: (result) => {
+      setImportResult(result);
+      setEvaluation(null);
+      queryClient.invalidateQueries({ queryKey: ["/api/employees", employeeId, "student-work-days"] });
+      queryClient.invalidateQueries({ queryKey: ["/api/reports/student-work-days"] });
+      toast({
+        title: "Timesheet imported",
+        description: `${result.daysImported} work day${result.daysImported !== 1 ? "s" : ""} imported`,
+        variant: result.failed > 0 ? "destructive" : "default",
+      });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Import failed",
+        description: error.message || "Could not import the timesheet. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const evaluateMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/employees/${employeeId}/student-work-days/evaluate`);
+      return await response.json() as AllowanceEvaluation;
+    },
+    onSuccess: (result) => {
+      setEvaluation(result);
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to re-evaluate the student permit.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+    if (!file.name.endsWith(".csv")) {
+      toast({ title: "Invalid File", description: "Please upload a CSV file", variant: "destructive" });
+      return;
+    }
+    importMutation.mutate(file);
+  };
+
+  if (isLoading || !data) return null;
+  const { usage } = data;
+  const level = studentAllowanceLevelConfig[usage.level];
+
+  return (
+    <Card className="print:hidden" data-testid="card-student-work-days">
+      <CardHeader className="pb-3">
+        <div className="flex items-center justify-between gap-3">
+          <CardTitle className="text-lg font-bold flex items-center gap-2">
+            <GraduationCap className="h-5 w-5" />
+            Student work days {usage.year}
+          </CardTitle>
+          <Badge variant="outline" className={level.className} data-testid="badge-student-allowance-level">
+            {level.label}
+          </Badge>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="space-y-2">
+          <div className="flex items-baseline justify-between gap-2 text-sm">
+            <span data-testid="text-student-days-used">
+              <span className="text-lg font-semibold">{usage.usedDays}</span> of {usage.allowanceDays} days used
+            </span>
+            <span className="text-muted-foreground" data-testid="text-student-days-breakdown">
+              {usage.fullDays} full, {usage.halfDays} half day{usage.halfDays !== 1 ? "s" : ""}
+            </span>
+          </div>
+          <Progress value={Math.min((usage.usedDays / usage.allowanceDays) * 100, 100)} />
+          <p className="text-xs text-muted-foreground">
+            §16b AufenthG: {usage.allowanceDays} full or {usage.allowanceDays * 2} half days per calendar year. Days with up to 4 hours count as half days.
+          </p>
+        </div>
+
+        <div className="flex flex-wrap gap-2">
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".csv"
+            className="hidden"
+            onChange={handleFileChange}
+            data-testid="input-timesheet-file"
+          />
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={() => fileInputRef.current?.click()}
+            disabled={importMutation.isPending}
+            data-testid="button-import-timesheet"
+          >
+            <Upload className="h-4 w-4 mr-2" />
+            {importMutation.isPending ? "Importing..." : "Import timesheet CSV"}
+          </Button>
+          {data.studentCheckId && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => evaluateMutation.mutate()}
+              disabled={evaluateMutation.isPending}
+              data-testid="button-evaluate-student-allowance"
+            >
+              <RotateCcw className="h-4 w-4 mr-2" />
+              {evaluateMutation.isPending ? "Re-evaluating..." : "Re-evaluate permit"}
+            </Button>
+          )}
+        </div>
+        <p className="text-xs text-muted-foreground">
+          CSV columns: <code>date</code> and either <code>hours</code> or <code>start</code>, <code>end</code> (optional <code>break_minutes</code>). Re-imported days replace the stored ones.
+        </p>
+
+        {importResult && importResult.errors.length > 0 && (
+          <div className="rounded-lg border p-3 space-y-1 text-sm" data-testid="timesheet-import-errors">
+            <p className="font-medium">{importResult.failed} row{importResult.failed !== 1 ? "s" : ""} rejected</p>
+            {importResult.errors.slice(0, 5).map((error) => (
+              <p key={error.row} className="text-xs text-muted-foreground">
+                Row {error.row}: {error.message}
+              </p>
+            ))}
+          </div>
+        )}
+
+        {evaluation && (
+          <div className="space-y-2 rounded-lg border p-3" data-testid="student-allowance-evaluation">
+            <div className="flex items-center gap-3">
+              <StatusBadge status={evaluation.workStatus} />
+              <span className="text-xs text-muted-foreground">
+                Rule set {evaluation.ruleSetVersion}, as of {formatDate(evaluation.evaluatedAsOf)}
+              </span>
+            </div>
+            <p className="text-sm">{evaluation.decisionSummary}</p>
+            <DecisionReasonList reasons={evaluation.decisionReasons} />
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
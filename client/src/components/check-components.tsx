@@ -1,11 +1,28 @@
+import { useState } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "@/components/ui/collapsible";
 import { StatusBadge } from "@/components/StatusBadge";
-import { AlertCircle, ChevronDown, FileText, Download, CheckCircle, XCircle, AlertTriangle, Badge as BadgeIcon, Lightbulb } from "lucide-react";
+import { AlertCircle, ChevronDown, ChevronRight, FileText, Download, CheckCircle, XCircle, AlertTriangle, MinusCircle, Badge as BadgeIcon, Lightbulb } from "lucide-react";
 import { formatDate } from "@/lib/dateUtils";
 import { formatDocumentType } from "@/lib/workEligibilityUtils";
-import type { RightToWorkCheck } from "@shared/schema";
+import type { OcrProviderName, RightToWorkCheck } from "@shared/schema";
 import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { useReasonLanguage } from "@/hooks/useReasonLanguage";
+import {
+  formatReason,
+  isMissingInformationReason,
+  reasonLanguages,
+  type DecisionReason,
+  type ReasonLanguage,
+  type ReasonSeverity,
+  type ReasonSource,
+} from "../../../lib/reasonCodes";
+import type { DecisionTraceStep, TraceOutcome } from "../../../lib/decisionTrace";
+import { mrzCheckedFieldLabels, type MrzData } from "../../../lib/mrz";
+import { getCountry } from "../../../lib/nationality";
+import type { OcrGuessField } from "../../../lib/ocr";
+import { isLowConfidence, type OcrFieldSource } from "../../../lib/ocrFieldSource";
 
 interface CheckDecisionPanelProps {
   check: RightToWorkCheck;
@@ -24,7 +41,110 @@ function getNextActionHint(workStatus: string): string {
   }
 }
 
+const severityClasses: Record<ReasonSeverity, string> = {
+  INFO: 'bg-muted text-muted-foreground',
+  WARNING: 'bg-amber-100 text-amber-800 dark:bg-amber-900 dark:text-amber-100',
+  BLOCKER: 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-100',
+};
+
+const reasonListLabels: Record<ReasonLanguage, {
+  details: string;
+  missing: string;
+  severity: Record<ReasonSeverity, string>;
+  source: Record<ReasonSource, string>;
+}> = {
+  en: {
+    details: 'Decision Details',
+    missing: 'Missing Information',
+    severity: { INFO: 'Info', WARNING: 'Warning', BLOCKER: 'Blocker' },
+    source: { RULES: 'Rules', AI: 'AI', GUARDRAIL: 'Guardrail' },
+  },
+  de: {
+    details: 'Entscheidungsgründe',
+    missing: 'Fehlende Angaben',
+    severity: { INFO: 'Hinweis', WARNING: 'Warnung', BLOCKER: 'Ausschluss' },
+    source: { RULES: 'Regeln', AI: 'KI', GUARDRAIL: 'Schutzregel' },
+  },
+};
+
+// Checks created before reason codes existed only have plain decisionDetails
+function getDecisionReasons(check: RightToWorkCheck): DecisionReason[] {
+  return Array.isArray(check.decisionReasons) ? (check.decisionReasons as DecisionReason[]) : [];
+}
+
+interface DecisionReasonListProps {
+  reasons: DecisionReason[];
+}
+
+export function DecisionReasonList({ reasons }: DecisionReasonListProps) {
+  const { language, setLanguage } = useReasonLanguage();
+  const labels = reasonListLabels[language];
+  const missingInfo = reasons.filter(isMissingInformationReason);
+  const regularReasons = reasons.filter((reason) => !isMissingInformationReason(reason));
+
+  const renderReason = (reason: DecisionReason, idx: number) => (
+    <li key={idx} className="space-y-1" data-testid={`reason-${reason.code.toLowerCase()}`}>
+      <p>{formatReason(reason, language)}</p>
+      <div className="flex flex-wrap items-center gap-1.5">
+        <Badge variant="secondary" className={`text-xs ${severityClasses[reason.severity]}`}>
+          {labels.severity[reason.severity]}
+        </Badge>
+        <Badge variant="outline" className="text-xs">
+          {labels.source[reason.source]}
+        </Badge>
+        {reason.legalReference && (
+          <Badge variant="outline" className="text-xs font-mono">
+            {reason.legalReference}
+          </Badge>
+        )}
+        <span className="text-xs font-mono text-muted-foreground/70">{reason.code}</span>
+      </div>
+    </li>
+  );
+
+  return (
+    <div className="space-y-4" data-testid="decision-reasons">
+      <div className="flex items-center justify-between gap-2">
+        <p className="text-sm font-medium">{labels.details}</p>
+        <div className="flex gap-1 print:hidden">
+          {reasonLanguages.map((option) => (
+            <Button
+              key={option}
+              variant={option === language ? 'secondary' : 'ghost'}
+              size="sm"
+              className="h-7 px-2 text-xs"
+              onClick={() => setLanguage(option)}
+              data-testid={`button-reason-language-${option}`}
+            >
+              {option.toUpperCase()}
+            </Button>
+          ))}
+        </div>
+      </div>
+
+      {regularReasons.length > 0 && (
+        <ul className="space-y-2 text-sm text-muted-foreground">
+          {regularReasons.map(renderReason)}
+        </ul>
+      )}
+
+      {missingInfo.length > 0 && (
+        <div className="p-3 rounded-lg bg-muted/50 border border-muted-foreground/20">
+          <p className="text-sm font-medium mb-2 flex items-center gap-2">
+            <AlertCircle className="h-4 w-4 text-muted-foreground" />
+            {labels.missing}
+          </p>
+          <ul className="space-y-2 text-sm text-muted-foreground">
+            {missingInfo.map(renderReason)}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
+
 export function CheckDecisionPanel({ check, showLatestBadge = false }: CheckDecisionPanelProps) {
+  const decisionReasons = getDecisionReasons(check);
   const missingInfo = check.decisionDetails?.filter((detail: string) =>
     detail.startsWith('We could not determine from the information provided')
   ) || [];
@@ -137,6 +257,14 @@ export function CheckDecisionPanel({ check, showLatestBadge = false }: CheckDeci
               <p className="font-medium">{check.countryOfIssue}</p>
             </div>
           )}
+          {check.nationality && (
+            <div>
+              <p className="text-muted-foreground">Nationality</p>
+              <p className="font-medium" data-testid="text-check-nationality">
+                {getCountry(check.nationality)?.en ?? check.nationality}
+              </p>
+            </div>
+          )}
           {check.dateOfIssue && (
             <div>
               <p className="text-muted-foreground">Issue Date</p>
@@ -145,8 +273,32 @@ export function CheckDecisionPanel({ check, showLatestBadge = false }: CheckDeci
           )}
           <div>
             <p className="text-muted-foreground">Expiry Date</p>
-            <p className="font-mono font-medium">{formatDate(check.expiryDate)}</p>
+            <p className="font-mono font-medium">
+              {check.isTitleUnlimited ? "Unlimited" : formatDate(check.expiryDate)}
+            </p>
           </div>
+          {check.isTitleUnlimited && check.cardExpiryDate && (
+            <div>
+              <p className="text-muted-foreground">Card Valid Until</p>
+              <p className="font-mono">{formatDate(check.cardExpiryDate)}</p>
+            </div>
+          )}
+          {check.dateOfBirth && (
+            <div>
+              <p className="text-muted-foreground">Date of Birth</p>
+              <p className="font-mono">{formatDate(check.dateOfBirth)}</p>
+            </div>
+          )}
+          {check.passportNumber && (
+            <div>
+              <p className="text-muted-foreground">Passport</p>
+              <p className="font-mono font-medium" data-testid="text-check-passport">
+                {check.passportNumber}
+                {check.passportIssuingCountry && ` (${check.passportIssuingCountry})`}
+                {check.passportExpiryDate && `, valid until ${formatDate(check.passportExpiryDate)}`}
+              </p>
+            </div>
+          )}
         </div>
 
         {check.decisionSummary && (
@@ -169,7 +321,9 @@ export function CheckDecisionPanel({ check, showLatestBadge = false }: CheckDeci
           </p>
         </div>
 
-        {(regularDetails.length > 0 || missingInfo.length > 0) && (
+        {decisionReasons.length > 0 ? (
+          <DecisionReasonList reasons={decisionReasons} />
+        ) : (regularDetails.length > 0 || missingInfo.length > 0) && (
           <div className="space-y-4">
             {regularDetails.length > 0 && (
               <div>
@@ -208,6 +362,175 @@ export function CheckDecisionPanel({ check, showLatestBadge = false }: CheckDeci
   );
 }
 
+const traceOutcomeConfig: Record<TraceOutcome, { label: string; icon: typeof CheckCircle; iconClass: string }> = {
+  PASSED: { label: 'Passed', icon: CheckCircle, iconClass: 'text-green-600 dark:text-green-400' },
+  FLAGGED: { label: 'Flagged', icon: AlertTriangle, iconClass: 'text-amber-600 dark:text-amber-400' },
+  STOPPED: { label: 'Stopped evaluation', icon: XCircle, iconClass: 'text-red-600 dark:text-red-400' },
+  NOT_APPLICABLE: { label: 'Not applicable', icon: MinusCircle, iconClass: 'text-muted-foreground' },
+};
+
+const traceStatusLabels: Record<string, string> = {
+  ELIGIBLE: 'Eligible',
+  NOT_ELIGIBLE: 'Not eligible',
+  NEEDS_REVIEW: 'Needs review',
+};
+
+function formatTraceValue(value: DecisionTraceStep['inputs'][string]): string {
+  if (value === null || value === '') return '—';
+  if (typeof value === 'boolean') return value ? 'Yes' : 'No';
+  return String(value);
+}
+
+// Checks created before the trace existed have no decisionTrace
+export function getDecisionTrace(check: RightToWorkCheck): DecisionTraceStep[] {
+  return Array.isArray(check.decisionTrace) ? (check.decisionTrace as DecisionTraceStep[]) : [];
+}
+
+interface DecisionTraceTreeProps {
+  steps: DecisionTraceStep[];
+  testIdPrefix?: string;
+}
+
+export function DecisionTraceTree({ steps, testIdPrefix = 'trace' }: DecisionTraceTreeProps) {
+  const [showAll, setShowAll] = useState(false);
+  const relevantSteps = steps.filter((step) => step.outcome !== 'NOT_APPLICABLE');
+  const visibleSteps = showAll ? steps : relevantSteps;
+  const hiddenCount = steps.length - relevantSteps.length;
+
+  return (
+    <div className="space-y-2" data-testid={`${testIdPrefix}-tree`}>
+      <ul className="space-y-1">
+        {visibleSteps.map((step, idx) => {
+          const config = traceOutcomeConfig[step.outcome];
+          const OutcomeIcon = config.icon;
+          const statusChanged = step.statusBefore !== step.statusAfter;
+          return (
+            <li key={`${step.rule}-${idx}`} data-testid={`${testIdPrefix}-step-${step.rule.toLowerCase()}`}>
+              <Collapsible>
+                <CollapsibleTrigger className="group flex w-full items-center gap-2 rounded-md px-2 py-1.5 text-left text-sm hover-elevate">
+                  <ChevronRight className="h-3.5 w-3.5 shrink-0 text-muted-foreground transition-transform group-data-[state=open]:rotate-90" />
+                  <OutcomeIcon className={`h-4 w-4 shrink-0 ${config.iconClass}`} />
+                  <span className="flex-1 min-w-0 truncate">{step.label}</span>
+                  {statusChanged && (
+                    <span className="text-xs text-muted-foreground whitespace-nowrap">
+                      {traceStatusLabels[step.statusBefore]} → {traceStatusLabels[step.statusAfter]}
+                    </span>
+                  )}
+                </CollapsibleTrigger>
+                <CollapsibleContent>
+                  <div className="ml-7 mt-1 mb-2 space-y-2 border-l pl-3 text-xs">
+                    <div className="flex flex-wrap items-center gap-1.5">
+                      <Badge variant="outline" className="text-xs">{config.label}</Badge>
+                      <span className="font-mono text-muted-foreground/70">{step.rule}</span>
+                    </div>
+                    {Object.keys(step.inputs).length > 0 && (
+                      <dl className="grid grid-cols-[auto_1fr] gap-x-3 gap-y-0.5">
+                        {Object.entries(step.inputs).map(([key, value]) => (
+                          <div key={key} className="contents">
+                            <dt className="font-mono text-muted-foreground">{key}</dt>
+                            <dd className="break-words">{formatTraceValue(value)}</dd>
+                          </div>
+                        ))}
+                      </dl>
+                    )}
+                    {step.reasonCodes.length > 0 && (
+                      <div className="flex flex-wrap gap-1">
+                        {step.reasonCodes.map((code) => (
+                          <Badge key={code} variant="secondary" className="text-xs font-mono">
+                            {code}
+                          </Badge>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+                </CollapsibleContent>
+              </Collapsible>
+            </li>
+          );
+        })}
+      </ul>
+      {hiddenCount > 0 && (
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-7 px-2 text-xs print:hidden"
+          onClick={() => setShowAll(!showAll)}
+          data-testid={`${testIdPrefix}-button-toggle-all`}
+        >
+          {showAll ? 'Hide rules that did not apply' : `Show ${hiddenCount} rules that did not apply`}
+        </Button>
+      )}
+    </div>
+  );
+}
+
+const ocrProviderLabels: Record<OcrProviderName, string> = {
+  GOOGLE_VISION: "Google Cloud Vision",
+  TESSERACT: "Tesseract (on-premise)",
+};
+
+const ocrFieldLabels: Record<OcrGuessField, string> = {
+  documentTypeGuess: "Document type",
+  documentNumberGuess: "Document number",
+  expiryDateGuessIso: "Expiry date",
+  issueDateGuessIso: "Date of issue",
+  birthDateGuessIso: "Date of birth",
+  employerNameGuess: "Employer",
+  employmentPermissionGuess: "Employment permission",
+  nationalityGuess: "Nationality",
+};
+
+interface OcrFieldOverlayProps {
+  imageUrl: string;
+  fieldSources: Partial<Record<OcrGuessField, OcrFieldSource>>;
+}
+
+// Scanned image with a box around the line each field was read from
+function OcrFieldOverlay({ imageUrl, fieldSources }: OcrFieldOverlayProps) {
+  const [failed, setFailed] = useState(false);
+  const located = (Object.entries(fieldSources) as [OcrGuessField, OcrFieldSource | undefined][])
+    .filter((entry): entry is [OcrGuessField, OcrFieldSource & { box: NonNullable<OcrFieldSource['box']> }] => !!entry[1]?.box);
+
+  if (failed || located.length === 0) {
+    return null;
+  }
+
+  return (
+    <div>
+      <p className="text-sm font-medium mb-2">Field Locations</p>
+      <div className="relative inline-block max-w-full" data-testid="ocr-field-overlay">
+        <img
+          src={imageUrl}
+          alt="Scanned document"
+          className="block max-w-full rounded-md"
+          onError={() => setFailed(true)}
+        />
+        {located.map(([field, source]) => {
+          const lowConfidence = isLowConfidence(source);
+          return (
+            <div
+              key={field}
+              className={`absolute border-2 rounded-sm ${lowConfidence ? 'border-amber-500 bg-amber-500/10' : 'border-primary bg-primary/10'}`}
+              style={{
+                left: `${source.box.x * 100}%`,
+                top: `${source.box.y * 100}%`,
+                width: `${source.box.width * 100}%`,
+                height: `${source.box.height * 100}%`,
+              }}
+              title={`${ocrFieldLabels[field]}: ${Math.round(source.confidence * 100)}% confidence`}
+              data-testid={`ocr-box-${field}`}
+            >
+              <span className={`absolute -top-5 left-0 whitespace-nowrap rounded px-1 text-[10px] font-medium text-white ${lowConfidence ? 'bg-amber-500' : 'bg-primary'}`}>
+                {ocrFieldLabels[field]} · {Math.round(source.confidence * 100)}%
+              </span>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
 interface CheckAuditTrailProps {
   check: RightToWorkCheck;
 }
@@ -237,7 +560,12 @@ export function CheckAuditTrail({ check }: CheckAuditTrailProps) {
     | 'UNKNOWN'
     | undefined;
 
-  const hasInsights = employerNameGuess || employmentPermissionGuess;
+  const mrz = extractedFieldsObj?.mrz as MrzData | null | undefined;
+  const fieldSources = extractedFieldsObj?.fieldSources as Partial<Record<OcrGuessField, OcrFieldSource>> | undefined;
+  // Boxes are positions on a page image; PDFs have no single image to draw them on
+  const isPdfScan = extractedFieldsObj?.totalPages !== undefined;
+
+  const hasInsights = employerNameGuess || employmentPermissionGuess || mrz;
 
   const getPermissionLabel = (permission: typeof employmentPermissionGuess): string => {
     switch (permission) {
@@ -301,9 +629,31 @@ export function CheckAuditTrail({ check }: CheckAuditTrailProps) {
                       <span>Permission unclear</span>
                     </Badge>
                   )}
+                  {mrz?.isValid && (
+                    <Badge variant="secondary" className="gap-1.5 bg-green-50 dark:bg-green-950/20 text-green-700 dark:text-green-300 border-green-200 dark:border-green-800" data-testid="badge-mrz-valid">
+                      <CheckCircle className="h-3 w-3" />
+                      <span>MRZ check digits valid</span>
+                    </Badge>
+                  )}
+                  {mrz && !mrz.isValid && (
+                    <Badge variant="secondary" className="gap-1.5 bg-amber-50 dark:bg-amber-950/20 text-amber-700 dark:text-amber-300 border-amber-200 dark:border-amber-800" data-testid="badge-mrz-invalid">
+                      <AlertTriangle className="h-3 w-3" />
+                      <span>
+                        MRZ check digit failed: {mrz.failedCheckDigits.map((field) => mrzCheckedFieldLabels[field]?.en ?? field).join(', ')}
+                      </span>
+                    </Badge>
+                  )}
                 </div>
               </div>
             )}
+            {check.ocrProvider && (
+              <p className="text-xs text-muted-foreground" data-testid="text-ocr-provider">
+                Read with {ocrProviderLabels[check.ocrProvider]}
+              </p>
+            )}
+            {check.fileUrl && fieldSources && !isPdfScan && (
+              <OcrFieldOverlay imageUrl={check.fileUrl} fieldSources={fieldSources} />
+            )}
             {extractedFieldsObj && (
               <div>
                 <p className="text-sm font-medium mb-2">Extracted Fields</p>
@@ -0,0 +1,28 @@
+import { useEffect, useState } from "react";
+import { reasonLanguages, type ReasonLanguage } from "../../../lib/reasonCodes";
+
+const STORAGE_KEY = "rtwde_reason_language";
+
+// Language decision reasons are rendered in, remembered across pages.
+export function useReasonLanguage() {
+  const [language, setLanguage] = useState<ReasonLanguage>(() => {
+    if (typeof window === "undefined") return "en";
+    try {
+      const stored = window.localStorage.getItem(STORAGE_KEY);
+      return reasonLanguages.includes(stored as ReasonLanguage) ? (stored as ReasonLanguage) : "en";
+    } catch {
+      return "en";
+    }
+  });
+
+  useEffect(() => {
+    if (typeof window === "undefined") return;
+    try {
+      window.localStorage.setItem(STORAGE_KEY, language);
+    } catch {
+      // ignore
+    }
+  }, [language]);
+
+  return { language, setLanguage };
+}
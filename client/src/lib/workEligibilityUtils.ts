@@ -1,4 +1,5 @@
-import type { DocumentType } from "@shared/schema";
+import { unlimitableDocumentTypes, unlimitedDocumentTypes } from "@shared/schema";
+import type { BlueCardSalaryCategory, DocumentType } from "@shared/schema";
 import type {
   EvaluateRightToWorkInput,
   EvaluateRightToWorkResult,
@@ -49,6 +50,7 @@ export function evaluateRightToWork({
     documentValidFrom,
     documentValidTo: new Date(expiryDate).toISOString().split("T")[0],
     employmentPermission: overrides?.employmentPermission ?? "UNCLEAR",
+    employmentPermittedUntil: overrides?.employmentPermittedUntil,
     hiringEmployerName: overrides?.hiringEmployerName ?? "Not specified",
     permitNamesSpecificEmployer: overrides?.permitNamesSpecificEmployer ?? "UNKNOWN",
     employerOnPermit: overrides?.employerOnPermit,
@@ -62,8 +64,10 @@ export function evaluateRightToWork({
     locationRestrictionDescription: overrides?.locationRestrictionDescription,
     plannedWorkCity: overrides?.plannedWorkCity ?? "Not specified",
     isBlueCard: overrides?.isBlueCard ?? documentType === "EU_BLUE_CARD",
-    isChangingEmployer: overrides?.isChangingEmployer ?? false,
+    isChangingEmployer: overrides?.isChangingEmployer ?? true,
     monthsOnBlueCardInGermany: overrides?.monthsOnBlueCardInGermany,
+    contractGrossSalaryPerYear: overrides?.contractGrossSalaryPerYear,
+    blueCardSalaryCategory: overrides?.blueCardSalaryCategory,
     isContinuationOfSameJobAndEmployer: overrides?.isContinuationOfSameJobAndEmployer,
     freeTextNotes:
       overrides?.freeTextNotes ||
@@ -77,6 +81,15 @@ const documentTypeMapping: Record<DocumentType, EvaluateRightToWorkInput["docume
   EU_BLUE_CARD: "EU_BLUE_CARD",
   EAT: "EAT_EMPLOYMENT",
   FIKTIONSBESCHEINIGUNG: "FIKTIONSBESCHEINIGUNG",
+  NIEDERLASSUNGSERLAUBNIS: "NIEDERLASSUNGSERLAUBNIS",
+  DAUERAUFENTHALT_EU: "DAUERAUFENTHALT_EU",
+  AUFENTHALTSGESTATTUNG: "AUFENTHALTSGESTATTUNG",
+  DULDUNG: "DULDUNG",
+  TEMPORARY_PROTECTION_24: "TEMPORARY_PROTECTION_24",
+  CHANCENKARTE: "CHANCENKARTE",
+  ICT_KARTE: "ICT_KARTE",
+  WESTBALKAN_REGELUNG: "WESTBALKAN_REGELUNG",
+  STUDENT_PERMIT: "STUDENT_PERMIT",
   OTHER: "OTHER",
 };
 
@@ -85,11 +98,58 @@ export function formatDocumentType(type: DocumentType): string {
     EU_BLUE_CARD: "EU Blue Card",
     EAT: "EAT (Employment Authorization)",
     FIKTIONSBESCHEINIGUNG: "Fiktionsbescheinigung",
+    NIEDERLASSUNGSERLAUBNIS: "Niederlassungserlaubnis (Settlement Permit)",
+    DAUERAUFENTHALT_EU: "Daueraufenthalt-EU (EU Long-term Residence)",
+    AUFENTHALTSGESTATTUNG: "Aufenthaltsgestattung (Asylum Seeker)",
+    DULDUNG: "Duldung with Beschäftigungserlaubnis",
+    TEMPORARY_PROTECTION_24: "§24 Temporary Protection (Ukraine)",
+    CHANCENKARTE: "Chancenkarte (Opportunity Card)",
+    ICT_KARTE: "ICT-Karte (Intra-Corporate Transfer)",
+    WESTBALKAN_REGELUNG: "Westbalkanregelung",
+    STUDENT_PERMIT: "§16b Student Residence Permit",
     OTHER: "Other Document",
   };
   return typeMap[type];
 }
 
+export function formatBlueCardSalaryCategory(category: BlueCardSalaryCategory): string {
+  const categoryMap: Record<BlueCardSalaryCategory, string> = {
+    STANDARD: "Standard occupation",
+    SHORTAGE_OCCUPATION: "Shortage occupation (Engpassberuf)",
+    NEW_ENTRANT: "New entrant (degree within 3 years)",
+  };
+  return categoryMap[category];
+}
+
+export function formatEuro(amount: number): string {
+  return new Intl.NumberFormat("en-GB", {
+    style: "currency",
+    currency: "EUR",
+    minimumFractionDigits: Number.isInteger(amount) ? 0 : 2,
+    maximumFractionDigits: 2,
+  }).format(amount);
+}
+
+// Settlement permits and EU long-term residence never expire; only the card does.
+export function isUnlimitedDocumentType(type: DocumentType): boolean {
+  return (unlimitedDocumentTypes as readonly DocumentType[]).includes(type);
+}
+
+// Only these types may be marked unbefristet on the check form.
+export function canBeUnlimitedDocumentType(type: DocumentType): boolean {
+  return (unlimitableDocumentTypes as readonly DocumentType[]).includes(type);
+}
+
+// Date the check needs renewing: the title's expiry, or for an unbefristet
+// title the expiry of the card carrying it
+export function getRenewalDate(check: {
+  isTitleUnlimited?: boolean | null;
+  expiryDate?: string | null;
+  cardExpiryDate?: string | null;
+}): string | null {
+  return (check.isTitleUnlimited ? check.cardExpiryDate : check.expiryDate) ?? null;
+}
+
 export function isExpiringSoon(expiryDate: string, daysThreshold: number = 60): boolean {
   const now = new Date();
   const expiry = new Date(expiryDate);
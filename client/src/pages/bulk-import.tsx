@@ -76,7 +76,7 @@ export default function BulkImport() {
   };
 
   const downloadTemplate = () => {
-    const csvContent = "first_name,last_name,date_of_birth,notes\nJohn,Doe,1990-01-15,New hire\nJane,Smith,1985-03-22,Transfer from Berlin office";
+    const csvContent = "first_name,last_name,date_of_birth,nationality,notes\nJohn,Doe,1990-01-15,US,New hire\nJane,Smith,1985-03-22,IN,Transfer from Berlin office";
     const blob = new Blob([csvContent], { type: "text/csv" });
     const url = URL.createObjectURL(blob);
     const link = document.createElement("a");
@@ -111,14 +111,16 @@ export default function BulkImport() {
               <div className="mt-4 p-4 bg-muted/30 rounded-md">
                 <p className="text-sm font-medium mb-2">Template Format:</p>
                 <code className="text-xs font-mono block">
-                  first_name, last_name, date_of_birth, notes
+                  first_name, last_name, date_of_birth, nationality, notes
                 </code>
                 <p className="text-xs text-muted-foreground mt-2">
                   • date_of_birth format: YYYY-MM-DD (e.g., 1990-01-15)
                   <br />
+                  • nationality: ISO country code or country name (e.g., IN, USA, Serbia)
+                  <br />
                   • first_name and last_name are required
                   <br />
-                  • date_of_birth and notes are optional
+                  • date_of_birth, nationality and notes are optional
                 </p>
               </div>
             </CardContent>
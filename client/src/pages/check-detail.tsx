@@ -23,26 +23,52 @@ import {
   AlertDialogHeader,
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
-import { CheckDecisionPanel, CheckAuditTrail } from "@/components/check-components";
+import { CheckDecisionPanel, CheckAuditTrail, DecisionReasonList, DecisionTraceTree, getDecisionTrace } from "@/components/check-components";
 import { StatusInterpretation } from "@/components/StatusInterpretation";
-import { ArrowLeft, User, Printer, Trash2, FileText, Plus, Paperclip, Upload, Download, X, Clock, Star } from "lucide-react";
+import { BlueCardSalaryChangeCard } from "@/components/BlueCardSalaryChangeCard";
+import { BaApprovalsCard } from "@/components/BaApprovalsCard";
+import { AuthenticitySignalsCard } from "@/components/AuthenticitySignalsCard";
+import { DocumentRedactionDialog } from "@/components/DocumentRedactionDialog";
+import { RedactionSettingsDialog, type RedactionSettingsValues } from "@/components/RedactionSettingsDialog";
+import { StatusBadge } from "@/components/StatusBadge";
+import { ArrowLeft, User, Printer, Trash2, FileText, Plus, Paperclip, Upload, Download, X, Clock, Star, RotateCcw, ListTree, EyeOff, Settings } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import type { RightToWorkCheck, RightToWorkCheckNote, RightToWorkCheckDocument, AuditLog } from "@shared/schema";
 import { formatDate } from "@/lib/dateUtils";
+import type { DecisionReason } from "../../../lib/reasonCodes";
+import type { DecisionTraceStep } from "../../../lib/decisionTrace";
 import { PageHeader } from "@/components/PageHeader";
 
 function formatAuditLogAction(action: string): string {
   const actionMap: Record<string, string> = {
     CHECK_CREATED: "Check created",
     CASE_STATUS_UPDATED: "Case status updated",
+    CHECK_RERUN: "Check re-run under original rules",
+    BLUE_CARD_SALARY_REEVALUATED: "Blue Card salary change re-evaluated",
+    STUDENT_ALLOWANCE_EVALUATED: "Student work-day allowance re-evaluated",
+    BA_APPROVAL_ADDED: "BA approval recorded",
+    BA_APPROVAL_DELETED: "BA approval removed",
+    BA_APPROVAL_EVALUATED: "Check evaluated with BA approval",
     NOTE_ADDED: "Note added",
     ATTACHMENT_ADDED: "Attachment uploaded",
+    DOCUMENT_REDACTED: "Document redacted",
+    ORIGINAL_DOCUMENT_DELETED: "Original document deleted after redaction",
     EMPLOYEE_DELETED: "Employee deleted",
   };
   return actionMap[action] || action;
 }
 
+interface RerunResult {
+  workStatus: RightToWorkCheck["workStatus"];
+  decisionSummary: string;
+  decisionDetails: string[];
+  decisionReasons: DecisionReason[];
+  ruleSetVersion: string;
+  decisionTrace: DecisionTraceStep[];
+  evaluatedAsOf: string;
+}
+
 export default function CheckDetail() {
   const [, params] = useRoute("/checks/:id");
   const [, setLocation] = useLocation();
@@ -50,6 +76,9 @@ export default function CheckDetail() {
   const [showDeleteDialog, setShowDeleteDialog] = useState(false);
   const [newNote, setNewNote] = useState("");
   const [selectedFiles, setSelectedFiles] = useState<FileList | null>(null);
+  const [rerunResult, setRerunResult] = useState<RerunResult | null>(null);
+  const [redactingDocument, setRedactingDocument] = useState<RightToWorkCheckDocument | null>(null);
+  const [showRedactionSettings, setShowRedactionSettings] = useState(false);
   const { toast } = useToast();
 
   const { data: check, isLoading } = useQuery<RightToWorkCheck>({
@@ -72,6 +101,10 @@ export default function CheckDetail() {
     enabled: !!checkId,
   });
 
+  const { data: redactionSettings } = useQuery<RedactionSettingsValues>({
+    queryKey: ["/api/redaction-settings"],
+  });
+
   const addNoteMutation = useMutation({
     mutationFn: async (content: string) => {
       await apiRequest("POST", `/api/checks/${checkId}/notes`, { content });
@@ -135,6 +168,24 @@ export default function CheckDetail() {
     },
   });
 
+  const rerunMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest("POST", `/api/checks/${checkId}/rerun`);
+      return await response.json() as RerunResult;
+    },
+    onSuccess: (data) => {
+      setRerunResult(data);
+      queryClient.invalidateQueries({ queryKey: ["/api/checks", checkId, "audit-logs"] });
+    },
+    onError: (error: Error) => {
+      toast({
+        title: "Error",
+        description: error.message || "Failed to re-run check. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+
   const uploadAttachmentsMutation = useMutation({
     mutationFn: async (files: FileList) => {
       const formData = new FormData();
@@ -155,13 +206,17 @@ export default function CheckDetail() {
       
       return response.json();
     },
-    onSuccess: () => {
+    onSuccess: (uploaded: { fileName: string; duplicateOf?: { checkId: string }[] }[]) => {
       queryClient.invalidateQueries({ queryKey: ["/api/checks", checkId, "attachments"] });
       queryClient.invalidateQueries({ queryKey: ["/api/checks", checkId, "audit-logs"] });
       setSelectedFiles(null);
+      // The server recognises files uploaded before by their content hash
+      const duplicates = uploaded.filter((doc) => doc.duplicateOf && doc.duplicateOf.length > 0);
       toast({
         title: "Attachments uploaded",
-        description: "Files have been successfully uploaded.",
+        description: duplicates.length > 0
+          ? `Files have been successfully uploaded. Already uploaded before: ${duplicates.map((doc) => doc.fileName).join(", ")}.`
+          : "Files have been successfully uploaded.",
       });
     },
     onError: (error: any) => {
@@ -303,6 +358,7 @@ export default function CheckDetail() {
   const regularDetails = check.decisionDetails?.filter((detail: string) =>
     !detail.startsWith('We could not determine from the information provided')
   ) || [];
+  const decisionTrace = getDecisionTrace(check);
 
   return (
     <div className="max-w-7xl mx-auto px-6 py-8 print:px-0 print:py-0">
@@ -362,6 +418,8 @@ export default function CheckDetail() {
             {/* Status Interpretation - shows in both screen and print */}
             <StatusInterpretation status={check.workStatus} />
             
+            <AuthenticitySignalsCard check={check} />
+            
             {/* How this decision was made - shows in both screen and print */}
             <Card className="bg-blue-50/50 dark:bg-blue-950/20 border-blue-200 dark:border-blue-900" data-testid="how-decision-made">
               <CardHeader className="pb-3">
@@ -387,6 +445,14 @@ export default function CheckDetail() {
                     <span className="text-blue-600 dark:text-blue-400 mt-0.5">•</span>
                     <span>A rules engine checked document type and expiry.</span>
                   </li>
+                  {check.ruleSetVersion && (
+                    <li className="flex items-start gap-2">
+                      <span className="text-blue-600 dark:text-blue-400 mt-0.5">•</span>
+                      <span data-testid="text-rule-set-version">
+                        Rules in force at the time were applied (rule set {check.ruleSetVersion}).
+                      </span>
+                    </li>
+                  )}
                   <li className="flex items-start gap-2">
                     <span className="text-blue-600 dark:text-blue-400 mt-0.5">•</span>
                     <span>Any conflicts or uncertainties automatically downgrade the status to 'Needs review'.</span>
@@ -395,6 +461,68 @@ export default function CheckDetail() {
               </CardContent>
             </Card>
             
+            {decisionTrace.length > 0 && (
+              <Card data-testid="card-decision-trace">
+                <CardHeader className="pb-3">
+                  <CardTitle className="text-sm font-medium flex items-center gap-2">
+                    <ListTree className="h-4 w-4" />
+                    Decision trace
+                  </CardTitle>
+                </CardHeader>
+                <CardContent className="space-y-3">
+                  <p className="text-sm text-muted-foreground">
+                    Every rule that was evaluated, the values it read and how it changed the status. Expand a rule to see its inputs.
+                  </p>
+                  <DecisionTraceTree steps={decisionTrace} />
+                </CardContent>
+              </Card>
+            )}
+            
+            <Card className="print:hidden" data-testid="card-rerun-check">
+              <CardHeader className="pb-3">
+                <div className="flex items-center justify-between gap-3">
+                  <CardTitle className="text-sm font-medium">Re-run under original rules</CardTitle>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => rerunMutation.mutate()}
+                    disabled={rerunMutation.isPending}
+                    data-testid="button-rerun-check"
+                  >
+                    <RotateCcw className="h-4 w-4 mr-2" />
+                    {rerunMutation.isPending ? "Re-running..." : "Re-run"}
+                  </Button>
+                </div>
+              </CardHeader>
+              <CardContent className="space-y-3">
+                <p className="text-sm text-muted-foreground">
+                  Evaluates the captured data again with the rules engine, as of the date this check was made. The stored decision is not changed.
+                </p>
+                {rerunResult && (
+                  <div className="space-y-2 rounded-lg border p-3" data-testid="rerun-result">
+                    <div className="flex items-center gap-3">
+                      <StatusBadge status={rerunResult.workStatus} />
+                      <span className="text-xs text-muted-foreground">
+                        Rule set {rerunResult.ruleSetVersion}, as of {formatDate(rerunResult.evaluatedAsOf)}
+                      </span>
+                    </div>
+                    {rerunResult.workStatus !== check.workStatus && (
+                      <p className="text-sm text-amber-700 dark:text-amber-400" data-testid="text-rerun-differs">
+                        The rules engine alone now reaches a different status than the stored decision, which may also include the AI review.
+                      </p>
+                    )}
+                    <p className="text-sm">{rerunResult.decisionSummary}</p>
+                    <DecisionReasonList reasons={rerunResult.decisionReasons} />
+                    <DecisionTraceTree steps={rerunResult.decisionTrace} testIdPrefix="rerun-trace" />
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+            
+            {check.documentType === "EU_BLUE_CARD" && <BlueCardSalaryChangeCard check={check} />}
+            
+            {!check.isTitleUnlimited && check.citizenshipCategory !== "EU_EEA_CH" && <BaApprovalsCard check={check} />}
+            
             <div className="print:hidden">
               <CheckAuditTrail check={check} />
             </div>
@@ -454,9 +582,20 @@ export default function CheckDetail() {
               
               <Card className="print:hidden">
                 <CardHeader className="pb-4">
-                  <div className="flex items-center gap-2">
-                    <Paperclip className="h-4 w-4" />
-                    <CardTitle className="text-base">Supporting Documents</CardTitle>
+                  <div className="flex items-center justify-between gap-2">
+                    <div className="flex items-center gap-2">
+                      <Paperclip className="h-4 w-4" />
+                      <CardTitle className="text-base">Supporting Documents</CardTitle>
+                    </div>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setShowRedactionSettings(true)}
+                      data-testid="button-redaction-settings"
+                    >
+                      <Settings className="h-4 w-4 mr-2" />
+                      Redaction
+                    </Button>
                   </div>
                 </CardHeader>
               <CardContent className="space-y-6">
@@ -557,15 +696,44 @@ export default function CheckDetail() {
                                   Primary
                                 </span>
                               )}
+                              {attachment.redactedAt && (
+                                <span
+                                  className="text-xs bg-muted text-muted-foreground px-2 py-0.5 rounded-full font-medium"
+                                  data-testid={`badge-redacted-${index}`}
+                                >
+                                  Redacted
+                                </span>
+                              )}
                             </div>
                             <div className="flex items-center gap-3 text-xs text-muted-foreground">
                               {attachment.sizeBytes && (
                                 <span>{formatFileSize(parseInt(attachment.sizeBytes))}</span>
                               )}
                               <span>{formatDate(attachment.uploadedAt as unknown as string)}</span>
+                              {attachment.originalDeletedAt ? (
+                                <span data-testid={`text-original-deleted-${index}`}>
+                                  Original deleted {formatDate(attachment.originalDeletedAt as unknown as string)}
+                                </span>
+                              ) : attachment.originalDeleteAfter && (
+                                <span data-testid={`text-original-delete-after-${index}`}>
+                                  Original kept until {formatDate(attachment.originalDeleteAfter as unknown as string)}
+                                </span>
+                              )}
                             </div>
                           </div>
                           <div className="flex items-center gap-1">
+                            {redactionSettings?.enabled && !attachment.originalDeletedAt && (
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                onClick={() => setRedactingDocument(attachment)}
+                                className="h-8 w-8"
+                                title={attachment.redactedAt ? "Redact again" : "Redact document"}
+                                data-testid={`button-redact-attachment-${index}`}
+                              >
+                                <EyeOff className="h-4 w-4" />
+                              </Button>
+                            )}
                             {!attachment.isPrimary && (
                               <Button
                                 variant="ghost"
@@ -586,7 +754,7 @@ export default function CheckDetail() {
                               className="h-8 w-8"
                               data-testid={`button-view-attachment-${index}`}
                             >
-                              <a href={attachment.fileUrl} target="_blank" rel="noopener noreferrer">
+                              <a href={attachment.redactedFileUrl ?? attachment.fileUrl} target="_blank" rel="noopener noreferrer">
                                 <Download className="h-4 w-4" />
                               </a>
                             </Button>
@@ -607,6 +775,15 @@ export default function CheckDetail() {
                   </div>
                 )}
 
+                {checkId && (
+                  <DocumentRedactionDialog
+                    checkId={checkId}
+                    document={redactingDocument}
+                    onOpenChange={(open) => !open && setRedactingDocument(null)}
+                  />
+                )}
+                <RedactionSettingsDialog open={showRedactionSettings} onOpenChange={setShowRedactionSettings} />
+
                 {/* Print hint */}
                 <div className="hidden print:block text-sm text-muted-foreground border-t pt-4">
                   <p><strong>Attachments:</strong> {attachments.length} file(s) stored (see Certia for full list)</p>
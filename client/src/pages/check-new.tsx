@@ -1,4 +1,4 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useCallback } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import { useMutation, useQuery } from "@tanstack/react-query";
@@ -12,13 +12,16 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Checkbox } from "@/components/ui/checkbox";
 import { ObjectUploader } from "@/components/ObjectUploader";
+import { EmployerAliasesDialog } from "@/components/EmployerAliasesDialog";
+import { OccupationPicker } from "@/components/OccupationPicker";
+import { NationalitySelect, nationalityCategoryLabels } from "@/components/NationalitySelect";
 import { PageHeader } from "@/components/PageHeader";
 import { useToast } from "@/hooks/use-toast";
 import { apiRequest, queryClient } from "@/lib/queryClient";
-import { checkFormSchema, documentTypes } from "@shared/schema";
-import { formatDocumentType } from "@/lib/workEligibilityUtils";
+import { blueCardSalaryCategories, checkFormSchema, citizenshipCategories, documentTypes, permitConditionAnswers } from "@shared/schema";
+import { formatBlueCardSalaryCategory, formatDocumentType, formatEuro, canBeUnlimitedDocumentType, isUnlimitedDocumentType } from "@/lib/workEligibilityUtils";
 import type { z } from "zod";
-import type { Employee } from "@shared/schema";
+import type { BlueCardSalaryCategory, DocumentKind, DocumentType, Employee, EmploymentPermission, OcrProviderName, PermitConditionAnswer } from "@shared/schema";
 import type { UploadResult } from "@uppy/core";
 import { ArrowLeft, FileText, Upload, UserPlus, Users, Sparkles, AlertCircle, CheckCircle, Lightbulb, ClipboardCheck, Star, Trash2, Plus, RotateCcw, File } from "lucide-react";
 import { Link } from "wouter";
@@ -26,20 +29,168 @@ import { isUnauthorizedError } from "@/lib/authUtils";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { StatusBadge } from "@/components/StatusBadge";
 import { Skeleton } from "@/components/ui/skeleton";
+import { Textarea } from "@/components/ui/textarea";
+import { useAuth } from "@/hooks/useAuth";
+import { classifyNationality, findCountry } from "../../../lib/nationality";
+import { getBlueCardSalaryThreshold } from "../../../lib/blueCardSalary";
+import { describeGazetteerCoverage } from "../../../lib/locationMatch";
+import { mrzCheckedFieldLabels, type MrzData } from "../../../lib/mrz";
+import type { OcrPageResult, OcrGuessField } from "../../../lib/ocr";
+import { isLowConfidence, type OcrExtractionMethod, type OcrFieldSource } from "../../../lib/ocrFieldSource";
+import type { PermitConditions } from "../../../lib/nebenbestimmungen";
+import type { ImageQualityIssue, ImageQualityReport } from "../../../lib/imagePreprocessing";
+import type { AuthenticitySignal } from "../../../lib/documentAuthenticity";
+import type { EvaluateRightToWorkInput } from "../../../lib/rightToWork";
 
 type CheckFormData = z.infer<typeof checkFormSchema>;
 
+// Form fields that feed the rules engine alongside document type and dates
+const permitConditionFields = [
+  "nationality",
+  "citizenshipCategory",
+  "employmentPermission",
+  "employmentPermittedUntil",
+  "hiringEmployerName",
+  "employerName",
+  "permitNamesSpecificEmployer",
+  "permitLimitedToOccupation",
+  "occupationOnPermit",
+  "plannedRoleCategory",
+  "hasHoursLimitOnPermit",
+  "hoursLimitPerWeekOnPermit",
+  "contractHoursPerWeek",
+  "hasLocationRestriction",
+  "locationRestrictionDescription",
+  "plannedWorkCity",
+  "isChangingEmployer",
+  "monthsOnBlueCardInGermany",
+  "contractGrossSalaryPerYear",
+  "blueCardSalaryCategory",
+  "isContinuationOfSameJobAndEmployer",
+  "dateOfBirth",
+  "passportFirstName",
+  "passportLastName",
+  "passportDateOfBirth",
+  "passportNationality",
+] as const;
+
+// Passport section of the check form, filled from a passport scan
+type PassportField =
+  | "passportNumber"
+  | "passportIssuingCountry"
+  | "passportExpiryDate"
+  | "passportFirstName"
+  | "passportLastName"
+  | "passportDateOfBirth"
+  | "passportNationality";
+
+const permitConditionAnswerLabels: Record<PermitConditionAnswer, string> = {
+  YES: "Yes",
+  NO: "No",
+  UNKNOWN: "Unknown",
+};
+
+const toOptionalNumber = (value: string) => (value === "" ? undefined : Number(value));
+
+// Rules-engine wording of the Zusatzblatt conditions -> check form answers
+const permitConditionPermissions: Record<EvaluateRightToWorkInput["employmentPermission"], EmploymentPermission> = {
+  ANY_EMPLOYMENT_ALLOWED: "ANY_EMPLOYMENT_ALLOWED",
+  EMPLOYMENT_ALLOWED_WITH_LIMITS: "RESTRICTED",
+  EMPLOYMENT_NOT_ALLOWED: "NOT_ALLOWED",
+  UNCLEAR: "UNKNOWN",
+};
+
+const toPermitConditionAnswer = (value: boolean | "UNKNOWN"): PermitConditionAnswer =>
+  value === true ? "YES" : value === false ? "NO" : "UNKNOWN";
+
+// Boolean engine inputs leave UNKNOWN out so the server applies its conservative default
+const fromPermitConditionAnswer = (answer: PermitConditionAnswer | undefined): boolean | undefined =>
+  answer === "YES" ? true : answer === "NO" ? false : undefined;
+
+// Wait for typing to pause before re-running the preview evaluation
+const PREVIEW_DEBOUNCE_MS = 600;
+
+const blueCardSalaryThreshold = getBlueCardSalaryThreshold(new Date());
+const gazetteerCoverage = describeGazetteerCoverage();
+
+function PermitConditionSelect({
+  id,
+  label,
+  value,
+  onChange,
+}: {
+  id: string;
+  label: string;
+  value: PermitConditionAnswer | null | undefined;
+  onChange: (value: PermitConditionAnswer) => void;
+}) {
+  return (
+    <div className="space-y-2">
+      <Label htmlFor={id}>{label}</Label>
+      <Select value={value || ""} onValueChange={(next) => onChange(next as PermitConditionAnswer)}>
+        <SelectTrigger id={id} data-testid={`select-${id}`}>
+          <SelectValue placeholder="Select an answer" />
+        </SelectTrigger>
+        <SelectContent>
+          {permitConditionAnswers.map((answer) => (
+            <SelectItem key={answer} value={answer}>
+              {permitConditionAnswerLabels[answer]}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+}
+
 interface OcrExtractionResult {
   rawText: string;
-  documentTypeGuess?: 'EU_BLUE_CARD' | 'EAT' | 'FIKTIONSBESCHEINIGUNG' | 'OTHER';
+  documentKindGuess?: DocumentKind;
+  documentTypeGuess?: DocumentType;
   documentNumberGuess?: string;
   expiryDateGuessIso?: string;
+  issueDateGuessIso?: string;
+  birthDateGuessIso?: string;
   employerNameGuess?: string;
   employmentPermissionGuess?: 'ANY_EMPLOYMENT_ALLOWED' | 'RESTRICTED' | 'UNKNOWN';
+  nationalityGuess?: string;
+  mrz?: MrzData;
+  permitConditionsGuess?: PermitConditions;
+  fieldSources?: Partial<Record<OcrGuessField, OcrFieldSource>>;
+  ocrProvider?: OcrProviderName;
+  pages?: OcrPageResult[];
+  totalPages?: number;
+  fieldPages?: Partial<Record<OcrGuessField, number>>;
+  imageQuality?: ImageQualityReport;
+  authenticitySignals?: AuthenticitySignal[];
+  contentHash?: string;  // SHA-256 of the file, stored with the document
+  cached?: boolean;      // answered from the OCR cache
+  duplicateDocuments?: { documentId: string; checkId: string; fileName: string; uploadedAt: string | null }[];
   error?: string;
   message?: string;
 }
 
+const imageQualityIssueLabels: Record<ImageQualityIssue, string> = {
+  BLURRY: "blurry",
+  LOW_RESOLUTION: "low resolution",
+  GLARE: "glare",
+};
+
+const extractionMethodLabels: Record<OcrExtractionMethod, string> = {
+  MRZ: "MRZ",
+  LABEL_PROXIMITY: "next to label",
+  KEYWORD: "keyword",
+  FALLBACK_REGEX: "pattern match",
+};
+
+// Highlights inputs whose auto-filled value the OCR was unsure about
+const LOW_CONFIDENCE_INPUT_CLASS = "border-amber-500 dark:border-amber-600 bg-amber-50/50 dark:bg-amber-950/20";
+
+// MRZ names are upper case: "PETROVIC" -> "Petrovic"
+function mrzNameToDisplay(name: string): string {
+  return name.toLowerCase().replace(/(^|[\s-])[a-z]/g, (letter) => letter.toUpperCase());
+}
+
 interface UploadedDocument {
   id: string;
   fileName: string;
@@ -48,6 +199,7 @@ interface UploadedDocument {
   sizeBytes: string;
   isPrimary: boolean;
   status: 'uploading' | 'uploaded' | 'error';
+  documentKind?: DocumentKind;
 }
 
 export default function CheckNew() {
@@ -57,6 +209,7 @@ export default function CheckNew() {
   const [uploadedFileUrl, setUploadedFileUrl] = useState<string>("");
   const [checkType, setCheckType] = useState<"new" | "existing">("new");
   const [isOcrProcessing, setIsOcrProcessing] = useState(false);
+  const [isAliasDialogOpen, setIsAliasDialogOpen] = useState(false);
   const [ocrAutofilled, setOcrAutofilled] = useState(false);
   const [ocrError, setOcrError] = useState<string>("");
   const [ocrUsed, setOcrUsed] = useState(false);
@@ -64,6 +217,7 @@ export default function CheckNew() {
   const [autofilledFields, setAutofilledFields] = useState<Set<string>>(new Set());
   const [ocrResult, setOcrResult] = useState<OcrExtractionResult | null>(null);
   const [documents, setDocuments] = useState<UploadedDocument[]>([]);
+  const { user } = useAuth();
   const searchParams = new URLSearchParams(window.location.search);
   const preselectedEmployeeId = searchParams.get("employeeId");
 
@@ -83,12 +237,38 @@ export default function CheckNew() {
       countryOfIssue: "",
       dateOfIssue: "",
       expiryDate: "",
+      isTitleUnlimited: false,
+      cardExpiryDate: "",
       employerName: "",
       employmentPermission: undefined,
+      employmentPermittedUntil: "",
       fileUrl: "",
+      nationality: "",
+      citizenshipCategory: undefined,
+      hiringEmployerName: "",
+      occupationOnPermit: "",
+      plannedRoleCategory: "",
+      locationRestrictionDescription: "",
+      plannedWorkCity: "",
+      isChangingEmployer: undefined,
+      dateOfBirth: "",
+      passportNumber: "",
+      passportIssuingCountry: "",
+      passportExpiryDate: "",
+      passportFirstName: "",
+      passportLastName: "",
+      passportDateOfBirth: "",
+      passportNationality: "",
     },
   });
 
+  // Pre-fill the hiring employer with the HR user's company
+  useEffect(() => {
+    if (user?.companyName && !form.getValues("hiringEmployerName")) {
+      form.setValue("hiringEmployerName", user.companyName);
+    }
+  }, [user?.companyName, form]);
+
   useEffect(() => {
     if (preselectedEmployeeId) {
       form.setValue("employeeId", preselectedEmployeeId);
@@ -96,6 +276,100 @@ export default function CheckNew() {
     }
   }, [preselectedEmployeeId, form]);
 
+  // A recognised nationality decides the citizenship category
+  const setNationality = useCallback((alpha2: string) => {
+    form.setValue("nationality", alpha2);
+    const category = classifyNationality(alpha2);
+    if (category) {
+      form.setValue("citizenshipCategory", category);
+    }
+  }, [form]);
+
+  // New candidates: take the holder's name from the MRZ unless already typed in
+  const applyMrzNames = (result: OcrExtractionResult, autofilled: Set<string>) => {
+    if (checkType !== "new" || !result.mrz) return;
+    if (result.mrz.surname && !form.getValues("lastName")) {
+      form.setValue("lastName", mrzNameToDisplay(result.mrz.surname));
+      autofilled.add("lastName");
+    }
+    if (result.mrz.givenNames && !form.getValues("firstName")) {
+      form.setValue("firstName", mrzNameToDisplay(result.mrz.givenNames));
+      autofilled.add("firstName");
+    }
+  };
+
+  // Nebenbestimmungen from a Zusatzblatt are more specific than the card's wording
+  const applyPermitConditions = (result: OcrExtractionResult, autofilled: Set<string>) => {
+    const conditions = result.permitConditionsGuess;
+    if (!conditions) return;
+    if (conditions.employmentPermission) {
+      form.setValue("employmentPermission", permitConditionPermissions[conditions.employmentPermission]);
+      autofilled.add("employmentPermission");
+    }
+    if (conditions.employmentPermittedUntil) {
+      form.setValue("employmentPermittedUntil", conditions.employmentPermittedUntil);
+      autofilled.add("employmentPermittedUntil");
+    }
+    if (conditions.permitNamesSpecificEmployer !== undefined) {
+      form.setValue("permitNamesSpecificEmployer", toPermitConditionAnswer(conditions.permitNamesSpecificEmployer));
+    }
+    if (conditions.employerOnPermit) {
+      form.setValue("employerName", conditions.employerOnPermit);
+      autofilled.add("employerName");
+    }
+    if (conditions.permitLimitedToOccupation !== undefined) {
+      form.setValue("permitLimitedToOccupation", toPermitConditionAnswer(conditions.permitLimitedToOccupation));
+    }
+    if (conditions.occupationOnPermit) {
+      form.setValue("occupationOnPermit", conditions.occupationOnPermit);
+    }
+    if (conditions.hasHoursLimitOnPermit !== undefined) {
+      form.setValue("hasHoursLimitOnPermit", toPermitConditionAnswer(conditions.hasHoursLimitOnPermit));
+    }
+    if (conditions.hoursLimitPerWeekOnPermit !== undefined) {
+      form.setValue("hoursLimitPerWeekOnPermit", conditions.hoursLimitPerWeekOnPermit);
+    }
+    if (conditions.hasLocationRestriction !== undefined) {
+      form.setValue("hasLocationRestriction", toPermitConditionAnswer(conditions.hasLocationRestriction));
+    }
+    if (conditions.locationRestrictionDescription) {
+      form.setValue("locationRestrictionDescription", conditions.locationRestrictionDescription);
+    }
+  };
+
+  // Passport scans fill the passport section only; the residence title fields stay as they are
+  const applyPassportFields = (result: OcrExtractionResult) => {
+    const found: string[] = [];
+    const setField = (field: PassportField, value: string | undefined, label: string) => {
+      if (!value) return;
+      form.setValue(field, value);
+      found.push(label);
+    };
+    setField("passportNumber", result.documentNumberGuess, "passport number");
+    setField("passportLastName", result.mrz?.surname ? mrzNameToDisplay(result.mrz.surname) : undefined, "surname");
+    setField("passportFirstName", result.mrz?.givenNames ? mrzNameToDisplay(result.mrz.givenNames) : undefined, "given names");
+    setField("passportDateOfBirth", result.birthDateGuessIso, "date of birth");
+    setField("passportNationality", result.nationalityGuess, "nationality");
+    setField("passportIssuingCountry", findCountry(result.mrz?.issuingState)?.alpha2, "issuing country");
+    setField("passportExpiryDate", result.expiryDateGuessIso, "expiry date");
+    return found;
+  };
+
+  // How the value was found, its confidence and, for multi-page PDFs, its page
+  const autofilledLabel = (field: OcrGuessField) => {
+    const source = ocrResult?.fieldSources?.[field];
+    const page = ocrResult?.fieldPages?.[field];
+    const details = [
+      page && (ocrResult?.pages?.length ?? 0) > 1 ? `page ${page}` : undefined,
+      source ? `${extractionMethodLabels[source.method]}, ${Math.round(source.confidence * 100)}%` : undefined,
+    ].filter(Boolean).join(", ");
+    const label = details ? `Auto-filled from scan (${details})` : "Auto-filled from scan";
+    return isLowConfidence(source) ? `${label} – low confidence, please verify` : label;
+  };
+  const isLowConfidenceAutofill = (field: OcrGuessField) => isLowConfidence(ocrResult?.fieldSources?.[field]);
+  const autofillHintClass = (field: OcrGuessField) =>
+    isLowConfidenceAutofill(field) ? "text-amber-600 dark:text-amber-400" : "text-primary";
+
   // Preview mutation for live decision evaluation (no DB write)
   const [previewResult, setPreviewResult] = useState<{
     workStatus: string;
@@ -104,9 +378,10 @@ export default function CheckNew() {
   } | null>(null);
 
   const previewMutation = useMutation({
-    mutationFn: async (data: {
+    mutationFn: async (data: Omit<Partial<CheckFormData>, "isChangingEmployer"> & {
       documentType: string;
-      expiryDate: string;
+      isChangingEmployer?: boolean;
+      expiryDate?: string;
       dateOfIssue?: string;
       ocrRawText?: string;
       ocrExtractedFields?: any;
@@ -138,10 +413,29 @@ export default function CheckNew() {
 
       const payload = {
         ...data,
+        isChangingEmployer: fromPermitConditionAnswer(data.isChangingEmployer),
         // Convert empty strings to undefined for optional fields
         dateOfIssue: data.dateOfIssue || undefined,
+        // Unlimited titles only carry the card's expiry date
+        expiryDate: data.isTitleUnlimited ? undefined : data.expiryDate,
+        cardExpiryDate: data.isTitleUnlimited ? data.cardExpiryDate || undefined : undefined,
         documentNumber: data.documentNumber || undefined,
         countryOfIssue: data.countryOfIssue || undefined,
+        nationality: data.nationality || undefined,
+        hiringEmployerName: data.hiringEmployerName || undefined,
+        occupationOnPermit: data.occupationOnPermit || undefined,
+        plannedRoleCategory: data.plannedRoleCategory || undefined,
+        locationRestrictionDescription: data.locationRestrictionDescription || undefined,
+        plannedWorkCity: data.plannedWorkCity || undefined,
+        employmentPermittedUntil: data.employmentPermittedUntil || undefined,
+        dateOfBirth: data.dateOfBirth || undefined,
+        passportNumber: data.passportNumber || undefined,
+        passportIssuingCountry: data.passportIssuingCountry || undefined,
+        passportExpiryDate: data.passportExpiryDate || undefined,
+        passportFirstName: data.passportFirstName || undefined,
+        passportLastName: data.passportLastName || undefined,
+        passportDateOfBirth: data.passportDateOfBirth || undefined,
+        passportNationality: data.passportNationality || undefined,
         fileUrl: primaryDoc?.fileUrl || undefined,
         // Only include fields relevant to the check type
         employeeId: checkType === "existing" ? data.employeeId : undefined,
@@ -149,12 +443,22 @@ export default function CheckNew() {
         lastName: checkType === "new" ? data.lastName : undefined,
         // Include OCR audit trail if OCR was used
         ocrRawText: ocrResult?.rawText,
+        ocrProvider: ocrResult?.ocrProvider,
         ocrExtractedFields: ocrResult ? {
           documentTypeGuess: ocrResult.documentTypeGuess,
           documentNumberGuess: ocrResult.documentNumberGuess,
           expiryDateGuessIso: ocrResult.expiryDateGuessIso,
+          issueDateGuessIso: ocrResult.issueDateGuessIso,
+          birthDateGuessIso: ocrResult.birthDateGuessIso,
           employerNameGuess: ocrResult.employerNameGuess,
           employmentPermissionGuess: ocrResult.employmentPermissionGuess,
+          nationalityGuess: ocrResult.nationalityGuess,
+          mrz: ocrResult.mrz,
+          permitConditionsGuess: ocrResult.permitConditionsGuess,
+          fieldSources: ocrResult.fieldSources,
+          totalPages: ocrResult.totalPages,
+          fieldPages: ocrResult.fieldPages,
+          authenticitySignals: ocrResult.authenticitySignals,
         } : undefined,
       };
       
@@ -172,6 +476,7 @@ export default function CheckNew() {
             mimeType: doc.mimeType,
             sizeBytes: doc.sizeBytes,
             isPrimary: doc.isPrimary,
+            documentKind: doc.documentKind,
           });
         } catch (err) {
           console.error('Failed to save document:', doc.fileName, err);
@@ -254,13 +559,37 @@ export default function CheckNew() {
     }
   };
 
+  // Uploads a file to object storage and returns its object path
+  const uploadToStorage = async (file: File) => {
+    const uploadParamsResponse = await apiRequest("POST", "/api/objects/upload", {});
+    const uploadParams = await uploadParamsResponse.json() as { uploadURL: string };
+
+    const uploadResponse = await fetch(uploadParams.uploadURL, {
+      method: 'PUT',
+      body: file,
+      headers: {
+        'Content-Type': file.type,
+      },
+    });
+    if (!uploadResponse.ok) {
+      throw new Error('Upload failed');
+    }
+
+    const documentResponse = await apiRequest("PUT", "/api/documents", {
+      documentURL: uploadParams.uploadURL,
+    });
+    const documentData = await documentResponse.json() as { objectPath: string };
+    return documentData.objectPath;
+  };
+
   const handleOcrFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
     const file = event.target.files?.[0];
     if (!file) return;
 
     // Generate a temporary ID for this document
     const tempId = crypto.randomUUID();
-    const isFirstDocument = documents.length === 0;
+    // Passports uploaded separately do not count: the title is read first
+    const isFirstDocument = documents.every(d => d.documentKind === 'PASSPORT');
     
     // Add document to list immediately with 'uploading' status
     const newDoc: UploadedDocument = {
@@ -287,44 +616,25 @@ export default function CheckNew() {
       // Step 1: Upload the document for storage
       let objectPath = '';
       try {
-        const uploadParamsResponse = await apiRequest("POST", "/api/objects/upload", {});
-        const uploadParams = await uploadParamsResponse.json() as { uploadURL: string };
+        objectPath = await uploadToStorage(file);
         
-        const uploadResponse = await fetch(uploadParams.uploadURL, {
-          method: 'PUT',
-          body: file,
-          headers: {
-            'Content-Type': file.type,
-          },
-        });
-
-        if (uploadResponse.ok) {
-          const documentResponse = await apiRequest("PUT", "/api/documents", {
-            documentURL: uploadParams.uploadURL,
-          });
-          const documentData = await documentResponse.json() as { objectPath: string };
-          objectPath = documentData.objectPath;
-          
-          // Update document in list with uploaded URL
-          setDocuments(prev => prev.map(d => 
-            d.id === tempId 
-              ? { ...d, fileUrl: objectPath, status: 'uploaded' as const }
-              : d
-          ));
-          
-          // Set form fileUrl for primary document
-          if (isFirstDocument) {
-            setUploadedFileUrl(objectPath);
-            form.setValue('fileUrl', objectPath);
-          }
-          
-          toast({
-            title: "Document uploaded",
-            description: `${file.name} uploaded successfully`,
-          });
-        } else {
-          throw new Error('Upload failed');
+        // Update document in list with uploaded URL
+        setDocuments(prev => prev.map(d => 
+          d.id === tempId 
+            ? { ...d, fileUrl: objectPath, status: 'uploaded' as const }
+            : d
+        ));
+        
+        // Set form fileUrl for primary document
+        if (isFirstDocument) {
+          setUploadedFileUrl(objectPath);
+          form.setValue('fileUrl', objectPath);
         }
+        
+        toast({
+          title: "Document uploaded",
+          description: `${file.name} uploaded successfully`,
+        });
       } catch (uploadError) {
         console.error('Document upload failed:', uploadError);
         setDocuments(prev => prev.map(d => 
@@ -357,6 +667,9 @@ export default function CheckNew() {
           setOcrError(errorMessage);
           // Don't block - document is still uploaded
         } else {
+          setDocuments(prev => prev.map(d =>
+            d.id === tempId ? { ...d, documentKind: result.documentKindGuess } : d
+          ));
           // Success: check if any fields were extracted
           const autofilled = new Set<string>();
           if (result.documentTypeGuess) {
@@ -368,8 +681,20 @@ export default function CheckNew() {
             autofilled.add('documentNumber');
           }
           if (result.expiryDateGuessIso) {
-            form.setValue('expiryDate', result.expiryDateGuessIso);
-            autofilled.add('expiryDate');
+            // On unlimited titles the printed date is the card's expiry
+            const dateField = result.documentTypeGuess && isUnlimitedDocumentType(result.documentTypeGuess)
+              ? 'cardExpiryDate'
+              : 'expiryDate';
+            form.setValue(dateField, result.expiryDateGuessIso);
+            autofilled.add(dateField);
+          }
+          if (result.issueDateGuessIso) {
+            form.setValue('dateOfIssue', result.issueDateGuessIso);
+            autofilled.add('dateOfIssue');
+          }
+          if (result.birthDateGuessIso) {
+            form.setValue('dateOfBirth', result.birthDateGuessIso);
+            autofilled.add('dateOfBirth');
           }
           if (result.employerNameGuess) {
             form.setValue('employerName', result.employerNameGuess);
@@ -379,13 +704,22 @@ export default function CheckNew() {
             form.setValue('employmentPermission', result.employmentPermissionGuess);
             autofilled.add('employmentPermission');
           }
+          if (result.nationalityGuess) {
+            setNationality(result.nationalityGuess);
+            autofilled.add('nationality');
+          }
+          applyMrzNames(result, autofilled);
+          applyPermitConditions(result, autofilled);
 
           const fieldsFound = [
             result.documentTypeGuess && 'document type',
             result.documentNumberGuess && 'document number',
             result.expiryDateGuessIso && 'expiry date',
+            result.issueDateGuessIso && 'date of issue',
             result.employerNameGuess && 'employer name',
             result.employmentPermissionGuess && 'employment permission',
+            result.nationalityGuess && 'nationality',
+            result.permitConditionsGuess && 'Zusatzblatt conditions',
           ].filter(Boolean);
 
           if (fieldsFound.length > 0) {
@@ -415,16 +749,90 @@ export default function CheckNew() {
     }
   };
 
+  // Passport scans are stored with the check's documents but never become the
+  // primary document: the check is about the residence title
+  const handlePassportFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    const tempId = crypto.randomUUID();
+    setDocuments(prev => [...prev, {
+      id: tempId,
+      fileName: file.name,
+      fileUrl: '',
+      mimeType: file.type,
+      sizeBytes: file.size.toString(),
+      isPrimary: false,
+      status: 'uploading',
+      documentKind: 'PASSPORT',
+    }]);
+    setIsOcrProcessing(true);
+
+    try {
+      const objectPath = await uploadToStorage(file);
+      setDocuments(prev => prev.map(d =>
+        d.id === tempId ? { ...d, fileUrl: objectPath, status: 'uploaded' as const } : d
+      ));
+
+      const formData = new FormData();
+      formData.append('file', file);
+      const response = await fetch('/api/ocr/extract', {
+        method: 'POST',
+        body: formData,
+        credentials: 'include',
+      });
+      const result: OcrExtractionResult = await response.json();
+      if (!response.ok || result.error) {
+        toast({
+          title: "Passport uploaded",
+          description: result.message || result.error || "The passport could not be read. Please fill in its details by hand.",
+          variant: "destructive",
+        });
+        return;
+      }
+
+      const found = applyPassportFields(result);
+      if (result.documentKindGuess !== 'PASSPORT') {
+        toast({
+          title: "Is this a passport?",
+          description: "The scan does not look like a passport. Please check the passport details.",
+          variant: "destructive",
+        });
+      } else {
+        toast({
+          title: "Passport read",
+          description: found.length > 0
+            ? `Found: ${found.join(', ')}. Please review and correct if needed.`
+            : "No passport fields could be read from this document.",
+        });
+      }
+    } catch (error) {
+      console.error('Passport upload error:', error);
+      setDocuments(prev => prev.map(d =>
+        d.id === tempId ? { ...d, status: 'error' as const } : d
+      ));
+      toast({
+        title: "Upload failed",
+        description: `Failed to upload ${file.name}`,
+        variant: "destructive",
+      });
+    } finally {
+      setIsOcrProcessing(false);
+      event.target.value = '';
+    }
+  };
+
   // Handle removing a document from the list
   const handleRemoveDocument = (docId: string) => {
     setDocuments(prev => {
       const updated = prev.filter(d => d.id !== docId);
-      // If we removed the primary, make the first remaining one primary
-      if (updated.length > 0 && !updated.some(d => d.isPrimary)) {
-        updated[0].isPrimary = true;
-        setUploadedFileUrl(updated[0].fileUrl);
-        form.setValue('fileUrl', updated[0].fileUrl);
-      } else if (updated.length === 0) {
+      // If we removed the primary, make the first remaining one primary (never a passport)
+      const nextPrimary = updated.find(d => d.documentKind !== 'PASSPORT');
+      if (nextPrimary && !updated.some(d => d.isPrimary)) {
+        nextPrimary.isPrimary = true;
+        setUploadedFileUrl(nextPrimary.fileUrl);
+        form.setValue('fileUrl', nextPrimary.fileUrl);
+      } else if (!nextPrimary) {
         setUploadedFileUrl('');
         form.setValue('fileUrl', '');
       }
@@ -470,6 +878,8 @@ export default function CheckNew() {
       
       const formData = new FormData();
       formData.append('file', blob, doc.fileName);
+      // Re-running is asked for when the last read looks wrong: bypass the cache
+      formData.append('refresh', 'true');
 
       const response = await fetch('/api/ocr/extract', {
         method: 'POST',
@@ -490,6 +900,18 @@ export default function CheckNew() {
         return;
       }
 
+
+      if (doc.documentKind === 'PASSPORT') {
+        const found = applyPassportFields(result);
+        toast({
+          title: found.length > 0 ? "Passport fields updated" : "OCR completed",
+          description: found.length > 0
+            ? `Found: ${found.join(', ')}. Please review and correct if needed.`
+            : "No passport fields could be read from this document.",
+        });
+        return;
+      }
+
       // Apply extracted fields
       const autofilled = new Set<string>();
       if (result.documentTypeGuess) {
@@ -501,8 +923,20 @@ export default function CheckNew() {
         autofilled.add('documentNumber');
       }
       if (result.expiryDateGuessIso) {
-        form.setValue('expiryDate', result.expiryDateGuessIso);
-        autofilled.add('expiryDate');
+        // On unlimited titles the printed date is the card's expiry
+        const dateField = result.documentTypeGuess && isUnlimitedDocumentType(result.documentTypeGuess)
+          ? 'cardExpiryDate'
+          : 'expiryDate';
+        form.setValue(dateField, result.expiryDateGuessIso);
+        autofilled.add(dateField);
+      }
+      if (result.issueDateGuessIso) {
+        form.setValue('dateOfIssue', result.issueDateGuessIso);
+        autofilled.add('dateOfIssue');
+      }
+      if (result.birthDateGuessIso) {
+        form.setValue('dateOfBirth', result.birthDateGuessIso);
+        autofilled.add('dateOfBirth');
       }
       if (result.employerNameGuess) {
         form.setValue('employerName', result.employerNameGuess);
@@ -512,13 +946,21 @@ export default function CheckNew() {
         form.setValue('employmentPermission', result.employmentPermissionGuess);
         autofilled.add('employmentPermission');
       }
+      if (result.nationalityGuess) {
+        setNationality(result.nationalityGuess);
+        autofilled.add('nationality');
+      }
+      applyMrzNames(result, autofilled);
+      applyPermitConditions(result, autofilled);
 
       const fieldsFound = [
         result.documentTypeGuess && 'document type',
         result.documentNumberGuess && 'document number',
         result.expiryDateGuessIso && 'expiry date',
+        result.issueDateGuessIso && 'date of issue',
         result.employerNameGuess && 'employer name',
         result.employmentPermissionGuess && 'employment permission',
+        result.permitConditionsGuess && 'Zusatzblatt conditions',
       ].filter(Boolean);
 
       if (fieldsFound.length > 0) {
@@ -557,44 +999,93 @@ export default function CheckNew() {
   // Step logic: 1=Upload, 2=Review/Fill form, 3=Ready to confirm
   const documentType = form.watch("documentType");
   const expiryDate = form.watch("expiryDate");
+  const isTitleUnlimited = !!form.watch("isTitleUnlimited");
+  const cardExpiryDate = form.watch("cardExpiryDate");
   const firstName = form.watch("firstName");
   const lastName = form.watch("lastName");
   const employeeId = form.watch("employeeId");
   const dateOfIssue = form.watch("dateOfIssue");
+  const nationality = form.watch("nationality");
+  const watchedConditions = form.watch(permitConditionFields);
+  const permitConditions: Partial<CheckFormData> = Object.fromEntries(
+    permitConditionFields.map((field, index) => [field, watchedConditions[index]])
+  );
+  const permitConditionsKey = JSON.stringify(permitConditions);
+  // Unlimited titles need no expiry date of their own
+  const hasTitleValidity = isTitleUnlimited || !!expiryDate;
+
+  // Use the nationality on file for an existing employee
+  useEffect(() => {
+    const employee = employees?.find((emp) => emp.id === employeeId);
+    if (checkType === "existing" && employee?.nationality && !form.getValues("nationality")) {
+      setNationality(employee.nationality);
+    }
+  }, [checkType, employeeId, employees, form, setNationality]);
+
+  // Settlement permits and EU long-term residence are always unlimited;
+  // Blue Cards, Chancenkarten etc. never are
+  useEffect(() => {
+    if (documentType && isUnlimitedDocumentType(documentType)) {
+      form.setValue("isTitleUnlimited", true);
+    } else if (documentType && !canBeUnlimitedDocumentType(documentType)) {
+      form.setValue("isTitleUnlimited", false);
+    }
+  }, [documentType, form]);
 
-  // Auto-trigger preview when required fields are filled
+  // Auto-trigger preview when required fields are filled; each preview calls
+  // the AI service, so wait until the user stops typing
   useEffect(() => {
-    if (documentType && expiryDate) {
+    if (!documentType || !hasTitleValidity) {
+      setPreviewResult(null);
+      return;
+    }
+    const timeout = setTimeout(() => {
       previewMutation.mutate({
+        ...permitConditions,
+        isChangingEmployer: fromPermitConditionAnswer(permitConditions.isChangingEmployer),
+        // Who the check is for, to cross-check against the documents
+        employeeId: checkType === "existing" ? employeeId || undefined : undefined,
+        firstName: checkType === "new" ? firstName || undefined : undefined,
+        lastName: checkType === "new" ? lastName || undefined : undefined,
         documentType,
-        expiryDate,
+        expiryDate: isTitleUnlimited ? undefined : expiryDate,
+        isTitleUnlimited,
+        cardExpiryDate: isTitleUnlimited ? cardExpiryDate || undefined : undefined,
         dateOfIssue: dateOfIssue || undefined,
         ocrRawText: ocrResult?.rawText,
         ocrExtractedFields: ocrResult ? {
           documentTypeGuess: ocrResult.documentTypeGuess,
           documentNumberGuess: ocrResult.documentNumberGuess,
           expiryDateGuessIso: ocrResult.expiryDateGuessIso,
+          issueDateGuessIso: ocrResult.issueDateGuessIso,
+          birthDateGuessIso: ocrResult.birthDateGuessIso,
           employerNameGuess: ocrResult.employerNameGuess,
           employmentPermissionGuess: ocrResult.employmentPermissionGuess,
+          nationalityGuess: ocrResult.nationalityGuess,
+          mrz: ocrResult.mrz,
+          permitConditionsGuess: ocrResult.permitConditionsGuess,
+          fieldSources: ocrResult.fieldSources,
+          totalPages: ocrResult.totalPages,
+          fieldPages: ocrResult.fieldPages,
+          authenticitySignals: ocrResult.authenticitySignals,
         } : undefined,
       });
-    } else {
-      setPreviewResult(null);
-    }
-  }, [documentType, expiryDate, dateOfIssue, ocrResult]);
+    }, PREVIEW_DEBOUNCE_MS);
+    return () => clearTimeout(timeout);
+  }, [documentType, expiryDate, isTitleUnlimited, hasTitleValidity, cardExpiryDate, dateOfIssue, ocrResult, permitConditionsKey, checkType, employeeId, firstName, lastName]);
   
   // Check if user has started filling the form (beyond default values)
   const hasStartedFillingForm = (checkType === "new" && (firstName || lastName))
     || (checkType === "existing" && employeeId && employeeId !== preselectedEmployeeId)
-    || expiryDate;
+    || hasTitleValidity;
   
   // Step 3 is reached when required fields are filled
   const hasRequiredFields = checkType === "new" 
-    ? firstName && lastName && documentType && expiryDate
-    : employeeId && documentType && expiryDate;
+    ? firstName && lastName && documentType && hasTitleValidity
+    : employeeId && documentType && hasTitleValidity;
   
   // Preview can show as soon as we have document details (regardless of employee info)
-  const canShowPreview = documentType && expiryDate;
+  const canShowPreview = documentType && hasTitleValidity;
   
   // Step progression:
   // Step 1: Initial state - no upload and no form started
@@ -691,8 +1182,13 @@ export default function CheckNew() {
                                 Primary
                               </span>
                             )}
+                            {doc.documentKind === 'PASSPORT' && (
+                              <span className="text-xs bg-muted text-muted-foreground px-2 py-1 rounded-full font-medium" data-testid={`badge-passport-${doc.id}`}>
+                                Passport
+                              </span>
+                            )}
                             <div className="flex items-center gap-1">
-                              {!doc.isPrimary && doc.status === 'uploaded' && (
+                              {!doc.isPrimary && doc.status === 'uploaded' && doc.documentKind !== 'PASSPORT' && (
                                 <Button
                                   type="button"
                                   variant="ghost"
@@ -766,6 +1262,57 @@ export default function CheckNew() {
                         <Sparkles className="h-4 w-4 text-primary" />
                         <AlertDescription className="text-sm">
                           Fields auto-filled from document scan. Please review and correct if needed.
+                          {ocrResult?.cached && (
+                            <span className="block text-muted-foreground" data-testid="text-ocr-cached">
+                              Reused from an earlier scan of the same file. Use "Re-run OCR" to read it again.
+                            </span>
+                          )}
+                        </AlertDescription>
+                      </Alert>
+                    )}
+
+                    {ocrResult?.duplicateDocuments && ocrResult.duplicateDocuments.length > 0 && (
+                      <Alert className="bg-muted border-muted-foreground/20" data-testid="alert-duplicate-document">
+                        <AlertCircle className="h-4 w-4" />
+                        <AlertDescription className="text-sm">
+                          This file was already uploaded to {ocrResult.duplicateDocuments.length === 1 ? "another check" : `${ocrResult.duplicateDocuments.length} other checks`}:{" "}
+                          {ocrResult.duplicateDocuments.map((doc, index) => (
+                            <span key={doc.documentId}>
+                              {index > 0 && ", "}
+                              <Link href={`/checks/${doc.checkId}`} className="underline" data-testid={`link-duplicate-check-${doc.checkId}`}>
+                                {doc.fileName}
+                              </Link>
+                            </span>
+                          ))}
+                        </AlertDescription>
+                      </Alert>
+                    )}
+
+                    {ocrResult?.mrz && ocrResult.mrz.failedCheckDigits.length > 0 && (
+                      <Alert className="bg-amber-50/50 dark:bg-amber-950/20 border-amber-200 dark:border-amber-900" data-testid="alert-mrz-check-digits">
+                        <AlertCircle className="h-4 w-4 text-amber-600 dark:text-amber-400" />
+                        <AlertDescription className="text-sm">
+                          The machine-readable zone failed its check digit ({ocrResult.mrz.failedCheckDigits.map((field) => mrzCheckedFieldLabels[field].en).join(", ")}).
+                          Compare the scanned values with the original document.
+                        </AlertDescription>
+                      </Alert>
+                    )}
+
+                    {ocrResult?.imageQuality && ocrResult.imageQuality.issues.length > 0 && (
+                      <Alert className="bg-amber-50/50 dark:bg-amber-950/20 border-amber-200 dark:border-amber-900" data-testid="alert-image-quality">
+                        <AlertCircle className="h-4 w-4 text-amber-600 dark:text-amber-400" />
+                        <AlertDescription className="text-sm">
+                          Scan quality {ocrResult.imageQuality.score}/100 ({ocrResult.imageQuality.issues.map((issue) => imageQualityIssueLabels[issue]).join(", ")}).
+                          Auto-filled values may be wrong; a sharper photo gives better results.
+                        </AlertDescription>
+                      </Alert>
+                    )}
+
+                    {ocrResult?.pages && ocrResult.totalPages !== undefined && ocrResult.totalPages > ocrResult.pages.length && (
+                      <Alert className="bg-muted border-muted-foreground/20" data-testid="alert-ocr-pages-skipped">
+                        <AlertCircle className="h-4 w-4" />
+                        <AlertDescription className="text-sm">
+                          Only the first {ocrResult.pages.length} of {ocrResult.totalPages} pages were scanned. Upload the pages with the permit details separately if fields are missing.
                         </AlertDescription>
                       </Alert>
                     )}
@@ -890,16 +1437,16 @@ export default function CheckNew() {
                       Document Type <span className="text-destructive">*</span>
                     </Label>
                     {autofilledFields.has('documentType') && (
-                      <span className="text-xs text-primary flex items-center gap-1">
+                      <span className={`text-xs flex items-center gap-1 ${autofillHintClass('documentTypeGuess')}`} data-testid="text-autofilled-documentTypeGuess">
                         <Sparkles className="h-3 w-3" />
-                        Auto-filled from scan
+                        {autofilledLabel('documentTypeGuess')}
                       </span>
                     )}
                   </div>
                   <RadioGroup
                     value={form.watch("documentType")}
                     onValueChange={(value) => form.setValue("documentType", value as any)}
-                    className="grid grid-cols-1 gap-3"
+                    className="grid grid-cols-1 md:grid-cols-2 gap-3"
                   >
                     {documentTypes.map((type) => (
                       <div key={type} className="flex items-center space-x-2">
@@ -928,9 +1475,9 @@ export default function CheckNew() {
                   <div className="flex items-center gap-2">
                     <Label htmlFor="documentNumber">Document Number</Label>
                     {autofilledFields.has('documentNumber') && (
-                      <span className="text-xs text-primary flex items-center gap-1">
+                      <span className={`text-xs flex items-center gap-1 ${autofillHintClass('documentNumberGuess')}`} data-testid="text-autofilled-documentNumberGuess">
                         <Sparkles className="h-3 w-3" />
-                        Auto-filled from scan
+                        {autofilledLabel('documentNumberGuess')}
                       </span>
                     )}
                   </div>
@@ -938,7 +1485,7 @@ export default function CheckNew() {
                     id="documentNumber"
                     {...form.register("documentNumber")}
                     placeholder="e.g., AB123456"
-                    className="font-mono"
+                    className={`font-mono ${autofilledFields.has('documentNumber') && isLowConfidenceAutofill('documentNumberGuess') ? LOW_CONFIDENCE_INPUT_CLASS : ""}`}
                     data-testid="input-document-number"
                   />
                 </div>
@@ -946,11 +1493,11 @@ export default function CheckNew() {
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
                   <div className="space-y-2">
                     <div className="flex items-center gap-2">
-                      <Label htmlFor="employerName">Employer Name</Label>
+                      <Label htmlFor="employerName">Employer on Permit</Label>
                       {autofilledFields.has('employerName') && (
-                        <span className="text-xs text-primary flex items-center gap-1">
+                        <span className={`text-xs flex items-center gap-1 ${autofillHintClass('employerNameGuess')}`} data-testid="text-autofilled-employerNameGuess">
                           <Sparkles className="h-3 w-3" />
-                          Auto-filled from scan
+                          {autofilledLabel('employerNameGuess')}
                         </span>
                       )}
                     </div>
@@ -958,6 +1505,7 @@ export default function CheckNew() {
                       id="employerName"
                       {...form.register("employerName")}
                       placeholder="e.g., ABC GmbH"
+                      className={autofilledFields.has('employerName') && isLowConfidenceAutofill('employerNameGuess') ? LOW_CONFIDENCE_INPUT_CLASS : undefined}
                       data-testid="input-employer-name"
                     />
                   </div>
@@ -966,9 +1514,9 @@ export default function CheckNew() {
                     <div className="flex items-center gap-2">
                       <Label htmlFor="employmentPermission">Employment Permission</Label>
                       {autofilledFields.has('employmentPermission') && (
-                        <span className="text-xs text-primary flex items-center gap-1">
+                        <span className={`text-xs flex items-center gap-1 ${autofillHintClass('employmentPermissionGuess')}`} data-testid="text-autofilled-employmentPermissionGuess">
                           <Sparkles className="h-3 w-3" />
-                          Auto-filled from scan
+                          {autofilledLabel('employmentPermissionGuess')}
                         </span>
                       )}
                     </div>
@@ -976,63 +1524,490 @@ export default function CheckNew() {
                       value={form.watch("employmentPermission") || ""}
                       onValueChange={(value) => form.setValue("employmentPermission", value as any)}
                     >
-                      <SelectTrigger data-testid="select-employment-permission">
+                      <SelectTrigger
+                        className={autofilledFields.has('employmentPermission') && isLowConfidenceAutofill('employmentPermissionGuess') ? LOW_CONFIDENCE_INPUT_CLASS : undefined}
+                        data-testid="select-employment-permission"
+                      >
                         <SelectValue placeholder="Select permission type" />
                       </SelectTrigger>
                       <SelectContent>
                         <SelectItem value="ANY_EMPLOYMENT_ALLOWED">Any Employment Allowed</SelectItem>
-                        <SelectItem value="RESTRICTED">Restricted to Specific Employer</SelectItem>
+                        <SelectItem value="RESTRICTED">Allowed with Conditions (employer, role, hours, region)</SelectItem>
+                        <SelectItem value="NOT_ALLOWED">Employment Not Allowed</SelectItem>
                         <SelectItem value="UNKNOWN">Unknown</SelectItem>
                       </SelectContent>
                     </Select>
                   </div>
                 </div>
 
-                <div className="space-y-2">
-                  <Label htmlFor="countryOfIssue">Country of Issue</Label>
-                  <Input
-                    id="countryOfIssue"
-                    {...form.register("countryOfIssue")}
-                    placeholder="e.g., Germany"
-                    data-testid="input-country"
-                  />
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                  <div className="space-y-2">
+                    <Label htmlFor="countryOfIssue">Country of Issue</Label>
+                    <Input
+                      id="countryOfIssue"
+                      {...form.register("countryOfIssue")}
+                      placeholder="e.g., Germany"
+                      data-testid="input-country"
+                    />
+                  </div>
+
+                  <div className="space-y-2">
+                    <div className="flex items-center gap-2">
+                      <Label htmlFor="dateOfBirth">Date of Birth</Label>
+                      {autofilledFields.has('dateOfBirth') && (
+                        <span className={`text-xs flex items-center gap-1 ${autofillHintClass('birthDateGuessIso')}`} data-testid="text-autofilled-birthDateGuessIso">
+                          <Sparkles className="h-3 w-3" />
+                          {autofilledLabel('birthDateGuessIso')}
+                        </span>
+                      )}
+                    </div>
+                    <Input
+                      id="dateOfBirth"
+                      type="date"
+                      {...form.register("dateOfBirth")}
+                      className={autofilledFields.has('dateOfBirth') && isLowConfidenceAutofill('birthDateGuessIso') ? LOW_CONFIDENCE_INPUT_CLASS : undefined}
+                      data-testid="input-date-of-birth"
+                    />
+                  </div>
                 </div>
 
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
                   <div className="space-y-2">
-                    <Label htmlFor="dateOfIssue">Date of Issue</Label>
+                    <div className="flex items-center gap-2">
+                      <Label htmlFor="dateOfIssue">Date of Issue</Label>
+                      {autofilledFields.has('dateOfIssue') && (
+                        <span className={`text-xs flex items-center gap-1 ${autofillHintClass('issueDateGuessIso')}`} data-testid="text-autofilled-issueDateGuessIso">
+                          <Sparkles className="h-3 w-3" />
+                          {autofilledLabel('issueDateGuessIso')}
+                        </span>
+                      )}
+                    </div>
                     <Input
                       id="dateOfIssue"
                       type="date"
                       {...form.register("dateOfIssue")}
+                      className={autofilledFields.has('dateOfIssue') && isLowConfidenceAutofill('issueDateGuessIso') ? LOW_CONFIDENCE_INPUT_CLASS : undefined}
                       data-testid="input-date-of-issue"
                     />
                   </div>
 
+                  {isTitleUnlimited ? (
+                    <div className="space-y-2">
+                      <div className="flex items-center gap-2">
+                        <Label htmlFor="cardExpiryDate">Card Valid Until</Label>
+                        {autofilledFields.has('cardExpiryDate') && (
+                          <span className={`text-xs flex items-center gap-1 ${autofillHintClass('expiryDateGuessIso')}`} data-testid="text-autofilled-expiryDateGuessIso">
+                            <Sparkles className="h-3 w-3" />
+                            {autofilledLabel('expiryDateGuessIso')}
+                          </span>
+                        )}
+                      </div>
+                      <Input
+                        id="cardExpiryDate"
+                        type="date"
+                        {...form.register("cardExpiryDate")}
+                        className={autofilledFields.has('cardExpiryDate') && isLowConfidenceAutofill('expiryDateGuessIso') ? LOW_CONFIDENCE_INPUT_CLASS : undefined}
+                        data-testid="input-card-expiry-date"
+                      />
+                      <p className="text-xs text-muted-foreground">
+                        Only the card expires – the title itself stays valid.
+                      </p>
+                    </div>
+                  ) : (
+                    <div className="space-y-2">
+                      <div className="flex items-center gap-2">
+                        <Label htmlFor="expiryDate">
+                          Expiry Date <span className="text-destructive">*</span>
+                        </Label>
+                        {autofilledFields.has('expiryDate') && (
+                          <span className={`text-xs flex items-center gap-1 ${autofillHintClass('expiryDateGuessIso')}`} data-testid="text-autofilled-expiryDateGuessIso">
+                            <Sparkles className="h-3 w-3" />
+                            {autofilledLabel('expiryDateGuessIso')}
+                          </span>
+                        )}
+                      </div>
+                      <Input
+                        id="expiryDate"
+                        type="date"
+                        {...form.register("expiryDate")}
+                        className={autofilledFields.has('expiryDate') && isLowConfidenceAutofill('expiryDateGuessIso') ? LOW_CONFIDENCE_INPUT_CLASS : undefined}
+                        data-testid="input-expiry-date"
+                      />
+                      {form.formState.errors.expiryDate && (
+                        <p className="text-sm text-destructive">
+                          {form.formState.errors.expiryDate.message}
+                        </p>
+                      )}
+                    </div>
+                  )}
+                </div>
+
+                {canBeUnlimitedDocumentType(documentType) && (
+                  <div className="flex items-center gap-3">
+                    <Checkbox
+                      id="isTitleUnlimited"
+                      checked={isTitleUnlimited}
+                      disabled={isUnlimitedDocumentType(documentType)}
+                      onCheckedChange={(checked) => form.setValue("isTitleUnlimited", checked === true)}
+                      data-testid="checkbox-title-unlimited"
+                    />
+                    <Label htmlFor="isTitleUnlimited" className="font-normal cursor-pointer">
+                      Title has no expiry date (unbefristet)
+                    </Label>
+                  </div>
+                )}
+
+                <div className="space-y-4 p-4 border rounded-lg" data-testid="section-passport">
+                  <div className="flex items-start justify-between gap-4">
+                    <div>
+                      <h3 className="text-base font-bold">Passport</h3>
+                      <p className="text-sm text-muted-foreground mt-1">
+                        The national passport the title was issued against. Name, date of birth and nationality are compared with the title and the employee record.
+                      </p>
+                    </div>
+                    <label className="cursor-pointer flex-shrink-0">
+                      <Input
+                        type="file"
+                        accept=".pdf,.jpg,.jpeg,.png"
+                        onChange={handlePassportFileUpload}
+                        disabled={isOcrProcessing}
+                        className="hidden"
+                        data-testid="input-passport-file"
+                      />
+                      <Button type="button" variant="outline" disabled={isOcrProcessing} asChild>
+                        <span>
+                          <Upload className="h-4 w-4 mr-2" />
+                          Scan Passport
+                        </span>
+                      </Button>
+                    </label>
+                  </div>
+
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                    <div className="space-y-2">
+                      <Label htmlFor="passportLastName">Surname</Label>
+                      <Input
+                        id="passportLastName"
+                        {...form.register("passportLastName")}
+                        data-testid="input-passport-last-name"
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="passportFirstName">Given Names</Label>
+                      <Input
+                        id="passportFirstName"
+                        {...form.register("passportFirstName")}
+                        data-testid="input-passport-first-name"
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="passportDateOfBirth">Date of Birth</Label>
+                      <Input
+                        id="passportDateOfBirth"
+                        type="date"
+                        {...form.register("passportDateOfBirth")}
+                        data-testid="input-passport-date-of-birth"
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="passportNationality">Nationality</Label>
+                      <NationalitySelect
+                        id="passportNationality"
+                        value={form.watch("passportNationality") || ""}
+                        onChange={(alpha2) => form.setValue("passportNationality", alpha2)}
+                        testId="select-passport-nationality"
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="passportNumber">Passport Number</Label>
+                      <Input
+                        id="passportNumber"
+                        {...form.register("passportNumber")}
+                        className="font-mono"
+                        data-testid="input-passport-number"
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="passportIssuingCountry">Issuing Country</Label>
+                      <Input
+                        id="passportIssuingCountry"
+                        {...form.register("passportIssuingCountry")}
+                        placeholder="e.g., TR"
+                        maxLength={2}
+                        className="font-mono uppercase"
+                        data-testid="input-passport-issuing-country"
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="passportExpiryDate">Passport Valid Until</Label>
+                      <Input
+                        id="passportExpiryDate"
+                        type="date"
+                        {...form.register("passportExpiryDate")}
+                        data-testid="input-passport-expiry-date"
+                      />
+                    </div>
+                  </div>
+                </div>
+
+                <div className="space-y-4 p-4 border rounded-lg" data-testid="section-permit-conditions">
+                  <div>
+                    <h3 className="text-base font-bold">Permit Conditions & Planned Job</h3>
+                    <p className="text-sm text-muted-foreground mt-1">
+                      Answer from the card and its supplementary sheet (Zusatzblatt). Anything left blank or marked "Unknown" will be flagged for review.
+                    </p>
+                  </div>
+
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                    <div className="space-y-2">
+                      <Label htmlFor="nationality">Nationality</Label>
+                      <NationalitySelect
+                        id="nationality"
+                        value={nationality || ""}
+                        onChange={setNationality}
+                        testId="select-nationality"
+                      />
+                    </div>
+
+                    <div className="space-y-2">
+                      <Label htmlFor="citizenshipCategory">Citizenship</Label>
+                      <Select
+                        value={form.watch("citizenshipCategory") || ""}
+                        onValueChange={(value) => form.setValue("citizenshipCategory", value as CheckFormData["citizenshipCategory"])}
+                        disabled={!!classifyNationality(nationality)}
+                      >
+                        <SelectTrigger id="citizenshipCategory" data-testid="select-citizenship-category">
+                          <SelectValue placeholder="Select citizenship" />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {citizenshipCategories.map((category) => (
+                            <SelectItem key={category} value={category}>
+                              {nationalityCategoryLabels[category]}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      {classifyNationality(nationality) && (
+                        <p className="text-xs text-muted-foreground">Set from the nationality.</p>
+                      )}
+                    </div>
+
+                    <div className="space-y-2">
+                      <div className="flex items-center justify-between gap-2">
+                        <Label htmlFor="hiringEmployerName">Hiring Employer</Label>
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="sm"
+                          className="h-auto px-2 py-0 text-xs"
+                          onClick={() => setIsAliasDialogOpen(true)}
+                          data-testid="button-manage-employer-aliases"
+                        >
+                          Manage aliases
+                        </Button>
+                      </div>
+                      <Input
+                        id="hiringEmployerName"
+                        {...form.register("hiringEmployerName")}
+                        placeholder="e.g., Your Company GmbH"
+                        data-testid="input-hiring-employer-name"
+                      />
+                      <p className="text-xs text-muted-foreground">
+                        Subsidiaries and trading names added as aliases also count as your company.
+                      </p>
+                      <EmployerAliasesDialog open={isAliasDialogOpen} onOpenChange={setIsAliasDialogOpen} />
+                    </div>
+                  </div>
+
+                  <PermitConditionSelect
+                    id="permitNamesSpecificEmployer"
+                    label="Is the permit tied to a specific employer?"
+                    value={form.watch("permitNamesSpecificEmployer")}
+                    onChange={(value) => form.setValue("permitNamesSpecificEmployer", value)}
+                  />
+
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                    <PermitConditionSelect
+                      id="permitLimitedToOccupation"
+                      label="Is the permit limited to an occupation?"
+                      value={form.watch("permitLimitedToOccupation")}
+                      onChange={(value) => form.setValue("permitLimitedToOccupation", value)}
+                    />
+                    {form.watch("permitLimitedToOccupation") === "YES" && (
+                      <div className="space-y-2">
+                        <Label htmlFor="occupationOnPermit">Occupation on Permit</Label>
+                        <OccupationPicker
+                          id="occupationOnPermit"
+                          value={form.watch("occupationOnPermit") || ""}
+                          onChange={(value) => form.setValue("occupationOnPermit", value)}
+                          placeholder="e.g., Fachkraft für Lagerlogistik"
+                          testId="input-occupation-on-permit"
+                        />
+                      </div>
+                    )}
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label htmlFor="plannedRoleCategory">Planned Role</Label>
+                    <OccupationPicker
+                      id="plannedRoleCategory"
+                      value={form.watch("plannedRoleCategory") || ""}
+                      onChange={(value) => form.setValue("plannedRoleCategory", value)}
+                      placeholder="e.g., Warehouse operative"
+                      testId="input-planned-role"
+                    />
+                  </div>
+
+                  <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+                    <PermitConditionSelect
+                      id="hasHoursLimitOnPermit"
+                      label="Hours limit on permit?"
+                      value={form.watch("hasHoursLimitOnPermit")}
+                      onChange={(value) => form.setValue("hasHoursLimitOnPermit", value)}
+                    />
+                    {form.watch("hasHoursLimitOnPermit") === "YES" && (
+                      <div className="space-y-2">
+                        <Label htmlFor="hoursLimitPerWeekOnPermit">Limit (hours/week)</Label>
+                        <Input
+                          id="hoursLimitPerWeekOnPermit"
+                          type="number"
+                          min={0}
+                          {...form.register("hoursLimitPerWeekOnPermit", { setValueAs: toOptionalNumber })}
+                          placeholder="e.g., 20"
+                          data-testid="input-hours-limit"
+                        />
+                      </div>
+                    )}
+                    <div className="space-y-2">
+                      <Label htmlFor="contractHoursPerWeek">Contract Hours/Week</Label>
+                      <Input
+                        id="contractHoursPerWeek"
+                        type="number"
+                        min={0}
+                        {...form.register("contractHoursPerWeek", { setValueAs: toOptionalNumber })}
+                        placeholder="e.g., 40"
+                        data-testid="input-contract-hours"
+                      />
+                    </div>
+                  </div>
+
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                    <PermitConditionSelect
+                      id="hasLocationRestriction"
+                      label="Regional / location restriction?"
+                      value={form.watch("hasLocationRestriction")}
+                      onChange={(value) => form.setValue("hasLocationRestriction", value)}
+                    />
+                    <div className="space-y-2">
+                      <Label htmlFor="plannedWorkCity">Planned Work City</Label>
+                      <Input
+                        id="plannedWorkCity"
+                        {...form.register("plannedWorkCity")}
+                        placeholder="e.g., Berlin"
+                        data-testid="input-planned-work-city"
+                      />
+                    </div>
+                  </div>
+                  {form.watch("hasLocationRestriction") === "YES" && (
+                    <div className="space-y-2">
+                      <Label htmlFor="locationRestrictionDescription">Restriction Wording</Label>
+                      <Textarea
+                        id="locationRestrictionDescription"
+                        {...form.register("locationRestrictionDescription")}
+                        placeholder="e.g., Beschäftigung nur im Land Brandenburg"
+                        className="min-h-[60px] resize-none"
+                        data-testid="textarea-location-restriction"
+                      />
+                      <p className="text-xs text-muted-foreground">
+                        Matched against a bundled list of places ({gazetteerCoverage}). Places outside it are compared as text only.
+                      </p>
+                    </div>
+                  )}
+
                   <div className="space-y-2">
                     <div className="flex items-center gap-2">
-                      <Label htmlFor="expiryDate">
-                        Expiry Date <span className="text-destructive">*</span>
-                      </Label>
-                      {autofilledFields.has('expiryDate') && (
+                      <Label htmlFor="employmentPermittedUntil">Employment Permitted Until</Label>
+                      {autofilledFields.has('employmentPermittedUntil') && (
                         <span className="text-xs text-primary flex items-center gap-1">
                           <Sparkles className="h-3 w-3" />
-                          Auto-filled from scan
+                          Auto-filled from Zusatzblatt
                         </span>
                       )}
                     </div>
                     <Input
-                      id="expiryDate"
+                      id="employmentPermittedUntil"
                       type="date"
-                      {...form.register("expiryDate")}
-                      data-testid="input-expiry-date"
+                      {...form.register("employmentPermittedUntil")}
+                      className="md:w-1/2"
+                      data-testid="input-employment-permitted-until"
                     />
-                    {form.formState.errors.expiryDate && (
-                      <p className="text-sm text-destructive">
-                        {form.formState.errors.expiryDate.message}
-                      </p>
-                    )}
+                    <p className="text-xs text-muted-foreground">
+                      Only when the Nebenbestimmungen limit employment to a date (e.g. "Beschäftigung bis 31.12.2026 gestattet").
+                    </p>
                   </div>
+
+                  {documentType === "EU_BLUE_CARD" && (
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                      <PermitConditionSelect
+                        id="isChangingEmployer"
+                        label="Joining us from another employer?"
+                        value={form.watch("isChangingEmployer")}
+                        onChange={(value) => form.setValue("isChangingEmployer", value)}
+                      />
+                      <div className="space-y-2">
+                        <Label htmlFor="monthsOnBlueCardInGermany">Months on Blue Card in Germany</Label>
+                        <Input
+                          id="monthsOnBlueCardInGermany"
+                          type="number"
+                          min={0}
+                          {...form.register("monthsOnBlueCardInGermany", { setValueAs: toOptionalNumber })}
+                          placeholder="e.g., 18"
+                          data-testid="input-blue-card-months"
+                        />
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="contractGrossSalaryPerYear">Contract Gross Salary (EUR / year)</Label>
+                        <Input
+                          id="contractGrossSalaryPerYear"
+                          type="number"
+                          min={0}
+                          {...form.register("contractGrossSalaryPerYear", { setValueAs: toOptionalNumber })}
+                          placeholder="e.g., 52000"
+                          data-testid="input-contract-salary"
+                        />
+                        <p className="text-xs text-muted-foreground" data-testid="text-blue-card-salary-threshold">
+                          {blueCardSalaryThreshold.effectiveFrom.slice(0, 4)} minimum: {formatEuro(blueCardSalaryThreshold.standard)}, reduced {formatEuro(blueCardSalaryThreshold.reduced)}
+                        </p>
+                      </div>
+                      <div className="space-y-2">
+                        <Label htmlFor="blueCardSalaryCategory">Occupation Group</Label>
+                        <Select
+                          value={form.watch("blueCardSalaryCategory") || ""}
+                          onValueChange={(value) => form.setValue("blueCardSalaryCategory", value as BlueCardSalaryCategory)}
+                        >
+                          <SelectTrigger id="blueCardSalaryCategory" data-testid="select-blue-card-salary-category">
+                            <SelectValue placeholder="Select occupation group" />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {blueCardSalaryCategories.map((category) => (
+                              <SelectItem key={category} value={category}>
+                                {formatBlueCardSalaryCategory(category)}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                      </div>
+                    </div>
+                  )}
+
+                  {documentType === "FIKTIONSBESCHEINIGUNG" && (
+                    <PermitConditionSelect
+                      id="isContinuationOfSameJobAndEmployer"
+                      label="Does it continue a previous work permit with the same job and employer?"
+                      value={form.watch("isContinuationOfSameJobAndEmployer")}
+                      onChange={(value) => form.setValue("isContinuationOfSameJobAndEmployer", value)}
+                    />
+                  )}
                 </div>
 
                 {ocrUsed && (
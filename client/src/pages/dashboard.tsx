@@ -20,18 +20,48 @@ import {
   Download,
   HelpCircle,
   Rocket,
+  GraduationCap,
+  FileCheck,
 } from "lucide-react";
 import { Avatar, AvatarFallback } from "@/components/ui/avatar";
 import { Link } from "wouter";
 import { formatDate } from "@/lib/dateUtils";
-import { isExpiringSoon } from "@/lib/workEligibilityUtils";
-import type { EmployeeWithChecks } from "@shared/schema";
+import { formatDocumentType, getRenewalDate, isExpiringSoon } from "@/lib/workEligibilityUtils";
+import { documentTypes } from "@shared/schema";
+import type { BaApproval, EmployeeWithChecks } from "@shared/schema";
 import { useEffect, useState } from "react";
 import { useAuth } from "@/hooks/useAuth";
+import { useReasonLanguage } from "@/hooks/useReasonLanguage";
+import { getReasonLabel, type ReasonCode } from "../../../lib/reasonCodes";
+import type { StudentWorkDayUsage } from "../../../lib/studentWorkDays";
+import { studentAllowanceLevelConfig } from "@/components/StudentWorkDaysCard";
 import { useToast } from "@/hooks/use-toast";
 import { isUnauthorizedError } from "@/lib/authUtils";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 
+interface DecisionReasonCount {
+  code: ReasonCode;
+  severity: string;
+  source: string;
+  workStatus: string;
+  count: number;
+}
+
+interface StudentAllowanceWarning {
+  employeeId: string;
+  firstName: string;
+  lastName: string;
+  checkId: string;
+  usage: StudentWorkDayUsage;
+}
+
+interface ExpiringBaApproval extends BaApproval {
+  employeeId: string | null;
+  firstName: string | null;
+  lastName: string | null;
+  isExpired: boolean;
+}
+
 export default function Dashboard() {
   const { toast } = useToast();
   const { isAuthenticated, isLoading: authLoading } = useAuth();
@@ -87,6 +117,23 @@ export default function Dashboard() {
     enabled: isAuthenticated,
   });
 
+  const { data: reviewReasonCounts } = useQuery<DecisionReasonCount[]>({
+    queryKey: ["/api/reports/decision-reasons?workStatus=NEEDS_REVIEW"],
+    enabled: isAuthenticated,
+  });
+  const topReviewReasons = (reviewReasonCounts ?? []).slice(0, 5);
+
+  const { data: studentWarnings = [] } = useQuery<StudentAllowanceWarning[]>({
+    queryKey: ["/api/reports/student-work-days"],
+    enabled: isAuthenticated,
+  });
+
+  const { data: expiringBaApprovals = [] } = useQuery<ExpiringBaApproval[]>({
+    queryKey: ["/api/reports/expiring-ba-approvals"],
+    enabled: isAuthenticated,
+  });
+  const { language: reasonLanguage } = useReasonLanguage();
+
   const seedMutation = useMutation({
     mutationFn: async () => {
       await apiRequest("POST", "/api/demo/seed");
@@ -175,7 +222,7 @@ export default function Dashboard() {
       firstName: check.firstName || "",
       lastName: check.lastName || "",
       email: null,
-      nationality: null,
+      nationality: check.nationality,
       dateOfBirth: null,
       userId: check.userId,
       createdAt: check.createdAt,
@@ -190,9 +237,11 @@ export default function Dashboard() {
   const totalEmployees = employees?.length || 0;
   const eligibleCount = allRows.filter((row) => row.latestCheck?.workStatus === "ELIGIBLE").length;
 
-  const expiringSoon = allRows.filter(
-    (row) => row.latestCheck?.expiryDate && isExpiringSoon(row.latestCheck.expiryDate)
-  );
+  // Unlimited titles count by the expiry of the card that carries them
+  const expiringSoon = allRows.filter((row) => {
+    const renewalDate = row.latestCheck ? getRenewalDate(row.latestCheck) : null;
+    return renewalDate !== null && isExpiringSoon(renewalDate);
+  });
 
   const casesRequiringReview = allRows.filter(
     (row) =>
@@ -228,13 +277,14 @@ export default function Dashboard() {
 
   const allExpiringDocs = allRows
     .filter((row) => {
-      if (!row.latestCheck?.expiryDate) return false;
-      const status = getExpiryStatus(row.latestCheck.expiryDate);
+      const renewalDate = row.latestCheck ? getRenewalDate(row.latestCheck) : null;
+      if (!renewalDate) return false;
+      const status = getExpiryStatus(renewalDate);
       return status !== null;
     })
     .sort((a, b) => {
-      const dateA = new Date(a.latestCheck!.expiryDate!);
-      const dateB = new Date(b.latestCheck!.expiryDate!);
+      const dateA = new Date(getRenewalDate(a.latestCheck!)!);
+      const dateB = new Date(getRenewalDate(b.latestCheck!)!);
       return dateA.getTime() - dateB.getTime();
     });
 
@@ -485,7 +535,7 @@ export default function Dashboard() {
                           <StatusBadge status={check.workStatus} />
                         </TableCell>
                         <TableCell className="text-muted-foreground">
-                          {check.expiryDate ? formatDate(check.expiryDate) : "—"}
+                          {check.isTitleUnlimited ? "Unlimited" : check.expiryDate ? formatDate(check.expiryDate) : "—"}
                         </TableCell>
                         <TableCell className="flex flex-wrap gap-2">
                           <Link href={row.isStandalone ? `/checks/${check.id}` : `/employees/${row.id}`}>
@@ -589,10 +639,11 @@ export default function Dashboard() {
                     </SelectTrigger>
                     <SelectContent>
                       <SelectItem value="">All documents</SelectItem>
-                      <SelectItem value="EU_BLUE_CARD">EU Blue Card</SelectItem>
-                      <SelectItem value="EAT">Employment Authorization</SelectItem>
-                      <SelectItem value="FIKTIONSBESCHEINIGUNG">Fiktionsbescheinigung</SelectItem>
-                      <SelectItem value="OTHER">Other</SelectItem>
+                      {documentTypes.map((type) => (
+                        <SelectItem key={type} value={type}>
+                          {formatDocumentType(type)}
+                        </SelectItem>
+                      ))}
                     </SelectContent>
                   </Select>
                   <div className="flex items-center gap-2">
@@ -713,7 +764,7 @@ export default function Dashboard() {
                             </td>
                             <td className="px-6 py-4">
                               <span className="text-sm font-mono tabular-nums">
-                                {formatDate(row.latestCheck?.expiryDate)}
+                                {row.latestCheck?.isTitleUnlimited ? "Unlimited" : formatDate(row.latestCheck?.expiryDate)}
                               </span>
                             </td>
                             <td className="px-6 py-4">
@@ -742,8 +793,9 @@ export default function Dashboard() {
           </Card>
         </div>
 
-        {allExpiringDocs.length > 0 && (
-          <div className="xl:col-span-1">
+        {(allExpiringDocs.length > 0 || studentWarnings.length > 0 || expiringBaApprovals.length > 0 || topReviewReasons.length > 0) && (
+          <div className="xl:col-span-1 space-y-6">
+            {allExpiringDocs.length > 0 && (
             <Card className="shadow-sm bg-gradient-to-br from-card to-background">
               <CardHeader className="border-b bg-amber-50/20 dark:bg-amber-950/5">
                 <div className="flex items-center gap-3">
@@ -764,16 +816,10 @@ export default function Dashboard() {
                     const check = row.latestCheck;
                     if (!check) return null;
                     const name = `${row.firstName} ${row.lastName}`.trim() || "Unnamed";
-                    const expiryStatus = getExpiryStatus(check.expiryDate!);
+                    const renewalDate = getRenewalDate(check)!;
+                    const expiryStatus = getExpiryStatus(renewalDate);
                     if (!expiryStatus) return null;
 
-                    const documentTypeLabels: Record<string, string> = {
-                      EU_BLUE_CARD: "EU Blue Card",
-                      EAT: "Employment Authorization",
-                      FIKTIONSBESCHEINIGUNG: "Fiktionsbescheinigung",
-                      OTHER: "Other",
-                    };
-
                     return (
                       <div
                         key={check.id}
@@ -784,7 +830,7 @@ export default function Dashboard() {
                           <div className="min-w-0 flex-1">
                             <p className="font-semibold text-sm truncate">{name}</p>
                             <p className="text-xs text-muted-foreground">
-                              {documentTypeLabels[check.documentType] || check.documentType}
+                              {formatDocumentType(check.documentType)}
                             </p>
                           </div>
                           <Badge
@@ -802,7 +848,9 @@ export default function Dashboard() {
                           </Badge>
                         </div>
                         <div className="flex items-center justify-between gap-2 pt-2 border-t">
-                          <p className="text-xs text-muted-foreground">{formatDate(check.expiryDate!)}</p>
+                          <p className="text-xs text-muted-foreground">
+                            {check.isTitleUnlimited ? `Card expires ${formatDate(renewalDate)}` : formatDate(renewalDate)}
+                          </p>
                           <Link href={row.isStandalone ? `/checks/${check.id}` : `/employees/${row.id}`}>
                             <Button variant="ghost" size="sm" className="h-7 text-xs" data-testid={`button-view-expiring-${check.id}`}>
                               <Eye className="h-3 w-3 mr-1" />
@@ -821,6 +869,147 @@ export default function Dashboard() {
                 )}
               </CardContent>
             </Card>
+            )}
+
+            {studentWarnings.length > 0 && (
+              <Card className="shadow-sm" data-testid="card-student-work-day-warnings">
+                <CardHeader className="border-b bg-amber-50/20 dark:bg-amber-950/5">
+                  <div className="flex items-center gap-3">
+                    <div className="h-9 w-9 rounded-lg bg-gradient-to-br from-amber-500/20 to-amber-500/5 flex items-center justify-center">
+                      <GraduationCap className="h-4 w-4 text-amber-600 dark:text-amber-500" />
+                    </div>
+                    <div>
+                      <CardTitle className="text-base font-bold">Student Work Days</CardTitle>
+                      <p className="text-xs text-muted-foreground mt-0.5">
+                        Close to or over the §16b yearly allowance
+                      </p>
+                    </div>
+                  </div>
+                </CardHeader>
+                <CardContent className="p-4">
+                  <div className="space-y-3">
+                    {studentWarnings.slice(0, 5).map((warning) => {
+                      const level = studentAllowanceLevelConfig[warning.usage.level];
+                      const name = `${warning.firstName} ${warning.lastName}`.trim() || "Unnamed";
+                      return (
+                        <div
+                          key={warning.employeeId}
+                          className="flex items-center justify-between gap-2 p-3 rounded-lg border"
+                          data-testid={`row-student-days-${warning.employeeId}`}
+                        >
+                          <div className="min-w-0 flex-1">
+                            <p className="font-semibold text-sm truncate">{name}</p>
+                            <p className="text-xs text-muted-foreground">
+                              {warning.usage.usedDays} of {warning.usage.allowanceDays} days in {warning.usage.year}
+                            </p>
+                          </div>
+                          <Badge variant="outline" className={`${level.className} text-xs`}>
+                            {level.label}
+                          </Badge>
+                          <Link href={`/employees/${warning.employeeId}`}>
+                            <Button variant="ghost" size="sm" className="h-7 text-xs" data-testid={`button-view-student-days-${warning.employeeId}`}>
+                              <Eye className="h-3 w-3 mr-1" />
+                              View
+                            </Button>
+                          </Link>
+                        </div>
+                      );
+                    })}
+                  </div>
+                  {studentWarnings.length > 5 && (
+                    <div className="mt-3 pt-3 border-t text-center">
+                      <p className="text-xs text-muted-foreground">Showing 5 of {studentWarnings.length}</p>
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            )}
+
+            {expiringBaApprovals.length > 0 && (
+              <Card className="shadow-sm" data-testid="card-expiring-ba-approvals">
+                <CardHeader className="border-b bg-amber-50/20 dark:bg-amber-950/5">
+                  <div className="flex items-center gap-3">
+                    <div className="h-9 w-9 rounded-lg bg-gradient-to-br from-amber-500/20 to-amber-500/5 flex items-center justify-center">
+                      <FileCheck className="h-4 w-4 text-amber-600 dark:text-amber-500" />
+                    </div>
+                    <div>
+                      <CardTitle className="text-base font-bold">BA Approvals</CardTitle>
+                      <p className="text-xs text-muted-foreground mt-0.5">
+                        Bundesagentur für Arbeit approvals ending within 90 days
+                      </p>
+                    </div>
+                  </div>
+                </CardHeader>
+                <CardContent className="p-4">
+                  <div className="space-y-3">
+                    {expiringBaApprovals.slice(0, 5).map((approval) => {
+                      const expiryStatus = getExpiryStatus(approval.validTo!);
+                      const name = `${approval.firstName ?? ""} ${approval.lastName ?? ""}`.trim() || "Unnamed";
+                      return (
+                        <div
+                          key={approval.id}
+                          className="flex items-center justify-between gap-2 p-3 rounded-lg border"
+                          data-testid={`row-ba-approval-${approval.id}`}
+                        >
+                          <div className="min-w-0 flex-1">
+                            <p className="font-semibold text-sm truncate">{name}</p>
+                            <p className="text-xs text-muted-foreground">
+                              {approval.isExpired ? "Expired" : "Ends"} {formatDate(approval.validTo!)}
+                            </p>
+                          </div>
+                          {expiryStatus && (
+                            <Badge variant={expiryStatus.variant} className="text-xs">
+                              {expiryStatus.label}
+                            </Badge>
+                          )}
+                          <Link href={`/checks/${approval.checkId}`}>
+                            <Button variant="ghost" size="sm" className="h-7 text-xs" data-testid={`button-view-ba-approval-${approval.id}`}>
+                              <Eye className="h-3 w-3 mr-1" />
+                              View
+                            </Button>
+                          </Link>
+                        </div>
+                      );
+                    })}
+                  </div>
+                  {expiringBaApprovals.length > 5 && (
+                    <div className="mt-3 pt-3 border-t text-center">
+                      <p className="text-xs text-muted-foreground">Showing 5 of {expiringBaApprovals.length}</p>
+                    </div>
+                  )}
+                </CardContent>
+              </Card>
+            )}
+
+            {topReviewReasons.length > 0 && (
+              <Card className="shadow-sm" data-testid="card-top-review-reasons">
+                <CardHeader className="border-b">
+                  <div className="flex items-center gap-3">
+                    <div className="h-9 w-9 rounded-lg bg-gradient-to-br from-primary/20 to-primary/5 flex items-center justify-center">
+                      <HelpCircle className="h-4 w-4 text-primary" />
+                    </div>
+                    <div>
+                      <CardTitle className="text-base font-bold">Top Review Reasons</CardTitle>
+                      <p className="text-xs text-muted-foreground mt-0.5">Why checks end up in Needs Review</p>
+                    </div>
+                  </div>
+                </CardHeader>
+                <CardContent className="pt-4">
+                  <div className="space-y-2">
+                    {topReviewReasons.map((reason) => (
+                      <div
+                        key={reason.code}
+                        className="flex items-center justify-between gap-2 text-sm"
+                        data-testid={`review-reason-${reason.code}`}
+                      >
+                        <span className="truncate">{getReasonLabel(reason.code, reasonLanguage)}</span>
+                        <Badge variant="secondary" className="text-xs">{reason.count}</Badge>
+                      </div>
+                    ))}
+                  </div>
+                </CardContent>
+              </Card>
+            )}
           </div>
         )}
       </div>
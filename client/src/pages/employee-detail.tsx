@@ -19,6 +19,7 @@ import { StatusBadge } from "@/components/StatusBadge";
 import { StatusInterpretation } from "@/components/StatusInterpretation";
 import { PageHeader } from "@/components/PageHeader";
 import { TalentInviteDialog } from "@/components/TalentInviteDialog";
+import { StudentWorkDaysCard } from "@/components/StudentWorkDaysCard";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { ArrowLeft, Calendar, FileText, Download, Plus, File, Pencil, Link2, Check, Clock, Printer, ChevronDown, ChevronUp, Trash2, User, UserPlus } from "lucide-react";
 import { formatDate } from "@/lib/dateUtils";
@@ -27,6 +28,7 @@ import { apiRequest } from "@/lib/queryClient";
 import { useToast } from "@/hooks/use-toast";
 import { useState } from "react";
 import type { EmployeeWithChecks } from "@shared/schema";
+import { getCountry } from "../../../lib/nationality";
 
 export default function EmployeeDetail() {
   const [, params] = useRoute("/employees/:id");
@@ -173,7 +175,11 @@ export default function EmployeeDetail() {
           <PageHeader
             kicker="Employee"
             title={`${employee.firstName} ${employee.lastName}`}
-            description={employee.dateOfBirth ? `Born ${formatDate(employee.dateOfBirth)} · ${sortedChecks.length} check${sortedChecks.length !== 1 ? 's' : ''} on file` : `${sortedChecks.length} check${sortedChecks.length !== 1 ? 's' : ''} on file`}
+            description={[
+              employee.dateOfBirth && `Born ${formatDate(employee.dateOfBirth)}`,
+              getCountry(employee.nationality)?.en,
+              `${sortedChecks.length} check${sortedChecks.length !== 1 ? 's' : ''} on file`,
+            ].filter(Boolean).join(' · ')}
             icon={<User className="h-5 w-5" />}
             actions={
               <>
@@ -269,6 +275,21 @@ export default function EmployeeDetail() {
                     <p className="text-sm font-medium text-muted-foreground uppercase tracking-wider print:text-gray-600">Latest Status</p>
                     <StatusBadge status={sortedChecks[0].workStatus} />
                   </div>
+                  {sortedChecks[0].isTitleUnlimited && (
+                    <div className="space-y-2">
+                      <p className="text-sm font-medium text-muted-foreground uppercase tracking-wider print:text-gray-600">Next Expiry</p>
+                      <div className="space-y-1">
+                        <p className="text-lg font-semibold print:text-gray-900" data-testid="text-next-expiry">
+                          Unlimited title
+                        </p>
+                        {sortedChecks[0].cardExpiryDate && (
+                          <p className="text-sm text-muted-foreground print:text-gray-700" data-testid="text-card-expiry">
+                            Card valid until {formatDate(sortedChecks[0].cardExpiryDate)}
+                          </p>
+                        )}
+                      </div>
+                    </div>
+                  )}
                   {sortedChecks[0].expiryDate && (
                     <div className="space-y-2">
                       <p className="text-sm font-medium text-muted-foreground uppercase tracking-wider print:text-gray-600">Next Expiry</p>
@@ -357,6 +378,10 @@ export default function EmployeeDetail() {
             </Card>
           )}
 
+          {sortedChecks[0]?.documentType === "STUDENT_PERMIT" && (
+            <StudentWorkDaysCard employeeId={employee.id} />
+          )}
+
           {/* Print-only checks table */}
           {sortedChecks.length > 0 && (
             <Card className="hidden print:block print:bg-white print:border-gray-300">
@@ -399,7 +424,7 @@ export default function EmployeeDetail() {
                           {check.caseStatus === 'CLEARED' ? 'Cleared' : ''}
                         </TableCell>
                         <TableCell className="text-sm print:text-gray-900">{formatDocumentType(check.documentType)}</TableCell>
-                        <TableCell className="text-sm print:text-gray-900">{check.expiryDate ? formatDate(check.expiryDate) : '—'}</TableCell>
+                        <TableCell className="text-sm print:text-gray-900">{check.isTitleUnlimited ? 'Unlimited' : check.expiryDate ? formatDate(check.expiryDate) : '—'}</TableCell>
                         <TableCell className="text-xs print:text-gray-700 max-w-xs truncate">{check.decisionSummary || '—'}</TableCell>
                       </TableRow>
                     ))}
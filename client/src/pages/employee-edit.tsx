@@ -16,6 +16,7 @@ import type { EmployeeWithChecks } from "@shared/schema";
 import { ArrowLeft, Loader2 } from "lucide-react";
 import { Link } from "wouter";
 import { isUnauthorizedError } from "@/lib/authUtils";
+import { NationalitySelect } from "@/components/NationalitySelect";
 
 type EmployeeFormData = z.infer<typeof employeeFormSchema>;
 
@@ -37,6 +38,7 @@ export default function EmployeeEdit() {
       firstName: "",
       lastName: "",
       dateOfBirth: "",
+      nationality: "",
       notes: "",
     },
   });
@@ -47,6 +49,7 @@ export default function EmployeeEdit() {
         firstName: employee.firstName,
         lastName: employee.lastName,
         dateOfBirth: employee.dateOfBirth || "",
+        nationality: employee.nationality || "",
         notes: employee.notes || "",
       });
     }
@@ -58,6 +61,7 @@ export default function EmployeeEdit() {
       const payload = {
         ...data,
         dateOfBirth: data.dateOfBirth || undefined,
+        nationality: data.nationality || null,
       };
       return await apiRequest("PUT", `/api/employees/${employeeId}`, payload);
     },
@@ -183,19 +187,31 @@ export default function EmployeeEdit() {
                   </div>
                 </div>
 
-                <div className="space-y-2">
-                  <Label htmlFor="dateOfBirth">Date of Birth</Label>
-                  <Input
-                    id="dateOfBirth"
-                    type="date"
-                    {...form.register("dateOfBirth")}
-                    data-testid="input-date-of-birth"
-                  />
-                  {form.formState.errors.dateOfBirth && (
-                    <p className="text-sm text-destructive">
-                      {form.formState.errors.dateOfBirth.message}
-                    </p>
-                  )}
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                  <div className="space-y-2">
+                    <Label htmlFor="dateOfBirth">Date of Birth</Label>
+                    <Input
+                      id="dateOfBirth"
+                      type="date"
+                      {...form.register("dateOfBirth")}
+                      data-testid="input-date-of-birth"
+                    />
+                    {form.formState.errors.dateOfBirth && (
+                      <p className="text-sm text-destructive">
+                        {form.formState.errors.dateOfBirth.message}
+                      </p>
+                    )}
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label htmlFor="nationality">Nationality</Label>
+                    <NationalitySelect
+                      id="nationality"
+                      value={form.watch("nationality") || ""}
+                      onChange={(value) => form.setValue("nationality", value)}
+                      testId="select-nationality"
+                    />
+                  </div>
                 </div>
 
                 <div className="space-y-2">
@@ -15,6 +15,7 @@ import type { z } from "zod";
 import { ArrowLeft } from "lucide-react";
 import { Link } from "wouter";
 import { isUnauthorizedError } from "@/lib/authUtils";
+import { NationalitySelect } from "@/components/NationalitySelect";
 
 type EmployeeFormData = z.infer<typeof employeeFormSchema>;
 
@@ -29,6 +30,7 @@ export default function EmployeeNew() {
       firstName: "",
       lastName: "",
       dateOfBirth: "",
+      nationality: "",
       notes: "",
     },
   });
@@ -39,6 +41,7 @@ export default function EmployeeNew() {
       const payload = {
         ...data,
         dateOfBirth: data.dateOfBirth || undefined,
+        nationality: data.nationality || null,
       };
       return await apiRequest("POST", "/api/employees", payload);
     },
@@ -141,19 +144,31 @@ export default function EmployeeNew() {
                   </div>
                 </div>
 
-                <div className="space-y-2">
-                  <Label htmlFor="dateOfBirth">Date of Birth</Label>
-                  <Input
-                    id="dateOfBirth"
-                    type="date"
-                    {...form.register("dateOfBirth")}
-                    data-testid="input-date-of-birth"
-                  />
-                  {form.formState.errors.dateOfBirth && (
-                    <p className="text-sm text-destructive">
-                      {form.formState.errors.dateOfBirth.message}
-                    </p>
-                  )}
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+                  <div className="space-y-2">
+                    <Label htmlFor="dateOfBirth">Date of Birth</Label>
+                    <Input
+                      id="dateOfBirth"
+                      type="date"
+                      {...form.register("dateOfBirth")}
+                      data-testid="input-date-of-birth"
+                    />
+                    {form.formState.errors.dateOfBirth && (
+                      <p className="text-sm text-destructive">
+                        {form.formState.errors.dateOfBirth.message}
+                      </p>
+                    )}
+                  </div>
+
+                  <div className="space-y-2">
+                    <Label htmlFor="nationality">Nationality</Label>
+                    <NationalitySelect
+                      id="nationality"
+                      value={form.watch("nationality") || ""}
+                      onChange={(value) => form.setValue("nationality", value)}
+                      testId="select-nationality"
+                    />
+                  </div>
                 </div>
 
                 <div className="space-y-2">
@@ -5,6 +5,7 @@ import { Skeleton } from "@/components/ui/skeleton";
 import { Users, Plus, Eye, ArrowUpDown, AlertTriangle, ArrowUp, ArrowDown } from "lucide-react";
 import { Link } from "wouter";
 import { formatDate } from "@/lib/dateUtils";
+import { formatDocumentType } from "@/lib/workEligibilityUtils";
 import { StatusBadge } from "@/components/StatusBadge";
 import { Badge } from "@/components/ui/badge";
 import type { EmployeeWithChecks } from "@shared/schema";
@@ -223,13 +224,9 @@ export default function Employees() {
                             {latestCheck ? (
                               <div className="text-xs text-muted-foreground mt-1" data-testid={`text-employee-summary-${employee.id}`}>
                                 Last check: {latestCheck.workStatus.replace(/_/g, " ")}
-                                {latestCheck.documentType && ` — ${
-                                  latestCheck.documentType === "EU_BLUE_CARD" ? "EU Blue Card" :
-                                  latestCheck.documentType === "EAT" ? "Employment Authorization" :
-                                  latestCheck.documentType === "FIKTIONSBESCHEINIGUNG" ? "Fiktionsbescheinigung" :
-                                  latestCheck.documentType
-                                }`}
+                                {latestCheck.documentType && ` — ${formatDocumentType(latestCheck.documentType)}`}
                                 {latestCheck.expiryDate && `, expires ${formatDate(latestCheck.expiryDate)}`}
+                                {latestCheck.isTitleUnlimited && ", unlimited title"}
                               </div>
                             ) : (
                               <div className="text-xs text-muted-foreground mt-1" data-testid={`text-employee-summary-${employee.id}`}>
@@ -260,6 +257,8 @@ export default function Employees() {
                                 <AlertTriangle className="h-4 w-4 text-amber-600 dark:text-amber-400" />
                               )}
                             </div>
+                          ) : latestCheck?.isTitleUnlimited ? (
+                            <span className="text-sm">Unlimited</span>
                           ) : (
                             <span className="text-muted-foreground">—</span>
                           )}
@@ -109,6 +109,10 @@ export default function Help() {
                   <li className="leading-relaxed"><strong>Elektronischer Aufenthaltstitel (eAT)</strong> – electronic residence titles</li>
                   <li className="leading-relaxed"><strong>Aufenthaltserlaubnis</strong> – general residence permits for employment</li>
                   <li className="leading-relaxed"><strong>Fiktionsbescheinigung</strong> – temporary permits during application processing</li>
+                  <li className="leading-relaxed"><strong>Niederlassungserlaubnis &amp; Daueraufenthalt-EU</strong> – permanent titles with unrestricted work rights</li>
+                  <li className="leading-relaxed"><strong>Aufenthaltsgestattung &amp; Duldung</strong> – work only with an explicit Beschäftigungserlaubnis</li>
+                  <li className="leading-relaxed"><strong>§24 temporary protection, Chancenkarte, ICT-Karte, Westbalkanregelung, §16b student permit</strong> – each evaluated with its own rules</li>
+                  <li className="leading-relaxed"><strong>Zustimmung der Bundesagentur für Arbeit</strong> – attach the approval letter to a check; work is only authorised where both the title and the approval allow it</li>
                 </ul>
                 <p className="text-sm mt-4 font-medium">
                   For best OCR results, upload clear, high-resolution scans or photos of the document. PDF files work well.
@@ -7,6 +7,13 @@ import { Alert, AlertDescription } from "@/components/ui/alert";
 import { CheckCircle2, Upload, AlertCircle, Loader2, FileText } from "lucide-react";
 import { CertiaLogo } from "@/components/CertiaLogo";
 
+// Photos the server asked to retake, with what to do differently
+interface RetakeFeedback {
+  fileName: string;
+  issues: string[];
+  feedback: string[];
+}
+
 export default function PublicUploadPage() {
   const [, navigate] = useLocation();
   const [selectedFiles, setSelectedFiles] = useState<File[]>([]);
@@ -15,6 +22,7 @@ export default function PublicUploadPage() {
   const [uploadResult, setUploadResult] = useState<any>(null);
   const [uploadedFileNames, setUploadedFileNames] = useState<string[]>([]);
   const [validationMessage, setValidationMessage] = useState<string | null>(null);
+  const [retakeFeedback, setRetakeFeedback] = useState<RetakeFeedback[]>([]);
 
   const urlParams = new URLSearchParams(window.location.search);
   const token = urlParams.get("token");
@@ -26,6 +34,7 @@ export default function PublicUploadPage() {
 
   const uploadMutation = useMutation({
     mutationFn: async (files: File[]) => {
+      setRetakeFeedback([]);
       const formData = new FormData();
       files.forEach(file => {
         formData.append("documents", file);
@@ -39,6 +48,10 @@ export default function PublicUploadPage() {
 
       if (!response.ok) {
         const errorData = await response.json();
+        if (Array.isArray(errorData.retake)) {
+          setRetakeFeedback(errorData.retake);
+          throw new Error(errorData.message || errorData.error || "Please retake your photos");
+        }
         throw new Error(errorData.error || errorData.message || "Upload failed");
       }
 
@@ -270,6 +283,26 @@ export default function PublicUploadPage() {
               </Alert>
             )}
 
+            {uploadMutation.isError && retakeFeedback.length > 0 && (
+              <Alert data-testid="alert-retake-feedback">
+                <AlertCircle className="h-4 w-4" />
+                <AlertDescription>
+                  <ul className="space-y-2 text-sm">
+                    {retakeFeedback.map((item) => (
+                      <li key={item.fileName} data-testid={`retake-feedback-${item.fileName}`}>
+                        <span className="font-medium">{item.fileName}</span>
+                        <ul className="list-disc pl-5 text-muted-foreground">
+                          {item.feedback.map((message) => (
+                            <li key={message}>{message}</li>
+                          ))}
+                        </ul>
+                      </li>
+                    ))}
+                  </ul>
+                </AlertDescription>
+              </Alert>
+            )}
+
             {uploadMutation.isPending && (
               <Alert className="bg-muted/60">
                 <Loader2 className="h-4 w-4 animate-spin" />
@@ -55,6 +55,7 @@ const PERMIT_HORIZONS = [
   { value: "M6_12", label: "6-12 months" },
   { value: "M12_24", label: "12-24 months" },
   { value: "OVER_24M", label: "Over 24 months" },
+  { value: "UNLIMITED", label: "Unlimited title" },
   { value: "UNKNOWN", label: "Unknown" },
 ];
 
@@ -68,6 +69,7 @@ function getPermitBadgeVariant(horizon: string | null | undefined): "default" |
 function formatPermitHorizon(horizon: string | null | undefined): string {
   if (!horizon || horizon === "UNKNOWN") return "Permit horizon: Unknown";
   const horizonMap: Record<string, string> = {
+    UNLIMITED: "Permit horizon: Unlimited",
     OVER_24M: "Permit horizon: ~24+ months",
     M12_24: "Permit horizon: ~12–24 months",
     M6_12: "Permit horizon: ~6–12 months",
@@ -185,7 +187,7 @@ export default function Talent() {
             </Select>
 
             <Input
-              placeholder="Location (city or region)"
+              placeholder="Location (city, Landkreis, Bundesland or postcode)"
               value={locationFilter}
               onChange={(e) => setLocationFilter(e.target.value)}
               data-testid="filter-location"
@@ -0,0 +1,103 @@
+// lib/baApproval.ts
+
+// Zustimmung der Bundesagentur für Arbeit (§39 AufenthG). Many titles for
+// employment (§18a/§18b, §19c, Westbalkanregelung, ICT) are only issued with
+// the Agentur's approval, which names its own employer, occupation, working
+// hours, location and validity. The card only says "Beschäftigung nur mit
+// Zustimmung …"; the conditions are in the approval letter or Zusatzblatt.
+
+// Conditions of an approval, as the rules engine sees them.
+export interface BaApprovalConditions {
+  validFrom?: string;     // ISO date
+  validTo?: string;       // ISO date
+  employerName?: string;
+  occupation?: string;
+  hoursPerWeek?: number;
+  workLocation?: string;
+}
+
+export interface BaApprovalFields extends BaApprovalConditions {
+  referenceNumber?: string; // Geschäftszeichen
+}
+
+/**
+ * Heuristic: the text mentions the Bundesagentur für Arbeit together with an
+ * approval (Zustimmung) to employment.
+ */
+export function isBaApprovalText(text: string): boolean {
+  const lower = text.toLowerCase();
+  const mentionsAgentur = lower.includes('bundesagentur für arbeit') || lower.includes('agentur für arbeit');
+  return mentionsAgentur && lower.includes('zustimmung');
+}
+
+function toIsoDate(day: string, month: string, year: string): string {
+  return `${year}-${month.padStart(2, '0')}-${day.padStart(2, '0')}`;
+}
+
+const DATE = String.raw`(\d{1,2})\.(\d{1,2})\.(\d{4})`;
+
+function firstMatch(text: string, patterns: RegExp[]): RegExpMatchArray | null {
+  for (const pattern of patterns) {
+    const match = text.match(pattern);
+    if (match) return match;
+  }
+  return null;
+}
+
+function cleanValue(value: string): string | undefined {
+  const cleaned = value.replace(/\s+/g, ' ').replace(/[\s,;:.]+$/, '').trim();
+  return cleaned.length > 1 ? cleaned : undefined;
+}
+
+/**
+ * Reads the conditions from the OCR text of an approval letter. Every field is
+ * optional; HR confirms the values before they are saved.
+ */
+export function parseBaApprovalText(rawText: string): BaApprovalFields {
+  const text = rawText.replace(/\r/g, '');
+  const fields: BaApprovalFields = {};
+
+  const reference = firstMatch(text, [
+    /(?:geschäftszeichen|gesch\.?-?zeichen|aktenzeichen|az\.)\s*:?\s*([A-Z0-9][A-Z0-9 ./-]{3,40})/i,
+  ]);
+  if (reference) fields.referenceNumber = cleanValue(reference[1]);
+
+  const period = firstMatch(text, [
+    new RegExp(String.raw`(?:vom|ab)\s+${DATE}\s+bis\s+(?:zum\s+)?${DATE}`, 'i'),
+  ]);
+  if (period) {
+    fields.validFrom = toIsoDate(period[1], period[2], period[3]);
+    fields.validTo = toIsoDate(period[4], period[5], period[6]);
+  } else {
+    const until = firstMatch(text, [
+      new RegExp(String.raw`(?:befristet|gültig|längstens)\s+bis\s+(?:zum\s+)?${DATE}`, 'i'),
+    ]);
+    if (until) fields.validTo = toIsoDate(until[1], until[2], until[3]);
+  }
+
+  const hours = firstMatch(text, [
+    /(\d{1,2}(?:,\d)?)\s*(?:wochenstunden|std\.?\s*\/\s*woche|stunden\s+(?:pro|je|in\s+der)\s+woche|stunden\s+wöchentlich)/i,
+    /wöchentliche[nr]?\s+arbeitszeit\s+(?:von\s+)?(\d{1,2}(?:,\d)?)\s*stunden/i,
+  ]);
+  if (hours) fields.hoursPerWeek = Math.floor(Number(hours[1].replace(',', '.')));
+
+  const occupation = firstMatch(text, [
+    /(?:beschäftigung|tätigkeit)\s+als\s+([^\n,;(]+)/i,
+    /(?:beruf|tätigkeit)\s*:\s*([^\n]+)/i,
+  ]);
+  if (occupation) fields.occupation = cleanValue(occupation[1].replace(/\s+bei\s+.*$/i, ''));
+
+  const employer = firstMatch(text, [
+    /(?:arbeitgeber|firma)\s*:\s*([^\n]+)/i,
+    /\bbei\s+(?:der\s+|dem\s+)?(?:[Ff]irma\s+)?([^\n,;]+?\b(?:GmbH(?:\s*&\s*Co\.?\s*KG)?|AG|KG|SE|UG|OHG|GbR|e\.\s?V\.))/,
+  ]);
+  if (employer) fields.employerName = cleanValue(employer[1]);
+
+  const location = firstMatch(text, [
+    /(?:beschäftigungsort|arbeitsort|einsatzort)\s*:?\s*([^\n]+)/i,
+    /\bin\s+(\d{5}\s+[A-ZÄÖÜ][\wäöüß-]+(?:\s+[A-ZÄÖÜ][\wäöüß-]+)?)/,
+  ]);
+  if (location) fields.workLocation = cleanValue(location[1]);
+
+  return fields;
+}
@@ -0,0 +1,59 @@
+// lib/blueCardSalary.ts
+
+// Minimum gross salary for an EU Blue Card (§18g AufenthG). The Federal
+// Ministry of the Interior publishes new amounts every January; a lower amount
+// applies to shortage occupations and, since the November 2023 reform, to
+// new entrants (graduates of the last three years).
+
+export type BlueCardSalaryCategory =
+  | 'STANDARD'
+  | 'SHORTAGE_OCCUPATION' // Engpassberuf, ISCO groups 132–134, 21, 221, 222, 225, 226, 23, 25
+  | 'NEW_ENTRANT';        // Berufsanfänger: degree obtained within the last three years
+
+export interface BlueCardSalaryThreshold {
+  effectiveFrom: string;        // ISO date the amounts apply from
+  standard: number;             // EUR gross per year
+  reduced: number;              // EUR gross per year, shortage occupations
+  reducedForNewEntrants: boolean;
+}
+
+// Ordered oldest → newest. Add a new entry every January.
+export const BLUE_CARD_SALARY_THRESHOLDS: readonly BlueCardSalaryThreshold[] = [
+  { effectiveFrom: '2020-01-01', standard: 55200, reduced: 43056, reducedForNewEntrants: false },
+  { effectiveFrom: '2021-01-01', standard: 56800, reduced: 44304, reducedForNewEntrants: false },
+  { effectiveFrom: '2022-01-01', standard: 56400, reduced: 43992, reducedForNewEntrants: false },
+  { effectiveFrom: '2023-01-01', standard: 58400, reduced: 45552, reducedForNewEntrants: false },
+  // Blue Card reform (Fachkräfteeinwanderungsgesetz 2023)
+  { effectiveFrom: '2023-11-18', standard: 43800, reduced: 39682.8, reducedForNewEntrants: true },
+  { effectiveFrom: '2024-01-01', standard: 45300, reduced: 41041.8, reducedForNewEntrants: true },
+  { effectiveFrom: '2025-01-01', standard: 48300, reduced: 43759.8, reducedForNewEntrants: true },
+  { effectiveFrom: '2026-01-01', standard: 50700, reduced: 45934.2, reducedForNewEntrants: true },
+];
+
+/**
+ * Returns the thresholds in force on the given date. Dates before the oldest
+ * entry fall back to the oldest one we know.
+ */
+export function getBlueCardSalaryThreshold(date: string | Date): BlueCardSalaryThreshold {
+  const isoDate = (typeof date === 'string' ? new Date(date) : date).toISOString().split('T')[0];
+  let match = BLUE_CARD_SALARY_THRESHOLDS[0];
+  for (const threshold of BLUE_CARD_SALARY_THRESHOLDS) {
+    if (threshold.effectiveFrom <= isoDate) {
+      match = threshold;
+    }
+  }
+  return match;
+}
+
+/**
+ * Minimum salary for the category. Before the 2023 reform new entrants had no
+ * reduced threshold, so they fall back to the standard amount.
+ */
+export function getMinimumBlueCardSalary(
+  threshold: BlueCardSalaryThreshold,
+  category: BlueCardSalaryCategory
+): number {
+  if (category === 'SHORTAGE_OCCUPATION') return threshold.reduced;
+  if (category === 'NEW_ENTRANT' && threshold.reducedForNewEntrants) return threshold.reduced;
+  return threshold.standard;
+}
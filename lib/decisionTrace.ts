@@ -0,0 +1,131 @@
+// lib/decisionTrace.ts
+
+// Step-by-step record of an evaluation, so HR can see which rule fired,
+// which inputs it read and how each rule changed the status.
+
+import type { DecisionReason, ReasonCode } from './reasonCodes';
+
+type TraceStatus = 'ELIGIBLE' | 'NOT_ELIGIBLE' | 'NEEDS_REVIEW';
+
+export const traceOutcomes = [
+  'PASSED',          // rule applied, no concerns
+  'FLAGGED',         // rule raised a concern
+  'STOPPED',         // rule ended the evaluation (hard stop or shortcut)
+  'NOT_APPLICABLE',  // rule did not apply to this case
+] as const;
+export type TraceOutcome = typeof traceOutcomes[number];
+
+export type TraceInputValue = string | number | boolean | null;
+
+export interface DecisionTraceStep {
+  rule: string;      // stable rule id, e.g. "TITLE_VALIDITY"
+  label: string;     // short English description of the rule
+  inputs: Record<string, TraceInputValue>;
+  outcome: TraceOutcome;
+  reasonCodes: ReasonCode[];
+  statusBefore: TraceStatus;
+  statusAfter: TraceStatus;
+}
+
+interface OpenStep {
+  rule: string;
+  label: string;
+  inputs: Record<string, TraceInputValue>;
+  statusBefore: TraceStatus;
+  firstReason: number;
+  applies: boolean;
+}
+
+function toTraceValue(value: unknown): TraceInputValue {
+  if (value === undefined || value === null) return null;
+  if (Array.isArray(value)) return value.join(', ');
+  if (typeof value === 'string' || typeof value === 'number' || typeof value === 'boolean') return value;
+  return String(value);
+}
+
+/**
+ * Records rules as the engine walks through them. `begin` opens a rule (and
+ * closes the previous one); `stop` closes it as the rule that ended the
+ * evaluation. The outcome is derived from the reasons the rule added and
+ * from the status change; a rule that `applies` but added nothing passed.
+ */
+export function createDecisionTracer(reasons: DecisionReason[], getStatus: () => TraceStatus) {
+  const steps: DecisionTraceStep[] = [];
+  let open: OpenStep | null = null;
+
+  const close = (stopped: boolean) => {
+    if (!open) return;
+    const added = reasons.slice(open.firstReason);
+    const statusAfter = getStatus();
+    let outcome: TraceOutcome;
+    if (stopped) {
+      outcome = 'STOPPED';
+    } else if (statusAfter !== open.statusBefore || added.some((reason) => reason.severity !== 'INFO')) {
+      outcome = 'FLAGGED';
+    } else if (added.length > 0 || open.applies) {
+      outcome = 'PASSED';
+    } else {
+      outcome = 'NOT_APPLICABLE';
+    }
+    steps.push({
+      rule: open.rule,
+      label: open.label,
+      inputs: open.inputs,
+      outcome,
+      reasonCodes: added.map((reason) => reason.code),
+      statusBefore: open.statusBefore,
+      statusAfter,
+    });
+    open = null;
+  };
+
+  return {
+    begin(rule: string, label: string, inputs: Record<string, unknown>, applies = true) {
+      close(false);
+      open = {
+        rule,
+        label,
+        inputs: Object.fromEntries(Object.entries(inputs).map(([key, value]) => [key, toTraceValue(value)])),
+        statusBefore: getStatus(),
+        firstReason: reasons.length,
+        applies,
+      };
+    },
+    stop() {
+      close(true);
+    },
+    finish(): DecisionTraceStep[] {
+      close(false);
+      return steps;
+    },
+  };
+}
+
+/**
+ * Step for the guardrail that merges the AI review with the rules result.
+ * The AI is not part of the rules engine, so the route appends this step
+ * after the engine's own trace.
+ */
+export function createAiCrossCheckStep(
+  aiStatus: string,
+  rulesStatus: TraceStatus,
+  finalStatus: TraceStatus
+): DecisionTraceStep {
+  let outcome: TraceOutcome;
+  if (aiStatus === 'UNKNOWN') {
+    outcome = 'NOT_APPLICABLE';
+  } else if (finalStatus !== rulesStatus || aiStatus !== rulesStatus) {
+    outcome = 'FLAGGED';
+  } else {
+    outcome = 'PASSED';
+  }
+  return {
+    rule: 'AI_CROSS_CHECK',
+    label: 'AI review vs. rules engine',
+    inputs: { aiStatus, rulesStatus },
+    outcome,
+    reasonCodes: aiStatus !== 'UNKNOWN' && aiStatus !== rulesStatus ? ['AI_RULES_CONFLICT'] : [],
+    statusBefore: rulesStatus,
+    statusAfter: finalStatus,
+  };
+}
@@ -0,0 +1,295 @@
+// lib/documentAuthenticity.ts
+
+// Certia cannot prove a document genuine, but some traits of a scan or of the
+// data read from it are typical of edited or forged documents: a file saved
+// by an image editor, printed data that disagrees with the machine-readable
+// zone, a document number no authority would issue, dates that cannot occur
+// on the document type, or a document number already on file for someone
+// else. Each trait is recorded as a signal and sends the check to review;
+// none of them decides the check on its own. Signals found in the file itself
+// come from lib/imageForensics.ts.
+
+import type { DocumentKind, DocumentType } from '../shared/schema';
+import { crossCheckIdentity } from './identityCrossCheck';
+import { mrzCheckedFieldLabels, type MrzData } from './mrz';
+import type { ReasonLanguage } from './reasonCodes';
+
+export const authenticitySignalCodes = [
+  'EDITING_SOFTWARE',
+  'RECOMPRESSED',
+  'MRZ_PRINTED_MISMATCH',
+  'DOCUMENT_NUMBER_FORMAT',
+  'IMPOSSIBLE_DATES',
+  'VALIDITY_TOO_LONG',
+  'DUPLICATE_DOCUMENT_NUMBER',
+] as const;
+export type AuthenticitySignalCode = typeof authenticitySignalCodes[number];
+
+export const authenticitySignalLabels: Record<AuthenticitySignalCode, { en: string; de: string }> = {
+  EDITING_SOFTWARE: { en: 'Saved by an image editor', de: 'Mit Bildbearbeitung gespeichert' },
+  RECOMPRESSED: { en: 'Image saved again', de: 'Bild erneut gespeichert' },
+  MRZ_PRINTED_MISMATCH: { en: 'MRZ and printed data differ', de: 'MRZ und Aufdruck weichen ab' },
+  DOCUMENT_NUMBER_FORMAT: { en: 'Invalid document number', de: 'Ungültige Dokumentennummer' },
+  IMPOSSIBLE_DATES: { en: 'Impossible dates', de: 'Unmögliche Datumsangaben' },
+  VALIDITY_TOO_LONG: { en: 'Validity too long', de: 'Gültigkeit zu lang' },
+  DUPLICATE_DOCUMENT_NUMBER: { en: 'Document number used for another person', de: 'Dokumentennummer bei anderer Person' },
+};
+
+export interface AuthenticitySignal {
+  code: AuthenticitySignalCode;
+  params: Record<string, string | number>; // what was found, see describeAuthenticitySignal
+}
+
+// Card-based German residence titles (eAT) carry a nine-character serial
+// number drawn from digits and consonants that cannot be mistaken for one
+// another – no vowels, no B, D, Q or S
+export const EAT_NUMBER_PATTERN = /^[0-9CFGHJKLMNPRTVWXYZ]{9}$/;
+const eatDocumentTypes: readonly DocumentType[] = [
+  'EU_BLUE_CARD',
+  'EAT',
+  'NIEDERLASSUNGSERLAUBNIS',
+  'DAUERAUFENTHALT_EU',
+  'TEMPORARY_PROTECTION_24',
+  'CHANCENKARTE',
+  'ICT_KARTE',
+  'WESTBALKAN_REGELUNG',
+  'STUDENT_PERMIT',
+];
+// ICAO 9303: passport numbers have up to nine letters and digits
+const PASSPORT_NUMBER_PATTERN = /^[A-Z0-9]{5,9}$/;
+
+// Longest validity, in months from the date of issue, a document type can be
+// issued for. Blue Card four years (§18 Abs. 4 AufenthG), Chancenkarte one year
+// plus a follow-up card of up to two (§20a, §20b AufenthG), ICT-Karte three
+// years (§19 Abs. 4 AufenthG), students two years per issue (§16b Abs. 2
+// AufenthG); any other eAT card ten years. Paper documents have no fixed cap.
+export const MAX_VALIDITY_MONTHS: Partial<Record<DocumentType, number>> = {
+  EU_BLUE_CARD: 48,
+  CHANCENKARTE: 24,
+  ICT_KARTE: 36,
+  STUDENT_PERMIT: 24,
+  EAT: 120,
+  NIEDERLASSUNGSERLAUBNIS: 120,
+  DAUERAUFENTHALT_EU: 120,
+  WESTBALKAN_REGELUNG: 120,
+};
+// Issue and card production dates differ by a few weeks in practice
+const VALIDITY_GRACE_DAYS = 31;
+
+export function normalizeDocumentNumber(documentNumber: string): string {
+  return documentNumber.replace(/\s+/g, '').toUpperCase();
+}
+
+// OCR confuses O/0 and I/1; neither side is trusted to have the right one
+function normalizeForComparison(documentNumber: string): string {
+  return normalizeDocumentNumber(documentNumber).replace(/O/g, '0').replace(/I/g, '1');
+}
+
+function toIsoDate(value: string | Date | null | undefined): string | undefined {
+  if (!value) return undefined;
+  const date = typeof value === 'string' ? new Date(value) : value;
+  return Number.isNaN(date.getTime()) ? undefined : date.toISOString().split('T')[0];
+}
+
+/**
+ * Compares the document number, expiry and birth date printed on the document
+ * with the machine-readable zone. Only MRZ values whose check digit matched
+ * are compared; a failed check digit is reported on its own.
+ */
+export function compareMrzWithPrintedData(
+  mrz: MrzData | undefined,
+  printed: { documentNumber?: string; expiryDate?: string; birthDate?: string }
+): AuthenticitySignal[] {
+  if (!mrz) return [];
+  const signals: AuthenticitySignal[] = [];
+  if (mrz.checkDigits.documentNumber && mrz.documentNumber && printed.documentNumber
+    && normalizeForComparison(mrz.documentNumber) !== normalizeForComparison(printed.documentNumber)) {
+    signals.push({
+      code: 'MRZ_PRINTED_MISMATCH',
+      params: { field: 'documentNumber', mrzValue: mrz.documentNumber, printedValue: printed.documentNumber },
+    });
+  }
+  for (const field of ['expiryDate', 'birthDate'] as const) {
+    const mrzValue = mrz[field];
+    const printedValue = field === 'expiryDate' ? printed.expiryDate : printed.birthDate;
+    if (mrz.checkDigits[field] && mrzValue && printedValue && mrzValue !== printedValue) {
+      signals.push({ code: 'MRZ_PRINTED_MISMATCH', params: { field, mrzValue, printedValue } });
+    }
+  }
+  return signals;
+}
+
+/**
+ * Flags a document number that does not have the format the issuer uses:
+ * nine eAT characters for card-based residence titles, the ICAO format for
+ * passports. Paper documents and other documents are not checked.
+ */
+export function checkDocumentNumberFormat(
+  documentNumber: string | null | undefined,
+  documentKind: DocumentKind,
+  documentType?: DocumentType | null
+): AuthenticitySignal[] {
+  if (!documentNumber) return [];
+  const normalized = normalizeDocumentNumber(documentNumber);
+  const pattern = documentKind === 'PASSPORT'
+    ? PASSPORT_NUMBER_PATTERN
+    : documentKind === 'RESIDENCE_TITLE' && documentType && eatDocumentTypes.includes(documentType)
+      ? EAT_NUMBER_PATTERN
+      : undefined;
+  if (!pattern || pattern.test(normalized)) return [];
+  return [{ code: 'DOCUMENT_NUMBER_FORMAT', params: { documentNumber: normalized, documentKind } }];
+}
+
+/**
+ * Flags dates that cannot occur together on a document: an expiry before the
+ * date of issue, a holder born after it, or a validity longer than the
+ * document type is ever issued for.
+ */
+export function checkDocumentDates(dates: {
+  documentType?: DocumentType | null;
+  dateOfIssue?: string | Date | null;
+  expiryDate?: string | Date | null;     // end of the title; null when unlimited
+  cardExpiryDate?: string | Date | null;
+  dateOfBirth?: string | Date | null;
+}): AuthenticitySignal[] {
+  const issue = toIsoDate(dates.dateOfIssue);
+  if (!issue) return [];
+  const expiry = toIsoDate(dates.expiryDate) ?? toIsoDate(dates.cardExpiryDate);
+  const birth = toIsoDate(dates.dateOfBirth);
+  const signals: AuthenticitySignal[] = [];
+
+  if (expiry && expiry < issue) {
+    signals.push({ code: 'IMPOSSIBLE_DATES', params: { problem: 'EXPIRY_BEFORE_ISSUE', dateOfIssue: issue, expiryDate: expiry } });
+  }
+  if (birth && birth > issue) {
+    signals.push({ code: 'IMPOSSIBLE_DATES', params: { problem: 'BIRTH_AFTER_ISSUE', dateOfIssue: issue, dateOfBirth: birth } });
+  }
+
+  const maxMonths = dates.documentType ? MAX_VALIDITY_MONTHS[dates.documentType] : undefined;
+  if (expiry && maxMonths && expiry > issue) {
+    const latest = new Date(issue);
+    latest.setUTCMonth(latest.getUTCMonth() + maxMonths);
+    latest.setUTCDate(latest.getUTCDate() + VALIDITY_GRACE_DAYS);
+    if (new Date(expiry) > latest) {
+      const issueDate = new Date(issue);
+      const expiryDate = new Date(expiry);
+      const months = (expiryDate.getUTCFullYear() - issueDate.getUTCFullYear()) * 12
+        + expiryDate.getUTCMonth() - issueDate.getUTCMonth();
+      signals.push({ code: 'VALIDITY_TOO_LONG', params: { dateOfIssue: issue, expiryDate: expiry, months, maxMonths } });
+    }
+  }
+  return signals;
+}
+
+// A check's holder: its employee, or the name recorded for a check without one
+export interface DocumentHolder {
+  employeeId?: string | null;
+  firstName?: string | null;
+  lastName?: string | null;
+}
+
+/**
+ * Whether two checks that recorded the same document number are for the same
+ * person: the same employee, or a name that matches. Without names on both
+ * sides there is nothing to tell two people apart.
+ */
+export function isSamePerson(holder: DocumentHolder, other: DocumentHolder): boolean {
+  if (holder.employeeId && holder.employeeId === other.employeeId) return true;
+  const hasName = (record: DocumentHolder) => !!(record.firstName || record.lastName);
+  if (!hasName(holder) || !hasName(other)) return true;
+  return crossCheckIdentity({
+    RESIDENCE_TITLE: { firstName: holder.firstName ?? undefined, lastName: holder.lastName ?? undefined },
+    EMPLOYEE_RECORD: { firstName: other.firstName ?? undefined, lastName: other.lastName ?? undefined },
+  }).length === 0;
+}
+
+/**
+ * Signals stored with a check's OCR fields (as JSON or already parsed);
+ * empty for scans read before signals existed. Unknown codes are dropped.
+ */
+export function getStoredAuthenticitySignals(stored: unknown): AuthenticitySignal[] {
+  let value = stored;
+  if (typeof value === 'string') {
+    try {
+      value = JSON.parse(value);
+    } catch {
+      return [];
+    }
+  }
+  if (value && typeof value === 'object' && !Array.isArray(value)) {
+    value = (value as { authenticitySignals?: unknown }).authenticitySignals;
+  }
+  if (!Array.isArray(value)) return [];
+  return value.filter((signal): signal is AuthenticitySignal =>
+    !!signal && typeof signal === 'object'
+    && (authenticitySignalCodes as readonly string[]).includes((signal as AuthenticitySignal).code)
+    && typeof (signal as AuthenticitySignal).params === 'object'
+  );
+}
+
+// "31 Dec 2026" / "31.12.2026"
+function dateText(value: string | number | undefined, language: ReasonLanguage): string {
+  if (typeof value !== 'string') return value === undefined ? '?' : String(value);
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) return value;
+  return new Intl.DateTimeFormat(language === 'de' ? 'de-DE' : 'en-GB', {
+    day: language === 'de' ? '2-digit' : 'numeric',
+    month: language === 'de' ? '2-digit' : 'short',
+    year: 'numeric',
+    timeZone: 'UTC',
+  }).format(date);
+}
+
+/**
+ * One sentence on what was found, e.g. "The expiry date in the
+ * machine-readable zone (31 Dec 2026) differs from the printed one (31 Dec 2028)."
+ */
+export function describeAuthenticitySignal(signal: AuthenticitySignal, language: ReasonLanguage): string {
+  const p = signal.params;
+  const de = language === 'de';
+  switch (signal.code) {
+    case 'EDITING_SOFTWARE':
+      return de
+        ? `Die Datei wurde mit einem Bildbearbeitungsprogramm gespeichert („${p.software}“).`
+        : `The file was saved by image-editing software ("${p.software}").`;
+    case 'RECOMPRESSED':
+      return de
+        ? 'Das Bild zeigt JPEG-Kompressionsraster, die nicht zu seinem Pixelraster passen – typisch für ein zugeschnittenes oder bearbeitetes und erneut gespeichertes Foto.'
+        : 'The image shows JPEG compression blocks that do not line up with its pixel grid – typical of a photo that was cropped or edited and saved again.';
+    case 'MRZ_PRINTED_MISMATCH': {
+      const field = mrzCheckedFieldLabels[p.field as keyof typeof mrzCheckedFieldLabels] ?? { en: String(p.field), de: String(p.field) };
+      const isDate = p.field !== 'documentNumber';
+      const mrzValue = isDate ? dateText(p.mrzValue, language) : p.mrzValue;
+      const printedValue = isDate ? dateText(p.printedValue, language) : p.printedValue;
+      return de
+        ? `${field.de} in der maschinenlesbaren Zone (${mrzValue}) weicht vom Aufdruck ab (${printedValue}).`
+        : `The ${field.en} in the machine-readable zone (${mrzValue}) differs from the printed one (${printedValue}).`;
+    }
+    case 'DOCUMENT_NUMBER_FORMAT':
+      if (p.documentKind === 'PASSPORT') {
+        return de
+          ? `Die Passnummer „${p.documentNumber}“ entspricht nicht dem ICAO-Format (bis zu 9 Buchstaben und Ziffern).`
+          : `Passport number "${p.documentNumber}" does not have the ICAO format (up to 9 letters and digits).`;
+      }
+      return de
+        ? `Die Dokumentennummer „${p.documentNumber}“ entspricht nicht dem Format des elektronischen Aufenthaltstitels (9 Zeichen aus Ziffern und C F G H J K L M N P R T V W X Y Z).`
+        : `Document number "${p.documentNumber}" does not have the format of an electronic residence permit (9 characters from digits and C F G H J K L M N P R T V W X Y Z).`;
+    case 'IMPOSSIBLE_DATES':
+      if (p.problem === 'BIRTH_AFTER_ISSUE') {
+        return de
+          ? `Das Geburtsdatum (${dateText(p.dateOfBirth, language)}) liegt nach dem Ausstellungsdatum (${dateText(p.dateOfIssue, language)}).`
+          : `The date of birth (${dateText(p.dateOfBirth, language)}) is after the date of issue (${dateText(p.dateOfIssue, language)}).`;
+      }
+      return de
+        ? `Das Ablaufdatum (${dateText(p.expiryDate, language)}) liegt vor dem Ausstellungsdatum (${dateText(p.dateOfIssue, language)}).`
+        : `The expiry date (${dateText(p.expiryDate, language)}) is before the date of issue (${dateText(p.dateOfIssue, language)}).`;
+    case 'VALIDITY_TOO_LONG':
+      return de
+        ? `Gültig für ${p.months} Monate ab Ausstellung (${dateText(p.dateOfIssue, language)} bis ${dateText(p.expiryDate, language)}), diese Titelart wird aber für höchstens ${p.maxMonths} Monate erteilt.`
+        : `Valid for ${p.months} months from issue (${dateText(p.dateOfIssue, language)} to ${dateText(p.expiryDate, language)}), but this document type is issued for at most ${p.maxMonths} months.`;
+    case 'DUPLICATE_DOCUMENT_NUMBER':
+      return de
+        ? `Die Dokumentennummer ${p.documentNumber} ist bereits für ${p.otherName} erfasst (Prüfung vom ${dateText(p.otherCheckDate, language)}).`
+        : `Document number ${p.documentNumber} is already on file for ${p.otherName} (check of ${dateText(p.otherCheckDate, language)}).`;
+  }
+}
@@ -0,0 +1,353 @@
+// lib/documentRedaction.ts
+
+// Data minimisation for stored documents: the parts of a scan a tenant does
+// not need (the photo, the signature, data fields) are masked in a redacted
+// copy that replaces the original. Where they sit is worked out from the OCR
+// layout – the text lines the engine reported and their boxes – and can be
+// corrected by hand in the redaction editor. The masking itself runs on the
+// server (lib/imageRedaction.ts); this module stays free of canvas so the
+// editor can import it.
+
+import { redactableFields, type RedactableField, type RightToWorkCheckDocument } from '../shared/schema';
+import type { OcrExtractionResult } from './ocr';
+import type { OcrFieldSource } from './ocrFieldSource';
+import type { OcrBox, OcrLine } from './ocrProviders';
+
+export const redactableFieldLabels: Record<RedactableField, string> = {
+  PHOTO: 'Photo',
+  SIGNATURE: 'Signature',
+  MRZ: 'Machine-readable zone',
+  DOCUMENT_NUMBER: 'Document number',
+  BIRTH_DATE: 'Date of birth',
+  NATIONALITY: 'Nationality',
+  ADDRESS: 'Address',
+};
+
+export interface RedactionRegion {
+  page: number;             // 1-based; images have a single page
+  box: OcrBox;              // fractions of the page width and height
+  field?: RedactableField;  // what was detected there; unset when drawn by hand
+}
+
+// What detection reads from an OCR result
+export type RedactionLayout = Pick<
+  OcrExtractionResult,
+  'pageLines' | 'documentNumberGuess' | 'birthDateGuessIso' | 'fieldSources'
+>;
+
+// Regions smaller than this (as a share of the page side) are slips of the mouse
+const MIN_REGION_SIDE = 0.005;
+// Masks reach this share of a line's height beyond it, for ascenders and OCR slack
+const LINE_PADDING = 0.3;
+// The photo sits left of the data fields, taking at least this share of the
+// document's width
+const MIN_PHOTO_WIDTH = 0.18;
+const MAX_PHOTO_WIDTH = 0.45;
+// Signature area around its label, in label heights above and below it, and
+// its least width as a share of the document's width
+const SIGNATURE_HEIGHTS_ABOVE = 2;
+const SIGNATURE_HEIGHTS_BELOW = 2.5;
+const MIN_SIGNATURE_WIDTH = 0.35;
+// Address lines under the label, in label heights
+const ADDRESS_HEIGHTS_BELOW = 3.5;
+// The same in lines of OCR text
+const ADDRESS_LINES_BELOW = 3;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Keys of the stored OCR fields that hold a masked field's value, at any depth
+// (public uploads keep the guesses of each document as well)
+const ocrFieldKeys: Partial<Record<RedactableField, string[]>> = {
+  MRZ: ['mrz'],
+  DOCUMENT_NUMBER: ['documentNumberGuess'],
+  BIRTH_DATE: ['birthDateGuessIso'],
+  NATIONALITY: ['nationalityGuess'],
+};
+
+const SIGNATURE_LABEL = /unterschrift|signature|signatur/i;
+const ADDRESS_LABEL = /anschrift|wohnort|address/i;
+
+function clamp(value: number): number {
+  return Math.min(1, Math.max(0, value));
+}
+
+function clampBox(box: OcrBox): OcrBox {
+  const x = clamp(box.x);
+  const y = clamp(box.y);
+  return { x, y, width: clamp(box.x + box.width) - x, height: clamp(box.y + box.height) - y };
+}
+
+function unionBox(boxes: OcrBox[]): OcrBox {
+  const left = Math.min(...boxes.map((box) => box.x));
+  const top = Math.min(...boxes.map((box) => box.y));
+  const right = Math.max(...boxes.map((box) => box.x + box.width));
+  const bottom = Math.max(...boxes.map((box) => box.y + box.height));
+  return { x: left, y: top, width: right - left, height: bottom - top };
+}
+
+function padBox(box: OcrBox): OcrBox {
+  const padding = box.height * LINE_PADDING;
+  return clampBox({ x: box.x - padding, y: box.y - padding, width: box.width + 2 * padding, height: box.height + 2 * padding });
+}
+
+function compact(text: string): string {
+  return text.replace(/\s+/g, '').toUpperCase();
+}
+
+function isMrzText(value: string): boolean {
+  const text = compact(value);
+  return text.length >= 25 && /^[A-Z0-9<]+$/.test(text) && text.includes('<<');
+}
+
+function isMrzLine(line: OcrLine): boolean {
+  return isMrzText(line.text);
+}
+
+/**
+ * When the original of a document redacted at `redactedAt` is deleted. No
+ * retention period deletes it right away.
+ */
+export function getOriginalDeleteAfter(redactedAt: Date, retentionDays: number): Date {
+  return new Date(redactedAt.getTime() + retentionDays * DAY_MS);
+}
+
+// Whether the original of a redacted document is to be deleted by `now`
+export function isOriginalDue(
+  document: Pick<RightToWorkCheckDocument, 'redactedFileUrl' | 'originalDeleteAfter' | 'originalDeletedAt'>,
+  now: Date
+): boolean {
+  return Boolean(document.redactedFileUrl)
+    && !document.originalDeletedAt
+    && document.originalDeleteAfter !== null
+    && document.originalDeleteAfter.getTime() <= now.getTime();
+}
+
+/**
+ * Checks regions sent by the editor: boxes are kept within the page, tiny
+ * ones dropped and unknown fields treated as drawn by hand.
+ */
+export function parseRedactionRegions(value: unknown, pageCount: number = Number.MAX_SAFE_INTEGER): RedactionRegion[] {
+  if (!Array.isArray(value)) return [];
+  const regions: RedactionRegion[] = [];
+  for (const entry of value) {
+    const box = entry?.box;
+    if (!box || ![box.x, box.y, box.width, box.height].every((n) => typeof n === 'number' && Number.isFinite(n))) continue;
+    const page = Number.isInteger(entry.page) ? entry.page : 1;
+    if (page < 1 || page > pageCount) continue;
+    const clamped = clampBox(box);
+    if (clamped.width < MIN_REGION_SIDE || clamped.height < MIN_REGION_SIDE) continue;
+    const field = redactableFields.includes(entry.field) ? (entry.field as RedactableField) : undefined;
+    regions.push(field ? { page, box: clamped, field } : { page, box: clamped });
+  }
+  return regions;
+}
+
+// Lines holding a value, outside the MRZ (which has a mask of its own)
+function linesContaining(lines: OcrLine[], values: string[]): OcrLine[] {
+  const wanted = values.map(compact).filter((value) => value.length >= 4);
+  return lines.filter((line) => !isMrzLine(line) && wanted.some((value) => compact(line.text).includes(value)));
+}
+
+// The text-free strip at the left of the document, between the header and the
+// MRZ (or the foot of the document), where ID cards and passports put the photo
+function findPhoto(lines: OcrLine[], document: OcrBox): OcrBox | undefined {
+  const mrz = lines.filter(isMrzLine);
+  const bottom = mrz.length > 0 ? Math.min(...mrz.map((line) => line.box.y)) : document.y + document.height;
+  const top = document.y + (bottom - document.y) * 0.2;
+  const beside = lines.filter((line) => {
+    const centre = line.box.y + line.box.height / 2;
+    return !isMrzLine(line) && centre > top && centre < bottom;
+  });
+  if (beside.length === 0) return undefined;
+  const textLeft = Math.min(...beside.map((line) => line.box.x));
+  const gap = textLeft - document.x;
+  if (gap < document.width * MIN_PHOTO_WIDTH || gap > document.width * MAX_PHOTO_WIDTH) return undefined;
+  return clampBox({ x: document.x, y: top, width: gap * 0.95, height: bottom - top });
+}
+
+function findSignature(lines: OcrLine[], document: OcrBox): OcrBox[] {
+  return lines.filter((line) => SIGNATURE_LABEL.test(line.text)).map((label) => clampBox({
+    x: label.box.x,
+    y: label.box.y - label.box.height * SIGNATURE_HEIGHTS_ABOVE,
+    width: Math.max(label.box.width, document.width * MIN_SIGNATURE_WIDTH),
+    height: label.box.height * (SIGNATURE_HEIGHTS_ABOVE + 1 + SIGNATURE_HEIGHTS_BELOW),
+  }));
+}
+
+function findAddress(lines: OcrLine[]): OcrBox[] {
+  return lines.filter((line) => ADDRESS_LABEL.test(line.text)).map((label) => {
+    const limit = label.box.y + label.box.height * (1 + ADDRESS_HEIGHTS_BELOW);
+    const below = lines.filter((line) => !isMrzLine(line) && line.box.y > label.box.y && line.box.y < limit);
+    return padBox(unionBox([label.box, ...below.map((line) => line.box)]));
+  });
+}
+
+/**
+ * Regions to mask for the given fields, found in the OCR layout. Text fields
+ * are masked line by line wherever their value appears; the MRZ repeats the
+ * document number, birth date and nationality, so those are only gone
+ * completely when the MRZ is masked too. Photo and signature carry no text and
+ * are placed by the layout of ID cards and passports, so they are the ones
+ * most likely to need correcting in the editor.
+ */
+export function detectRedactionRegions(layout: RedactionLayout, fields: readonly RedactableField[]): RedactionRegion[] {
+  const regions: RedactionRegion[] = [];
+  const wanted = new Set(fields);
+  const add = (page: number, field: RedactableField, boxes: OcrBox[]) => {
+    for (const box of boxes) regions.push({ page, box, field });
+  };
+
+  const [birthYear, birthMonth, birthDay] = (layout.birthDateGuessIso ?? '').split('-');
+  (layout.pageLines ?? []).forEach((allLines, index) => {
+    const page = index + 1;
+    const lines = allLines.filter((line) => line.text.trim().length > 0);
+    if (lines.length === 0) return;
+    const document = unionBox(lines.map((line) => line.box));
+
+    if (wanted.has('MRZ')) {
+      const mrz = lines.filter(isMrzLine);
+      if (mrz.length > 0) add(page, 'MRZ', [padBox(unionBox(mrz.map((line) => line.box)))]);
+    }
+    if (wanted.has('DOCUMENT_NUMBER') && layout.documentNumberGuess) {
+      add(page, 'DOCUMENT_NUMBER', linesContaining(lines, [layout.documentNumberGuess]).map((line) => padBox(line.box)));
+    }
+    if (wanted.has('BIRTH_DATE') && birthDay) {
+      const dates = [`${birthDay}.${birthMonth}.${birthYear}`, `${birthDay}${birthMonth}${birthYear}`];
+      add(page, 'BIRTH_DATE', linesContaining(lines, dates).map((line) => padBox(line.box)));
+    }
+    if (wanted.has('ADDRESS')) add(page, 'ADDRESS', findAddress(lines));
+    if (wanted.has('SIGNATURE')) add(page, 'SIGNATURE', findSignature(lines, document));
+    if (wanted.has('PHOTO')) {
+      const photo = findPhoto(lines, document);
+      if (photo) add(page, 'PHOTO', [photo]);
+    }
+  });
+
+  // The nationality is a word like "DEU" that appears elsewhere too; only the
+  // line it was read from is masked, unless that line is the MRZ
+  const nationality = layout.fieldSources?.nationalityGuess;
+  if (wanted.has('NATIONALITY') && nationality?.box && nationality.method !== 'MRZ') {
+    add(nationality.page ?? 1, 'NATIONALITY', [padBox(nationality.box)]);
+  }
+  return regions;
+}
+
+// The OCR columns of a check
+export interface OcrData {
+  rawText: string | null;
+  extractedFields: unknown; // as stored: an object or its JSON
+}
+
+// Every value stored under `key`, however deep
+function collectValues(value: unknown, key: string, found: unknown[] = []): unknown[] {
+  if (Array.isArray(value)) {
+    value.forEach((entry) => collectValues(entry, key, found));
+  } else if (value && typeof value === 'object') {
+    for (const [entryKey, entry] of Object.entries(value)) {
+      if (entryKey === key) found.push(entry);
+      collectValues(entry, key, found);
+    }
+  }
+  return found;
+}
+
+function strings(values: unknown[]): string[] {
+  return values.filter((value): value is string => typeof value === 'string');
+}
+
+// Lines of an OCR text that hold a masked field, by the same rules as the
+// regions: MRZ lines, lines with a masked value outside the MRZ, and the
+// address label with the lines under it
+function maskedLineIndexes(lines: string[], wanted: Set<RedactableField>, values: string[], maskedLines: Set<string>): Set<number> {
+  const wantedValues = values.map(compact).filter((value) => value.length >= 4);
+  const indexes = new Set<number>();
+  lines.forEach((line, index) => {
+    const mrz = isMrzText(line);
+    if ((wanted.has('MRZ') && mrz)
+      || (!mrz && wantedValues.some((value) => compact(line).includes(value)))
+      || maskedLines.has(line.trim())) {
+      indexes.add(index);
+    }
+    if (wanted.has('ADDRESS') && ADDRESS_LABEL.test(line)) {
+      for (let i = index; i <= Math.min(index + ADDRESS_LINES_BELOW, lines.length - 1); i++) indexes.add(i);
+    }
+  });
+  return indexes;
+}
+
+// Strings redacted throughout, without the omitted keys; the kept keys are
+// left as they are
+function mapStrings(value: unknown, keys: { omitted: Set<string>; kept: Set<string> }, map: (text: string) => string): unknown {
+  if (typeof value === 'string') return map(value);
+  if (Array.isArray(value)) return value.map((entry) => mapStrings(entry, keys, map));
+  if (value && typeof value === 'object') {
+    return Object.fromEntries(
+      Object.entries(value)
+        .filter(([key]) => !keys.omitted.has(key))
+        .map(([key, entry]) => [key, keys.kept.has(key) ? entry : mapStrings(entry, keys, map)])
+    );
+  }
+  return value;
+}
+
+/**
+ * A check's OCR text and fields without what the masked fields showed, so the
+ * redacted copy is not undone by the text read from the original. Lines that
+ * held a masked field are blanked rather than removed, which keeps the line
+ * numbers of the remaining field sources right; the guesses of those fields
+ * are dropped. Like the masks, text fields stay readable in the MRZ unless it
+ * is masked as well; photo and signature carry no text.
+ */
+export function redactOcrData(data: OcrData, fields: readonly RedactableField[]): OcrData {
+  const wanted = new Set(fields);
+  let extracted = data.extractedFields;
+  if (typeof extracted === 'string') {
+    try {
+      extracted = JSON.parse(extracted);
+    } catch {
+      extracted = null;
+    }
+  }
+
+  const values: string[] = [];
+  if (wanted.has('DOCUMENT_NUMBER')) {
+    values.push(...strings(collectValues(extracted, 'documentNumberGuess')));
+  }
+  if (wanted.has('BIRTH_DATE')) {
+    for (const iso of strings(collectValues(extracted, 'birthDateGuessIso'))) {
+      const [year, month, day] = iso.split('-');
+      if (day) values.push(`${day}.${month}.${year}`, `${day}${month}${year}`);
+    }
+  }
+  // The nationality only on the line it was read from (see detectRedactionRegions)
+  const maskedLines = new Set<string>();
+  if (wanted.has('NATIONALITY')) {
+    for (const source of collectValues(extracted, 'nationalityGuess')) {
+      const { line, method } = (source ?? {}) as Partial<OcrFieldSource>;
+      if (typeof line === 'string' && line.trim() && method !== 'MRZ') maskedLines.add(line.trim());
+    }
+  }
+
+  // Lines found in the full texts are blanked in the positioned lines too
+  const texts = [data.rawText ?? '', ...strings(collectValues(extracted, 'text'))];
+  for (const text of texts) {
+    const lines = text.split('\n');
+    maskedLineIndexes(lines, wanted, values, maskedLines).forEach((index) => {
+      if (lines[index].trim()) maskedLines.add(lines[index].trim());
+    });
+  }
+  const redactText = (text: string) => {
+    const lines = text.split('\n');
+    const indexes = maskedLineIndexes(lines, wanted, values, maskedLines);
+    return lines.map((line, index) => (indexes.has(index) ? '' : line)).join('\n');
+  };
+
+  const omitted = new Set(fields.flatMap((field) => ocrFieldKeys[field] ?? []));
+  // An MRZ that is not masked keeps its copy of the values
+  const kept = new Set(wanted.has('MRZ') ? [] : ocrFieldKeys.MRZ);
+  const redacted = extracted == null ? extracted : mapStrings(extracted, { omitted, kept }, redactText);
+  return {
+    rawText: data.rawText == null ? data.rawText : redactText(data.rawText),
+    extractedFields: typeof data.extractedFields === 'string' && redacted != null ? JSON.stringify(redacted) : redacted,
+  };
+}
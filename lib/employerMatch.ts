@@ -0,0 +1,191 @@
+// lib/employerMatch.ts
+
+// Employer names on a permit / Zusatzblatt rarely match the HR system
+// verbatim: legal forms are abbreviated differently ("GmbH & Co. KG"),
+// umlauts are transliterated by OCR, and "c/o" address lines are appended.
+// This module normalises both names and scores how likely they refer to the
+// same employer. Tenants can add aliases (subsidiaries, trading names) that
+// count as the hiring employer.
+
+export type EmployerMatchVerdict = 'MATCH' | 'PARTIAL' | 'MISMATCH';
+
+export interface NormalizedEmployerName {
+  tokens: string[];          // significant name tokens, legal form removed
+  legalForm: string | null;  // e.g. "gmbh & co kg", null if none was found
+}
+
+export interface EmployerMatchResult {
+  score: number;               // 0..1, rounded to two decimals
+  verdict: EmployerMatchVerdict;
+  matchedName: string;         // hiring employer name or alias that scored best
+  matchedAlias?: string;       // set when the best match came from an alias
+  legalFormDiffers: boolean;   // both names carry a legal form and they differ
+}
+
+// Scores at or above EMPLOYER_MATCH_THRESHOLD are treated as the same employer;
+// scores between the thresholds need a human to confirm.
+export const EMPLOYER_MATCH_THRESHOLD = 0.9;
+export const EMPLOYER_PARTIAL_MATCH_THRESHOLD = 0.6;
+
+// Longest forms first so "gmbh & co kg" wins over "gmbh".
+const LEGAL_FORM_PATTERNS: Array<{ form: string; pattern: RegExp }> = [
+  { form: 'gmbh & co kgaa', pattern: /\bgmbh\s*(?:&|und|\+)\s*co\.?\s*kgaa\b/g },
+  { form: 'gmbh & co kg', pattern: /\bgmbh\s*(?:&|und|\+)\s*co\.?\s*kg\b/g },
+  { form: 'ag & co kg', pattern: /\bag\s*(?:&|und|\+)\s*co\.?\s*kg\b/g },
+  { form: 'se & co kg', pattern: /\bse\s*(?:&|und|\+)\s*co\.?\s*kg\b/g },
+  { form: 'ug', pattern: /\bug\s*\(?\s*haftungsbeschraenkt\s*\)?/g },
+  { form: 'ggmbh', pattern: /\bggmbh\b/g },
+  { form: 'gmbh', pattern: /\bgmbh\b|\bgesellschaft mit beschraenkter haftung\b/g },
+  { form: 'kgaa', pattern: /\bkgaa\b/g },
+  { form: 'ag', pattern: /\bag\b|\baktiengesellschaft\b/g },
+  { form: 'kg', pattern: /\bkg\b|\bkommanditgesellschaft\b/g },
+  { form: 'ohg', pattern: /\bohg\b/g },
+  { form: 'gbr', pattern: /\bgbr\b/g },
+  { form: 'se', pattern: /\bse\b/g },
+  { form: 'ug', pattern: /\bug\b/g },
+  { form: 'e.k.', pattern: /\be\.\s*(?:k|kfm|kfr)\.?(?=\s|$)/g },
+  { form: 'e.v.', pattern: /\be\.\s*v\.?(?=\s|$)/g },
+  { form: 'eg', pattern: /\beg\b/g },
+  { form: 'mbh', pattern: /\bmbh\b/g },
+  { form: 'ltd', pattern: /\bltd\b|\blimited\b/g },
+  { form: 'inc', pattern: /\binc\b/g },
+  { form: 'llc', pattern: /\bllc\b/g },
+];
+
+// Words that say nothing about which employer is meant.
+const FILLER_TOKENS = new Set(['firma', 'fa', 'co', 'und', 'the']);
+
+function transliterate(value: string): string {
+  return value
+    .toLowerCase()
+    .replace(/ä/g, 'ae')
+    .replace(/ö/g, 'oe')
+    .replace(/ü/g, 'ue')
+    .replace(/ß/g, 'ss')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '');
+}
+
+/**
+ * Normalises an employer name for comparison: transliterates umlauts, drops
+ * "c/o" address lines, strips the legal form and punctuation.
+ */
+export function normalizeEmployerName(name: string): NormalizedEmployerName {
+  // Everything after "c/o" is the addressee the letter is sent via, not the employer
+  let value = transliterate(name).replace(/\bc\s*\/\s*o\b.*$/, '').trim();
+
+  let legalForm: string | null = null;
+  for (const { form, pattern } of LEGAL_FORM_PATTERNS) {
+    if (pattern.test(value)) {
+      legalForm = legalForm ?? form;
+      value = value.replace(pattern, ' ');
+    }
+    pattern.lastIndex = 0;
+  }
+
+  const tokens = value
+    .replace(/&/g, ' ')
+    .split(/[^a-z0-9]+/)
+    .filter((token) => token.length > 0 && !FILLER_TOKENS.has(token));
+
+  return { tokens, legalForm };
+}
+
+function levenshtein(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+      );
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+// Similarity of two tokens; small OCR typos still count, unrelated words do not.
+function tokenSimilarity(a: string, b: string): number {
+  if (a === b) return 1;
+  if (a.length < 4 || b.length < 4) return 0;
+  const similarity = 1 - levenshtein(a, b) / Math.max(a.length, b.length);
+  return similarity >= 0.8 ? similarity : 0;
+}
+
+function scoreNormalizedNames(a: NormalizedEmployerName, b: NormalizedEmployerName): number {
+  if (a.tokens.length === 0 || b.tokens.length === 0) return 0;
+  if (a.tokens.join('') === b.tokens.join('')) return 1;
+
+  // Dice coefficient over tokens, each token paired with its best counterpart
+  const remaining = [...b.tokens];
+  let matched = 0;
+  for (const token of a.tokens) {
+    let bestIndex = -1;
+    let best = 0;
+    remaining.forEach((candidate, index) => {
+      const similarity = tokenSimilarity(token, candidate);
+      if (similarity > best) {
+        best = similarity;
+        bestIndex = index;
+      }
+    });
+    if (bestIndex >= 0) {
+      matched += best;
+      remaining.splice(bestIndex, 1);
+    }
+  }
+  return (2 * matched) / (a.tokens.length + b.tokens.length);
+}
+
+/**
+ * Scores how likely the employer printed on the permit is the hiring
+ * employer (or one of the tenant's aliases for it).
+ */
+export function matchEmployerName(
+  employerOnPermit: string,
+  hiringEmployerName: string,
+  aliases: string[] = []
+): EmployerMatchResult {
+  const permit = normalizeEmployerName(employerOnPermit);
+  const candidates = [
+    { name: hiringEmployerName, isAlias: false },
+    ...aliases.map((alias) => ({ name: alias, isAlias: true })),
+  ].filter((candidate) => candidate.name.trim().length > 0);
+
+  let best: EmployerMatchResult = {
+    score: 0,
+    verdict: 'MISMATCH',
+    matchedName: hiringEmployerName,
+    legalFormDiffers: false,
+  };
+
+  for (const candidate of candidates) {
+    const normalized = normalizeEmployerName(candidate.name);
+    const legalFormDiffers =
+      permit.legalForm !== null && normalized.legalForm !== null && permit.legalForm !== normalized.legalForm;
+    // A different legal form may be a different company in the same group
+    let score = scoreNormalizedNames(permit, normalized);
+    if (legalFormDiffers) score = Math.max(0, score - 0.15);
+    score = Math.round(score * 100) / 100;
+
+    if (score > best.score) {
+      best = {
+        score,
+        verdict:
+          score >= EMPLOYER_MATCH_THRESHOLD
+            ? 'MATCH'
+            : score >= EMPLOYER_PARTIAL_MATCH_THRESHOLD
+              ? 'PARTIAL'
+              : 'MISMATCH',
+        matchedName: candidate.name,
+        matchedAlias: candidate.isAlias ? candidate.name : undefined,
+        legalFormDiffers,
+      };
+    }
+  }
+
+  return best;
+}
@@ -0,0 +1,255 @@
+// lib/germanGazetteer.ts
+
+// Offline gazetteer for location restrictions (Wohnsitzauflage /
+// räumliche Beschränkung) and talent pool location filters. It lists all
+// Bundesländer, the Brandenburg Landkreise, the Landkreise around the large
+// metro areas, and the municipalities our customers hire in. Entries can be
+// appended from the Destatis Gemeindeverzeichnis; nothing is fetched at runtime.
+// It is far from the full Gemeindeverzeichnis: places it does not list are
+// compared as text only, and the decision trace records that.
+
+export interface Bundesland {
+  code: string;        // ISO 3166-2:DE suffix, e.g. "BB"
+  name: string;
+  aliases: string[];   // official long forms, English names, abbreviations
+}
+
+export interface Landkreis {
+  name: string;        // official name, e.g. "Landkreis Oder-Spree"
+  shortName: string;   // name without the "Landkreis" / "Kreis" part
+  land: string;        // Bundesland code
+}
+
+export interface Municipality {
+  name: string;
+  aliases?: string[];
+  land: string;        // Bundesland code
+  kreis: string | null; // Landkreis name; null for kreisfreie Städte
+  postcodes: string[]; // full postcodes or postcode prefixes
+}
+
+// Size of the full Destatis Gemeindeverzeichnis, to state how much of it the
+// bundled table covers. Rounded, as mergers change the count every year.
+export const GERMAN_MUNICIPALITIES_TOTAL = 10_800;
+export const GERMAN_LANDKREISE_TOTAL = 294;
+
+export const BUNDESLAENDER: readonly Bundesland[] = [
+  { code: 'BW', name: 'Baden-Württemberg', aliases: ['Land Baden-Württemberg'] },
+  { code: 'BY', name: 'Bayern', aliases: ['Freistaat Bayern', 'Bavaria'] },
+  { code: 'BE', name: 'Berlin', aliases: ['Land Berlin'] },
+  { code: 'BB', name: 'Brandenburg', aliases: ['Land Brandenburg'] },
+  { code: 'HB', name: 'Bremen', aliases: ['Freie Hansestadt Bremen', 'Land Bremen'] },
+  { code: 'HH', name: 'Hamburg', aliases: ['Freie und Hansestadt Hamburg'] },
+  { code: 'HE', name: 'Hessen', aliases: ['Land Hessen', 'Hesse'] },
+  { code: 'MV', name: 'Mecklenburg-Vorpommern', aliases: ['Land Mecklenburg-Vorpommern', 'Mecklenburg-Western Pomerania'] },
+  { code: 'NI', name: 'Niedersachsen', aliases: ['Land Niedersachsen', 'Lower Saxony'] },
+  { code: 'NW', name: 'Nordrhein-Westfalen', aliases: ['Land Nordrhein-Westfalen', 'NRW', 'North Rhine-Westphalia'] },
+  { code: 'RP', name: 'Rheinland-Pfalz', aliases: ['Land Rheinland-Pfalz', 'Rhineland-Palatinate'] },
+  { code: 'SL', name: 'Saarland', aliases: [] },
+  { code: 'SN', name: 'Sachsen', aliases: ['Freistaat Sachsen', 'Saxony'] },
+  { code: 'ST', name: 'Sachsen-Anhalt', aliases: ['Land Sachsen-Anhalt', 'Saxony-Anhalt'] },
+  { code: 'SH', name: 'Schleswig-Holstein', aliases: ['Land Schleswig-Holstein'] },
+  { code: 'TH', name: 'Thüringen', aliases: ['Freistaat Thüringen', 'Thuringia'] },
+];
+
+export const LANDKREISE: readonly Landkreis[] = [
+  // Brandenburg
+  { name: 'Landkreis Barnim', shortName: 'Barnim', land: 'BB' },
+  { name: 'Landkreis Dahme-Spreewald', shortName: 'Dahme-Spreewald', land: 'BB' },
+  { name: 'Landkreis Elbe-Elster', shortName: 'Elbe-Elster', land: 'BB' },
+  { name: 'Landkreis Havelland', shortName: 'Havelland', land: 'BB' },
+  { name: 'Landkreis Märkisch-Oderland', shortName: 'Märkisch-Oderland', land: 'BB' },
+  { name: 'Landkreis Oberhavel', shortName: 'Oberhavel', land: 'BB' },
+  { name: 'Landkreis Oberspreewald-Lausitz', shortName: 'Oberspreewald-Lausitz', land: 'BB' },
+  { name: 'Landkreis Oder-Spree', shortName: 'Oder-Spree', land: 'BB' },
+  { name: 'Landkreis Ostprignitz-Ruppin', shortName: 'Ostprignitz-Ruppin', land: 'BB' },
+  { name: 'Landkreis Potsdam-Mittelmark', shortName: 'Potsdam-Mittelmark', land: 'BB' },
+  { name: 'Landkreis Prignitz', shortName: 'Prignitz', land: 'BB' },
+  { name: 'Landkreis Spree-Neiße', shortName: 'Spree-Neiße', land: 'BB' },
+  { name: 'Landkreis Teltow-Fläming', shortName: 'Teltow-Fläming', land: 'BB' },
+  { name: 'Landkreis Uckermark', shortName: 'Uckermark', land: 'BB' },
+
+  // Around Hamburg
+  { name: 'Kreis Pinneberg', shortName: 'Pinneberg', land: 'SH' },
+  { name: 'Kreis Segeberg', shortName: 'Segeberg', land: 'SH' },
+  { name: 'Kreis Stormarn', shortName: 'Stormarn', land: 'SH' },
+  { name: 'Landkreis Harburg', shortName: 'Harburg', land: 'NI' },
+  { name: 'Landkreis Stade', shortName: 'Stade', land: 'NI' },
+  { name: 'Landkreis Lüneburg', shortName: 'Lüneburg', land: 'NI' },
+
+  // Hannover, Rhineland, Ruhr
+  { name: 'Region Hannover', shortName: 'Hannover', land: 'NI' },
+  { name: 'Städteregion Aachen', shortName: 'Aachen', land: 'NW' },
+  { name: 'Rhein-Sieg-Kreis', shortName: 'Rhein-Sieg', land: 'NW' },
+  { name: 'Rhein-Erft-Kreis', shortName: 'Rhein-Erft', land: 'NW' },
+  { name: 'Rhein-Kreis Neuss', shortName: 'Neuss', land: 'NW' },
+  { name: 'Kreis Mettmann', shortName: 'Mettmann', land: 'NW' },
+
+  // Stuttgart, Frankfurt
+  { name: 'Landkreis Ludwigsburg', shortName: 'Ludwigsburg', land: 'BW' },
+  { name: 'Rems-Murr-Kreis', shortName: 'Rems-Murr', land: 'BW' },
+  { name: 'Landkreis Esslingen', shortName: 'Esslingen', land: 'BW' },
+  { name: 'Landkreis Böblingen', shortName: 'Böblingen', land: 'BW' },
+  { name: 'Main-Taunus-Kreis', shortName: 'Main-Taunus', land: 'HE' },
+  { name: 'Landkreis Offenbach', shortName: 'Offenbach', land: 'HE' },
+
+  // Munich, Nuremberg
+  { name: 'Landkreis München', shortName: 'München', land: 'BY' },
+  { name: 'Landkreis Dachau', shortName: 'Dachau', land: 'BY' },
+  { name: 'Landkreis Freising', shortName: 'Freising', land: 'BY' },
+  { name: 'Landkreis Fürth', shortName: 'Fürth', land: 'BY' },
+
+  // Saxony, Mecklenburg-Vorpommern
+  { name: 'Landkreis Leipzig', shortName: 'Leipzig', land: 'SN' },
+  { name: 'Landkreis Sächsische Schweiz-Osterzgebirge', shortName: 'Sächsische Schweiz-Osterzgebirge', land: 'SN' },
+  { name: 'Landkreis Rostock', shortName: 'Rostock', land: 'MV' },
+
+  // Saarland
+  { name: 'Regionalverband Saarbrücken', shortName: 'Saarbrücken', land: 'SL' },
+];
+
+export const MUNICIPALITIES: readonly Municipality[] = [
+  // City states
+  { name: 'Berlin', land: 'BE', kreis: null, postcodes: ['10', '12', '13', '140', '141'] },
+  { name: 'Hamburg', land: 'HH', kreis: null, postcodes: ['20', '210', '211', '220', '221', '222', '223', '224', '225', '226', '227'] },
+  { name: 'Bremen', land: 'HB', kreis: null, postcodes: ['281', '282', '283', '285', '287'] },
+  { name: 'Bremerhaven', land: 'HB', kreis: null, postcodes: ['275'] },
+
+  // Brandenburg – kreisfreie Städte
+  { name: 'Potsdam', land: 'BB', kreis: null, postcodes: ['1446', '1447', '1448'] },
+  { name: 'Cottbus', aliases: ['Chóśebuz'], land: 'BB', kreis: null, postcodes: ['0304', '0305'] },
+  { name: 'Frankfurt (Oder)', aliases: ['Frankfurt/Oder', 'Frankfurt an der Oder'], land: 'BB', kreis: null, postcodes: ['1523'] },
+  { name: 'Brandenburg an der Havel', aliases: ['Brandenburg/Havel', 'Brandenburg a.d. Havel'], land: 'BB', kreis: null, postcodes: ['1477'] },
+
+  // Brandenburg – kreisangehörige Gemeinden
+  { name: 'Eberswalde', land: 'BB', kreis: 'Landkreis Barnim', postcodes: ['16225', '16227'] },
+  { name: 'Bernau bei Berlin', aliases: ['Bernau'], land: 'BB', kreis: 'Landkreis Barnim', postcodes: ['16321'] },
+  { name: 'Lübben (Spreewald)', aliases: ['Lübben'], land: 'BB', kreis: 'Landkreis Dahme-Spreewald', postcodes: ['15907'] },
+  { name: 'Königs Wusterhausen', land: 'BB', kreis: 'Landkreis Dahme-Spreewald', postcodes: ['15711'] },
+  { name: 'Schönefeld', land: 'BB', kreis: 'Landkreis Dahme-Spreewald', postcodes: ['12529'] },
+  { name: 'Herzberg (Elster)', aliases: ['Herzberg'], land: 'BB', kreis: 'Landkreis Elbe-Elster', postcodes: ['04916'] },
+  { name: 'Rathenow', land: 'BB', kreis: 'Landkreis Havelland', postcodes: ['14712'] },
+  { name: 'Falkensee', land: 'BB', kreis: 'Landkreis Havelland', postcodes: ['14612'] },
+  { name: 'Seelow', land: 'BB', kreis: 'Landkreis Märkisch-Oderland', postcodes: ['15306'] },
+  { name: 'Strausberg', land: 'BB', kreis: 'Landkreis Märkisch-Oderland', postcodes: ['15344'] },
+  { name: 'Oranienburg', land: 'BB', kreis: 'Landkreis Oberhavel', postcodes: ['16515'] },
+  { name: 'Hennigsdorf', land: 'BB', kreis: 'Landkreis Oberhavel', postcodes: ['16761'] },
+  { name: 'Senftenberg', land: 'BB', kreis: 'Landkreis Oberspreewald-Lausitz', postcodes: ['01968'] },
+  { name: 'Beeskow', land: 'BB', kreis: 'Landkreis Oder-Spree', postcodes: ['15848'] },
+  { name: 'Fürstenwalde/Spree', aliases: ['Fürstenwalde'], land: 'BB', kreis: 'Landkreis Oder-Spree', postcodes: ['15517'] },
+  { name: 'Eisenhüttenstadt', land: 'BB', kreis: 'Landkreis Oder-Spree', postcodes: ['15890'] },
+  { name: 'Neuruppin', land: 'BB', kreis: 'Landkreis Ostprignitz-Ruppin', postcodes: ['16816'] },
+  { name: 'Bad Belzig', land: 'BB', kreis: 'Landkreis Potsdam-Mittelmark', postcodes: ['14806'] },
+  { name: 'Teltow', land: 'BB', kreis: 'Landkreis Potsdam-Mittelmark', postcodes: ['14513'] },
+  { name: 'Kleinmachnow', land: 'BB', kreis: 'Landkreis Potsdam-Mittelmark', postcodes: ['14532'] },
+  { name: 'Perleberg', land: 'BB', kreis: 'Landkreis Prignitz', postcodes: ['19348'] },
+  { name: 'Forst (Lausitz)', aliases: ['Forst'], land: 'BB', kreis: 'Landkreis Spree-Neiße', postcodes: ['03149'] },
+  { name: 'Luckenwalde', land: 'BB', kreis: 'Landkreis Teltow-Fläming', postcodes: ['14943'] },
+  { name: 'Ludwigsfelde', land: 'BB', kreis: 'Landkreis Teltow-Fläming', postcodes: ['14974'] },
+  { name: 'Prenzlau', land: 'BB', kreis: 'Landkreis Uckermark', postcodes: ['17291'] },
+  { name: 'Schwedt/Oder', aliases: ['Schwedt'], land: 'BB', kreis: 'Landkreis Uckermark', postcodes: ['16303'] },
+
+  // Schleswig-Holstein / Niedersachsen around Hamburg
+  { name: 'Norderstedt', land: 'SH', kreis: 'Kreis Segeberg', postcodes: ['2284', '2285'] },
+  { name: 'Ahrensburg', land: 'SH', kreis: 'Kreis Stormarn', postcodes: ['22926'] },
+  { name: 'Pinneberg', land: 'SH', kreis: 'Kreis Pinneberg', postcodes: ['25421'] },
+  { name: 'Elmshorn', land: 'SH', kreis: 'Kreis Pinneberg', postcodes: ['25335', '25336', '25337'] },
+  { name: 'Kiel', land: 'SH', kreis: null, postcodes: ['241'] },
+  { name: 'Lübeck', land: 'SH', kreis: null, postcodes: ['235'] },
+  { name: 'Winsen (Luhe)', aliases: ['Winsen'], land: 'NI', kreis: 'Landkreis Harburg', postcodes: ['21423'] },
+  { name: 'Buchholz in der Nordheide', aliases: ['Buchholz'], land: 'NI', kreis: 'Landkreis Harburg', postcodes: ['21244'] },
+  { name: 'Stade', land: 'NI', kreis: 'Landkreis Stade', postcodes: ['2168'] },
+  { name: 'Lüneburg', land: 'NI', kreis: 'Landkreis Lüneburg', postcodes: ['2133'] },
+
+  // Niedersachsen
+  { name: 'Hannover', aliases: ['Hanover'], land: 'NI', kreis: 'Region Hannover', postcodes: ['301', '304', '305', '306'] },
+  { name: 'Garbsen', land: 'NI', kreis: 'Region Hannover', postcodes: ['3082'] },
+  { name: 'Langenhagen', land: 'NI', kreis: 'Region Hannover', postcodes: ['3085'] },
+  { name: 'Laatzen', land: 'NI', kreis: 'Region Hannover', postcodes: ['30880'] },
+  { name: 'Braunschweig', land: 'NI', kreis: null, postcodes: ['381'] },
+  { name: 'Osnabrück', land: 'NI', kreis: null, postcodes: ['490'] },
+  { name: 'Oldenburg', land: 'NI', kreis: null, postcodes: ['261'] },
+  { name: 'Göttingen', land: 'NI', kreis: null, postcodes: ['370'] },
+
+  // Nordrhein-Westfalen
+  { name: 'Köln', aliases: ['Cologne'], land: 'NW', kreis: null, postcodes: ['506', '507', '508', '509', '510', '511'] },
+  { name: 'Düsseldorf', land: 'NW', kreis: null, postcodes: ['402', '404', '405', '406'] },
+  { name: 'Dortmund', land: 'NW', kreis: null, postcodes: ['441', '442', '443'] },
+  { name: 'Essen', land: 'NW', kreis: null, postcodes: ['451', '452', '453'] },
+  { name: 'Duisburg', land: 'NW', kreis: null, postcodes: ['470', '471', '472'] },
+  { name: 'Bochum', land: 'NW', kreis: null, postcodes: ['447', '448'] },
+  { name: 'Wuppertal', land: 'NW', kreis: null, postcodes: ['421', '422', '423'] },
+  { name: 'Gelsenkirchen', land: 'NW', kreis: null, postcodes: ['458', '459'] },
+  { name: 'Bielefeld', land: 'NW', kreis: null, postcodes: ['336', '337'] },
+  { name: 'Münster', land: 'NW', kreis: null, postcodes: ['481'] },
+  { name: 'Bonn', land: 'NW', kreis: null, postcodes: ['531'] },
+  { name: 'Aachen', land: 'NW', kreis: 'Städteregion Aachen', postcodes: ['520'] },
+  { name: 'Eschweiler', land: 'NW', kreis: 'Städteregion Aachen', postcodes: ['52249'] },
+  { name: 'Siegburg', land: 'NW', kreis: 'Rhein-Sieg-Kreis', postcodes: ['53721'] },
+  { name: 'Troisdorf', land: 'NW', kreis: 'Rhein-Sieg-Kreis', postcodes: ['5384'] },
+  { name: 'Bergheim', land: 'NW', kreis: 'Rhein-Erft-Kreis', postcodes: ['5012'] },
+  { name: 'Kerpen', land: 'NW', kreis: 'Rhein-Erft-Kreis', postcodes: ['5016', '50170', '50171'] },
+  { name: 'Neuss', land: 'NW', kreis: 'Rhein-Kreis Neuss', postcodes: ['414'] },
+  { name: 'Ratingen', land: 'NW', kreis: 'Kreis Mettmann', postcodes: ['4087', '4088'] },
+
+  // Hessen
+  { name: 'Frankfurt am Main', aliases: ['Frankfurt', 'Frankfurt/Main', 'Frankfurt a.M.'], land: 'HE', kreis: null, postcodes: ['60', '6592', '6593'] },
+  { name: 'Offenbach am Main', land: 'HE', kreis: null, postcodes: ['6306', '6307'] },
+  { name: 'Wiesbaden', land: 'HE', kreis: null, postcodes: ['651', '652'] },
+  { name: 'Darmstadt', land: 'HE', kreis: null, postcodes: ['642'] },
+  { name: 'Kassel', land: 'HE', kreis: null, postcodes: ['341'] },
+  { name: 'Eschborn', land: 'HE', kreis: 'Main-Taunus-Kreis', postcodes: ['65760'] },
+  { name: 'Hofheim am Taunus', land: 'HE', kreis: 'Main-Taunus-Kreis', postcodes: ['65719'] },
+  { name: 'Dreieich', land: 'HE', kreis: 'Landkreis Offenbach', postcodes: ['63303'] },
+
+  // Baden-Württemberg
+  { name: 'Stuttgart', land: 'BW', kreis: null, postcodes: ['701', '703', '704', '705', '706'] },
+  { name: 'Ludwigsburg', land: 'BW', kreis: 'Landkreis Ludwigsburg', postcodes: ['7163', '7164'] },
+  { name: 'Kornwestheim', land: 'BW', kreis: 'Landkreis Ludwigsburg', postcodes: ['70806'] },
+  { name: 'Fellbach', land: 'BW', kreis: 'Rems-Murr-Kreis', postcodes: ['7073'] },
+  { name: 'Waiblingen', land: 'BW', kreis: 'Rems-Murr-Kreis', postcodes: ['7133'] },
+  { name: 'Esslingen am Neckar', aliases: ['Esslingen'], land: 'BW', kreis: 'Landkreis Esslingen', postcodes: ['7372', '7373'] },
+  { name: 'Leinfelden-Echterdingen', land: 'BW', kreis: 'Landkreis Esslingen', postcodes: ['70771'] },
+  { name: 'Filderstadt', land: 'BW', kreis: 'Landkreis Esslingen', postcodes: ['70794'] },
+  { name: 'Böblingen', land: 'BW', kreis: 'Landkreis Böblingen', postcodes: ['7103'] },
+  { name: 'Sindelfingen', land: 'BW', kreis: 'Landkreis Böblingen', postcodes: ['7106'] },
+  { name: 'Mannheim', land: 'BW', kreis: null, postcodes: ['681'] },
+  { name: 'Karlsruhe', land: 'BW', kreis: null, postcodes: ['761'] },
+  { name: 'Freiburg im Breisgau', aliases: ['Freiburg'], land: 'BW', kreis: null, postcodes: ['791'] },
+  { name: 'Heidelberg', land: 'BW', kreis: null, postcodes: ['691'] },
+
+  // Bayern
+  { name: 'München', aliases: ['Munich'], land: 'BY', kreis: null, postcodes: ['80', '81'] },
+  { name: 'Garching bei München', aliases: ['Garching'], land: 'BY', kreis: 'Landkreis München', postcodes: ['85748'] },
+  { name: 'Unterschleißheim', land: 'BY', kreis: 'Landkreis München', postcodes: ['85716'] },
+  { name: 'Ottobrunn', land: 'BY', kreis: 'Landkreis München', postcodes: ['85521'] },
+  { name: 'Dachau', land: 'BY', kreis: 'Landkreis Dachau', postcodes: ['85221'] },
+  { name: 'Freising', land: 'BY', kreis: 'Landkreis Freising', postcodes: ['8535'] },
+  { name: 'Nürnberg', aliases: ['Nuremberg'], land: 'BY', kreis: null, postcodes: ['904'] },
+  { name: 'Fürth', land: 'BY', kreis: null, postcodes: ['9076'] },
+  { name: 'Zirndorf', land: 'BY', kreis: 'Landkreis Fürth', postcodes: ['90513'] },
+  { name: 'Erlangen', land: 'BY', kreis: null, postcodes: ['9105'] },
+  { name: 'Augsburg', land: 'BY', kreis: null, postcodes: ['861'] },
+  { name: 'Regensburg', land: 'BY', kreis: null, postcodes: ['930'] },
+  { name: 'Würzburg', land: 'BY', kreis: null, postcodes: ['970'] },
+  { name: 'Ingolstadt', land: 'BY', kreis: null, postcodes: ['850'] },
+
+  // Sachsen, Sachsen-Anhalt, Thüringen
+  { name: 'Leipzig', land: 'SN', kreis: null, postcodes: ['041', '042', '043'] },
+  { name: 'Markkleeberg', land: 'SN', kreis: 'Landkreis Leipzig', postcodes: ['04416'] },
+  { name: 'Borna', land: 'SN', kreis: 'Landkreis Leipzig', postcodes: ['04552'] },
+  { name: 'Dresden', land: 'SN', kreis: null, postcodes: ['010', '011', '012', '013'] },
+  { name: 'Pirna', land: 'SN', kreis: 'Landkreis Sächsische Schweiz-Osterzgebirge', postcodes: ['01796'] },
+  { name: 'Chemnitz', land: 'SN', kreis: null, postcodes: ['091'] },
+  { name: 'Magdeburg', land: 'ST', kreis: null, postcodes: ['391'] },
+  { name: 'Halle (Saale)', aliases: ['Halle'], land: 'ST', kreis: null, postcodes: ['061'] },
+  { name: 'Erfurt', land: 'TH', kreis: null, postcodes: ['990', '991'] },
+  { name: 'Jena', land: 'TH', kreis: null, postcodes: ['077'] },
+
+  // Mecklenburg-Vorpommern, Rheinland-Pfalz, Saarland
+  { name: 'Rostock', land: 'MV', kreis: null, postcodes: ['180', '181'] },
+  { name: 'Güstrow', land: 'MV', kreis: 'Landkreis Rostock', postcodes: ['18273'] },
+  { name: 'Schwerin', land: 'MV', kreis: null, postcodes: ['190'] },
+  { name: 'Mainz', land: 'RP', kreis: null, postcodes: ['551'] },
+  { name: 'Saarbrücken', land: 'SL', kreis: 'Regionalverband Saarbrücken', postcodes: ['661'] },
+];
@@ -0,0 +1,147 @@
+// lib/identityCrossCheck.ts
+
+// A residence title is issued against the holder's national passport, so the
+// name, date of birth and nationality on both documents must agree – and
+// with the employee record HR keeps. A difference usually means a typo or a
+// misread scan, but it can also mean the documents belong to different
+// people, so every mismatch is flagged for review.
+
+import type { MrzData } from './mrz';
+
+export const identitySources = ['RESIDENCE_TITLE', 'PASSPORT', 'EMPLOYEE_RECORD'] as const;
+export type IdentitySource = typeof identitySources[number];
+
+export const identitySourceLabels: Record<IdentitySource, { en: string; de: string }> = {
+  RESIDENCE_TITLE: { en: 'residence title', de: 'Aufenthaltstitel' },
+  PASSPORT: { en: 'passport', de: 'Reisepass' },
+  EMPLOYEE_RECORD: { en: 'employee record', de: 'Personalstammdaten' },
+};
+
+export const identityFields = ['NAME', 'DATE_OF_BIRTH', 'NATIONALITY'] as const;
+export type IdentityField = typeof identityFields[number];
+
+export const identityFieldLabels: Record<IdentityField, { en: string; de: string }> = {
+  NAME: { en: 'name', de: 'Name' },
+  DATE_OF_BIRTH: { en: 'date of birth', de: 'Geburtsdatum' },
+  NATIONALITY: { en: 'nationality', de: 'Staatsangehörigkeit' },
+};
+
+export interface IdentityRecord {
+  firstName?: string;
+  lastName?: string;
+  dateOfBirth?: string;  // ISO date
+  nationality?: string;  // ISO 3166-1 alpha-2
+}
+
+export interface IdentityMismatch {
+  field: IdentityField;
+  sources: [IdentitySource, IdentitySource];
+  values: [string, string];  // as recorded, in the order of `sources`
+}
+
+// Documents spell umlauts out ("MUELLER") or drop the accents ("MULLER");
+// both forms of each name token are kept so either spelling matches
+function nameTokens(name: string): string[][] {
+  const upper = name.toUpperCase();
+  const spelledOut = upper
+    .replace(/Ä/g, 'AE')
+    .replace(/Ö/g, 'OE')
+    .replace(/Ü/g, 'UE')
+    .replace(/ß/g, 'SS');
+  const split = (value: string) => value
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^A-Z]+/g, ' ')
+    .trim()
+    .split(' ')
+    .filter(Boolean);
+  const spelledOutTokens = split(spelledOut);
+  const strippedTokens = split(upper);
+  // Transliteration never adds or removes a token boundary
+  return spelledOutTokens.map((token, i) => [token, strippedTokens[i] ?? token]);
+}
+
+/**
+ * Uppercases a name and strips accents and punctuation, the way it appears in
+ * a machine-readable zone: "Müller-Lüdenscheidt" → "MUELLER LUEDENSCHEIDT".
+ */
+export function normalizePersonName(name: string): string {
+  return nameTokens(name).map(([spelledOut]) => spelledOut).join(' ');
+}
+
+// True when every token of the shorter name appears in the longer one: a
+// passport often carries middle names the employee record leaves out
+function namesMatch(a: string, b: string): boolean {
+  const tokensA = nameTokens(a);
+  const tokensB = nameTokens(b);
+  if (tokensA.length === 0 || tokensB.length === 0) return true;
+  const [shorter, longer] = tokensA.length <= tokensB.length ? [tokensA, tokensB] : [tokensB, tokensA];
+  return shorter.every((variants) => longer.some((other) => variants.some((token) => other.includes(token))));
+}
+
+function fullName(record: IdentityRecord): string {
+  return [record.firstName, record.lastName].filter(Boolean).join(' ');
+}
+
+function compare(field: IdentityField, a: IdentityRecord, b: IdentityRecord): [string, string] | undefined {
+  switch (field) {
+    case 'NAME': {
+      // Only compare what both sides recorded
+      const lastNamesDiffer = !!a.lastName && !!b.lastName && !namesMatch(a.lastName, b.lastName);
+      const firstNamesDiffer = !!a.firstName && !!b.firstName && !namesMatch(a.firstName, b.firstName);
+      return lastNamesDiffer || firstNamesDiffer ? [fullName(a), fullName(b)] : undefined;
+    }
+    case 'DATE_OF_BIRTH':
+      return a.dateOfBirth && b.dateOfBirth && a.dateOfBirth.slice(0, 10) !== b.dateOfBirth.slice(0, 10)
+        ? [a.dateOfBirth.slice(0, 10), b.dateOfBirth.slice(0, 10)]
+        : undefined;
+    case 'NATIONALITY':
+      return a.nationality && b.nationality && a.nationality.toUpperCase() !== b.nationality.toUpperCase()
+        ? [a.nationality.toUpperCase(), b.nationality.toUpperCase()]
+        : undefined;
+  }
+}
+
+// Whether the source recorded anything to compare for the field
+function hasField(record: IdentityRecord, field: IdentityField): boolean {
+  if (field === 'NAME') return !!(record.firstName || record.lastName);
+  if (field === 'DATE_OF_BIRTH') return !!record.dateOfBirth;
+  return !!record.nationality;
+}
+
+/**
+ * Compares name, date of birth and nationality of every source with the
+ * first source that recorded the field, in the order of `identitySources`:
+ * the residence title is the reference, then the passport. A field is only
+ * compared when both sources recorded it.
+ */
+export function crossCheckIdentity(records: Partial<Record<IdentitySource, IdentityRecord>>): IdentityMismatch[] {
+  const mismatches: IdentityMismatch[] = [];
+  for (const field of identityFields) {
+    const present = identitySources.filter((source) => records[source] && hasField(records[source]!, field));
+    const [reference, ...others] = present;
+    for (const source of others) {
+      const values = compare(field, records[reference]!, records[source]!);
+      if (values) {
+        mismatches.push({ field, sources: [reference, source], values });
+      }
+    }
+  }
+  return mismatches;
+}
+
+/**
+ * Holder's name, date of birth and nationality from a machine-readable zone.
+ * The name and nationality have no check digit of their own, so they are only
+ * used when the whole zone checks out.
+ */
+export function getMrzIdentity(mrz: Partial<MrzData> | undefined): IdentityRecord | undefined {
+  if (!mrz) return undefined;
+  const record: IdentityRecord = {
+    firstName: mrz.isValid ? mrz.givenNames || undefined : undefined,
+    lastName: mrz.isValid ? mrz.surname || undefined : undefined,
+    dateOfBirth: mrz.checkDigits?.birthDate ? mrz.birthDate : undefined,
+    nationality: mrz.isValid ? mrz.nationality : undefined,
+  };
+  return Object.values(record).some(Boolean) ? record : undefined;
+}
@@ -0,0 +1,210 @@
+// lib/imageForensics.ts
+
+// Traces an image editor leaves in an uploaded file: the editor's name in the
+// EXIF, XMP or PDF metadata, and JPEG compression blocks that no longer line
+// up with the image's own 8×8 grid because the photo was cropped or edited and
+// then saved again. Both are heuristics – a scan app may well record its name
+// too – so they only ever raise a signal for review (see
+// lib/documentAuthenticity.ts). Everything runs locally on @napi-rs/canvas.
+
+import { createCanvas, loadImage, type Image } from '@napi-rs/canvas';
+import type { AuthenticitySignal } from './documentAuthenticity';
+import { isPdf } from './pdfPages';
+
+// Programs used to edit photos and documents; camera, phone and scanner
+// software is not listed
+const EDITING_SOFTWARE_PATTERN = /photoshop|lightroom|illustrator|gimp|paint\.net|paintshop|affinity|pixelmator|photopea|inkscape|corel|canva|picsart|snapseed|facetune|acorn/i;
+
+// Metadata sits at the start of a file; no need to scan the pixel data
+const METADATA_SCAN_BYTES = 256 * 1024;
+
+// Centre crop the compression grid is measured on
+const GRID_ANALYSIS_SIDE = 1024;
+// Edge strength at a grid offset, relative to a typical offset and in luma
+// steps above it, from which the offset shows compression blocks
+const MISALIGNED_GRID_RATIO = 1.5;
+const MIN_GRID_STRENGTH = 0.25;
+// Smaller images have too few blocks to tell
+const MIN_GRID_SIDE = 256;
+// Largest luma step (0–255) still counted as a smooth area
+const SMOOTH_STEP = 6;
+
+const EXIF_TAG_ORIENTATION = 0x0112;
+const EXIF_TAG_SOFTWARE = 0x0131;
+
+interface ExifTags {
+  software?: string;
+  orientation?: number;
+}
+
+function isJpeg(buffer: Buffer): boolean {
+  return buffer.length > 3 && buffer[0] === 0xff && buffer[1] === 0xd8;
+}
+
+// Software and orientation from IFD0 of a TIFF structure (the EXIF payload)
+function readTiffTags(tiff: Buffer): ExifTags {
+  if (tiff.length < 8) return {};
+  const littleEndian = tiff.toString('latin1', 0, 2) === 'II';
+  const read16 = (offset: number) => (littleEndian ? tiff.readUInt16LE(offset) : tiff.readUInt16BE(offset));
+  const read32 = (offset: number) => (littleEndian ? tiff.readUInt32LE(offset) : tiff.readUInt32BE(offset));
+  const ifd = read32(4);
+  if (ifd + 2 > tiff.length) return {};
+  const tags: ExifTags = {};
+  const entries = read16(ifd);
+  for (let i = 0; i < entries; i++) {
+    const entry = ifd + 2 + i * 12;
+    if (entry + 12 > tiff.length) break;
+    const tag = read16(entry);
+    if (tag === EXIF_TAG_ORIENTATION) {
+      tags.orientation = read16(entry + 8);
+    } else if (tag === EXIF_TAG_SOFTWARE) {
+      // ASCII; values of up to four bytes are stored in the entry itself
+      const count = read32(entry + 4);
+      const offset = count <= 4 ? entry + 8 : read32(entry + 8);
+      if (offset + count <= tiff.length) {
+        tags.software = tiff.toString('latin1', offset, offset + count).replace(/\0+$/, '').trim() || undefined;
+      }
+    }
+  }
+  return tags;
+}
+
+// EXIF of a JPEG (APP1 segment before the image data)
+function readJpegExif(buffer: Buffer): ExifTags {
+  let offset = 2;
+  while (offset + 4 <= buffer.length && buffer[offset] === 0xff) {
+    const marker = buffer[offset + 1];
+    // Start of scan: the metadata segments are over
+    if (marker === 0xda) break;
+    const length = buffer.readUInt16BE(offset + 2);
+    if (marker === 0xe1 && buffer.toString('latin1', offset + 4, offset + 10) === 'Exif\0\0') {
+      return readTiffTags(buffer.subarray(offset + 10, offset + 2 + length));
+    }
+    offset += 2 + length;
+  }
+  return {};
+}
+
+// Creator named in XMP, PNG text chunks or the PDF info dictionary
+function findCreatorInMetadata(buffer: Buffer): string[] {
+  const text = buffer.toString('latin1', 0, Math.min(buffer.length, METADATA_SCAN_BYTES));
+  const patterns = [
+    /CreatorTool(?:>|=")([^<"]+)/g,               // XMP
+    /Software\0([\x20-\x7e]+)/g,                   // PNG tEXt chunk
+    /\/(?:Producer|Creator)\s*\(([^)]*)\)/g,       // PDF info dictionary
+  ];
+  const names: string[] = [];
+  for (const pattern of patterns) {
+    let match;
+    while ((match = pattern.exec(text)) !== null) {
+      names.push(match[1].trim());
+    }
+  }
+  return names;
+}
+
+// Median over the columns (or rows) at each offset: a single ruled line or
+// card border shows up in one column, compression blocks in all of them
+function strengthPerOffset(sums: number[], counts: number[]): number[] {
+  return Array.from({ length: 8 }, (_, offset) => {
+    const values = sums
+      .map((sum, index) => (index % 8 === offset && counts[index] > 0 ? sum / counts[index] : undefined))
+      .filter((value): value is number => value !== undefined)
+      .sort((a, b) => a - b);
+    return values.length > 0 ? values[Math.floor(values.length / 2)] : 0;
+  });
+}
+
+/**
+ * Typical edge strength across each of the eight column and row offsets of a
+ * centre crop. JPEG compresses 8×8 blocks, so a compressed image has stronger
+ * edges between columns 7 and 8, 15 and 16, …; a crop or resize after
+ * compression shifts those edges to another offset.
+ */
+function measureCompressionGrid(image: Image): { columns: number[]; rows: number[] } {
+  // Crop on the 8-pixel grid so the offsets stay those of the file
+  const width = Math.min(image.width, GRID_ANALYSIS_SIDE);
+  const height = Math.min(image.height, GRID_ANALYSIS_SIDE);
+  const left = Math.floor((image.width - width) / 16) * 8;
+  const top = Math.floor((image.height - height) / 16) * 8;
+  const canvas = createCanvas(width, height);
+  const ctx = canvas.getContext('2d');
+  ctx.drawImage(image, -left, -top);
+  const { data } = ctx.getImageData(0, 0, width, height);
+  const luma = new Float32Array(width * height);
+  for (let i = 0; i < luma.length; i++) {
+    luma[i] = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+  }
+
+  const columnSums = new Array<number>(width).fill(0);
+  const columnCounts = new Array<number>(width).fill(0);
+  const rowSums = new Array<number>(height).fill(0);
+  const rowCounts = new Array<number>(height).fill(0);
+  // Step between two pixels beyond the steps on either side of it, counted in
+  // smooth areas only: text and texture would hide the block edges
+  const blockEdge = (before: number, step: number, after: number) =>
+    Math.abs(before) < SMOOTH_STEP && Math.abs(after) < SMOOTH_STEP
+      ? Math.abs(step) - (Math.abs(before) + Math.abs(after)) / 2
+      : undefined;
+  for (let y = 1; y < height - 2; y++) {
+    for (let x = 1; x < width - 2; x++) {
+      const i = y * width + x;
+      const column = blockEdge(luma[i] - luma[i - 1], luma[i + 1] - luma[i], luma[i + 2] - luma[i + 1]);
+      if (column !== undefined) {
+        columnSums[x] += column;
+        columnCounts[x]++;
+      }
+      const row = blockEdge(luma[i] - luma[i - width], luma[i + width] - luma[i], luma[i + 2 * width] - luma[i + width]);
+      if (row !== undefined) {
+        rowSums[y] += row;
+        rowCounts[y]++;
+      }
+    }
+  }
+  return {
+    columns: strengthPerOffset(columnSums, columnCounts),
+    rows: strengthPerOffset(rowSums, rowCounts),
+  };
+}
+
+// True when the strongest offset is not the block boundary of the file
+// (between pixels 7 and 8) and clearly stands out from the others
+function hasMisalignedGrid(strengths: number[]): boolean {
+  const peak = Math.max(...strengths);
+  const peakOffset = strengths.indexOf(peak);
+  const typical = [...strengths].sort((a, b) => a - b)[4];
+  return peakOffset !== 7
+    && peak - typical > MIN_GRID_STRENGTH
+    && typical > 0
+    && peak / typical > MISALIGNED_GRID_RATIO;
+}
+
+/**
+ * Looks for traces of editing in an uploaded image or PDF: the name of an
+ * image editor in its metadata and, for images, JPEG compression blocks that
+ * are out of line with the image grid. Returns no signals for a clean file.
+ */
+export async function inspectDocumentFile(buffer: Buffer): Promise<AuthenticitySignal[]> {
+  const signals: AuthenticitySignal[] = [];
+  const exif = isJpeg(buffer) ? readJpegExif(buffer) : {};
+  const software = [exif.software, ...findCreatorInMetadata(buffer)]
+    .find((name) => name && EDITING_SOFTWARE_PATTERN.test(name));
+  if (software) {
+    signals.push({ code: 'EDITING_SOFTWARE', params: { software } });
+  }
+
+  if (isPdf(buffer)) return signals;
+
+  // The decoder turns phone photos upright, which moves the grid when a side
+  // is not a multiple of 8; those are not measured
+  const image = await loadImage(buffer);
+  const rotated = exif.orientation !== undefined && exif.orientation !== 1;
+  if (rotated && (image.width % 8 !== 0 || image.height % 8 !== 0)) return signals;
+  if (Math.min(image.width, image.height) < MIN_GRID_SIDE) return signals;
+
+  const grid = measureCompressionGrid(image);
+  if (hasMisalignedGrid(grid.columns) || hasMisalignedGrid(grid.rows)) {
+    signals.push({ code: 'RECOMPRESSED', params: {} });
+  }
+  return signals;
+}
@@ -0,0 +1,410 @@
+// lib/imagePreprocessing.ts
+
+// Phone photos from the public upload are often rotated, skewed, blurry or
+// washed out by glare. Before OCR, images are straightened, cropped to the
+// document and contrast-stretched, and scored for blur, resolution and glare
+// so a candidate can be asked to retake a bad photo instead of getting an OCR
+// error later. Everything runs locally on @napi-rs/canvas.
+
+import { createCanvas, loadImage, type Canvas, type Image } from '@napi-rs/canvas';
+import type { OcrBox } from './ocrProviders';
+
+export const imageQualityIssues = ['BLURRY', 'LOW_RESOLUTION', 'GLARE'] as const;
+export type ImageQualityIssue = typeof imageQualityIssues[number];
+
+export const imageQualityFeedback: Record<ImageQualityIssue, string> = {
+  BLURRY: 'The photo is blurry. Hold the phone steady, tap the document to focus and take the photo again.',
+  LOW_RESOLUTION: 'The image resolution is too low. Move closer so the document fills the frame, or upload the original photo instead of a screenshot.',
+  GLARE: 'Light is reflecting off the document. Avoid direct light and flash, and tilt the document slightly.',
+};
+
+export interface ImageQualityReport {
+  score: number;          // 0–100, the weakest of the three measures
+  sharpness: number;      // variance of the Laplacian on the analysis image
+  width: number;          // pixels, after EXIF rotation
+  height: number;
+  glareRatio: number;     // share of clipped highlight pixels (0–1)
+  issues: ImageQualityIssue[];
+}
+
+// How the OCR image relates to the uploaded one, to map positions back
+export interface PreprocessingTransform {
+  skewAngle: number;     // degrees the image was rotated back by
+  crop: OcrBox;          // document area, as fractions of the straightened image
+}
+
+export interface PreprocessedImage {
+  buffer: Buffer;        // PNG for the OCR engine
+  quality: ImageQualityReport;
+  transform: PreprocessingTransform;
+}
+
+// Longest side of the image handed to OCR; larger photos only slow it down
+const MAX_OCR_SIDE = 3000;
+// Longest side of the grayscale copy the measurements run on
+const ANALYSIS_SIDE = 1000;
+
+// Below these the scan is flagged; calibrated on eAT and passport photos
+const MIN_SHARPNESS = 60;
+const GOOD_SHARPNESS = 150;
+const MIN_SHORT_SIDE = 600;
+const GOOD_SHORT_SIDE = 1000;
+const MAX_GLARE_RATIO = 0.03;
+
+const MAX_SKEW_DEGREES = 10;
+
+// Upright image, scaled down to at most MAX_OCR_SIDE. The decoder already
+// applies the EXIF orientation of phone photos.
+function drawUpright(image: Image): Canvas {
+  const scale = Math.min(1, MAX_OCR_SIDE / Math.max(image.width, image.height));
+  const canvas = createCanvas(Math.round(image.width * scale), Math.round(image.height * scale));
+  canvas.getContext('2d').drawImage(image, 0, 0, canvas.width, canvas.height);
+  return canvas;
+}
+
+interface GrayImage {
+  pixels: Float32Array; // luma 0–255
+  width: number;
+  height: number;
+}
+
+function toGray(canvas: Canvas, maxSide: number): GrayImage {
+  const scale = Math.min(1, maxSide / Math.max(canvas.width, canvas.height));
+  const width = Math.max(1, Math.round(canvas.width * scale));
+  const height = Math.max(1, Math.round(canvas.height * scale));
+  const small = createCanvas(width, height);
+  const ctx = small.getContext('2d');
+  ctx.drawImage(canvas, 0, 0, width, height);
+  const { data } = ctx.getImageData(0, 0, width, height);
+  const pixels = new Float32Array(width * height);
+  for (let i = 0; i < pixels.length; i++) {
+    pixels[i] = 0.299 * data[i * 4] + 0.587 * data[i * 4 + 1] + 0.114 * data[i * 4 + 2];
+  }
+  return { pixels, width, height };
+}
+
+// Variance of the 4-neighbour Laplacian: low when edges are soft
+function laplacianVariance({ pixels, width, height }: GrayImage): number {
+  let sum = 0;
+  let sumSquares = 0;
+  let count = 0;
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      const value = pixels[i - 1] + pixels[i + 1] + pixels[i - width] + pixels[i + width] - 4 * pixels[i];
+      sum += value;
+      sumSquares += value * value;
+      count++;
+    }
+  }
+  if (count === 0) return 0;
+  const mean = sum / count;
+  return sumSquares / count - mean * mean;
+}
+
+function percentile(values: Float32Array, fraction: number): number {
+  const histogram = new Array<number>(256).fill(0);
+  for (let i = 0; i < values.length; i++) histogram[Math.min(255, Math.max(0, Math.round(values[i])))]++;
+  const target = values.length * fraction;
+  let seen = 0;
+  for (let level = 0; level < 256; level++) {
+    seen += histogram[level];
+    if (seen >= target) return level;
+  }
+  return 255;
+}
+
+// Clipped highlights. Flatbed scans and screenshots have a pure white
+// background, so a mostly white image is not counted as glare.
+function glareRatio(gray: GrayImage): number {
+  if (percentile(gray.pixels, 0.5) >= 235) return 0;
+  let clipped = 0;
+  for (let i = 0; i < gray.pixels.length; i++) {
+    if (gray.pixels[i] >= 250) clipped++;
+  }
+  return clipped / gray.pixels.length;
+}
+
+function assess(gray: GrayImage, width: number, height: number): ImageQualityReport {
+  const sharpness = laplacianVariance(gray);
+  const glare = glareRatio(gray);
+  const shortSide = Math.min(width, height);
+
+  const issues: ImageQualityIssue[] = [];
+  if (sharpness < MIN_SHARPNESS) issues.push('BLURRY');
+  if (shortSide < MIN_SHORT_SIDE) issues.push('LOW_RESOLUTION');
+  if (glare > MAX_GLARE_RATIO) issues.push('GLARE');
+
+  const clamp = (value: number) => Math.max(0, Math.min(1, value));
+  const score = Math.round(100 * Math.min(
+    clamp(sharpness / GOOD_SHARPNESS),
+    clamp(shortSide / GOOD_SHORT_SIDE),
+    1 - clamp(glare / (MAX_GLARE_RATIO * 3)),
+  ));
+
+  return {
+    score,
+    sharpness: Math.round(sharpness),
+    width,
+    height,
+    glareRatio: Math.round(glare * 10000) / 10000,
+    issues,
+  };
+}
+
+/**
+ * Skew of the text lines in degrees (positive = rotated clockwise), found by
+ * the rotation at which the rows of dark pixels line up most sharply.
+ */
+function estimateSkew({ pixels, width, height }: GrayImage): number {
+  const threshold = Math.min(128, percentile(pixels, 0.5) - 40);
+  const points: number[] = [];
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (pixels[y * width + x] < threshold) points.push(x, y);
+    }
+  }
+  // Too little ink to measure, or a photo that is mostly dark
+  if (points.length < 200 || points.length / 2 > pixels.length * 0.5) return 0;
+
+  const diagonal = Math.ceil(Math.hypot(width, height));
+  const alignment = (degrees: number) => {
+    const radians = (degrees * Math.PI) / 180;
+    const sin = Math.sin(radians);
+    const cos = Math.cos(radians);
+    const rows = new Float64Array(diagonal * 2);
+    for (let i = 0; i < points.length; i += 2) {
+      rows[Math.round(points[i + 1] * cos - points[i] * sin) + diagonal]++;
+    }
+    let sumSquares = 0;
+    for (let i = 0; i < rows.length; i++) sumSquares += rows[i] * rows[i];
+    return sumSquares;
+  };
+
+  let best = 0;
+  let bestScore = alignment(0);
+  for (let degrees = -MAX_SKEW_DEGREES; degrees <= MAX_SKEW_DEGREES; degrees += 0.5) {
+    const score = alignment(degrees);
+    if (score > bestScore) {
+      best = degrees;
+      bestScore = score;
+    }
+  }
+  for (let degrees = best - 0.4; degrees <= best + 0.4; degrees += 0.1) {
+    const score = alignment(degrees);
+    if (score > bestScore) {
+      best = degrees;
+      bestScore = score;
+    }
+  }
+  return Math.round(best * 10) / 10;
+}
+
+// Average colour of the image's outer edge, i.e. usually the table or
+// scanner lid around the document
+function borderColour(canvas: Canvas): string {
+  const ctx = canvas.getContext('2d');
+  const edges = [
+    ctx.getImageData(0, 0, canvas.width, 1).data,
+    ctx.getImageData(0, canvas.height - 1, canvas.width, 1).data,
+    ctx.getImageData(0, 0, 1, canvas.height).data,
+    ctx.getImageData(canvas.width - 1, 0, 1, canvas.height).data,
+  ];
+  const sum = [0, 0, 0];
+  let count = 0;
+  for (const data of edges) {
+    for (let i = 0; i < data.length; i += 4) {
+      sum[0] += data[i];
+      sum[1] += data[i + 1];
+      sum[2] += data[i + 2];
+      count++;
+    }
+  }
+  const [r, g, b] = sum.map((value) => Math.round(value / count));
+  return `rgb(${r}, ${g}, ${b})`;
+}
+
+// The corners uncovered by the rotation are filled with the background so
+// they do not read as document edges
+function rotate(canvas: Canvas, degrees: number): Canvas {
+  const rotated = createCanvas(canvas.width, canvas.height);
+  const ctx = rotated.getContext('2d');
+  ctx.fillStyle = borderColour(canvas);
+  ctx.fillRect(0, 0, rotated.width, rotated.height);
+  ctx.translate(rotated.width / 2, rotated.height / 2);
+  ctx.rotate((degrees * Math.PI) / 180);
+  ctx.drawImage(canvas, -canvas.width / 2, -canvas.height / 2);
+  return rotated;
+}
+
+/**
+ * The document's area: rows and columns with enough edges (text, card
+ * borders) to stand out from a plain background, plus a small margin. The
+ * whole image when the document fills most of the frame.
+ */
+function findDocumentArea({ pixels, width, height }: GrayImage): OcrBox {
+  const rowEdges = new Float64Array(height);
+  const columnEdges = new Float64Array(width);
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const i = y * width + x;
+      const gradient = Math.abs(pixels[i + 1] - pixels[i - 1]) + Math.abs(pixels[i + width] - pixels[i - width]);
+      if (gradient > 40) {
+        rowEdges[y]++;
+        columnEdges[x]++;
+      }
+    }
+  }
+  const span = (edges: Float64Array, length: number, across: number): [number, number] => {
+    const minimum = across * 0.02;
+    let start = 0;
+    while (start < length && edges[start] < minimum) start++;
+    let end = length - 1;
+    while (end > start && edges[end] < minimum) end--;
+    const margin = Math.round(length * 0.02);
+    return [Math.max(0, start - margin), Math.min(length, end + 1 + margin)];
+  };
+  const [top, bottom] = span(rowEdges, height, width);
+  const [left, right] = span(columnEdges, width, height);
+
+  const area = ((bottom - top) * (right - left)) / (width * height);
+  if (bottom <= top || right <= left || area < 0.2 || area > 0.9) {
+    return { x: 0, y: 0, width: 1, height: 1 };
+  }
+  return { x: left / width, y: top / height, width: (right - left) / width, height: (bottom - top) / height };
+}
+
+// Linear stretch between the 1st and 99th luma percentile
+function normalizeContrast(canvas: Canvas): void {
+  const ctx = canvas.getContext('2d');
+  const image = ctx.getImageData(0, 0, canvas.width, canvas.height);
+  const gray = toGray(canvas, ANALYSIS_SIDE);
+  const low = percentile(gray.pixels, 0.01);
+  const high = percentile(gray.pixels, 0.99);
+  if (high - low >= 230 || high - low < 10) return;
+
+  const lut = new Uint8ClampedArray(256);
+  for (let level = 0; level < 256; level++) {
+    lut[level] = ((level - low) * 255) / (high - low);
+  }
+  const { data } = image;
+  for (let i = 0; i < data.length; i += 4) {
+    data[i] = lut[data[i]];
+    data[i + 1] = lut[data[i + 1]];
+    data[i + 2] = lut[data[i + 2]];
+  }
+  ctx.putImageData(image, 0, 0);
+}
+
+async function loadUpright(buffer: Buffer): Promise<{ canvas: Canvas; width: number; height: number }> {
+  const image = await loadImage(buffer);
+  return { canvas: drawUpright(image), width: image.width, height: image.height };
+}
+
+/**
+ * Scores an uploaded photo for blur, resolution and glare without preparing
+ * it for OCR; used to ask for a retake before anything is stored.
+ */
+export async function assessImageQuality(buffer: Buffer): Promise<ImageQualityReport> {
+  const { canvas, width, height } = await loadUpright(buffer);
+  return assess(toGray(canvas, ANALYSIS_SIDE), width, height);
+}
+
+/**
+ * Prepares a photo for OCR: upright per EXIF, deskew, crop to the document and
+ * contrast normalisation. Returns the PNG with its quality report and the
+ * transform needed to map OCR positions back onto the upload.
+ */
+export async function preprocessImage(buffer: Buffer): Promise<PreprocessedImage> {
+  const upright = await loadUpright(buffer);
+  const gray = toGray(upright.canvas, ANALYSIS_SIDE);
+  const quality = assess(gray, upright.width, upright.height);
+
+  const skewAngle = estimateSkew(gray);
+  const straight = Math.abs(skewAngle) >= 0.5 ? rotate(upright.canvas, -skewAngle) : upright.canvas;
+
+  const crop = findDocumentArea(straight === upright.canvas ? gray : toGray(straight, ANALYSIS_SIDE));
+  const cropX = Math.round(crop.x * straight.width);
+  const cropY = Math.round(crop.y * straight.height);
+  const cropWidth = Math.max(1, Math.round(crop.width * straight.width));
+  const cropHeight = Math.max(1, Math.round(crop.height * straight.height));
+  const output = createCanvas(cropWidth, cropHeight);
+  output.getContext('2d').drawImage(straight, cropX, cropY, cropWidth, cropHeight, 0, 0, cropWidth, cropHeight);
+
+  normalizeContrast(output);
+
+  return {
+    buffer: output.toBuffer('image/png'),
+    quality,
+    transform: { skewAngle: Math.abs(skewAngle) >= 0.5 ? skewAngle : 0, crop },
+  };
+}
+
+/**
+ * Maps a box on the preprocessed image back onto the upload as the browser
+ * shows it (EXIF rotation applied). The deskew is undone for the box's
+ * centre; the box keeps its size.
+ */
+export function toUploadBox(box: OcrBox, transform: PreprocessingTransform): OcrBox {
+  const { crop, skewAngle } = transform;
+  const x = crop.x + box.x * crop.width;
+  const y = crop.y + box.y * crop.height;
+  const width = box.width * crop.width;
+  const height = box.height * crop.height;
+  if (skewAngle === 0) return { x, y, width, height };
+
+  // Rotate the centre back around the image centre (aspect ratio ignored:
+  // skew is at most a few degrees)
+  const radians = (skewAngle * Math.PI) / 180;
+  const centreX = x + width / 2 - 0.5;
+  const centreY = y + height / 2 - 0.5;
+  const rotatedX = centreX * Math.cos(radians) - centreY * Math.sin(radians);
+  const rotatedY = centreX * Math.sin(radians) + centreY * Math.cos(radians);
+  return { x: rotatedX + 0.5 - width / 2, y: rotatedY + 0.5 - height / 2, width, height };
+}
+
+// An uploaded file, as the public upload receives it
+export interface UploadedImage {
+  fileName: string;
+  mimeType: string;
+  buffer: Buffer;
+}
+
+export interface RetakeRequest {
+  fileName: string;
+  issues: ImageQualityIssue[];
+  feedback: string[];
+}
+
+/**
+ * The photos among the uploads that should be taken again, with what is
+ * wrong with each. PDFs, and images the canvas cannot decode, are left to the
+ * OCR step.
+ */
+export async function findPhotosToRetake(files: UploadedImage[]): Promise<RetakeRequest[]> {
+  const retake: RetakeRequest[] = [];
+  for (const file of files) {
+    if (file.mimeType === 'application/pdf') continue;
+    let quality: ImageQualityReport;
+    try {
+      quality = await assessImageQuality(file.buffer);
+    } catch (error) {
+      console.warn(`[IMAGE QUALITY] Could not assess "${file.fileName}":`, error);
+      continue;
+    }
+    if (quality.issues.length > 0) {
+      retake.push({
+        fileName: file.fileName,
+        issues: quality.issues,
+        feedback: quality.issues.map((issue) => imageQualityFeedback[issue]),
+      });
+    }
+  }
+  return retake;
+}
+
+export function retakeMessage(retake: RetakeRequest[]): string {
+  return retake.length === 1
+    ? `Please retake the photo "${retake[0].fileName}".`
+    : `Please retake ${retake.length} photos.`;
+}
@@ -0,0 +1,72 @@
+// lib/imageRedaction.ts
+
+// Burns redaction regions (lib/documentRedaction.ts) into a copy of an
+// uploaded document. Images are decoded, masked and encoded again, which also
+// drops their EXIF and other metadata. PDFs are rendered page by page
+// (lib/pdfPages.ts) and rebuilt from the masked page images, so no text layer
+// is left under a mask. Everything runs locally on @napi-rs/canvas.
+
+import { createCanvas, loadImage, PDFDocument, type Canvas, type SKRSContext2D } from '@napi-rs/canvas';
+import type { RedactionRegion } from './documentRedaction';
+import { isPdf, MAX_PDF_PAGES, PDF_POINTS_PER_INCH, RENDER_DPI, renderPdfPages } from './pdfPages';
+
+// JPEG quality of redacted photos and of the page images in redacted PDFs
+const JPEG_QUALITY = 90;
+
+export interface RedactedFile {
+  buffer: Buffer;
+  mimeType: string;
+  extension: string;
+}
+
+function isJpeg(buffer: Buffer): boolean {
+  return buffer.length > 3 && buffer[0] === 0xff && buffer[1] === 0xd8;
+}
+
+// The page with its regions painted over in solid black
+async function maskPage(pageBuffer: Buffer, regions: RedactionRegion[]): Promise<Canvas> {
+  const image = await loadImage(pageBuffer);
+  const canvas = createCanvas(image.width, image.height);
+  const ctx = canvas.getContext('2d');
+  ctx.drawImage(image, 0, 0);
+  ctx.fillStyle = '#000000';
+  for (const { box } of regions) {
+    ctx.fillRect(
+      Math.floor(box.x * image.width),
+      Math.floor(box.y * image.height),
+      Math.ceil(box.width * image.width) + 1,
+      Math.ceil(box.height * image.height) + 1
+    );
+  }
+  return canvas;
+}
+
+/**
+ * A copy of the file with every region masked. PDFs with more pages than are
+ * rendered cannot be redacted without losing pages and are refused.
+ */
+export async function redactDocumentFile(fileBuffer: Buffer, regions: RedactionRegion[]): Promise<RedactedFile> {
+  if (!isPdf(fileBuffer)) {
+    const canvas = await maskPage(fileBuffer, regions.filter((region) => region.page === 1));
+    return isJpeg(fileBuffer)
+      ? { buffer: canvas.toBuffer('image/jpeg', JPEG_QUALITY), mimeType: 'image/jpeg', extension: 'jpg' }
+      : { buffer: canvas.toBuffer('image/png'), mimeType: 'image/png', extension: 'png' };
+  }
+
+  const pdf = await renderPdfPages(fileBuffer);
+  if (pdf.totalPages > pdf.pages.length) {
+    throw new Error(`Only PDFs of up to ${MAX_PDF_PAGES} pages can be redacted; this one has ${pdf.totalPages}.`);
+  }
+  const document = new PDFDocument({ producer: 'Certia', encodingQuality: JPEG_QUALITY });
+  for (let i = 0; i < pdf.pages.length; i++) {
+    const canvas = await maskPage(pdf.pages[i], regions.filter((region) => region.page === i + 1));
+    // Back to the page size in points the pages were rendered from
+    const width = (canvas.width * PDF_POINTS_PER_INCH) / RENDER_DPI;
+    const height = (canvas.height * PDF_POINTS_PER_INCH) / RENDER_DPI;
+    // Typed without drawImage, but it is the same 2D context as a canvas's
+    const ctx = document.beginPage(width, height) as SKRSContext2D;
+    ctx.drawImage(canvas, 0, 0, width, height);
+    document.endPage();
+  }
+  return { buffer: document.close(), mimeType: 'application/pdf', extension: 'pdf' };
+}
@@ -0,0 +1,231 @@
+// lib/locationMatch.ts
+
+// Decides whether a work location lies inside the area a permit restricts
+// employment or residence to ("Beschäftigung nur im Land Brandenburg",
+// "Wohnsitzauflage: Landkreis Oder-Spree"), using the offline gazetteer.
+
+import {
+  BUNDESLAENDER,
+  GERMAN_LANDKREISE_TOTAL,
+  GERMAN_MUNICIPALITIES_TOTAL,
+  LANDKREISE,
+  MUNICIPALITIES,
+} from './germanGazetteer';
+
+// How much of Germany the bundled gazetteer covers
+export const gazetteerCoverage = {
+  bundledMunicipalities: MUNICIPALITIES.length,
+  totalMunicipalities: GERMAN_MUNICIPALITIES_TOTAL,
+  bundledLandkreise: LANDKREISE.length,
+  totalLandkreise: GERMAN_LANDKREISE_TOTAL,
+};
+
+// "123 of about 10,800 municipalities, 54 of 294 Landkreise, all 16 Länder"
+export function describeGazetteerCoverage(): string {
+  return `${gazetteerCoverage.bundledMunicipalities} of about ${gazetteerCoverage.totalMunicipalities.toLocaleString('en-US')} municipalities, `
+    + `${gazetteerCoverage.bundledLandkreise} of ${gazetteerCoverage.totalLandkreise} Landkreise, all ${BUNDESLAENDER.length} Länder`;
+}
+
+export type GeoAreaKind = 'LAND' | 'KREIS' | 'MUNICIPALITY';
+
+export interface GeoArea {
+  kind: GeoAreaKind;
+  name: string;          // display name, e.g. "Brandenburg", "Landkreis Oder-Spree", "Potsdam"
+  land: string;          // Bundesland code
+  kreis: string | null;  // Landkreis the area belongs to (its own name for KREIS)
+}
+
+export interface LocationMatchResult {
+  // null when the restriction or the work location could not be resolved
+  isWithinRestriction: boolean | null;
+  restrictionAreas: GeoArea[];
+  workLocation: GeoArea | null;
+  matchedArea?: GeoArea;
+}
+
+interface AreaTerm {
+  term: string;
+  area: GeoArea;
+  // Breaks ties between equally long terms: a bare "Brandenburg" is the
+  // Land, a bare "München" is the city rather than the Landkreis.
+  priority: number;
+}
+
+function normalizePlaceText(value: string): string {
+  return value
+    .toLowerCase()
+    .replace(/ä/g, 'ae')
+    .replace(/ö/g, 'oe')
+    .replace(/ü/g, 'ue')
+    .replace(/ß/g, 'ss')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+const LAND_NAMES: Record<string, string> = Object.fromEntries(
+  BUNDESLAENDER.map((land) => [land.code, land.name])
+);
+
+const AREA_TERMS: AreaTerm[] = [
+  ...BUNDESLAENDER.flatMap((land) => {
+    const area: GeoArea = { kind: 'LAND', name: land.name, land: land.code, kreis: null };
+    return [land.name, `Bundesland ${land.name}`, ...land.aliases].map((term) => ({
+      term: normalizePlaceText(term),
+      area,
+      priority: 3,
+    }));
+  }),
+  ...LANDKREISE.flatMap((kreis) => {
+    const area: GeoArea = { kind: 'KREIS', name: kreis.name, land: kreis.land, kreis: kreis.name };
+    return [
+      { term: kreis.name, priority: 3 },
+      { term: `Landkreis ${kreis.shortName}`, priority: 3 },
+      { term: `Kreis ${kreis.shortName}`, priority: 3 },
+      { term: `LK ${kreis.shortName}`, priority: 3 },
+      { term: kreis.shortName, priority: 1 },
+    ].map(({ term, priority }) => ({ term: normalizePlaceText(term), area, priority }));
+  }),
+  ...MUNICIPALITIES.flatMap((municipality) => {
+    const area: GeoArea = {
+      kind: 'MUNICIPALITY',
+      name: municipality.name,
+      land: municipality.land,
+      kreis: municipality.kreis,
+    };
+    return [
+      ...[municipality.name, ...(municipality.aliases ?? [])].map((term) => ({ term, priority: 2 })),
+      { term: `Stadt ${municipality.name}`, priority: 3 },
+      { term: `Gemeinde ${municipality.name}`, priority: 3 },
+    ].map(({ term, priority }) => ({ term: normalizePlaceText(term), area, priority }));
+  }),
+];
+
+const POSTCODE_PREFIXES = MUNICIPALITIES.flatMap((municipality) =>
+  municipality.postcodes.map((prefix) => ({ prefix, municipality }))
+).sort((a, b) => b.prefix.length - a.prefix.length);
+
+/**
+ * Finds every gazetteer area named in a free text. Overlapping mentions are
+ * resolved in favour of the longest one, so "Brandenburg an der Havel" is the
+ * city and "Landkreis München" is not also read as the city of München.
+ */
+export function findAreasInText(text: string | undefined | null): GeoArea[] {
+  if (!text) return [];
+  const normalized = ` ${normalizePlaceText(text)} `;
+
+  const candidates: Array<{ start: number; end: number; term: AreaTerm }> = [];
+  for (const term of AREA_TERMS) {
+    if (!term.term) continue;
+    let index = normalized.indexOf(` ${term.term} `);
+    while (index !== -1) {
+      candidates.push({ start: index + 1, end: index + 1 + term.term.length, term });
+      index = normalized.indexOf(` ${term.term} `, index + 1);
+    }
+  }
+
+  candidates.sort(
+    (a, b) => (b.end - b.start) - (a.end - a.start) || b.term.priority - a.term.priority
+  );
+
+  const accepted: typeof candidates = [];
+  for (const candidate of candidates) {
+    if (!accepted.some((other) => candidate.start < other.end && other.start < candidate.end)) {
+      accepted.push(candidate);
+    }
+  }
+
+  const areas: GeoArea[] = [];
+  for (const { term } of accepted.sort((a, b) => a.start - b.start)) {
+    if (!areas.some((area) => area.kind === term.area.kind && area.name === term.area.name)) {
+      areas.push(term.area);
+    }
+  }
+  return areas;
+}
+
+export function findMunicipalityByPostcode(postcode: string): GeoArea | null {
+  const match = POSTCODE_PREFIXES.find(({ prefix }) => postcode.startsWith(prefix));
+  if (!match) return null;
+  const { municipality } = match;
+  return { kind: 'MUNICIPALITY', name: municipality.name, land: municipality.land, kreis: municipality.kreis };
+}
+
+/**
+ * Resolves a work location ("Potsdam", "14467 Potsdam", "Landkreis Barnim")
+ * to the most specific gazetteer area. A postcode wins over the place name.
+ */
+export function resolveLocation(text: string | undefined | null): GeoArea | null {
+  if (!text) return null;
+
+  const postcode = text.match(/\b(\d{5})\b/);
+  if (postcode) {
+    const byPostcode = findMunicipalityByPostcode(postcode[1]);
+    if (byPostcode) return byPostcode;
+  }
+
+  const specificity: Record<GeoAreaKind, number> = { MUNICIPALITY: 3, KREIS: 2, LAND: 1 };
+  const best = findAreasInText(text).sort((a, b) => specificity[b.kind] - specificity[a.kind])[0];
+  if (!best) return null;
+
+  // A work location "Berlin" / "Hamburg" is the city, not the city state
+  if (best.kind === 'LAND') {
+    const cityState = MUNICIPALITIES.find(
+      (municipality) => municipality.land === best.land && municipality.name === best.name
+    );
+    if (cityState) {
+      return { kind: 'MUNICIPALITY', name: cityState.name, land: cityState.land, kreis: cityState.kreis };
+    }
+  }
+  return best;
+}
+
+// True when `inner` lies completely inside `outer`.
+export function isAreaWithin(inner: GeoArea, outer: GeoArea): boolean {
+  switch (outer.kind) {
+    case 'LAND':
+      return inner.land === outer.land;
+    case 'KREIS':
+      return inner.kind !== 'LAND' && inner.kreis === outer.name;
+    case 'MUNICIPALITY':
+      return inner.kind === 'MUNICIPALITY' && inner.name === outer.name;
+  }
+}
+
+export function describeArea(area: GeoArea): string {
+  switch (area.kind) {
+    case 'LAND':
+      return `Bundesland ${area.name}`;
+    case 'KREIS':
+      return area.name;
+    case 'MUNICIPALITY': {
+      const parent = area.kreis ?? LAND_NAMES[area.land] ?? area.land;
+      return parent === area.name ? area.name : `${area.name}, ${parent}`;
+    }
+  }
+}
+
+/**
+ * Checks the planned work location against the areas named in a permit's
+ * location restriction.
+ */
+export function matchLocationRestriction(
+  restrictionDescription: string,
+  plannedWorkLocation: string
+): LocationMatchResult {
+  const restrictionAreas = findAreasInText(restrictionDescription);
+  const workLocation = resolveLocation(plannedWorkLocation);
+
+  if (restrictionAreas.length === 0 || !workLocation) {
+    return { isWithinRestriction: null, restrictionAreas, workLocation };
+  }
+
+  const matchedArea = restrictionAreas.find((area) => isAreaWithin(workLocation, area));
+  return {
+    isWithinRestriction: matchedArea !== undefined,
+    restrictionAreas,
+    workLocation,
+    matchedArea,
+  };
+}
@@ -0,0 +1,222 @@
+// lib/mrz.ts
+
+// Machine-readable zone (ICAO Doc 9303) of the eAT and of ID cards (TD1,
+// three lines of 30 characters) and of passports (TD3, two lines of 44).
+// Every key field carries a check digit, so a value read from the MRZ can be
+// trusted more than one guessed from the printed text – and a failed check
+// digit means the scan was misread or the document needs a closer look.
+
+import { findCountry } from './nationality';
+
+export type MrzFormat = 'TD1' | 'TD3';
+
+export const mrzCheckedFields = ['documentNumber', 'birthDate', 'expiryDate', 'personalNumber', 'composite'] as const;
+export type MrzCheckedField = typeof mrzCheckedFields[number];
+
+export const mrzCheckedFieldLabels: Record<MrzCheckedField, { en: string; de: string }> = {
+  documentNumber: { en: 'document number', de: 'Dokumentennummer' },
+  birthDate: { en: 'date of birth', de: 'Geburtsdatum' },
+  expiryDate: { en: 'expiry date', de: 'Ablaufdatum' },
+  personalNumber: { en: 'personal number', de: 'persönliche Nummer' },
+  composite: { en: 'overall check digit', de: 'Gesamtprüfziffer' },
+};
+
+export interface MrzData {
+  format: MrzFormat;
+  documentCode: string;   // "AR" eAT, "ID" identity card, "P" passport
+  issuingState: string;   // as printed, e.g. "D" for Germany
+  documentNumber: string;
+  nationality?: string;   // ISO 3166-1 alpha-2, when recognised
+  birthDate?: string;     // ISO date
+  sex?: 'M' | 'F' | 'X';
+  expiryDate?: string;    // ISO date
+  surname: string;
+  givenNames: string;
+  checkDigits: Partial<Record<MrzCheckedField, boolean>>;
+  failedCheckDigits: MrzCheckedField[];
+  isValid: boolean;       // every check digit matched
+}
+
+/**
+ * ICAO 9303 check digit: digits count as their value, A–Z as 10–35 and the
+ * filler "<" as 0, weighted 7, 3, 1 repeating, modulo 10.
+ */
+export function computeMrzCheckDigit(value: string): number {
+  const weights = [7, 3, 1];
+  let sum = 0;
+  for (let i = 0; i < value.length; i++) {
+    const char = value[i];
+    let charValue = 0;
+    if (char >= '0' && char <= '9') {
+      charValue = char.charCodeAt(0) - 48;
+    } else if (char >= 'A' && char <= 'Z') {
+      charValue = char.charCodeAt(0) - 55;
+    }
+    sum += charValue * weights[i % 3];
+  }
+  return sum % 10;
+}
+
+function checkDigitMatches(value: string, digit: string): boolean {
+  // An empty optional field may carry "<" instead of 0
+  const printed = digit === '<' ? 0 : Number(digit);
+  return computeMrzCheckDigit(value) === printed;
+}
+
+// OCR reads the filler as "«" or "‹" and drops spaces into long runs of it
+function normalizeLine(line: string): string {
+  return line.replace(/\s+/g, '').replace(/[«‹]/g, '<').toUpperCase();
+}
+
+// Numeric positions only: OCR confuses O/0 and I/1 in the digits
+function toDigits(value: string): string {
+  return value.replace(/O/g, '0').replace(/I/g, '1');
+}
+
+function toIsoDate(yymmdd: string, kind: 'birth' | 'expiry'): string | undefined {
+  if (!/^\d{6}$/.test(yymmdd)) return undefined;
+  const yy = Number(yymmdd.slice(0, 2));
+  const month = Number(yymmdd.slice(2, 4));
+  const day = Number(yymmdd.slice(4, 6));
+  if (month < 1 || month > 12 || day < 1 || day > 31) return undefined;
+
+  // Birth dates lie in the past; expiry dates at most a few decades ahead
+  const currentYy = new Date().getUTCFullYear() % 100;
+  const century = kind === 'birth'
+    ? (yy > currentYy ? 1900 : 2000)
+    : (yy > currentYy + 50 ? 1900 : 2000);
+  return `${century + yy}-${yymmdd.slice(2, 4)}-${yymmdd.slice(4, 6)}`;
+}
+
+function parseSex(char: string): MrzData['sex'] {
+  if (char === 'M' || char === 'F') return char;
+  if (char === 'X' || char === '<') return 'X';
+  return undefined;
+}
+
+function parseNames(field: string): { surname: string; givenNames: string } {
+  const [surname = '', ...rest] = field.replace(/<+$/, '').split('<<');
+  return {
+    surname: surname.replace(/</g, ' ').trim(),
+    givenNames: rest.join(' ').replace(/</g, ' ').replace(/\s+/g, ' ').trim(),
+  };
+}
+
+function withCheckDigitSummary(
+  data: Omit<MrzData, 'failedCheckDigits' | 'isValid'>
+): MrzData {
+  const failedCheckDigits = mrzCheckedFields.filter((field) => data.checkDigits[field] === false);
+  return { ...data, failedCheckDigits, isValid: failedCheckDigits.length === 0 };
+}
+
+function parseTd1(lines: [string, string, string]): MrzData {
+  const [line1, rawLine2, line3] = lines;
+  const line2 = toDigits(rawLine2.slice(0, 15)) + rawLine2.slice(15, 29) + toDigits(rawLine2.slice(29));
+
+  // Document numbers longer than 9 characters continue in the optional data,
+  // with "<" in the check digit position and the real check digit after them
+  let documentNumber = line1.slice(5, 14);
+  let documentNumberCheck = line1[14];
+  const optionalData1 = line1.slice(15, 30);
+  if (documentNumberCheck === '<' && /^[A-Z0-9]+/.test(optionalData1)) {
+    const overflow = optionalData1.match(/^[A-Z0-9]+/)?.[0] ?? '';
+    documentNumber += overflow.slice(0, -1);
+    documentNumberCheck = overflow.slice(-1);
+  }
+
+  return withCheckDigitSummary({
+    format: 'TD1',
+    documentCode: line1.slice(0, 2).replace(/</g, ''),
+    issuingState: line1.slice(2, 5).replace(/</g, ''),
+    documentNumber: documentNumber.replace(/</g, ''),
+    nationality: findCountry(line2.slice(15, 18).replace(/</g, ''))?.alpha2,
+    birthDate: toIsoDate(line2.slice(0, 6), 'birth'),
+    sex: parseSex(line2[7]),
+    expiryDate: toIsoDate(line2.slice(8, 14), 'expiry'),
+    ...parseNames(line3),
+    checkDigits: {
+      documentNumber: checkDigitMatches(documentNumber, documentNumberCheck),
+      birthDate: checkDigitMatches(line2.slice(0, 6), line2[6]),
+      expiryDate: checkDigitMatches(line2.slice(8, 14), line2[14]),
+      composite: checkDigitMatches(line1.slice(5, 30) + line2.slice(0, 7) + line2.slice(8, 15) + line2.slice(18, 29), line2[29]),
+    },
+  });
+}
+
+function parseTd3(lines: [string, string]): MrzData {
+  const [line1, rawLine2] = lines;
+  const line2 = rawLine2.slice(0, 9) + toDigits(rawLine2[9]) + rawLine2.slice(10, 13)
+    + toDigits(rawLine2.slice(13, 20)) + rawLine2[20] + toDigits(rawLine2.slice(21, 28))
+    + rawLine2.slice(28, 42) + toDigits(rawLine2.slice(42));
+  const personalNumber = line2.slice(28, 42);
+
+  return withCheckDigitSummary({
+    format: 'TD3',
+    documentCode: line1.slice(0, 2).replace(/</g, ''),
+    issuingState: line1.slice(2, 5).replace(/</g, ''),
+    documentNumber: line2.slice(0, 9).replace(/</g, ''),
+    nationality: findCountry(line2.slice(10, 13).replace(/</g, ''))?.alpha2,
+    birthDate: toIsoDate(line2.slice(13, 19), 'birth'),
+    sex: parseSex(line2[20]),
+    expiryDate: toIsoDate(line2.slice(21, 27), 'expiry'),
+    ...parseNames(line1.slice(5)),
+    checkDigits: {
+      documentNumber: checkDigitMatches(line2.slice(0, 9), line2[9]),
+      birthDate: checkDigitMatches(line2.slice(13, 19), line2[19]),
+      expiryDate: checkDigitMatches(line2.slice(21, 27), line2[27]),
+      personalNumber: checkDigitMatches(personalNumber, line2[42]),
+      composite: checkDigitMatches(line2.slice(0, 10) + line2.slice(13, 20) + line2.slice(21, 43), line2[43]),
+    },
+  });
+}
+
+/**
+ * Finds and parses the MRZ in OCR text: three consecutive 30-character lines
+ * (TD1, e.g. the eAT) or two 44-character lines starting with "P" (TD3
+ * passport). Returns undefined when the text has no complete MRZ.
+ */
+export function parseMrz(text: string): MrzData | undefined {
+  const lines = text.split('\n').map(normalizeLine);
+  const isMrzLine = (line: string | undefined, length: number) =>
+    line !== undefined && line.length === length && /^[A-Z0-9<]+$/.test(line) && line.includes('<');
+
+  for (let i = 0; i < lines.length; i++) {
+    if (isMrzLine(lines[i], 44) && lines[i].startsWith('P') && isMrzLine(lines[i + 1], 44)) {
+      return parseTd3([lines[i], lines[i + 1]]);
+    }
+    if (isMrzLine(lines[i], 30) && isMrzLine(lines[i + 1], 30) && isMrzLine(lines[i + 2], 30)) {
+      return parseTd1([lines[i], lines[i + 1], lines[i + 2]]);
+    }
+  }
+  return undefined;
+}
+
+/**
+ * The MRZ stored with a check's OCR fields (as JSON or already parsed);
+ * undefined when the scan had no MRZ. Stored results may predate fields added
+ * since, so every field is optional.
+ */
+export function getStoredMrz(ocrExtractedFields: unknown): Partial<MrzData> | undefined {
+  let fields = ocrExtractedFields;
+  if (typeof fields === 'string') {
+    try {
+      fields = JSON.parse(fields);
+    } catch {
+      return undefined;
+    }
+  }
+  if (!fields || typeof fields !== 'object' || !('mrz' in fields)) return undefined;
+  return (fields as { mrz?: Partial<MrzData> | null }).mrz ?? undefined;
+}
+
+/**
+ * Check digits that failed on the MRZ stored with a check's OCR fields;
+ * undefined when the scan had no MRZ.
+ */
+export function getMrzCheckDigitFailures(ocrExtractedFields: unknown): MrzCheckedField[] | undefined {
+  const mrz = getStoredMrz(ocrExtractedFields);
+  if (!mrz || !Array.isArray(mrz.failedCheckDigits)) return undefined;
+  return mrz.failedCheckDigits.filter((field): field is MrzCheckedField =>
+    (mrzCheckedFields as readonly string[]).includes(field)
+  );
+}
@@ -0,0 +1,335 @@
+// lib/nationality.ts
+
+// ISO 3166 country list and the nationality groups German labour-migration
+// law treats differently: EU/EEA/Swiss free movement, the countries privileged
+// under §26 Abs. 1 BeschV, and the Western Balkans (§26 Abs. 2 BeschV).
+
+export type NationalityCategory =
+  | 'EU_EEA_CH'                 // free movement (FreizügG/EU, Freizügigkeitsabkommen CH)
+  | 'PRIVILEGED_THIRD_COUNTRY'  // §26 Abs. 1 BeschV (USA, Canada, Australia, Japan, UK, …)
+  | 'WESTERN_BALKANS'           // §26 Abs. 2 BeschV (Westbalkanregelung)
+  | 'THIRD_COUNTRY';
+
+export interface Country {
+  alpha2: string;  // ISO 3166-1 alpha-2, stored on employees and checks
+  alpha3: string;  // ISO 3166-1 alpha-3, as printed in the MRZ
+  en: string;
+  de: string;
+}
+
+export const COUNTRIES: Country[] = [
+  { alpha2: 'AF', alpha3: 'AFG', en: 'Afghanistan', de: 'Afghanistan' },
+  { alpha2: 'AL', alpha3: 'ALB', en: 'Albania', de: 'Albanien' },
+  { alpha2: 'DZ', alpha3: 'DZA', en: 'Algeria', de: 'Algerien' },
+  { alpha2: 'AD', alpha3: 'AND', en: 'Andorra', de: 'Andorra' },
+  { alpha2: 'AO', alpha3: 'AGO', en: 'Angola', de: 'Angola' },
+  { alpha2: 'AG', alpha3: 'ATG', en: 'Antigua and Barbuda', de: 'Antigua und Barbuda' },
+  { alpha2: 'AR', alpha3: 'ARG', en: 'Argentina', de: 'Argentinien' },
+  { alpha2: 'AM', alpha3: 'ARM', en: 'Armenia', de: 'Armenien' },
+  { alpha2: 'AU', alpha3: 'AUS', en: 'Australia', de: 'Australien' },
+  { alpha2: 'AT', alpha3: 'AUT', en: 'Austria', de: 'Österreich' },
+  { alpha2: 'AZ', alpha3: 'AZE', en: 'Azerbaijan', de: 'Aserbaidschan' },
+  { alpha2: 'BS', alpha3: 'BHS', en: 'Bahamas', de: 'Bahamas' },
+  { alpha2: 'BH', alpha3: 'BHR', en: 'Bahrain', de: 'Bahrain' },
+  { alpha2: 'BD', alpha3: 'BGD', en: 'Bangladesh', de: 'Bangladesch' },
+  { alpha2: 'BB', alpha3: 'BRB', en: 'Barbados', de: 'Barbados' },
+  { alpha2: 'BY', alpha3: 'BLR', en: 'Belarus', de: 'Belarus' },
+  { alpha2: 'BE', alpha3: 'BEL', en: 'Belgium', de: 'Belgien' },
+  { alpha2: 'BZ', alpha3: 'BLZ', en: 'Belize', de: 'Belize' },
+  { alpha2: 'BJ', alpha3: 'BEN', en: 'Benin', de: 'Benin' },
+  { alpha2: 'BT', alpha3: 'BTN', en: 'Bhutan', de: 'Bhutan' },
+  { alpha2: 'BO', alpha3: 'BOL', en: 'Bolivia', de: 'Bolivien' },
+  { alpha2: 'BA', alpha3: 'BIH', en: 'Bosnia and Herzegovina', de: 'Bosnien und Herzegowina' },
+  { alpha2: 'BW', alpha3: 'BWA', en: 'Botswana', de: 'Botsuana' },
+  { alpha2: 'BR', alpha3: 'BRA', en: 'Brazil', de: 'Brasilien' },
+  { alpha2: 'BN', alpha3: 'BRN', en: 'Brunei', de: 'Brunei' },
+  { alpha2: 'BG', alpha3: 'BGR', en: 'Bulgaria', de: 'Bulgarien' },
+  { alpha2: 'BF', alpha3: 'BFA', en: 'Burkina Faso', de: 'Burkina Faso' },
+  { alpha2: 'BI', alpha3: 'BDI', en: 'Burundi', de: 'Burundi' },
+  { alpha2: 'CV', alpha3: 'CPV', en: 'Cabo Verde', de: 'Cabo Verde' },
+  { alpha2: 'KH', alpha3: 'KHM', en: 'Cambodia', de: 'Kambodscha' },
+  { alpha2: 'CM', alpha3: 'CMR', en: 'Cameroon', de: 'Kamerun' },
+  { alpha2: 'CA', alpha3: 'CAN', en: 'Canada', de: 'Kanada' },
+  { alpha2: 'CF', alpha3: 'CAF', en: 'Central African Republic', de: 'Zentralafrikanische Republik' },
+  { alpha2: 'TD', alpha3: 'TCD', en: 'Chad', de: 'Tschad' },
+  { alpha2: 'CL', alpha3: 'CHL', en: 'Chile', de: 'Chile' },
+  { alpha2: 'CN', alpha3: 'CHN', en: 'China', de: 'China' },
+  { alpha2: 'CO', alpha3: 'COL', en: 'Colombia', de: 'Kolumbien' },
+  { alpha2: 'KM', alpha3: 'COM', en: 'Comoros', de: 'Komoren' },
+  { alpha2: 'CG', alpha3: 'COG', en: 'Congo', de: 'Kongo' },
+  { alpha2: 'CD', alpha3: 'COD', en: 'Congo (Democratic Republic)', de: 'Kongo (Demokratische Republik)' },
+  { alpha2: 'CR', alpha3: 'CRI', en: 'Costa Rica', de: 'Costa Rica' },
+  { alpha2: 'CI', alpha3: 'CIV', en: "Côte d'Ivoire", de: 'Côte d’Ivoire' },
+  { alpha2: 'HR', alpha3: 'HRV', en: 'Croatia', de: 'Kroatien' },
+  { alpha2: 'CU', alpha3: 'CUB', en: 'Cuba', de: 'Kuba' },
+  { alpha2: 'CY', alpha3: 'CYP', en: 'Cyprus', de: 'Zypern' },
+  { alpha2: 'CZ', alpha3: 'CZE', en: 'Czechia', de: 'Tschechien' },
+  { alpha2: 'DK', alpha3: 'DNK', en: 'Denmark', de: 'Dänemark' },
+  { alpha2: 'DJ', alpha3: 'DJI', en: 'Djibouti', de: 'Dschibuti' },
+  { alpha2: 'DM', alpha3: 'DMA', en: 'Dominica', de: 'Dominica' },
+  { alpha2: 'DO', alpha3: 'DOM', en: 'Dominican Republic', de: 'Dominikanische Republik' },
+  { alpha2: 'EC', alpha3: 'ECU', en: 'Ecuador', de: 'Ecuador' },
+  { alpha2: 'EG', alpha3: 'EGY', en: 'Egypt', de: 'Ägypten' },
+  { alpha2: 'SV', alpha3: 'SLV', en: 'El Salvador', de: 'El Salvador' },
+  { alpha2: 'GQ', alpha3: 'GNQ', en: 'Equatorial Guinea', de: 'Äquatorialguinea' },
+  { alpha2: 'ER', alpha3: 'ERI', en: 'Eritrea', de: 'Eritrea' },
+  { alpha2: 'EE', alpha3: 'EST', en: 'Estonia', de: 'Estland' },
+  { alpha2: 'SZ', alpha3: 'SWZ', en: 'Eswatini', de: 'Eswatini' },
+  { alpha2: 'ET', alpha3: 'ETH', en: 'Ethiopia', de: 'Äthiopien' },
+  { alpha2: 'FJ', alpha3: 'FJI', en: 'Fiji', de: 'Fidschi' },
+  { alpha2: 'FI', alpha3: 'FIN', en: 'Finland', de: 'Finnland' },
+  { alpha2: 'FR', alpha3: 'FRA', en: 'France', de: 'Frankreich' },
+  { alpha2: 'GA', alpha3: 'GAB', en: 'Gabon', de: 'Gabun' },
+  { alpha2: 'GM', alpha3: 'GMB', en: 'Gambia', de: 'Gambia' },
+  { alpha2: 'GE', alpha3: 'GEO', en: 'Georgia', de: 'Georgien' },
+  { alpha2: 'DE', alpha3: 'DEU', en: 'Germany', de: 'Deutschland' },
+  { alpha2: 'GH', alpha3: 'GHA', en: 'Ghana', de: 'Ghana' },
+  { alpha2: 'GR', alpha3: 'GRC', en: 'Greece', de: 'Griechenland' },
+  { alpha2: 'GD', alpha3: 'GRD', en: 'Grenada', de: 'Grenada' },
+  { alpha2: 'GT', alpha3: 'GTM', en: 'Guatemala', de: 'Guatemala' },
+  { alpha2: 'GN', alpha3: 'GIN', en: 'Guinea', de: 'Guinea' },
+  { alpha2: 'GW', alpha3: 'GNB', en: 'Guinea-Bissau', de: 'Guinea-Bissau' },
+  { alpha2: 'GY', alpha3: 'GUY', en: 'Guyana', de: 'Guyana' },
+  { alpha2: 'HT', alpha3: 'HTI', en: 'Haiti', de: 'Haiti' },
+  { alpha2: 'HN', alpha3: 'HND', en: 'Honduras', de: 'Honduras' },
+  { alpha2: 'HK', alpha3: 'HKG', en: 'Hong Kong', de: 'Hongkong' },
+  { alpha2: 'HU', alpha3: 'HUN', en: 'Hungary', de: 'Ungarn' },
+  { alpha2: 'IS', alpha3: 'ISL', en: 'Iceland', de: 'Island' },
+  { alpha2: 'IN', alpha3: 'IND', en: 'India', de: 'Indien' },
+  { alpha2: 'ID', alpha3: 'IDN', en: 'Indonesia', de: 'Indonesien' },
+  { alpha2: 'IR', alpha3: 'IRN', en: 'Iran', de: 'Iran' },
+  { alpha2: 'IQ', alpha3: 'IRQ', en: 'Iraq', de: 'Irak' },
+  { alpha2: 'IE', alpha3: 'IRL', en: 'Ireland', de: 'Irland' },
+  { alpha2: 'IL', alpha3: 'ISR', en: 'Israel', de: 'Israel' },
+  { alpha2: 'IT', alpha3: 'ITA', en: 'Italy', de: 'Italien' },
+  { alpha2: 'JM', alpha3: 'JAM', en: 'Jamaica', de: 'Jamaika' },
+  { alpha2: 'JP', alpha3: 'JPN', en: 'Japan', de: 'Japan' },
+  { alpha2: 'JO', alpha3: 'JOR', en: 'Jordan', de: 'Jordanien' },
+  { alpha2: 'KZ', alpha3: 'KAZ', en: 'Kazakhstan', de: 'Kasachstan' },
+  { alpha2: 'KE', alpha3: 'KEN', en: 'Kenya', de: 'Kenia' },
+  { alpha2: 'KI', alpha3: 'KIR', en: 'Kiribati', de: 'Kiribati' },
+  { alpha2: 'KP', alpha3: 'PRK', en: 'Korea (North)', de: 'Korea (Nord)' },
+  { alpha2: 'KR', alpha3: 'KOR', en: 'Korea (South)', de: 'Korea (Süd)' },
+  // Not in ISO 3166-1; "XK" is the code used by the EU, "RKS" the MRZ code
+  { alpha2: 'XK', alpha3: 'RKS', en: 'Kosovo', de: 'Kosovo' },
+  { alpha2: 'KW', alpha3: 'KWT', en: 'Kuwait', de: 'Kuwait' },
+  { alpha2: 'KG', alpha3: 'KGZ', en: 'Kyrgyzstan', de: 'Kirgisistan' },
+  { alpha2: 'LA', alpha3: 'LAO', en: 'Laos', de: 'Laos' },
+  { alpha2: 'LV', alpha3: 'LVA', en: 'Latvia', de: 'Lettland' },
+  { alpha2: 'LB', alpha3: 'LBN', en: 'Lebanon', de: 'Libanon' },
+  { alpha2: 'LS', alpha3: 'LSO', en: 'Lesotho', de: 'Lesotho' },
+  { alpha2: 'LR', alpha3: 'LBR', en: 'Liberia', de: 'Liberia' },
+  { alpha2: 'LY', alpha3: 'LBY', en: 'Libya', de: 'Libyen' },
+  { alpha2: 'LI', alpha3: 'LIE', en: 'Liechtenstein', de: 'Liechtenstein' },
+  { alpha2: 'LT', alpha3: 'LTU', en: 'Lithuania', de: 'Litauen' },
+  { alpha2: 'LU', alpha3: 'LUX', en: 'Luxembourg', de: 'Luxemburg' },
+  { alpha2: 'MG', alpha3: 'MDG', en: 'Madagascar', de: 'Madagaskar' },
+  { alpha2: 'MW', alpha3: 'MWI', en: 'Malawi', de: 'Malawi' },
+  { alpha2: 'MY', alpha3: 'MYS', en: 'Malaysia', de: 'Malaysia' },
+  { alpha2: 'MV', alpha3: 'MDV', en: 'Maldives', de: 'Malediven' },
+  { alpha2: 'ML', alpha3: 'MLI', en: 'Mali', de: 'Mali' },
+  { alpha2: 'MT', alpha3: 'MLT', en: 'Malta', de: 'Malta' },
+  { alpha2: 'MH', alpha3: 'MHL', en: 'Marshall Islands', de: 'Marshallinseln' },
+  { alpha2: 'MR', alpha3: 'MRT', en: 'Mauritania', de: 'Mauretanien' },
+  { alpha2: 'MU', alpha3: 'MUS', en: 'Mauritius', de: 'Mauritius' },
+  { alpha2: 'MX', alpha3: 'MEX', en: 'Mexico', de: 'Mexiko' },
+  { alpha2: 'FM', alpha3: 'FSM', en: 'Micronesia', de: 'Mikronesien' },
+  { alpha2: 'MD', alpha3: 'MDA', en: 'Moldova', de: 'Moldau' },
+  { alpha2: 'MC', alpha3: 'MCO', en: 'Monaco', de: 'Monaco' },
+  { alpha2: 'MN', alpha3: 'MNG', en: 'Mongolia', de: 'Mongolei' },
+  { alpha2: 'ME', alpha3: 'MNE', en: 'Montenegro', de: 'Montenegro' },
+  { alpha2: 'MA', alpha3: 'MAR', en: 'Morocco', de: 'Marokko' },
+  { alpha2: 'MZ', alpha3: 'MOZ', en: 'Mozambique', de: 'Mosambik' },
+  { alpha2: 'MM', alpha3: 'MMR', en: 'Myanmar', de: 'Myanmar' },
+  { alpha2: 'NA', alpha3: 'NAM', en: 'Namibia', de: 'Namibia' },
+  { alpha2: 'NR', alpha3: 'NRU', en: 'Nauru', de: 'Nauru' },
+  { alpha2: 'NP', alpha3: 'NPL', en: 'Nepal', de: 'Nepal' },
+  { alpha2: 'NL', alpha3: 'NLD', en: 'Netherlands', de: 'Niederlande' },
+  { alpha2: 'NZ', alpha3: 'NZL', en: 'New Zealand', de: 'Neuseeland' },
+  { alpha2: 'NI', alpha3: 'NIC', en: 'Nicaragua', de: 'Nicaragua' },
+  { alpha2: 'NE', alpha3: 'NER', en: 'Niger', de: 'Niger' },
+  { alpha2: 'NG', alpha3: 'NGA', en: 'Nigeria', de: 'Nigeria' },
+  { alpha2: 'MK', alpha3: 'MKD', en: 'North Macedonia', de: 'Nordmazedonien' },
+  { alpha2: 'NO', alpha3: 'NOR', en: 'Norway', de: 'Norwegen' },
+  { alpha2: 'OM', alpha3: 'OMN', en: 'Oman', de: 'Oman' },
+  { alpha2: 'PK', alpha3: 'PAK', en: 'Pakistan', de: 'Pakistan' },
+  { alpha2: 'PW', alpha3: 'PLW', en: 'Palau', de: 'Palau' },
+  { alpha2: 'PS', alpha3: 'PSE', en: 'Palestine', de: 'Palästina' },
+  { alpha2: 'PA', alpha3: 'PAN', en: 'Panama', de: 'Panama' },
+  { alpha2: 'PG', alpha3: 'PNG', en: 'Papua New Guinea', de: 'Papua-Neuguinea' },
+  { alpha2: 'PY', alpha3: 'PRY', en: 'Paraguay', de: 'Paraguay' },
+  { alpha2: 'PE', alpha3: 'PER', en: 'Peru', de: 'Peru' },
+  { alpha2: 'PH', alpha3: 'PHL', en: 'Philippines', de: 'Philippinen' },
+  { alpha2: 'PL', alpha3: 'POL', en: 'Poland', de: 'Polen' },
+  { alpha2: 'PT', alpha3: 'PRT', en: 'Portugal', de: 'Portugal' },
+  { alpha2: 'QA', alpha3: 'QAT', en: 'Qatar', de: 'Katar' },
+  { alpha2: 'RO', alpha3: 'ROU', en: 'Romania', de: 'Rumänien' },
+  { alpha2: 'RU', alpha3: 'RUS', en: 'Russia', de: 'Russland' },
+  { alpha2: 'RW', alpha3: 'RWA', en: 'Rwanda', de: 'Ruanda' },
+  { alpha2: 'KN', alpha3: 'KNA', en: 'Saint Kitts and Nevis', de: 'St. Kitts und Nevis' },
+  { alpha2: 'LC', alpha3: 'LCA', en: 'Saint Lucia', de: 'St. Lucia' },
+  { alpha2: 'VC', alpha3: 'VCT', en: 'Saint Vincent and the Grenadines', de: 'St. Vincent und die Grenadinen' },
+  { alpha2: 'WS', alpha3: 'WSM', en: 'Samoa', de: 'Samoa' },
+  { alpha2: 'SM', alpha3: 'SMR', en: 'San Marino', de: 'San Marino' },
+  { alpha2: 'ST', alpha3: 'STP', en: 'São Tomé and Príncipe', de: 'São Tomé und Príncipe' },
+  { alpha2: 'SA', alpha3: 'SAU', en: 'Saudi Arabia', de: 'Saudi-Arabien' },
+  { alpha2: 'SN', alpha3: 'SEN', en: 'Senegal', de: 'Senegal' },
+  { alpha2: 'RS', alpha3: 'SRB', en: 'Serbia', de: 'Serbien' },
+  { alpha2: 'SC', alpha3: 'SYC', en: 'Seychelles', de: 'Seychellen' },
+  { alpha2: 'SL', alpha3: 'SLE', en: 'Sierra Leone', de: 'Sierra Leone' },
+  { alpha2: 'SG', alpha3: 'SGP', en: 'Singapore', de: 'Singapur' },
+  { alpha2: 'SK', alpha3: 'SVK', en: 'Slovakia', de: 'Slowakei' },
+  { alpha2: 'SI', alpha3: 'SVN', en: 'Slovenia', de: 'Slowenien' },
+  { alpha2: 'SB', alpha3: 'SLB', en: 'Solomon Islands', de: 'Salomonen' },
+  { alpha2: 'SO', alpha3: 'SOM', en: 'Somalia', de: 'Somalia' },
+  { alpha2: 'ZA', alpha3: 'ZAF', en: 'South Africa', de: 'Südafrika' },
+  { alpha2: 'SS', alpha3: 'SSD', en: 'South Sudan', de: 'Südsudan' },
+  { alpha2: 'ES', alpha3: 'ESP', en: 'Spain', de: 'Spanien' },
+  { alpha2: 'LK', alpha3: 'LKA', en: 'Sri Lanka', de: 'Sri Lanka' },
+  { alpha2: 'SD', alpha3: 'SDN', en: 'Sudan', de: 'Sudan' },
+  { alpha2: 'SR', alpha3: 'SUR', en: 'Suriname', de: 'Suriname' },
+  { alpha2: 'SE', alpha3: 'SWE', en: 'Sweden', de: 'Schweden' },
+  { alpha2: 'CH', alpha3: 'CHE', en: 'Switzerland', de: 'Schweiz' },
+  { alpha2: 'SY', alpha3: 'SYR', en: 'Syria', de: 'Syrien' },
+  { alpha2: 'TW', alpha3: 'TWN', en: 'Taiwan', de: 'Taiwan' },
+  { alpha2: 'TJ', alpha3: 'TJK', en: 'Tajikistan', de: 'Tadschikistan' },
+  { alpha2: 'TZ', alpha3: 'TZA', en: 'Tanzania', de: 'Tansania' },
+  { alpha2: 'TH', alpha3: 'THA', en: 'Thailand', de: 'Thailand' },
+  { alpha2: 'TL', alpha3: 'TLS', en: 'Timor-Leste', de: 'Timor-Leste' },
+  { alpha2: 'TG', alpha3: 'TGO', en: 'Togo', de: 'Togo' },
+  { alpha2: 'TO', alpha3: 'TON', en: 'Tonga', de: 'Tonga' },
+  { alpha2: 'TT', alpha3: 'TTO', en: 'Trinidad and Tobago', de: 'Trinidad und Tobago' },
+  { alpha2: 'TN', alpha3: 'TUN', en: 'Tunisia', de: 'Tunesien' },
+  { alpha2: 'TR', alpha3: 'TUR', en: 'Türkiye', de: 'Türkei' },
+  { alpha2: 'TM', alpha3: 'TKM', en: 'Turkmenistan', de: 'Turkmenistan' },
+  { alpha2: 'TV', alpha3: 'TUV', en: 'Tuvalu', de: 'Tuvalu' },
+  { alpha2: 'UG', alpha3: 'UGA', en: 'Uganda', de: 'Uganda' },
+  { alpha2: 'UA', alpha3: 'UKR', en: 'Ukraine', de: 'Ukraine' },
+  { alpha2: 'AE', alpha3: 'ARE', en: 'United Arab Emirates', de: 'Vereinigte Arabische Emirate' },
+  { alpha2: 'GB', alpha3: 'GBR', en: 'United Kingdom', de: 'Vereinigtes Königreich' },
+  { alpha2: 'US', alpha3: 'USA', en: 'United States', de: 'Vereinigte Staaten' },
+  { alpha2: 'UY', alpha3: 'URY', en: 'Uruguay', de: 'Uruguay' },
+  { alpha2: 'UZ', alpha3: 'UZB', en: 'Uzbekistan', de: 'Usbekistan' },
+  { alpha2: 'VU', alpha3: 'VUT', en: 'Vanuatu', de: 'Vanuatu' },
+  { alpha2: 'VA', alpha3: 'VAT', en: 'Vatican City', de: 'Vatikanstadt' },
+  { alpha2: 'VE', alpha3: 'VEN', en: 'Venezuela', de: 'Venezuela' },
+  { alpha2: 'VN', alpha3: 'VNM', en: 'Vietnam', de: 'Vietnam' },
+  { alpha2: 'YE', alpha3: 'YEM', en: 'Yemen', de: 'Jemen' },
+  { alpha2: 'ZM', alpha3: 'ZMB', en: 'Zambia', de: 'Sambia' },
+  { alpha2: 'ZW', alpha3: 'ZWE', en: 'Zimbabwe', de: 'Simbabwe' },
+];
+
+const EU_EEA_CH = [
+  // EU
+  'AT', 'BE', 'BG', 'HR', 'CY', 'CZ', 'DK', 'EE', 'FI', 'FR', 'DE', 'GR', 'HU', 'IE',
+  'IT', 'LV', 'LT', 'LU', 'MT', 'NL', 'PL', 'PT', 'RO', 'SK', 'SI', 'ES', 'SE',
+  // EEA
+  'IS', 'LI', 'NO',
+  // Switzerland
+  'CH',
+];
+
+// §26 Abs. 1 BeschV
+const PRIVILEGED_THIRD_COUNTRIES = ['AD', 'AU', 'IL', 'JP', 'CA', 'KR', 'MC', 'NZ', 'SM', 'GB', 'US'];
+
+// §26 Abs. 2 BeschV
+const WESTERN_BALKANS = ['AL', 'BA', 'XK', 'ME', 'MK', 'RS'];
+
+// English names used with "the" in running text ("nationals of the United States")
+const EN_NAMES_WITH_ARTICLE = [
+  'BS', 'CF', 'KM', 'CD', 'CG', 'CZ', 'DO', 'GM', 'MV', 'MH', 'NL', 'PH', 'SB', 'AE', 'GB', 'US',
+];
+
+// MRZ nationality codes that are not the country's alpha-3 code
+const MRZ_CODE_ALIASES: Record<string, string> = {
+  D: 'DE',     // Germany prints a single "D"
+  GBD: 'GB',   // British Overseas Territories citizen
+  GBN: 'GB',   // British National (Overseas)
+  GBO: 'GB',   // British Overseas citizen
+  GBP: 'GB',   // British protected person
+  GBS: 'GB',   // British subject
+  UNK: 'XK',   // UNMIK travel documents for Kosovo
+};
+
+function normalizeCountryText(value: string): string {
+  return value
+    .toLowerCase()
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-z]+/g, ' ')
+    .trim();
+}
+
+export function getCountry(alpha2: string | null | undefined): Country | undefined {
+  if (!alpha2) return undefined;
+  const code = alpha2.trim().toUpperCase();
+  return COUNTRIES.find((country) => country.alpha2 === code);
+}
+
+/**
+ * Resolves a nationality written as an ISO code (alpha-2 or alpha-3, including
+ * the MRZ special codes) or as an English or German country name.
+ */
+export function findCountry(value: string | null | undefined): Country | undefined {
+  if (!value || !value.trim()) return undefined;
+  const code = value.trim().toUpperCase();
+  if (MRZ_CODE_ALIASES[code]) return getCountry(MRZ_CODE_ALIASES[code]);
+  const byCode = COUNTRIES.find((country) => country.alpha2 === code || country.alpha3 === code);
+  if (byCode) return byCode;
+
+  const normalized = normalizeCountryText(value);
+  return COUNTRIES.find(
+    (country) => normalizeCountryText(country.en) === normalized || normalizeCountryText(country.de) === normalized
+  );
+}
+
+export function countryNameInSentence(country: Country): string {
+  return EN_NAMES_WITH_ARTICLE.includes(country.alpha2) ? `the ${country.en}` : country.en;
+}
+
+export function classifyNationality(alpha2: string | null | undefined): NationalityCategory | undefined {
+  const country = getCountry(alpha2);
+  if (!country) return undefined;
+  if (EU_EEA_CH.includes(country.alpha2)) return 'EU_EEA_CH';
+  if (PRIVILEGED_THIRD_COUNTRIES.includes(country.alpha2)) return 'PRIVILEGED_THIRD_COUNTRY';
+  if (WESTERN_BALKANS.includes(country.alpha2)) return 'WESTERN_BALKANS';
+  return 'THIRD_COUNTRY';
+}
+
+/**
+ * Reads the holder's nationality from OCR text: the machine-readable zone
+ * first (TD1 cards such as the eAT, TD3 passports), then a printed
+ * "Staatsangehörigkeit / Nationality" field. Returns the alpha-2 code.
+ */
+export function guessNationalityFromText(text: string): string | undefined {
+  const lines = text.split('\n').map((line) => line.replace(/\s+/g, '').toUpperCase());
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+    // TD3 passport, line 2: document no. (9) + check digit, nationality (3), birth date (6)
+    if (line.length === 44 && /^[A-Z0-9<]{9}\d[A-Z<]{3}\d{6}/.test(line)) {
+      const country = findCountry(line.slice(10, 13).replace(/</g, ''));
+      if (country) return country.alpha2;
+    }
+    // TD1 card, line 2: birth date (6) + check, sex, expiry (6) + check, nationality (3)
+    if (line.length === 30 && /^\d{7}[MFX<]\d{7}[A-Z<]{3}/.test(line)) {
+      const country = findCountry(line.slice(15, 18).replace(/</g, ''));
+      if (country) return country.alpha2;
+    }
+  }
+
+  const rawLines = text.split('\n');
+  for (let i = 0; i < rawLines.length; i++) {
+    if (/staatsangeh[öo]rigkeit|nationality|nationalit[ée]/i.test(rawLines[i])) {
+      const sameLine = rawLines[i].replace(/.*(staatsangeh[öo]rigkeit|nationality|nationalit[ée])\s*[:/]?/i, '');
+      // "DEUTSCH / DEU", "SRB", "Serbia"
+      for (const candidate of [sameLine, rawLines[i + 1] ?? '']) {
+        for (const part of candidate.split(/[/,]/)) {
+          const country = findCountry(part);
+          if (country) return country.alpha2;
+        }
+      }
+    }
+  }
+  return undefined;
+}
@@ -0,0 +1,152 @@
+// lib/nebenbestimmungen.ts
+
+// Nebenbestimmungen (§12 AufenthG) on the Zusatzblatt. The eAT itself often
+// only says "Erwerbstätigkeit siehe Zusatzblatt"; the actual conditions –
+// "Beschäftigung nur bei Firma X als Y", "max. 20 Std./Woche",
+// "Wohnsitzauflage: Stadt Z", "Beschäftigung bis 31.12.2026 gestattet" – are
+// printed on the supplementary sheet in fairly standard wording.
+
+import type { EvaluateRightToWorkInput } from './rightToWork';
+
+// Conditions read from the sheet, in the rules engine's terms. A field is only
+// set when the wording says something about it.
+export type PermitConditions = Partial<Pick<
+  EvaluateRightToWorkInput,
+  | 'employmentPermission'
+  | 'permitNamesSpecificEmployer'
+  | 'employerOnPermit'
+  | 'permitLimitedToOccupation'
+  | 'occupationOnPermit'
+  | 'hasHoursLimitOnPermit'
+  | 'hoursLimitPerWeekOnPermit'
+  | 'hasLocationRestriction'
+  | 'locationRestrictionDescription'
+  | 'employmentPermittedUntil'
+>>;
+
+/**
+ * Heuristic: the text is a Zusatzblatt or lists Nebenbestimmungen.
+ */
+export function isZusatzblattText(text: string): boolean {
+  const lower = text.toLowerCase();
+  return lower.includes('zusatzblatt')
+    || lower.includes('nebenbestimmung')
+    || lower.includes('wohnsitzauflage')
+    || /(?:beschäftigung|erwerbstätigkeit)\s+(?:nur|nicht|bis|gestattet|erlaubt)/.test(lower);
+}
+
+function toIsoDate(day: string, month: string, year: string): string {
+  return `${year}-${month.padStart(2, '0')}-${day.padStart(2, '0')}`;
+}
+
+const DATE = String.raw`(\d{1,2})\.(\d{1,2})\.(\d{4})`;
+const COMPANY_SUFFIX = String.raw`(?:GmbH(?:\s*&\s*Co\.?\s*KG)?|AG|KG|SE|UG(?:\s*\(haftungsbeschränkt\))?|OHG|GbR|e\.\s?V\.)`;
+
+function firstMatch(text: string, patterns: RegExp[]): RegExpMatchArray | null {
+  for (const pattern of patterns) {
+    const match = text.match(pattern);
+    if (match) return match;
+  }
+  return null;
+}
+
+function cleanValue(value: string): string | undefined {
+  const cleaned = value
+    .replace(/\s+/g, ' ')
+    .replace(/\s+(?:gestattet|erlaubt|zugelassen)\b.*$/i, '')
+    .replace(/[\s,;:.]+$/, '')
+    .trim();
+  return cleaned.length > 1 ? cleaned : undefined;
+}
+
+// "Selbständige Tätigkeit nicht gestattet" says nothing about employment
+function isAboutSelfEmployment(text: string, index: number): boolean {
+  return /selbst(?:st)?ändige\s+$/i.test(text.slice(Math.max(0, index - 20), index));
+}
+
+function findEmploymentPermission(text: string): EvaluateRightToWorkInput['employmentPermission'] | undefined {
+  const notAllowed = text.match(/(?:erwerbstätigkeit|beschäftigung)\s+(?:ist\s+)?nicht\s+(?:gestattet|erlaubt)/i);
+  if (notAllowed && notAllowed.index !== undefined && !isAboutSelfEmployment(text, notAllowed.index)) {
+    return 'EMPLOYMENT_NOT_ALLOWED';
+  }
+  if (/(?:erwerbstätigkeit|beschäftigung)\s+nur\b/i.test(text) || /\bnur\s+(?:bei|als)\b/i.test(text)) {
+    return 'EMPLOYMENT_ALLOWED_WITH_LIMITS';
+  }
+  const allowed = text.match(/(?:erwerbstätigkeit|beschäftigung\s+jeder\s+art)\s+(?:ist\s+)?(?:gestattet|erlaubt)/i);
+  if (allowed && allowed.index !== undefined && !isAboutSelfEmployment(text, allowed.index)) {
+    return 'ANY_EMPLOYMENT_ALLOWED';
+  }
+  return undefined;
+}
+
+/**
+ * Reads the permit conditions from the OCR text of a Zusatzblatt. Every field
+ * is optional; HR confirms the values on the check form before they are used.
+ */
+export function parseNebenbestimmungen(rawText: string): PermitConditions {
+  // Conditions wrap across lines on the sheet
+  const text = rawText.replace(/\r/g, '').replace(/-\n(?=[a-zäöüß])/g, '').replace(/\s*\n\s*/g, ' ');
+  const conditions: PermitConditions = {};
+
+  const permission = findEmploymentPermission(text);
+  if (permission) conditions.employmentPermission = permission;
+  if (permission === 'EMPLOYMENT_NOT_ALLOWED') return conditions;
+
+  const employer = firstMatch(text, [
+    new RegExp(String.raw`\bbei\s+(?:der\s+|dem\s+)?(?:[Ff]irma\s+)?([^,;:]+?\b${COMPANY_SUFFIX})`),
+    /\bbei\s+(?:der\s+|dem\s+)?[Ff]irma\s+([^,;:]+?)(?=\s+(?:als|in|im|mit|bis|gestattet|erlaubt)\b|[,;.]|$)/,
+    /(?:arbeitgeber|firma)\s*:\s*([^,;]+?)(?=\s+(?:als|in|im)\b|[,;]|$)/i,
+  ]);
+  if (employer) {
+    conditions.permitNamesSpecificEmployer = true;
+    conditions.employerOnPermit = cleanValue(employer[1]);
+  }
+
+  const occupation = firstMatch(text, [
+    // "Beschäftigung nur bei Firma X als Y", "Beschäftigung bis … als Y"; dates keep their dots
+    /(?:beschäftigung|tätigkeit)(?:\.(?!\s)|[^.;]){0,80}?\bals\s+([^,;(]+?)(?=\s+(?:bei|in|im|mit|bis|max\.?|maximal|gestattet|erlaubt)\b|[,;(]|\.\s|\.$|$)/i,
+    /(?:beruf|tätigkeit)\s*:\s*([^,;]+?)(?=[,;]|\.\s|$)/i,
+  ]);
+  if (occupation) {
+    conditions.permitLimitedToOccupation = true;
+    conditions.occupationOnPermit = cleanValue(occupation[1]);
+  }
+
+  const hours = firstMatch(text, [
+    /(?:max\.?|maximal|höchstens|bis\s+zu)\s*(\d{1,2}(?:,\d)?)\s*(?:std\.?|stunden)\s*(?:\/\s*|pro\s+|je\s+|in\s+der\s+)?(?:woche|wöchentlich)/i,
+    /(\d{1,2}(?:,\d)?)\s*(?:wochenstunden|std\.?\s*\/\s*woche|stunden\s+(?:pro|je|in\s+der)\s+woche|stunden\s+wöchentlich)/i,
+  ]);
+  if (hours) {
+    conditions.hasHoursLimitOnPermit = true;
+    conditions.hoursLimitPerWeekOnPermit = Math.floor(Number(hours[1].replace(',', '.')));
+  }
+
+  const location = firstMatch(text, [
+    /wohnsitzauflage\s*:?\s*([^;]+?)(?=\s+(?:beschäftigung|erwerbstätigkeit|selbst(?:st)?ändige)\b|[;]|\.\s|$)/i,
+    /wohnsitz(?:nahme)?\s+(?:ist\s+)?(?:nur\s+)?(?:zu\s+nehmen\s+)?in\s+([^,;]+?)(?=\s+(?:gestattet|erlaubt|zu\s+nehmen)\b|[,;]|\.\s|$)/i,
+    /räumlich\s+beschränkt\s+auf\s+([^,;]+?)(?=[,;]|\.\s|$)/i,
+    /(?:beschäftigungsort|arbeitsort|einsatzort)\s*:?\s*([^,;]+?)(?=[,;]|\.\s|$)/i,
+  ]);
+  if (location) {
+    conditions.hasLocationRestriction = true;
+    conditions.locationRestrictionDescription = cleanValue(location[1]);
+  }
+
+  const until = firstMatch(text, [
+    new RegExp(String.raw`(?:beschäftigung|erwerbstätigkeit)[^.;]{0,80}?\bbis\s+(?:zum\s+)?${DATE}`, 'i'),
+    new RegExp(String.raw`(?:gestattet|erlaubt|befristet|gültig)\s+bis\s+(?:zum\s+)?${DATE}`, 'i'),
+  ]);
+  if (until) conditions.employmentPermittedUntil = toIsoDate(until[1], until[2], until[3]);
+
+  // Plain "Erwerbstätigkeit gestattet" without any condition: nothing is limited
+  if (permission === 'ANY_EMPLOYMENT_ALLOWED') {
+    conditions.permitNamesSpecificEmployer ??= false;
+    conditions.permitLimitedToOccupation ??= false;
+    conditions.hasHoursLimitOnPermit ??= false;
+    conditions.hasLocationRestriction ??= false;
+  } else if (!permission && (employer || occupation || hours)) {
+    conditions.employmentPermission = 'EMPLOYMENT_ALLOWED_WITH_LIMITS';
+  }
+
+  return conditions;
+}
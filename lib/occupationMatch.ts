@@ -0,0 +1,183 @@
+// lib/occupationMatch.ts
+
+// Maps free-text occupations (from the permit or the HR form) onto the
+// bundled KldB 2010 / ISCO-08 taxonomy, so "Fachkraft für Lagerlogistik" and
+// "Warehouse operative" can be compared by code instead of by substring.
+
+import { KLDB_GROUPS, KLDB_TOTAL_OCCUPATIONS, OCCUPATIONS, type OccupationEntry } from './occupationTaxonomy';
+
+export type OccupationRelation =
+  | 'SAME_OCCUPATION' // same KldB Berufsgattung
+  | 'SAME_GROUP'      // same KldB Berufsgruppe or ISCO unit group, different occupation
+  | 'DIFFERENT'       // both mapped, unrelated
+  | 'UNRESOLVED';     // at least one side is not in the taxonomy
+
+export interface ResolvedOccupation {
+  entry: OccupationEntry;
+  matchedBy: 'CODE' | 'TITLE' | 'SYNONYM';
+}
+
+export interface OccupationMatchResult {
+  relation: OccupationRelation;
+  permit: ResolvedOccupation | null;
+  planned: ResolvedOccupation | null;
+  // Shared group when relation is SAME_OCCUPATION or SAME_GROUP,
+  // e.g. { code: 'KldB 513', de: 'Lagerwirtschaft, …' } or { code: 'ISCO-08 9412' }
+  group?: { code: string; de?: string; en?: string };
+}
+
+interface SearchTerm {
+  entry: OccupationEntry;
+  term: string;
+  matchedBy: 'TITLE' | 'SYNONYM';
+}
+
+function normalizeOccupationText(value: string): string {
+  return value
+    .toLowerCase()
+    .replace(/ä/g, 'ae')
+    .replace(/ö/g, 'oe')
+    .replace(/ü/g, 'ue')
+    .replace(/ß/g, 'ss')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    // Gender markers: "(m/w/d)", "Pfleger*in", "Fahrer/-in"
+    .replace(/\((?:[mwfd]\s*\/\s*)+[mwfd]\)/g, ' ')
+    .replace(/[*:/]-?innen\b|[*:/]-?in\b/g, '')
+    .replace(/\((?:kldb|isco)[^)]*\)/g, ' ')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+const SEARCH_TERMS: SearchTerm[] = OCCUPATIONS.flatMap((entry) => [
+  { entry, term: normalizeOccupationText(entry.de), matchedBy: 'TITLE' as const },
+  { entry, term: normalizeOccupationText(entry.en), matchedBy: 'TITLE' as const },
+  ...entry.synonyms.map((synonym) => ({
+    entry,
+    term: normalizeOccupationText(synonym),
+    matchedBy: 'SYNONYM' as const,
+  })),
+]);
+
+// How much of the KldB 2010 the bundled taxonomy covers
+export const occupationTaxonomyCoverage = {
+  bundledOccupations: OCCUPATIONS.length,
+  totalOccupations: KLDB_TOTAL_OCCUPATIONS,
+};
+
+export function getOccupationByKldb(code: string): OccupationEntry | undefined {
+  return OCCUPATIONS.find((entry) => entry.kldb === code);
+}
+
+export function getKldbGroup(code: string): { code: string; de: string; en: string } | undefined {
+  const groupCode = code.slice(0, 3);
+  const group = KLDB_GROUPS[groupCode];
+  return group ? { code: groupCode, ...group } : undefined;
+}
+
+/**
+ * Resolves a free-text occupation to a taxonomy entry. Explicit codes
+ * ("KldB 51312", "ISCO 4321") win; otherwise the longest title or synonym
+ * found in the text is used.
+ */
+export function resolveOccupation(text: string | undefined | null): ResolvedOccupation | null {
+  if (!text || !text.trim()) return null;
+
+  const kldbMatch = text.match(/\bkldb(?:\s*2010)?\s*:?\s*(\d{5})\b/i) ?? text.trim().match(/^(\d{5})$/);
+  if (kldbMatch) {
+    const entry = getOccupationByKldb(kldbMatch[1]);
+    if (entry) return { entry, matchedBy: 'CODE' };
+  }
+  const iscoMatch = text.match(/\bisco(?:-?08)?\s*:?\s*(\d{4})\b/i);
+  if (iscoMatch) {
+    const entry = OCCUPATIONS.find((candidate) => candidate.isco === iscoMatch[1]);
+    if (entry) return { entry, matchedBy: 'CODE' };
+  }
+
+  const normalized = normalizeOccupationText(text);
+  if (!normalized) return null;
+
+  const exact = SEARCH_TERMS.find((candidate) => candidate.term === normalized);
+  if (exact) return { entry: exact.entry, matchedBy: exact.matchedBy };
+
+  // Longest known title contained as whole words, e.g. "Lagerhelfer Frühschicht"
+  const padded = ` ${normalized} `;
+  let best: SearchTerm | null = null;
+  for (const candidate of SEARCH_TERMS) {
+    if (padded.includes(` ${candidate.term} `) && (!best || candidate.term.length > best.term.length)) {
+      best = candidate;
+    }
+  }
+  return best ? { entry: best.entry, matchedBy: best.matchedBy } : null;
+}
+
+/**
+ * Compares the occupation on the permit with the planned role by their
+ * taxonomy codes.
+ */
+export function matchOccupations(
+  occupationOnPermit: string,
+  plannedRole: string
+): OccupationMatchResult {
+  const permit = resolveOccupation(occupationOnPermit);
+  const planned = resolveOccupation(plannedRole);
+
+  if (!permit || !planned) {
+    return { relation: 'UNRESOLVED', permit, planned };
+  }
+
+  const kldbGroup = getKldbGroup(permit.entry.kldb);
+  const permitGroup = {
+    code: `KldB ${permit.entry.kldb.slice(0, 3)}`,
+    de: kldbGroup?.de,
+    en: kldbGroup?.en,
+  };
+  if (permit.entry.kldb === planned.entry.kldb) {
+    return { relation: 'SAME_OCCUPATION', permit, planned, group: permitGroup };
+  }
+  if (permit.entry.kldb.slice(0, 3) === planned.entry.kldb.slice(0, 3)) {
+    return { relation: 'SAME_GROUP', permit, planned, group: permitGroup };
+  }
+  if (permit.entry.isco === planned.entry.isco) {
+    return { relation: 'SAME_GROUP', permit, planned, group: { code: `ISCO-08 ${permit.entry.isco}` } };
+  }
+  return { relation: 'DIFFERENT', permit, planned };
+}
+
+/**
+ * Occupations for the picker on the check form, best matches first.
+ * Matches codes, German and English titles and synonyms.
+ */
+export function searchOccupations(query: string, limit = 20): OccupationEntry[] {
+  const normalized = normalizeOccupationText(query);
+  if (!normalized) {
+    return [...OCCUPATIONS].sort((a, b) => a.de.localeCompare(b.de, 'de')).slice(0, limit);
+  }
+
+  const scored = new Map<OccupationEntry, number>();
+  const bump = (entry: OccupationEntry, score: number) => {
+    scored.set(entry, Math.max(scored.get(entry) ?? 0, score));
+  };
+
+  for (const entry of OCCUPATIONS) {
+    if (entry.kldb.startsWith(normalized) || entry.isco.startsWith(normalized)) bump(entry, 4);
+  }
+  for (const candidate of SEARCH_TERMS) {
+    if (candidate.term.startsWith(normalized)) {
+      bump(candidate.entry, candidate.matchedBy === 'TITLE' ? 3 : 2);
+    } else if (candidate.term.includes(normalized)) {
+      bump(candidate.entry, 1);
+    }
+  }
+
+  return Array.from(scored.entries())
+    .sort((a, b) => b[1] - a[1] || a[0].de.localeCompare(b[0].de, 'de'))
+    .slice(0, limit)
+    .map(([entry]) => entry);
+}
+
+// Value written into the form by the occupation picker; the code makes the
+// later match exact even if the title wording changes.
+export function formatOccupationValue(entry: OccupationEntry): string {
+  return `${entry.de} (KldB ${entry.kldb})`;
+}
@@ -0,0 +1,139 @@
+// lib/occupationTaxonomy.ts
+
+// Bundled subset of the KldB 2010 (Klassifikation der Berufe, Bundesagentur
+// für Arbeit) with its ISCO-08 crosswalk. It covers the occupations our
+// customers hire for most (logistics, hospitality, cleaning, care, trades,
+// IT, office). Extend it by adding entries; codes must not be reused.
+//
+// KldB code structure: digits 1–3 are the occupation group (Berufsgruppe),
+// digit 5 is the skill level (1 helper, 2 skilled, 3 specialist, 4 expert).
+
+export interface OccupationEntry {
+  kldb: string;        // 5-digit KldB 2010 code (Berufsgattung)
+  isco: string;        // 4-digit ISCO-08 unit group
+  de: string;          // German title as printed on permits
+  en: string;          // English title
+  synonyms: string[];  // further German / English job titles
+}
+
+// Berufsgattungen in the complete KldB 2010. Occupations outside the bundled
+// subset are only compared as text, and the decision trace says so.
+export const KLDB_TOTAL_OCCUPATIONS = 1286;
+
+export const KLDB_GROUPS: Record<string, { de: string; en: string }> = {
+  '223': { de: 'Holzbe- und -verarbeitung', en: 'Wood working and processing' },
+  '244': { de: 'Metallbau und Schweißtechnik', en: 'Metal construction and welding' },
+  '251': { de: 'Maschinenbau- und Betriebstechnik', en: 'Mechanical and industrial engineering' },
+  '252': { de: 'Fahrzeug-, Luft-, Raumfahrt- und Schiffbautechnik', en: 'Vehicle, aircraft and ship engineering' },
+  '262': { de: 'Energietechnik', en: 'Energy technology' },
+  '292': { de: 'Lebensmittel- und Genussmittelherstellung', en: 'Food production' },
+  '293': { de: 'Speisenzubereitung', en: 'Food preparation' },
+  '321': { de: 'Hochbau', en: 'Building construction' },
+  '342': { de: 'Klempnerei, Sanitär-, Heizungs- und Klimatechnik', en: 'Plumbing, sanitary, heating and air conditioning' },
+  '434': { de: 'Softwareentwicklung und Programmierung', en: 'Software development and programming' },
+  '513': { de: 'Lagerwirtschaft, Post und Zustellung, Güterumschlag', en: 'Warehousing, postal and delivery services, cargo handling' },
+  '521': { de: 'Fahrzeugführung im Straßenverkehr', en: 'Road vehicle drivers' },
+  '531': { de: 'Objekt-, Personen-, Brandschutz, Arbeitssicherheit', en: 'Security, fire protection and occupational safety' },
+  '541': { de: 'Reinigung', en: 'Cleaning' },
+  '621': { de: 'Verkauf (ohne Produktspezialisierung)', en: 'Sales (without product specialisation)' },
+  '632': { de: 'Hotellerie', en: 'Hotel services' },
+  '633': { de: 'Gastronomie', en: 'Gastronomy' },
+  '714': { de: 'Büro und Sekretariat', en: 'Office clerks and secretaries' },
+  '722': { de: 'Rechnungswesen, Controlling und Revision', en: 'Accounting, controlling and auditing' },
+  '811': { de: 'Arzt- und Praxishilfe', en: 'Medical assistants' },
+  '813': { de: 'Gesundheits- und Krankenpflege, Rettungsdienst und Geburtshilfe', en: 'Nursing, emergency medical services and midwifery' },
+  '814': { de: 'Human- und Zahnmedizin', en: 'Human medicine and dentistry' },
+  '821': { de: 'Altenpflege', en: 'Geriatric care' },
+  '823': { de: 'Körperpflege', en: 'Personal care' },
+  '831': { de: 'Erziehung, Sozialarbeit, Heilerziehungspflege', en: 'Education, social work and curative education' },
+};
+
+export const OCCUPATIONS: readonly OccupationEntry[] = [
+  // Logistics
+  { kldb: '51301', isco: '9333', de: 'Lagerhelfer', en: 'Warehouse operative',
+    synonyms: ['Lagerarbeiter', 'Lagermitarbeiter', 'Kommissionierer', 'Helfer Lager', 'Warehouse worker', 'Warehouse assistant', 'Picker', 'Order picker', 'Packer'] },
+  { kldb: '51312', isco: '4321', de: 'Fachkraft für Lagerlogistik', en: 'Warehouse logistics specialist',
+    synonyms: ['Fachlagerist', 'Lagerist', 'Lagerlogistiker', 'Stock clerk', 'Warehouse clerk', 'Logistics specialist'] },
+  { kldb: '51322', isco: '9621', de: 'Zusteller', en: 'Delivery driver',
+    synonyms: ['Paketzusteller', 'Kurierfahrer', 'Postbote', 'Courier', 'Parcel delivery', 'Package deliverer'] },
+  { kldb: '52122', isco: '8332', de: 'Berufskraftfahrer', en: 'Truck driver',
+    synonyms: ['LKW-Fahrer', 'Kraftfahrer', 'Fernfahrer', 'Lorry driver', 'HGV driver', 'Heavy truck driver'] },
+
+  // Hospitality
+  { kldb: '29301', isco: '9412', de: 'Küchenhilfe', en: 'Kitchen helper',
+    synonyms: ['Küchenhelfer', 'Spülkraft', 'Beikoch', 'Kitchen assistant', 'Dishwasher', 'Kitchen porter'] },
+  { kldb: '29302', isco: '5120', de: 'Koch', en: 'Cook',
+    synonyms: ['Köchin', 'Jungkoch', 'Chef de partie', 'Chef'] },
+  { kldb: '63301', isco: '9412', de: 'Servicehilfe', en: 'Catering assistant',
+    synonyms: ['Aushilfe Gastronomie', 'Helfer Gastronomie', 'Catering helper', 'Event staff catering'] },
+  { kldb: '63302', isco: '5131', de: 'Restaurantfachmann', en: 'Waiter',
+    synonyms: ['Restaurantfachfrau', 'Kellner', 'Servicekraft', 'Fachkraft für Gastronomie', 'Barkeeper', 'Waitress', 'Bartender', 'Server'] },
+  { kldb: '63222', isco: '4224', de: 'Hotelfachmann', en: 'Hotel clerk',
+    synonyms: ['Hotelfachfrau', 'Rezeptionist', 'Empfangsmitarbeiter', 'Receptionist', 'Front desk agent'] },
+
+  // Cleaning
+  { kldb: '54101', isco: '9112', de: 'Reinigungskraft', en: 'Cleaner',
+    synonyms: ['Raumpfleger', 'Reinigungshilfe', 'Putzkraft', 'Housekeeper', 'Cleaning staff', 'Janitor', 'Zimmermädchen', 'Room attendant'] },
+  { kldb: '54112', isco: '9112', de: 'Gebäudereiniger', en: 'Building cleaner',
+    synonyms: ['Glas- und Gebäudereiniger', 'Facility cleaner', 'Window cleaner'] },
+
+  // Care and health
+  { kldb: '81301', isco: '5321', de: 'Pflegehelfer', en: 'Nursing assistant',
+    synonyms: ['Krankenpflegehelfer', 'Pflegeassistent', 'Health care assistant', 'Care assistant'] },
+  { kldb: '81302', isco: '3221', de: 'Pflegefachkraft', en: 'Nurse',
+    synonyms: ['Pflegefachmann', 'Pflegefachfrau', 'Gesundheits- und Krankenpfleger', 'Krankenschwester', 'Krankenpfleger', 'Registered nurse', 'Nursing professional'] },
+  { kldb: '82101', isco: '5322', de: 'Altenpflegehelfer', en: 'Geriatric care assistant',
+    synonyms: ['Betreuungskraft', 'Alltagsbegleiter', 'Elderly care assistant', 'Caregiver'] },
+  { kldb: '82102', isco: '3221', de: 'Altenpfleger', en: 'Geriatric nurse',
+    synonyms: ['Altenpflegerin', 'Altenpflegefachkraft', 'Elderly care nurse'] },
+  { kldb: '81102', isco: '3256', de: 'Medizinische Fachangestellte', en: 'Medical assistant',
+    synonyms: ['Arzthelfer', 'Arzthelferin', 'MFA', 'Doctor\'s assistant'] },
+  { kldb: '81404', isco: '2211', de: 'Arzt', en: 'Medical doctor',
+    synonyms: ['Ärztin', 'Assistenzarzt', 'Facharzt', 'Physician', 'Doctor'] },
+  { kldb: '82312', isco: '5141', de: 'Friseur', en: 'Hairdresser',
+    synonyms: ['Friseurin', 'Barber', 'Hair stylist'] },
+  { kldb: '83112', isco: '2342', de: 'Erzieher', en: 'Early childhood educator',
+    synonyms: ['Erzieherin', 'Kinderpfleger', 'Kita-Fachkraft', 'Nursery teacher', 'Kindergarten teacher'] },
+
+  // Trades and technical
+  { kldb: '26212', isco: '7411', de: 'Elektroniker für Energie- und Gebäudetechnik', en: 'Electrician',
+    synonyms: ['Elektriker', 'Elektroinstallateur', 'Elektroniker', 'Building electrician'] },
+  { kldb: '34212', isco: '7126', de: 'Anlagenmechaniker SHK', en: 'Plumber',
+    synonyms: ['Anlagenmechaniker für Sanitär-, Heizungs- und Klimatechnik', 'Installateur', 'Heizungsbauer', 'Sanitärinstallateur', 'Pipe fitter', 'Heating engineer'] },
+  { kldb: '24422', isco: '7212', de: 'Schweißer', en: 'Welder',
+    synonyms: ['Schweißerin', 'Schweißfachkraft', 'MAG-Schweißer', 'WIG-Schweißer'] },
+  { kldb: '25212', isco: '7231', de: 'Kfz-Mechatroniker', en: 'Motor vehicle mechanic',
+    synonyms: ['Kraftfahrzeugmechatroniker', 'Kfz-Mechaniker', 'Automechaniker', 'Car mechanic', 'Auto mechanic'] },
+  { kldb: '25104', isco: '2144', de: 'Maschinenbauingenieur', en: 'Mechanical engineer',
+    synonyms: ['Ingenieur Maschinenbau', 'Konstrukteur', 'Design engineer'] },
+  { kldb: '32101', isco: '9313', de: 'Bauhelfer', en: 'Construction labourer',
+    synonyms: ['Bauarbeiter', 'Helfer Hochbau', 'Construction worker', 'Building labourer'] },
+  { kldb: '32122', isco: '7112', de: 'Maurer', en: 'Bricklayer',
+    synonyms: ['Maurerin', 'Mason'] },
+  { kldb: '22342', isco: '7522', de: 'Tischler', en: 'Carpenter',
+    synonyms: ['Schreiner', 'Möbeltischler', 'Joiner', 'Cabinet maker'] },
+  { kldb: '29212', isco: '7512', de: 'Bäcker', en: 'Baker',
+    synonyms: ['Bäckerin', 'Konditor', 'Pastry chef'] },
+  { kldb: '29222', isco: '7511', de: 'Fleischer', en: 'Butcher',
+    synonyms: ['Metzger', 'Fleischerin'] },
+
+  // IT and office
+  { kldb: '43412', isco: '2514', de: 'Fachinformatiker für Anwendungsentwicklung', en: 'Application developer',
+    synonyms: ['Anwendungsentwickler', 'Programmierer', 'Applications programmer', 'Junior developer'] },
+  { kldb: '43414', isco: '2512', de: 'Softwareentwickler', en: 'Software engineer',
+    synonyms: ['Softwareingenieur', 'Software developer', 'Backend developer', 'Frontend developer', 'Full stack developer', 'Web developer'] },
+  { kldb: '71402', isco: '4110', de: 'Kaufmann für Büromanagement', en: 'Office clerk',
+    synonyms: ['Kauffrau für Büromanagement', 'Bürokaufmann', 'Bürokraft', 'Sachbearbeiter', 'Office assistant', 'Administrative assistant'] },
+  { kldb: '72212', isco: '3313', de: 'Buchhalter', en: 'Bookkeeper',
+    synonyms: ['Finanzbuchhalter', 'Buchhalterin', 'Accounting clerk', 'Accountant'] },
+
+  // Retail and security
+  { kldb: '62101', isco: '5223', de: 'Verkaufshilfe', en: 'Sales assistant',
+    synonyms: ['Aushilfe Verkauf', 'Regalauffüller', 'Shelf filler', 'Retail assistant', 'Shop assistant'] },
+  { kldb: '62102', isco: '5223', de: 'Verkäufer', en: 'Sales clerk',
+    synonyms: ['Verkäuferin', 'Einzelhandelskaufmann', 'Kaufmann im Einzelhandel', 'Retail salesperson'] },
+  { kldb: '62112', isco: '5230', de: 'Kassierer', en: 'Cashier',
+    synonyms: ['Kassiererin', 'Kassenkraft', 'Checkout operator'] },
+  { kldb: '53112', isco: '5414', de: 'Fachkraft für Schutz und Sicherheit', en: 'Security guard',
+    synonyms: ['Sicherheitsmitarbeiter', 'Wachmann', 'Ordner', 'Security officer', 'Steward', 'Event security'] },
+];
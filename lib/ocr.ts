@@ -1,74 +1,340 @@
-import vision from '@google-cloud/vision';
+import type { DocumentKind, DocumentType, OcrProviderName } from '../shared/schema';
+import { isBaApprovalText, parseBaApprovalText, type BaApprovalFields } from './baApproval';
+import { compareMrzWithPrintedData, type AuthenticitySignal } from './documentAuthenticity';
+import { inspectDocumentFile } from './imageForensics';
+import { parseMrz, type MrzData } from './mrz';
+import { guessNationalityFromText } from './nationality';
+import { preprocessImage, toUploadBox, type ImageQualityReport } from './imagePreprocessing';
+import { isZusatzblattText, parseNebenbestimmungen, type PermitConditions } from './nebenbestimmungen';
+import { METHOD_CONFIDENCE, type OcrExtractionMethod, type OcrFieldSource } from './ocrFieldSource';
+import { getOcrProvider, type OcrLine, type OcrProvider } from './ocrProviders';
+import { isPdf, renderPdfPages } from './pdfPages';
+
+// Bump when the field guessers or image preprocessing change: cached OCR
+// results are keyed by it (see server/ocrCache.ts)
+export const OCR_EXTRACTION_VERSION = 4;
+
+// Guessed fields that report where they were found
+const guessFields = [
+  'documentTypeGuess',
+  'documentNumberGuess',
+  'expiryDateGuessIso',
+  'issueDateGuessIso',
+  'birthDateGuessIso',
+  'employerNameGuess',
+  'employmentPermissionGuess',
+  'nationalityGuess',
+] as const;
+export type OcrGuessField = typeof guessFields[number];
+
+export interface OcrPageResult {
+  pageNumber: number; // 1-based
+  rawText: string;
+}
 
 export interface OcrExtractionResult {
   rawText: string;
-  documentTypeGuess?: 'EU_BLUE_CARD' | 'EAT' | 'FIKTIONSBESCHEINIGUNG' | 'OTHER';
+  documentKindGuess?: DocumentKind;  // residence title, passport or anything else
+  documentTypeGuess?: DocumentType;
   documentNumberGuess?: string;
-  expiryDateGuessIso?: string;
+  expiryDateGuessIso?: string;     // may lie in the past: an expired card is reported as such
+  issueDateGuessIso?: string;
+  birthDateGuessIso?: string;
   employerNameGuess?: string;
   employmentPermissionGuess?: 'ANY_EMPLOYMENT_ALLOWED' | 'RESTRICTED' | 'UNKNOWN';
+  nationalityGuess?: string; // ISO 3166-1 alpha-2, from the MRZ or the printed field
+  baApprovalGuess?: BaApprovalFields; // set when the document looks like a Zustimmung der BA
+  permitConditionsGuess?: PermitConditions; // Nebenbestimmungen, when the document looks like a Zusatzblatt
+  mrz?: MrzData;                    // machine-readable zone, with its check-digit results
+  // Method, confidence and location of each guess
+  fieldSources?: Partial<Record<OcrGuessField, OcrFieldSource>>;
+  ocrProvider: OcrProviderName;     // engine that recognised the text
+  // PDFs only: text of each page read, the PDF's page count (pages beyond
+  // MAX_PDF_PAGES are not read) and the page each guessed field came from
+  pages?: OcrPageResult[];
+  totalPages?: number;
+  fieldPages?: Partial<Record<OcrGuessField, number>>;
+  // Positioned text lines of each page read (a single page for images), on
+  // the upload as uploaded; redaction finds the parts to mask with them
+  pageLines?: OcrLine[][];
+  // Photos only: blur, resolution and glare of the upload
+  imageQuality?: ImageQualityReport;
+  // Traces of editing in the file and MRZ values the printed data contradicts
+  authenticitySignals?: AuthenticitySignal[];
+}
+
+interface FieldGuess<T> {
+  value: T;
+  method: OcrExtractionMethod;
+  lineIndex?: number; // 0-based line of the text
 }
 
-export async function extractFieldsFromDocument(fileBuffer: Buffer): Promise<OcrExtractionResult> {
-  const credentialsJson = process.env.GOOGLE_CLOUD_VISION_CREDENTIALS;
-  
-  if (!credentialsJson) {
-    throw new Error('GOOGLE_CLOUD_VISION_CREDENTIALS environment variable is not set. Please configure it in Replit Secrets as a JSON string.');
+function toFieldSource(lines: string[], guess: FieldGuess<unknown> | undefined): OcrFieldSource | undefined {
+  if (!guess) return undefined;
+  const line = guess.lineIndex !== undefined ? lines[guess.lineIndex] : undefined;
+  return {
+    method: guess.method,
+    confidence: METHOD_CONFIDENCE[guess.method],
+    lineNumber: line !== undefined && guess.lineIndex !== undefined ? guess.lineIndex + 1 : undefined,
+    line: line?.trim(),
+  };
+}
+
+// First line that gives the same guess on its own or, failing that, together
+// with the line after it (keywords split across a line break)
+function lineWithGuess<T>(lines: string[], value: T, guess: (text: string) => T): number | undefined {
+  let index = lines.findIndex((line) => guess(line) === value);
+  if (index < 0) {
+    index = lines.findIndex((line, i) => guess(`${line}\n${lines[i + 1] ?? ''}`) === value);
   }
+  return index >= 0 ? index : undefined;
+}
 
-  let credentials;
+function removeUndefined<T extends object>(value: T): Partial<T> {
+  return Object.fromEntries(Object.entries(value).filter(([, entry]) => entry !== undefined)) as Partial<T>;
+}
+
+/**
+ * Runs the field guessers on recognised text, whichever engine produced it.
+ * MRZ values whose check digit matched take priority over the guesses from
+ * the printed text. Each guess reports how it was found (`fieldSources`).
+ * Printed values the MRZ contradicts are reported as authenticity signals.
+ */
+export function extractFieldsFromText(rawText: string): Omit<OcrExtractionResult, 'ocrProvider'> {
+  const lines = rawText.split('\n');
+  const mrz = parseMrz(rawText);
+  const normalizedLines = lines.map((line) => line.replace(/\s+/g, '').toUpperCase());
+  const mrzLine = (value: string | undefined) => {
+    const index = value ? normalizedLines.findIndex((line) => line.includes('<') && line.includes(value)) : -1;
+    return index >= 0 ? index : undefined;
+  };
+
+  const documentType = guessDocumentType(rawText);
+  const documentTypeGuess: FieldGuess<OcrExtractionResult['documentTypeGuess']> = documentType === 'OTHER'
+    ? { value: documentType, method: 'FALLBACK_REGEX' }
+    : { value: documentType, method: 'KEYWORD', lineIndex: lineWithGuess(lines, documentType, guessDocumentType) };
+
+  const documentNumberGuess: FieldGuess<string> | undefined = mrz?.checkDigits.documentNumber && mrz.documentNumber
+    ? { value: mrz.documentNumber, method: 'MRZ', lineIndex: mrzLine(mrz.documentNumber) }
+    : guessDocumentNumber(lines);
+
+  // The MRZ prints its dates as YYMMDD
+  const dates = guessDates(lines);
+  const expiryDateGuess: FieldGuess<string> | undefined = mrz?.checkDigits.expiryDate && mrz.expiryDate
+    ? { value: mrz.expiryDate, method: 'MRZ', lineIndex: mrzLine(mrz.expiryDate.slice(2).replace(/-/g, '')) }
+    : dates.expiry;
+  const birthDateGuess: FieldGuess<string> | undefined = mrz?.checkDigits.birthDate && mrz.birthDate
+    ? { value: mrz.birthDate, method: 'MRZ', lineIndex: mrzLine(mrz.birthDate.slice(2).replace(/-/g, '')) }
+    : dates.birth;
+
+  // The printed data on its own, to hold against the MRZ
+  const printedLines = mrz ? lines.map((line, i) => (normalizedLines[i].includes('<<') ? '' : line)) : [];
+  const printedNumber = guessDocumentNumber(printedLines);
+  const printedDates = guessDates(printedLines);
+
+  const employerNameGuess = guessEmployerName(lines);
+
+  const employmentPermission = guessEmploymentPermission(rawText);
+  const employmentPermissionGuess: FieldGuess<OcrExtractionResult['employmentPermissionGuess']> | undefined =
+    employmentPermission === 'UNKNOWN'
+      ? undefined
+      : { value: employmentPermission, method: 'KEYWORD', lineIndex: lineWithGuess(lines, employmentPermission, guessEmploymentPermission) };
+
+  // Nationality has no check digit of its own; trust it when the whole MRZ checks out
+  const nationality = (mrz?.isValid && mrz.nationality) || guessNationalityFromText(rawText);
+  const nationalityLine = nationality ? lineWithGuess(lines, nationality, guessNationalityFromText) : undefined;
+  const nationalityGuess: FieldGuess<string> | undefined = nationality
+    ? {
+        value: nationality,
+        method: nationalityLine !== undefined && normalizedLines[nationalityLine].includes('<') ? 'MRZ' : 'LABEL_PROXIMITY',
+        lineIndex: nationalityLine,
+      }
+    : undefined;
+
+  return {
+    rawText,
+    documentKindGuess: guessDocumentKind(rawText, mrz, documentType),
+    documentTypeGuess: documentTypeGuess.value,
+    documentNumberGuess: documentNumberGuess?.value,
+    expiryDateGuessIso: expiryDateGuess?.value,
+    issueDateGuessIso: dates.issue?.value,
+    birthDateGuessIso: birthDateGuess?.value,
+    employerNameGuess: employerNameGuess?.value,
+    employmentPermissionGuess: employmentPermission,
+    nationalityGuess: nationality,
+    baApprovalGuess: isBaApprovalText(rawText) ? parseBaApprovalText(rawText) : undefined,
+    permitConditionsGuess: isZusatzblattText(rawText) ? parseNebenbestimmungen(rawText) : undefined,
+    mrz,
+    authenticitySignals: mrz
+      ? compareMrzWithPrintedData(mrz, {
+          documentNumber: printedNumber?.method === 'LABEL_PROXIMITY' ? printedNumber.value : undefined,
+          expiryDate: printedDates.expiry?.method === 'LABEL_PROXIMITY' ? printedDates.expiry.value : undefined,
+          birthDate: printedDates.birth?.value,
+        })
+      : undefined,
+    fieldSources: removeUndefined({
+      documentTypeGuess: toFieldSource(lines, documentTypeGuess),
+      documentNumberGuess: toFieldSource(lines, documentNumberGuess),
+      expiryDateGuessIso: toFieldSource(lines, expiryDateGuess),
+      issueDateGuessIso: toFieldSource(lines, dates.issue),
+      birthDateGuessIso: toFieldSource(lines, birthDateGuess),
+      employerNameGuess: toFieldSource(lines, employerNameGuess),
+      employmentPermissionGuess: toFieldSource(lines, employmentPermissionGuess),
+      nationalityGuess: toFieldSource(lines, nationalityGuess),
+    }),
+  };
+}
+
+/**
+ * Reads a document with the given OCR engine. PDFs are rendered page by page
+ * and each page is read separately; the page texts are merged with
+ * "--- Page N ---" markers before the field guessers run. Photos are
+ * straightened, cropped and contrast-stretched first; line positions are
+ * reported on the upload as uploaded. The file itself is inspected for
+ * traces of editing (see lib/imageForensics.ts).
+ */
+export async function extractFieldsFromDocument(
+  fileBuffer: Buffer,
+  provider: OcrProvider = getOcrProvider()
+): Promise<OcrExtractionResult> {
+  let rawText: string;
+  let pages: OcrPageResult[] | undefined;
+  let totalPages: number | undefined;
+  let imageQuality: ImageQualityReport | undefined;
+  // Positioned lines per page (a single page for images)
+  const pageLines: OcrLine[][] = [];
+
+  if (isPdf(fileBuffer)) {
+    const pdf = await renderPdfPages(fileBuffer);
+    totalPages = pdf.totalPages;
+    pages = [];
+    // One page at a time: page images are large and OCR engines are busy enough
+    for (let i = 0; i < pdf.pages.length; i++) {
+      const recognition = await provider.recognize(pdf.pages[i]);
+      pages.push({ pageNumber: i + 1, rawText: recognition.text });
+      pageLines.push(recognition.lines);
+    }
+    rawText = pages.some((page) => page.rawText)
+      ? pages.map((page) => `--- Page ${page.pageNumber} ---\n${page.rawText}`).join('\n\n')
+      : '';
+  } else {
+    let processed;
+    try {
+      processed = await preprocessImage(fileBuffer);
+      imageQuality = processed.quality;
+    } catch (error) {
+      // Formats the canvas cannot decode go to the engine untouched
+      console.warn('[OCR] Image preprocessing failed, reading the upload as is:', error);
+    }
+    const recognition = await provider.recognize(processed?.buffer ?? fileBuffer);
+    rawText = recognition.text;
+    pageLines.push(processed
+      ? recognition.lines.map((line) => ({ ...line, box: toUploadBox(line.box, processed.transform) }))
+      : recognition.lines);
+  }
+
+  if (!rawText) {
+    throw new Error('No text could be extracted from the document. The image may be too low quality or not contain readable text.');
+  }
+
+  const fields = extractFieldsFromText(rawText);
+  let fileSignals: AuthenticitySignal[] = [];
   try {
-    credentials = JSON.parse(credentialsJson);
+    fileSignals = await inspectDocumentFile(fileBuffer);
   } catch (error) {
-    throw new Error('GOOGLE_CLOUD_VISION_CREDENTIALS must be a valid JSON string. Please check your Replit Secrets configuration.');
+    console.warn('[OCR] Could not inspect the file for traces of editing:', error);
   }
-
-  const client = new vision.ImageAnnotatorClient({
-    credentials,
+  const authenticitySignals = [...(fields.authenticitySignals ?? []), ...fileSignals];
+  const fieldSources = locateFieldSources(rawText, fields.fieldSources ?? {}, pageLines, pages !== undefined);
+  const fieldPages = pages
+    ? removeUndefined(Object.fromEntries(
+        Object.entries(fieldSources).map(([field, source]) => [field, source?.page])
+      ) as Partial<Record<OcrGuessField, number>>)
+    : undefined;
+
+  console.log('[OCR] Raw text extracted (first 1000 chars):', rawText.substring(0, 1000));
+  console.log('[OCR] Extraction results:', {
+    ocrProvider: provider.name,
+    rawTextLength: rawText.length,
+    documentKindGuess: fields.documentKindGuess,
+    documentTypeGuess: fields.documentTypeGuess,
+    documentNumberGuess: fields.documentNumberGuess,
+    expiryDateGuessIso: fields.expiryDateGuessIso,
+    issueDateGuessIso: fields.issueDateGuessIso,
+    birthDateGuessIso: fields.birthDateGuessIso,
+    employerNameGuess: fields.employerNameGuess,
+    employmentPermissionGuess: fields.employmentPermissionGuess,
+    nationalityGuess: fields.nationalityGuess,
+    baApprovalGuess: fields.baApprovalGuess,
+    permitConditionsGuess: fields.permitConditionsGuess,
+    mrzFormat: fields.mrz?.format,
+    mrzFailedCheckDigits: fields.mrz?.failedCheckDigits,
+    pagesRead: pages?.length,
+    totalPages,
+    imageQuality,
+    authenticitySignals,
+    fieldSources,
   });
 
-  try {
-    const [result] = await client.textDetection({
-      image: { content: fileBuffer },
-    });
+  return { ...fields, fieldSources, ocrProvider: provider.name, pages, totalPages, fieldPages, pageLines, imageQuality, authenticitySignals };
+}
 
-    const detections = result.textAnnotations;
-    const rawText = detections && detections.length > 0 ? detections[0].description || '' : '';
+function normalizeForMatch(text: string): string {
+  return text.replace(/\s+/g, '').toLowerCase();
+}
 
-    if (!rawText) {
-      throw new Error('No text could be extracted from the document. The image may be too low quality or not contain readable text.');
+/**
+ * Adds the page, the position on the page and the engine's confidence to each
+ * field source, by finding its text line among the positioned lines the
+ * engine reported.
+ */
+function locateFieldSources(
+  rawText: string,
+  sources: Partial<Record<OcrGuessField, OcrFieldSource>>,
+  pageLines: OcrLine[][],
+  isPaged: boolean
+): Partial<Record<OcrGuessField, OcrFieldSource>> {
+  const lines = rawText.split('\n');
+  const located: Partial<Record<OcrGuessField, OcrFieldSource>> = {};
+
+  for (const field of guessFields) {
+    const source = sources[field];
+    if (!source) continue;
+    if (!source.lineNumber || !source.line) {
+      located[field] = source;
+      continue;
     }
 
-    const documentTypeGuess = guessDocumentType(rawText);
-    const documentNumberGuess = guessDocumentNumber(rawText);
-    const expiryDateGuessIso = guessExpiryDate(rawText);
-    const employerNameGuess = guessEmployerName(rawText);
-    const employmentPermissionGuess = guessEmploymentPermission(rawText);
-
-    console.log('[OCR] Raw text extracted (first 1000 chars):', rawText.substring(0, 1000));
-    console.log('[OCR] Extraction results:', {
-      rawTextLength: rawText.length,
-      documentTypeGuess,
-      documentNumberGuess,
-      expiryDateGuessIso,
-      employerNameGuess,
-      employmentPermissionGuess,
-    });
-
-    return {
-      rawText,
-      documentTypeGuess,
-      documentNumberGuess,
-      expiryDateGuessIso,
-      employerNameGuess,
-      employmentPermissionGuess,
-    };
-  } catch (error: any) {
-    if (error.code === 7) {
-      throw new Error('Invalid Google Cloud Vision credentials. Please verify your service account JSON in Replit Secrets.');
+    // Each page's text in merged PDF text starts with a page marker
+    let page = 1;
+    if (isPaged) {
+      for (let i = source.lineNumber - 1; i >= 0; i--) {
+        const marker = lines[i].match(/^--- Page (\d+) ---$/);
+        if (marker) {
+          page = Number(marker[1]);
+          break;
+        }
+      }
     }
-    throw new Error(`Google Cloud Vision API error: ${error.message || 'Unknown error occurred during text extraction.'}`);
+
+    const wanted = normalizeForMatch(source.line);
+    const candidates = pageLines[page - 1] ?? [];
+    const match = candidates.find((line) => normalizeForMatch(line.text) === wanted)
+      ?? candidates.find((line) => {
+        const text = normalizeForMatch(line.text);
+        return text.length > 0 && (text.includes(wanted) || wanted.includes(text));
+      });
+
+    located[field] = {
+      ...source,
+      page: isPaged ? page : undefined,
+      box: match?.box,
+      confidence: match?.confidence !== undefined
+        ? Math.round(source.confidence * match.confidence * 100) / 100
+        : source.confidence,
+    };
   }
+  return located;
 }
 
 function guessDocumentType(text: string): OcrExtractionResult['documentTypeGuess'] {
@@ -78,6 +344,61 @@ function guessDocumentType(text: string): OcrExtractionResult['documentTypeGuess
     return 'EU_BLUE_CARD';
   }
 
+  // Specific titles are printed on the same eAT card, so check them before the generic eAT keywords
+  if (lowerText.includes('niederlassungserlaubnis') || lowerText.includes('settlement permit')) {
+    return 'NIEDERLASSUNGSERLAUBNIS';
+  }
+
+  if (
+    /daueraufenthalt\s*[-–]?\s*eu/.test(lowerText) ||
+    lowerText.includes('long-term resident') ||
+    lowerText.includes('langfristig aufenthaltsberechtigt')
+  ) {
+    return 'DAUERAUFENTHALT_EU';
+  }
+
+  if (lowerText.includes('aufenthaltsgestattung')) {
+    return 'AUFENTHALTSGESTATTUNG';
+  }
+
+  if (lowerText.includes('duldung') || lowerText.includes('aussetzung der abschiebung')) {
+    return 'DULDUNG';
+  }
+
+  if (
+    /§\s*24\s*(abs\.?\s*1\s*)?aufenthg/.test(lowerText) ||
+    lowerText.includes('vorübergehenden schutz') ||
+    lowerText.includes('temporary protection')
+  ) {
+    return 'TEMPORARY_PROTECTION_24';
+  }
+
+  if (
+    lowerText.includes('chancenkarte') ||
+    lowerText.includes('opportunity card') ||
+    /§\s*20a\s*aufenthg/.test(lowerText)
+  ) {
+    return 'CHANCENKARTE';
+  }
+
+  if (/\bict[\s-]?karte\b/.test(lowerText) || /\bict[\s-]?card\b/.test(lowerText)) {
+    return 'ICT_KARTE';
+  }
+
+  if (lowerText.includes('westbalkan') || /§\s*26\s*abs\.?\s*2\s*beschv/.test(lowerText)) {
+    return 'WESTBALKAN_REGELUNG';
+  }
+
+  if (/§\s*16b\s*(abs\.?\s*\d\s*)?aufenthg/.test(lowerText) || lowerText.includes('zweck des studiums')) {
+    return 'STUDENT_PERMIT';
+  }
+
+  // A Fiktionsbescheinigung says the previous "Aufenthaltstitel gilt als
+  // fortbestehend", so it must win over the generic eAT keywords
+  if (lowerText.includes('fiktionsbescheinigung')) {
+    return 'FIKTIONSBESCHEINIGUNG';
+  }
+
   if (
     lowerText.includes('elektronischer aufenthaltstitel') ||
     lowerText.includes('eat') ||
@@ -86,14 +407,22 @@ function guessDocumentType(text: string): OcrExtractionResult['documentTypeGuess
     return 'EAT';
   }
 
-  if (lowerText.includes('fiktionsbescheinigung')) {
-    return 'FIKTIONSBESCHEINIGUNG';
-  }
+  return 'OTHER';
+}
 
+// The MRZ document code says which kind of document it is ("P" passport, "AR"
+// eAT); without one, a title keyword wins over the passport header, since
+// residence documents refer to the holder's passport
+function guessDocumentKind(text: string, mrz: MrzData | undefined, documentType: DocumentType | undefined): DocumentKind {
+  if (mrz?.documentCode.startsWith('P')) return 'PASSPORT';
+  if (mrz?.documentCode === 'AR') return 'RESIDENCE_TITLE';
+  if (isBaApprovalText(text)) return 'OTHER';
+  if ((documentType && documentType !== 'OTHER') || isZusatzblattText(text)) return 'RESIDENCE_TITLE';
+  if (/\b(reisepass|passport|passeport)\b/i.test(text)) return 'PASSPORT';
   return 'OTHER';
 }
 
-function guessDocumentNumber(text: string): string | undefined {
+function guessDocumentNumber(lines: string[]): FieldGuess<string> | undefined {
   const keywords = [
     'dokumentennummer',
     'ausweis-nr',
@@ -103,8 +432,6 @@ function guessDocumentNumber(text: string): string | undefined {
     'nr.',
   ];
 
-  const lines = text.split('\n');
-
   for (let i = 0; i < lines.length; i++) {
     const line = lines[i].toLowerCase();
 
@@ -114,94 +441,114 @@ function guessDocumentNumber(text: string): string | undefined {
         if (nextLine) {
           const match = nextLine.match(/[A-Z0-9]{6,15}/);
           if (match) {
-            return match[0];
+            return { value: match[0], method: 'LABEL_PROXIMITY', lineIndex: i + 1 };
           }
         }
 
         const sameLine = lines[i].match(/[A-Z0-9]{6,15}/);
         if (sameLine) {
-          return sameLine[0];
+          return { value: sameLine[0], method: 'LABEL_PROXIMITY', lineIndex: i };
         }
       }
     }
   }
 
-  const generalMatch = text.match(/[A-Z0-9]{8,12}/);
-  if (generalMatch) {
-    return generalMatch[0];
+  for (let i = 0; i < lines.length; i++) {
+    const generalMatch = lines[i].match(/[A-Z0-9]{8,12}/);
+    if (generalMatch) {
+      return { value: generalMatch[0], method: 'FALLBACK_REGEX', lineIndex: i };
+    }
   }
 
   return undefined;
 }
 
-function guessExpiryDate(text: string): string | undefined {
-  const datePatterns = [
-    /(\d{2})\.(\d{2})\.(\d{4})/g,
-    /(\d{2})\.(\d{2})\.(\d{2})/g,
-    /(\d{2})\/(\d{2})\/(\d{4})/g,
-  ];
+type DateKind = 'expiry' | 'issue' | 'birth';
 
-  const keywords = ['gültig bis', 'valid until', 'expiry', 'expires', 'ablauf'];
-  const today = new Date();
-  const candidateDates: Date[] = [];
+// Labels printed next to or above each kind of date (eAT, passport, Fiktionsbescheinigung)
+const DATE_LABELS: Record<DateKind, string[]> = {
+  expiry: ['gültig bis', 'valid until', 'date of expiry', 'expiry', 'expires', 'ablaufdatum', 'ablauf', 'befristet bis'],
+  issue: ['ausstellungsdatum', 'ausgestellt am', 'datum der ausstellung', 'date of issue', 'issued on', 'ausstellung'],
+  birth: ['geburtsdatum', 'date of birth', 'geboren am', 'geb.', 'born'],
+};
 
-  for (const pattern of datePatterns) {
-    let match;
-    while ((match = pattern.exec(text)) !== null) {
-      const day = parseInt(match[1], 10);
-      const month = parseInt(match[2], 10);
-      let year = parseInt(match[3], 10);
-
-      if (match[3].length === 2) {
-        year += year < 50 ? 2000 : 1900;
-      }
+const DATE_PATTERN = /(\d{2})([./])(\d{2})\2(\d{4}|\d{2})(?!\d)/g;
 
-      if (month >= 1 && month <= 12 && day >= 1 && day <= 31) {
-        const date = new Date(year, month - 1, day);
-        if (date > today) {
-          candidateDates.push(date);
-        }
+// The date kind whose label appears last in the text, i.e. closest to a date after it
+function nearestDateLabel(text: string): DateKind | undefined {
+  const lower = text.toLowerCase();
+  let nearest: { kind: DateKind; index: number } | undefined;
+  for (const kind of Object.keys(DATE_LABELS) as DateKind[]) {
+    for (const label of DATE_LABELS[kind]) {
+      const index = lower.lastIndexOf(label);
+      if (index >= 0 && (!nearest || index > nearest.index)) {
+        nearest = { kind, index };
       }
     }
   }
+  return nearest?.kind;
+}
+
+function parseDateMatch(match: RegExpExecArray, kind: DateKind | undefined, today: Date): Date | undefined {
+  const day = parseInt(match[1], 10);
+  const month = parseInt(match[3], 10);
+  let year = parseInt(match[4], 10);
+
+  if (match[4].length === 2) {
+    // Birth dates lie in the past; other dates within a few decades of today
+    const currentYy = today.getFullYear() % 100;
+    year += kind === 'birth' ? (year > currentYy ? 1900 : 2000) : (year < 50 ? 2000 : 1900);
+  }
+
+  if (month < 1 || month > 12 || day < 1 || day > 31) return undefined;
+  return new Date(year, month - 1, day);
+}
+
+/**
+ * Finds the expiry, issue and birth dates by the labels printed next to or
+ * above them. Labelled dates are returned even when they lie in the past, so
+ * an expired card shows up as expired. Without an expiry label, the earliest
+ * future date that carries no other label is taken as the expiry.
+ */
+function guessDates(lines: string[]): Partial<Record<DateKind, FieldGuess<string>>> {
+  const today = new Date();
+  const found: Partial<Record<DateKind, FieldGuess<string>>> = {};
+  const unlabelled: { date: Date; lineIndex: number }[] = [];
 
-  const lines = text.split('\n');
   for (let i = 0; i < lines.length; i++) {
-    const line = lines[i].toLowerCase();
-    for (const keyword of keywords) {
-      if (line.includes(keyword)) {
-        const nextLine = lines[i + 1];
-        if (nextLine) {
-          for (const pattern of datePatterns) {
-            const match = pattern.exec(nextLine);
-            if (match) {
-              const day = parseInt(match[1], 10);
-              const month = parseInt(match[2], 10);
-              let year = parseInt(match[3], 10);
-
-              if (match[3].length === 2) {
-                year += year < 50 ? 2000 : 1900;
-              }
-
-              if (month >= 1 && month <= 12 && day >= 1 && day <= 31) {
-                const date = new Date(year, month - 1, day);
-                if (date > today) {
-                  return formatDateToIso(date);
-                }
-              }
-            }
-          }
-        }
+    const line = lines[i];
+    DATE_PATTERN.lastIndex = 0;
+    let match;
+    while ((match = DATE_PATTERN.exec(line)) !== null) {
+      // Label before the date on the same line, else on the lines above
+      // (bilingual labels often take two lines)
+      let kind = nearestDateLabel(line.slice(0, match.index));
+      for (let above = i - 1; !kind && above >= Math.max(0, i - 2); above--) {
+        DATE_PATTERN.lastIndex = 0;
+        if (DATE_PATTERN.test(lines[above])) break;
+        kind = nearestDateLabel(lines[above]);
+      }
+      DATE_PATTERN.lastIndex = match.index + match[0].length;
+
+      const date = parseDateMatch(match, kind, today);
+      if (!date) continue;
+      if (!kind) {
+        unlabelled.push({ date, lineIndex: i });
+      } else if (!found[kind] && !(kind === 'birth' && date > today)) {
+        found[kind] = { value: formatDateToIso(date), method: 'LABEL_PROXIMITY', lineIndex: i };
       }
     }
   }
 
-  if (candidateDates.length > 0) {
-    candidateDates.sort((a, b) => a.getTime() - b.getTime());
-    return formatDateToIso(candidateDates[0]);
+  if (!found.expiry) {
+    const future = unlabelled.filter((candidate) => candidate.date > today);
+    future.sort((a, b) => a.date.getTime() - b.date.getTime());
+    if (future.length > 0) {
+      found.expiry = { value: formatDateToIso(future[0].date), method: 'FALLBACK_REGEX', lineIndex: future[0].lineIndex };
+    }
   }
 
-  return undefined;
+  return found;
 }
 
 function formatDateToIso(date: Date): string {
@@ -211,34 +558,36 @@ function formatDateToIso(date: Date): string {
   return `${year}-${month}-${day}`;
 }
 
-function guessEmployerName(text: string): string | undefined {
-  const lines = text.split('\n');
-  const keywords = ['arbeitgeber', 'employer', 'firma', 'company'];
+function guessEmployerName(lines: string[]): FieldGuess<string> | undefined {
+  // "Arbeitgeber: Musterbau GmbH", or the label alone with the name below it
+  const label = /^\s*(?:arbeitgeber|employer|firma|company)\b\s*:?\s*(.*)$/i;
+  for (let i = 0; i < lines.length; i++) {
+    const match = lines[i].match(label);
+    if (!match) continue;
+    const afterLabel = match[1].trim();
+    if (afterLabel.length > 3) {
+      return { value: afterLabel, method: 'LABEL_PROXIMITY', lineIndex: i };
+    }
+    const nextLine = lines[i + 1];
+    if (nextLine && nextLine.trim().length > 3) {
+      return { value: nextLine.trim(), method: 'LABEL_PROXIMITY', lineIndex: i + 1 };
+    }
+  }
 
+  // Employer named in the conditions: "Beschäftigung nur bei Musterbau GmbH gestattet"
   for (let i = 0; i < lines.length; i++) {
-    const lineLower = lines[i].toLowerCase();
-    
-    for (const keyword of keywords) {
-      if (lineLower.includes(keyword)) {
-        const nextLine = lines[i + 1];
-        if (nextLine && nextLine.trim().length > 3) {
-          return nextLine.trim();
-        }
-        
-        const afterKeyword = lines[i].substring(lineLower.indexOf(keyword) + keyword.length).trim();
-        if (afterKeyword.length > 3) {
-          return afterKeyword;
-        }
-      }
+    const employerOnPermit = parseNebenbestimmungen(lines[i]).employerOnPermit;
+    if (employerOnPermit) {
+      return { value: employerOnPermit, method: 'KEYWORD', lineIndex: i };
     }
   }
 
-  for (const line of lines) {
-    const trimmed = line.trim();
+  for (let i = 0; i < lines.length; i++) {
+    const trimmed = lines[i].trim();
     if (trimmed === trimmed.toUpperCase() && 
         trimmed.length > 5 &&
         (trimmed.endsWith('GMBH') || trimmed.endsWith('AG') || trimmed.endsWith('UG'))) {
-      return trimmed;
+      return { value: trimmed, method: 'FALLBACK_REGEX', lineIndex: i };
     }
   }
 
@@ -248,21 +597,22 @@ function guessEmployerName(text: string): string | undefined {
 function guessEmploymentPermission(text: string): OcrExtractionResult['employmentPermissionGuess'] {
   const lower = text.toLowerCase();
 
+  // Limits first: a limited title often says "erlaubt" or "gestattet" too
+  // ("Beschäftigung bis zu 20 Stunden je Woche erlaubt")
+  if (/\bnur\s+(?:bei|als|in|mit)\b/.test(lower) ||
+      /bis\s+zu\s+\d+\s*(?:stunden|std\.?|arbeitstage)/.test(lower) ||
+      lower.includes('arbeitstage') ||
+      lower.includes('erlaubnis der ausländerbehörde') ||
+      lower.includes('employment only')) {
+    return 'RESTRICTED';
+  }
+
   if (lower.includes('erwerbstätigkeit erlaubt') || 
-      lower.includes('beschäftigung gestattet') ||
+      /(?:^|[^a-zäöüß])beschäftigung gestattet/.test(lower) ||
       lower.includes('any employment permitted') ||
       lower.includes('employment permitted')) {
     return 'ANY_EMPLOYMENT_ALLOWED';
   }
 
-  if (lower.includes('nur bei') ||
-      lower.includes('nur als') ||
-      lower.includes('nur in') ||
-      lower.includes('beschäftigung nur bei') ||
-      lower.includes('beschäftigung nur als') ||
-      lower.includes('employment only')) {
-    return 'RESTRICTED';
-  }
-
   return 'UNKNOWN';
 }
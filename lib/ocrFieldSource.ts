@@ -0,0 +1,39 @@
+// lib/ocrFieldSource.ts
+
+// Where an OCR guess came from and how far to trust it. Kept free of the OCR
+// engines so the check form can import it.
+
+import type { OcrBox } from './ocrProviders';
+
+export const ocrExtractionMethods = [
+  'MRZ',              // machine-readable zone with a matching check digit
+  'LABEL_PROXIMITY',  // value printed on or next to its label ("Gültig bis")
+  'KEYWORD',          // value implied by a keyword in the text ("Blaue Karte EU")
+  'FALLBACK_REGEX',   // first text anywhere that looks like the value
+] as const;
+export type OcrExtractionMethod = typeof ocrExtractionMethods[number];
+
+// How often each method is right on its own, before the engine's confidence
+// in the line is taken into account
+export const METHOD_CONFIDENCE: Record<OcrExtractionMethod, number> = {
+  MRZ: 0.98,
+  LABEL_PROXIMITY: 0.8,
+  KEYWORD: 0.7,
+  FALLBACK_REGEX: 0.3,
+};
+
+// Auto-filled values below this are highlighted for HR to verify
+export const LOW_CONFIDENCE_THRESHOLD = 0.6;
+
+export interface OcrFieldSource {
+  method: OcrExtractionMethod;
+  confidence: number;   // 0–1
+  lineNumber?: number;  // 1-based line of the OCR text the value was read from
+  line?: string;        // text of that line
+  page?: number;        // PDFs: page of that line
+  box?: OcrBox;         // position of the line on the page, when the engine reported it
+}
+
+export function isLowConfidence(source: OcrFieldSource | undefined): boolean {
+  return source !== undefined && source.confidence < LOW_CONFIDENCE_THRESHOLD;
+}
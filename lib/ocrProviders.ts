@@ -0,0 +1,202 @@
+// lib/ocrProviders.ts
+
+// OCR engines behind extractFieldsFromDocument. Google Cloud Vision sends the
+// image to Google; Tesseract runs inside the server process, for customers
+// who must keep passport and residence-card images on their own hardware.
+// The field guessers in lib/ocr.ts only see the text, so they work the same
+// on the output of either engine.
+
+import { loadImage } from '@napi-rs/canvas';
+import vision, { protos } from '@google-cloud/vision';
+import { createWorker, type Worker } from 'tesseract.js';
+import { ocrProviders, type OcrProviderName } from '../shared/schema';
+
+type VisionWord = protos.google.cloud.vision.v1.IWord;
+type VisionVertex = protos.google.cloud.vision.v1.IVertex;
+
+// Position on the page as fractions of its width and height (0–1), so it can
+// be drawn over the image at any display size
+export interface OcrBox {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface OcrLine {
+  text: string;
+  box: OcrBox;
+  confidence?: number; // 0–1, as reported by the engine
+}
+
+export interface OcrRecognition {
+  text: string;     // full text; empty when nothing was recognised
+  lines: OcrLine[]; // text lines with their position, in reading order
+}
+
+export interface OcrProvider {
+  name: OcrProviderName;
+  // Engine build and settings; cached results are only reused for the same version
+  readonly version: string;
+  // Reads one image (PDFs are split into page images first, see lib/pdfPages.ts)
+  recognize(fileBuffer: Buffer): Promise<OcrRecognition>;
+}
+
+function toBox(x0: number, y0: number, x1: number, y1: number, pageWidth: number, pageHeight: number): OcrBox {
+  const round = (value: number) => Math.round(value * 10000) / 10000;
+  return {
+    x: round(x0 / pageWidth),
+    y: round(y0 / pageHeight),
+    width: round((x1 - x0) / pageWidth),
+    height: round((y1 - y0) / pageHeight),
+  };
+}
+
+/**
+ * Groups the words of a Vision response into lines, using the line breaks
+ * Vision detected after each word.
+ */
+function visionLines(words: VisionWord[], pageWidth: number, pageHeight: number): OcrLine[] {
+  const lines: OcrLine[] = [];
+  let current: VisionWord[] = [];
+  const flush = () => {
+    if (current.length === 0) return;
+    const vertices: VisionVertex[] = current.flatMap((word) => word.boundingBox?.vertices ?? []);
+    const xs = vertices.map((vertex) => vertex.x ?? 0);
+    const ys = vertices.map((vertex) => vertex.y ?? 0);
+    const confidences = current.map((word) => word.confidence).filter((value): value is number => typeof value === 'number');
+    lines.push({
+      text: current.map((word) => (word.symbols ?? []).map((symbol) => symbol.text ?? '').join('')).join(' '),
+      box: toBox(Math.min(...xs), Math.min(...ys), Math.max(...xs), Math.max(...ys), pageWidth, pageHeight),
+      confidence: confidences.length > 0 ? confidences.reduce((sum, value) => sum + value, 0) / confidences.length : undefined,
+    });
+    current = [];
+  };
+
+  for (const word of words) {
+    current.push(word);
+    const lastSymbol = word.symbols?.[word.symbols.length - 1];
+    const breakType = lastSymbol?.property?.detectedBreak?.type;
+    if (breakType === 'EOL_SURE_SPACE' || breakType === 'LINE_BREAK' || breakType === 3 || breakType === 5) {
+      flush();
+    }
+  }
+  flush();
+  return lines;
+}
+
+export function createGoogleVisionProvider(): OcrProvider {
+  return {
+    name: 'GOOGLE_VISION',
+    version: 'vision-v1/text-detection',
+    async recognize(fileBuffer) {
+      const credentialsJson = process.env.GOOGLE_CLOUD_VISION_CREDENTIALS;
+
+      if (!credentialsJson) {
+        throw new Error('GOOGLE_CLOUD_VISION_CREDENTIALS environment variable is not set. Please configure it in Replit Secrets as a JSON string.');
+      }
+
+      let credentials;
+      try {
+        credentials = JSON.parse(credentialsJson);
+      } catch (error) {
+        throw new Error('GOOGLE_CLOUD_VISION_CREDENTIALS must be a valid JSON string. Please check your Replit Secrets configuration.');
+      }
+
+      const client = new vision.ImageAnnotatorClient({
+        credentials,
+      });
+
+      try {
+        const [result] = await client.textDetection({
+          image: { content: fileBuffer },
+        });
+        const detections = result.textAnnotations;
+        const text = detections && detections.length > 0 ? detections[0].description || '' : '';
+        const page = result.fullTextAnnotation?.pages?.[0];
+        const words = (page?.blocks ?? []).flatMap((block) =>
+          (block.paragraphs ?? []).flatMap((paragraph) => paragraph.words ?? [])
+        );
+        const lines = page?.width && page.height ? visionLines(words, page.width, page.height) : [];
+        return { text, lines };
+      } catch (error: any) {
+        if (error.code === 7) {
+          throw new Error('Invalid Google Cloud Vision credentials. Please verify your service account JSON in Replit Secrets.');
+        }
+        throw new Error(`Google Cloud Vision API error: ${error.message || 'Unknown error occurred during text extraction.'}`);
+      }
+    },
+  };
+}
+
+/**
+ * Local Tesseract (German + English by default). The language data is read
+ * from TESSERACT_LANG_PATH when set; otherwise tesseract.js downloads it once
+ * and caches it, so fully offline installs should point TESSERACT_LANG_PATH
+ * at a directory with deu.traineddata and eng.traineddata.
+ */
+export function createTesseractProvider(): OcrProvider {
+  // One worker for the whole process; loading the language models is slow
+  let workerPromise: Promise<Worker> | null = null;
+  const getLanguages = () => (process.env.TESSERACT_LANGUAGES || 'deu+eng').split('+');
+  const getWorker = () => {
+    if (!workerPromise) {
+      const languages = getLanguages();
+      const langPath = process.env.TESSERACT_LANG_PATH;
+      workerPromise = createWorker(languages, undefined, langPath ? { langPath, gzip: false } : {});
+      // Let the next request try again instead of reusing a failed start
+      workerPromise.catch(() => {
+        workerPromise = null;
+      });
+    }
+    return workerPromise;
+  };
+
+  return {
+    name: 'TESSERACT',
+    get version() {
+      return `tesseract.js-6/${getLanguages().join('+')}`;
+    },
+    async recognize(fileBuffer) {
+      try {
+        const worker = await getWorker();
+        const [{ data }, image] = await Promise.all([
+          worker.recognize(fileBuffer, {}, { text: true, blocks: true }),
+          loadImage(fileBuffer),
+        ]);
+        const lines = (data.blocks ?? []).flatMap((block) =>
+          block.paragraphs.flatMap((paragraph) => paragraph.lines)
+        ).map((line) => ({
+          text: line.text.trim(),
+          box: toBox(line.bbox.x0, line.bbox.y0, line.bbox.x1, line.bbox.y1, image.width, image.height),
+          confidence: line.confidence / 100,
+        }));
+        return { text: data.text.trim(), lines };
+      } catch (error: any) {
+        throw new Error(`Tesseract OCR error: ${error.message || 'Unknown error occurred during text extraction.'}`);
+      }
+    },
+  };
+}
+
+const providers: Record<OcrProviderName, OcrProvider> = {
+  GOOGLE_VISION: createGoogleVisionProvider(),
+  TESSERACT: createTesseractProvider(),
+};
+
+/**
+ * The provider named in OCR_PROVIDER ("google_vision" or "tesseract"). When it
+ * is not set, Google Vision is used if its credentials are configured and
+ * Tesseract otherwise.
+ */
+export function getOcrProvider(): OcrProvider {
+  const configured = process.env.OCR_PROVIDER?.trim();
+  if (configured) {
+    const name = configured.toUpperCase().replace(/-/g, '_');
+    if (!(ocrProviders as readonly string[]).includes(name)) {
+      throw new Error(`OCR_PROVIDER must be one of ${ocrProviders.join(', ')} (got "${configured}").`);
+    }
+    return providers[name as OcrProviderName];
+  }
+  return process.env.GOOGLE_CLOUD_VISION_CREDENTIALS ? providers.GOOGLE_VISION : providers.TESSERACT;
+}
@@ -0,0 +1,80 @@
+// lib/pdfPages.ts
+
+// Scanned PDFs (Zusatzblatt, approval letters, multi-page passport copies)
+// are split into pages and rendered to PNG on the server, so every OCR engine
+// only ever sees images. Rendering is local: no page leaves the process.
+
+import { createCanvas } from '@napi-rs/canvas';
+import { createRequire } from 'module';
+import path from 'path';
+
+// Enough resolution for OCR of small print without huge page images
+export const RENDER_DPI = 300;
+export const PDF_POINTS_PER_INCH = 72;
+
+// Longer uploads are almost never a single document; keep OCR time bounded
+export const MAX_PDF_PAGES = 10;
+
+export function isPdf(fileBuffer: Buffer): boolean {
+  return fileBuffer.subarray(0, 5).toString('latin1') === '%PDF-';
+}
+
+export interface RenderedPdf {
+  pages: Buffer[];      // PNG per page rendered, in page order
+  totalPages: number;   // pages in the PDF, including any beyond MAX_PDF_PAGES
+}
+
+// 1-based, both ends included
+export interface PdfPageRange {
+  from: number;
+  to: number;
+}
+
+/**
+ * Renders the pages in the range, by default the first MAX_PDF_PAGES, to PNG
+ * images; pages[0] is page `from`. Pages beyond MAX_PDF_PAGES are never
+ * rendered.
+ */
+export async function renderPdfPages(
+  fileBuffer: Buffer,
+  range: PdfPageRange = { from: 1, to: MAX_PDF_PAGES }
+): Promise<RenderedPdf> {
+  // Loaded on first use; most uploads are images
+  const pdfjs = await import('pdfjs-dist/legacy/build/pdf.mjs');
+  // Fonts for PDFs that reference the standard 14 fonts without embedding them
+  const standardFontDataUrl = path.join(
+    path.dirname(createRequire(import.meta.url).resolve('pdfjs-dist/package.json')),
+    'standard_fonts/'
+  );
+
+  let document;
+  try {
+    document = await pdfjs.getDocument({
+      data: new Uint8Array(fileBuffer),
+      isEvalSupported: false,
+      useSystemFonts: false,
+      standardFontDataUrl,
+    }).promise;
+  } catch (error: any) {
+    throw new Error(`The PDF could not be opened: ${error.message || 'the file may be damaged or password-protected.'}`);
+  }
+
+  try {
+    const lastPage = Math.min(range.to, document.numPages, MAX_PDF_PAGES);
+    const pages: Buffer[] = [];
+    for (let pageNumber = Math.max(range.from, 1); pageNumber <= lastPage; pageNumber++) {
+      const page = await document.getPage(pageNumber);
+      const viewport = page.getViewport({ scale: RENDER_DPI / PDF_POINTS_PER_INCH });
+      const canvas = createCanvas(Math.ceil(viewport.width), Math.ceil(viewport.height));
+      await page.render({
+        canvas: canvas as unknown as HTMLCanvasElement,
+        viewport,
+      }).promise;
+      pages.push(canvas.toBuffer('image/png'));
+      page.cleanup();
+    }
+    return { pages, totalPages: document.numPages };
+  } finally {
+    await document.destroy();
+  }
+}
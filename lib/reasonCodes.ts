@@ -0,0 +1,969 @@
+// lib/reasonCodes.ts
+
+// Structured findings behind a right-to-work decision. Every finding carries a
+// stable code so the UI can render it in German or English and reports can
+// count reasons across checks. The English text is also kept as a plain
+// string in `decisionDetails` for older screens and exports.
+
+export const reasonSeverities = ['INFO', 'WARNING', 'BLOCKER'] as const;
+export type ReasonSeverity = typeof reasonSeverities[number];
+
+export const reasonSources = ['RULES', 'AI', 'GUARDRAIL'] as const;
+export type ReasonSource = typeof reasonSources[number];
+
+export const reasonLanguages = ['en', 'de'] as const;
+export type ReasonLanguage = typeof reasonLanguages[number];
+
+export const reasonCodes = [
+  'EU_FREE_MOVEMENT',
+  'EU_ID_EXPIRED',
+  'PRIVILEGED_NATIONALITY',
+  'PRIVILEGED_NATIONALITY_NO_WORK_TITLE',
+  'WESTBALKAN_NATIONALITY_CONFIRMED',
+  'WESTBALKAN_NATIONALITY_MISMATCH',
+  'MRZ_CHECK_DIGIT_FAILED',
+  'IDENTITY_MISMATCH',
+  'AUTHENTICITY_SIGNAL',
+  'TITLE_UNLIMITED',
+  'CARD_EXPIRED',
+  'EXPIRY_MISSING',
+  'TITLE_EXPIRED',
+  'NO_WORK_TITLE',
+  'EMPLOYMENT_NOT_ALLOWED',
+  'SETTLEMENT_PERMIT',
+  'EU_LONG_TERM_RESIDENCE',
+  'TEMPORARY_PROTECTION',
+  'BA_APPROVAL_EXPIRED',
+  'BA_APPROVAL_NOT_YET_VALID',
+  'BA_APPROVAL_VALIDITY_MISSING',
+  'BA_APPROVAL_ENDS_BEFORE_TITLE',
+  'BA_APPROVAL_VALID',
+  'BA_APPROVAL_EMPLOYER_MISMATCH',
+  'BA_APPROVAL_OCCUPATION_MISMATCH',
+  'BA_APPROVAL_HOURS_EXCEEDED',
+  'BA_APPROVAL_LOCATION_MISMATCH',
+  'BA_APPROVAL_CONDITIONS_MATCH',
+  'EMPLOYMENT_PERMISSION_UNCLEAR',
+  'EMPLOYMENT_PERIOD_ENDED',
+  'EMPLOYMENT_PERIOD_ENDS_BEFORE_TITLE',
+  'EMPLOYER_MISMATCH',
+  'EMPLOYER_MATCH',
+  'EMPLOYER_PARTIAL_MATCH',
+  'EMPLOYER_RESTRICTION_UNKNOWN',
+  'OCCUPATION_MISMATCH',
+  'OCCUPATION_MATCH',
+  'OCCUPATION_SAME_GROUP',
+  'OCCUPATION_NOT_IN_TAXONOMY',
+  'OCCUPATION_RESTRICTION_UNKNOWN',
+  'HOURS_LIMIT_EXCEEDED',
+  'HOURS_WITHIN_LIMIT',
+  'HOURS_LIMIT_UNKNOWN',
+  'LOCATION_MISMATCH',
+  'LOCATION_MATCH',
+  'LOCATION_NOT_IN_GAZETTEER',
+  'LOCATION_RESTRICTION_UNKNOWN',
+  'BLUE_CARD_EMPLOYER_CHANGE_REVIEW',
+  'BLUE_CARD_EMPLOYER_CHANGE_NOTIFY',
+  'BLUE_CARD_SAME_EMPLOYER',
+  'BLUE_CARD_SALARY_MISSING',
+  'BLUE_CARD_SALARY_BELOW_THRESHOLD',
+  'BLUE_CARD_SALARY_MEETS_THRESHOLD',
+  'FIKTION_CONTINUATION',
+  'FIKTION_CHANGE',
+  'FIKTION_CONTINUATION_UNKNOWN',
+  'TOLERATED_STAY_PERMISSION_REQUIRED',
+  'TOLERATED_STAY_WITH_PERMISSION',
+  'CHANCENKARTE_NOT_AVAILABLE',
+  'CHANCENKARTE_HOURS_EXCEEDED',
+  'CHANCENKARTE_PART_TIME',
+  'STUDENT_WORK_DAYS_NOT_TRACKED',
+  'STUDENT_WORK_DAYS_EXCEEDED',
+  'STUDENT_WORK_DAYS_WITHIN_ALLOWANCE',
+  'EMPLOYER_BOUND_TITLE_UNCONFIRMED',
+  'EMPLOYER_BOUND_TITLE',
+  'NO_RED_FLAGS',
+  'AI_DECISION',
+  'AI_MISSING_INFORMATION',
+  'AI_RULES_CONFLICT',
+] as const;
+export type ReasonCode = typeof reasonCodes[number];
+
+export type ReasonParams = Record<string, string | number>;
+
+export interface DecisionReason {
+  code: ReasonCode;
+  severity: ReasonSeverity;
+  source: ReasonSource;
+  fields: string[];          // input fields the finding depends on
+  legalReference?: string;   // e.g. "§4a AufenthG"
+  params?: ReasonParams;     // values interpolated into the message
+  message: string;           // English text
+}
+
+interface ReasonDefinition {
+  severity: ReasonSeverity;
+  source: ReasonSource;
+  fields: string[];
+  legalReference?: string;
+  // Shown under "Missing information" rather than as a regular detail
+  missingInformation?: boolean;
+  label: Record<ReasonLanguage, string>;
+  message: Record<ReasonLanguage, (p: ReasonParams) => string>;
+}
+
+// "(match score 85%, via alias …)"; empty for reasons stored before scoring existed.
+function employerMatchSuffix(p: ReasonParams, language: ReasonLanguage): string {
+  if (p.score === undefined) return '';
+  const parts = [language === 'de' ? `Übereinstimmung ${p.score} %` : `match score ${p.score}%`];
+  if (p.matchedAlias) {
+    parts.push(language === 'de' ? `über Alias „${p.matchedAlias}“` : `via alias "${p.matchedAlias}"`);
+  }
+  return ` (${parts.join(', ')})`;
+}
+
+// "Nationals of Canada" / "Staatsangehörige von Kanada"; generic when only the
+// category was recorded, not the nationality itself.
+function nationalsOf(p: ReasonParams, language: ReasonLanguage, fallback: string): string {
+  if (language === 'de') return p.countryDe ? `Staatsangehörige von ${p.countryDe}` : fallback;
+  return p.countryEn ? `Nationals of ${p.countryEn}` : fallback;
+}
+
+// "€43,800" / "43.800 €"
+function euro(value: string | number | undefined, language: ReasonLanguage): string {
+  if (typeof value !== 'number') return value === undefined ? '?' : String(value);
+  return new Intl.NumberFormat(language === 'de' ? 'de-DE' : 'en-GB', {
+    style: 'currency',
+    currency: 'EUR',
+    minimumFractionDigits: Number.isInteger(value) ? 0 : 2,
+    maximumFractionDigits: 2,
+  }).format(value);
+}
+
+// Which Blue Card minimum applied; empty for the standard amount.
+function salaryCategorySuffix(p: ReasonParams, language: ReasonLanguage): string {
+  if (p.salaryCategory === 'SHORTAGE_OCCUPATION') {
+    return language === 'de' ? ' für Engpassberufe' : ' for shortage occupations';
+  }
+  if (p.salaryCategory === 'NEW_ENTRANT') {
+    return language === 'de' ? ' für Berufsanfänger' : ' for new entrants';
+  }
+  return '';
+}
+
+// "31 Dec 2026" / "31.12.2026"
+function dateText(value: string | number | undefined, language: ReasonLanguage): string {
+  if (typeof value !== 'string') return value === undefined ? '?' : String(value);
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) return value;
+  return new Intl.DateTimeFormat(language === 'de' ? 'de-DE' : 'en-GB', {
+    day: language === 'de' ? '2-digit' : 'numeric',
+    month: language === 'de' ? '2-digit' : 'short',
+    year: 'numeric',
+    timeZone: 'UTC',
+  }).format(date);
+}
+
+// "12 Mar 1990" for dates of birth, quoted as recorded otherwise; `side` picks
+// valueA / valueB and their German variants.
+function identityValue(p: ReasonParams, side: 'A' | 'B', language: ReasonLanguage): string {
+  const value = (language === 'de' ? p[`value${side}De`] : undefined) ?? p[`value${side}`];
+  if (p.identityField === 'DATE_OF_BIRTH') return dateText(value, language);
+  return language === 'de' ? `„${value}“` : `"${value}"`;
+}
+
+// "(KldB 51312 / 51301)"; empty when either side was not in the taxonomy.
+function occupationCodeSuffix(p: ReasonParams): string {
+  if (!p.permitKldb || !p.plannedKldb) return '';
+  return ` (KldB ${p.permitKldb} / ${p.plannedKldb})`;
+}
+
+const REASON_DEFINITIONS: Record<ReasonCode, ReasonDefinition> = {
+  EU_FREE_MOVEMENT: {
+    severity: 'INFO',
+    source: 'RULES',
+    fields: ['citizenshipCategory'],
+    legalReference: '§2 FreizügG/EU',
+    label: { en: 'EU/EEA/Swiss national', de: 'EU-/EWR-/Schweizer Staatsangehörigkeit' },
+    message: {
+      en: () => 'EU/EEA/Swiss national – generally free right to work in Germany (subject to registration obligations).',
+      de: () => 'Staatsangehörigkeit der EU/des EWR/der Schweiz – grundsätzlich freier Arbeitsmarktzugang in Deutschland (Meldepflichten beachten).',
+    },
+  },
+  EU_ID_EXPIRED: {
+    severity: 'WARNING',
+    source: 'RULES',
+    fields: ['documentValidTo', 'cardValidTo'],
+    label: { en: 'ID document expired', de: 'Ausweisdokument abgelaufen' },
+    message: {
+      en: () => 'Document appears to be expired – ask for updated ID/passport.',
+      de: () => 'Das Dokument scheint abgelaufen zu sein – aktuellen Ausweis/Reisepass anfordern.',
+    },
+  },
+  PRIVILEGED_NATIONALITY: {
+    severity: 'INFO',
+    source: 'RULES',
+    fields: ['nationality', 'citizenshipCategory'],
+    legalReference: '§26 Abs. 1 BeschV',
+    label: { en: 'Privileged nationality', de: 'Privilegierte Staatsangehörigkeit' },
+    message: {
+      en: (p) => `${nationalsOf(p, 'en', 'Nationals of the privileged countries')} can be approved for any employment regardless of qualification; a new or different job still needs the title to be amended before work starts.`,
+      de: (p) => `${nationalsOf(p, 'de', 'Staatsangehörige der privilegierten Staaten')} können unabhängig von der Qualifikation für jede Beschäftigung zugelassen werden; eine neue oder andere Tätigkeit erfordert trotzdem vor Arbeitsbeginn eine Änderung des Titels.`,
+    },
+  },
+  PRIVILEGED_NATIONALITY_NO_WORK_TITLE: {
+    severity: 'INFO',
+    source: 'RULES',
+    fields: ['nationality', 'citizenshipCategory', 'documentType'],
+    legalReference: '§41 AufenthV',
+    label: { en: 'Title can be applied for in Germany', de: 'Titel kann im Inland beantragt werden' },
+    message: {
+      en: (p) => `${nationalsOf(p, 'en', 'Nationals of the privileged countries')} may be able to apply for a residence permit for employment from within Germany, but must not start work until it is issued.`,
+      de: (p) => `${nationalsOf(p, 'de', 'Staatsangehörige der privilegierten Staaten')} können den Aufenthaltstitel zur Beschäftigung ggf. im Inland beantragen, dürfen die Arbeit aber erst nach Erteilung aufnehmen.`,
+    },
+  },
+  WESTBALKAN_NATIONALITY_CONFIRMED: {
+    severity: 'INFO',
+    source: 'RULES',
+    fields: ['nationality', 'documentType'],
+    legalReference: '§26 Abs. 2 BeschV',
+    label: { en: 'Western Balkans nationality', de: 'Staatsangehörigkeit Westbalkan' },
+    message: {
+      en: (p) => `${nationalsOf(p, 'en', 'Nationals of the Western Balkans states')} are covered by the Westbalkanregelung.`,
+      de: (p) => `${nationalsOf(p, 'de', 'Staatsangehörige der Westbalkanstaaten')} fallen unter die Westbalkanregelung.`,
+    },
+  },
+  WESTBALKAN_NATIONALITY_MISMATCH: {
+    severity: 'WARNING',
+    source: 'RULES',
+    fields: ['nationality', 'documentType'],
+    legalReference: '§26 Abs. 2 BeschV',
+    label: { en: 'Nationality not covered by Westbalkanregelung', de: 'Staatsangehörigkeit nicht von Westbalkanregelung erfasst' },
+    message: {
+      en: (p) => `The Westbalkanregelung only applies to nationals of Albania, Bosnia and Herzegovina, Kosovo, Montenegro, North Macedonia and Serbia${p.countryEn ? `, not ${p.countryEn}` : ''} – check the title type and nationality.`,
+      de: (p) => `Die Westbalkanregelung gilt nur für Staatsangehörige von Albanien, Bosnien und Herzegowina, Kosovo, Montenegro, Nordmazedonien und Serbien${p.countryDe ? `, nicht ${p.countryDe}` : ''} – Titelart und Staatsangehörigkeit prüfen.`,
+    },
+  },
+  MRZ_CHECK_DIGIT_FAILED: {
+    severity: 'WARNING',
+    source: 'RULES',
+    fields: ['ocrExtractedFields'],
+    label: { en: 'MRZ check digit failed', de: 'MRZ-Prüfziffer falsch' },
+    message: {
+      en: (p) => `The machine-readable zone of the scanned document failed its check digit (${p.failedFields}) – the scan may be misread; compare the document with the original before relying on it.`,
+      de: (p) => `Die maschinenlesbare Zone des gescannten Dokuments hat eine falsche Prüfziffer (${p.failedFieldsDe ?? p.failedFields}) – der Scan ist möglicherweise fehlerhaft; das Dokument vor der Verwendung mit dem Original abgleichen.`,
+    },
+  },
+  IDENTITY_MISMATCH: {
+    severity: 'WARNING',
+    source: 'RULES',
+    fields: ['identity'],
+    label: { en: 'Identity details differ', de: 'Personalien weichen ab' },
+    message: {
+      en: (p) => `The ${p.field} differs between the ${p.sourceA} (${identityValue(p, 'A', 'en')}) and the ${p.sourceB} (${identityValue(p, 'B', 'en')}) – confirm both belong to the same person before relying on them.`,
+      de: (p) => `${p.fieldDe ?? p.field} weicht ab: ${p.sourceADe ?? p.sourceA} ${identityValue(p, 'A', 'de')}, ${p.sourceBDe ?? p.sourceB} ${identityValue(p, 'B', 'de')} – vor der Verwendung prüfen, ob beide Angaben zu derselben Person gehören.`,
+    },
+  },
+  AUTHENTICITY_SIGNAL: {
+    severity: 'WARNING',
+    source: 'RULES',
+    fields: ['authenticitySignals'],
+    label: { en: 'Possible sign of an altered document', de: 'Möglicher Hinweis auf ein verändertes Dokument' },
+    message: {
+      en: (p) => `${p.signal}: ${p.detail} Compare the document with the original before relying on it.`,
+      de: (p) => `${p.signalDe ?? p.signal}: ${p.detailDe ?? p.detail} Das Dokument vor der Verwendung mit dem Original abgleichen.`,
+    },
+  },
+  TITLE_UNLIMITED: {
+    severity: 'INFO',
+    source: 'RULES',
+    fields: ['isTitleUnlimited'],
+    label: { en: 'Unlimited title', de: 'Unbefristeter Titel' },
+    message: {
+      en: () => 'Residence title is unlimited (unbefristet) – the right to work does not expire.',
+      de: () => 'Der Aufenthaltstitel ist unbefristet – die Arbeitserlaubnis läuft nicht ab.',
+    },
+  },
+  CARD_EXPIRED: {
+    severity: 'WARNING',
+    source: 'RULES',
+    fields: ['cardValidTo'],
+    label: { en: 'Card expired', de: 'Karte abgelaufen' },
+    message: {
+      en: () => 'The card carrying the unlimited title has expired – the title stays valid, but ask the holder to renew the card.',
+      de: () => 'Die Karte zum unbefristeten Titel ist abgelaufen – der Titel bleibt gültig, aber die Karte muss erneuert werden.',
+    },
+  },
+  EXPIRY_MISSING: {
+    severity: 'WARNING',
+    source: 'RULES',
+    fields: ['documentValidTo'],
+    missingInformation: true,
+    label: { en: 'Expiry date missing', de: 'Ablaufdatum fehlt' },
+    message: {
+      en: () => 'No expiry date was provided for a time-limited residence title – manual review required.',
+      de: () => 'Für einen befristeten Aufenthaltstitel wurde kein Ablaufdatum angegeben – manuelle Prüfung erforderlich.',
+    },
+  },
+  TITLE_EXPIRED: {
+    severity: 'BLOCKER',
+    source: 'RULES',
+    fields: ['documentValidTo'],
+    legalReference: '§4a AufenthG',
+    label: { en: 'Residence title expired', de: 'Aufenthaltstitel abgelaufen' },
+    message: {
+      en: () => 'Residence title is expired – cannot be used for employment.',
+      de: () => 'Der Aufenthaltstitel ist abgelaufen – eine Beschäftigung ist damit nicht möglich.',
+    },
+  },
+  NO_WORK_TITLE: {
+    severity: 'BLOCKER',
+    source: 'RULES',
+    fields: ['documentType'],
+    legalReference: '§4a AufenthG',
+    label: { en: 'No-work residence status', de: 'Status ohne Erwerbstätigkeit' },
+    message: {
+      en: () => 'Residence status appears to be a visit/tourist or no-work title.',
+      de: () => 'Der Aufenthaltsstatus scheint ein Besuchs-/Touristenstatus oder ein Titel ohne Erwerbstätigkeit zu sein.',
+    },
+  },
+  EMPLOYMENT_NOT_ALLOWED: {
+    severity: 'BLOCKER',
+    source: 'RULES',
+    fields: ['employmentPermission'],
+    legalReference: '§4a AufenthG',
+    label: { en: 'Employment not allowed', de: 'Erwerbstätigkeit nicht erlaubt' },
+    message: {
+      en: () => 'Permit explicitly does not allow employment.',
+      de: () => 'Der Titel erlaubt ausdrücklich keine Erwerbstätigkeit.',
+    },
+  },
+  SETTLEMENT_PERMIT: {
+    severity: 'INFO',
+    source: 'RULES',
+    fields: ['documentType'],
+    legalReference: '§9 AufenthG',
+    label: { en: 'Settlement permit', de: 'Niederlassungserlaubnis' },
+    message: {
+      en: () => 'Niederlassungserlaubnis (settlement permit) – entitles the holder to any employment (§9 AufenthG).',
+      de: () => 'Niederlassungserlaubnis – berechtigt zu jeder Erwerbstätigkeit (§9 AufenthG).',
+    },
+  },
+  EU_LONG_TERM_RESIDENCE: {
+    severity: 'INFO',
+    source: 'RULES',
+    fields: ['documentType'],
+    legalReference: '§9a AufenthG',
+    label: { en: 'EU long-term residence', de: 'Daueraufenthalt-EU' },
+    message: {
+      en: () => 'Daueraufenthalt-EU (EU long-term residence) – entitles the holder to any employment (§9a AufenthG).',
+      de: () => 'Erlaubnis zum Daueraufenthalt-EU – berechtigt zu jeder Erwerbstätigkeit (§9a AufenthG).',
+    },
+  },
+  TEMPORARY_PROTECTION: {
+    severity: 'INFO',
+    source: 'RULES',
+    fields: ['documentType'],
+    legalReference: '§24 AufenthG',
+    label: { en: 'Temporary protection', de: 'Vorübergehender Schutz' },
+    message: {
+      en: () => 'Temporary protection under §24 AufenthG – any employment is permitted by law.',
+      de: () => 'Vorübergehender Schutz nach §24 AufenthG – jede Erwerbstätigkeit ist kraft Gesetzes erlaubt.',
+    },
+  },
+  BA_APPROVAL_EXPIRED: {
+    severity: 'BLOCKER',
+    source: 'RULES',
+    fields: ['baApproval'],
+    legalReference: '§39 AufenthG',
+    label: { en: 'BA approval expired', de: 'BA-Zustimmung abgelaufen' },
+    message: {
+      en: (p) => `The Bundesagentur für Arbeit approval expired on ${dateText(p.approvalValidTo, 'en')} – the residence title no longer covers this employment.`,
+      de: (p) => `Die Zustimmung der Bundesagentur für Arbeit ist am ${dateText(p.approvalValidTo, 'de')} abgelaufen – der Aufenthaltstitel deckt diese Beschäftigung nicht mehr ab.`,
+    },
+  },
+  BA_APPROVAL_NOT_YET_VALID: {
+    severity: 'WARNING',
+    source: 'RULES',
+    fields: ['baApproval'],
+    legalReference: '§39 AufenthG',
+    label: { en: 'BA approval not yet valid', de: 'BA-Zustimmung noch nicht gültig' },
+    message: {
+      en: (p) => `The Bundesagentur für Arbeit approval only applies from ${dateText(p.approvalValidFrom, 'en')} – employment must not start before then.`,
+      de: (p) => `Die Zustimmung der Bundesagentur für Arbeit gilt erst ab dem ${dateText(p.approvalValidFrom, 'de')} – die Beschäftigung darf nicht vorher beginnen.`,
+    },
+  },
+  BA_APPROVAL_VALIDITY_MISSING: {
+    severity: 'WARNING',
+    source: 'RULES',
+    fields: ['baApproval'],
+    legalReference: '§39 AufenthG',
+    missingInformation: true,
+    label: { en: 'BA approval validity missing', de: 'Gültigkeit der BA-Zustimmung fehlt' },
+    message: {
+      en: () => 'No end date was recorded for the Bundesagentur für Arbeit approval – check how long it applies.',
+      de: () => 'Für die Zustimmung der Bundesagentur für Arbeit wurde kein Enddatum erfasst – bitte die Geltungsdauer prüfen.',
+    },
+  },
+  BA_APPROVAL_ENDS_BEFORE_TITLE: {
+    severity: 'INFO',
+    source: 'RULES',
+    fields: ['baApproval', 'documentValidTo'],
+    legalReference: '§39 AufenthG',
+    label: { en: 'BA approval ends first', de: 'BA-Zustimmung endet zuerst' },
+    message: {
+      en: (p) => `Work authorisation ends on ${dateText(p.approvalValidTo, 'en')} when the Bundesagentur für Arbeit approval expires${p.titleValidTo ? `, before the residence title (${dateText(p.titleValidTo, 'en')})` : ''}.`,
+      de: (p) => `Die Beschäftigungserlaubnis endet am ${dateText(p.approvalValidTo, 'de')} mit der Zustimmung der Bundesagentur für Arbeit${p.titleValidTo ? `, vor dem Aufenthaltstitel (${dateText(p.titleValidTo, 'de')})` : ''}.`,
+    },
+  },
+  BA_APPROVAL_VALID: {
+    severity: 'INFO',
+    source: 'RULES',
+    fields: ['baApproval', 'documentValidTo'],
+    legalReference: '§39 AufenthG',
+    label: { en: 'BA approval valid', de: 'BA-Zustimmung gültig' },
+    message: {
+      en: (p) => `The Bundesagentur für Arbeit approval is valid until ${dateText(p.approvalValidTo, 'en')} and does not end before the residence title.`,
+      de: (p) => `Die Zustimmung der Bundesagentur für Arbeit gilt bis ${dateText(p.approvalValidTo, 'de')} und endet nicht vor dem Aufenthaltstitel.`,
+    },
+  },
+  BA_APPROVAL_EMPLOYER_MISMATCH: {
+    severity: 'WARNING',
+    source: 'RULES',
+    fields: ['baApproval', 'hiringEmployerName', 'hiringEmployerAliases'],
+    legalReference: '§39 AufenthG',
+    label: { en: 'Different employer on BA approval', de: 'Anderer Arbeitgeber in BA-Zustimmung' },
+    message: {
+      en: (p) => `The Bundesagentur für Arbeit approval names "${p.approvalEmployerName}", not clearly the hiring company ("${p.hiringEmployerName}")${employerMatchSuffix(p, 'en')}.`,
+      de: (p) => `Die Zustimmung der Bundesagentur für Arbeit nennt „${p.approvalEmployerName}“, nicht eindeutig das einstellende Unternehmen („${p.hiringEmployerName}“)${employerMatchSuffix(p, 'de')}.`,
+    },
+  },
+  BA_APPROVAL_OCCUPATION_MISMATCH: {
+    severity: 'WARNING',
+    source: 'RULES',
+    fields: ['baApproval', 'plannedRoleCategory'],
+    legalReference: '§39 AufenthG',
+    label: { en: 'Occupation not covered by BA approval', de: 'Tätigkeit nicht von BA-Zustimmung gedeckt' },
+    message: {
+      en: (p) => `The Bundesagentur für Arbeit approval covers work as "${p.approvalOccupation}", which may not include the planned role ("${p.plannedRoleCategory}")${occupationCodeSuffix(p)}.`,
+      de: (p) => `Die Zustimmung der Bundesagentur für Arbeit gilt für eine Beschäftigung als „${p.approvalOccupation}“, die die geplante Stelle („${p.plannedRoleCategory}“) möglicherweise nicht umfasst${occupationCodeSuffix(p)}.`,
+    },
+  },
+  BA_APPROVAL_HOURS_EXCEEDED: {
+    severity: 'WARNING',
+    source: 'RULES',
+    fields: ['baApproval', 'contractHoursPerWeek'],
+    legalReference: '§39 AufenthG',
+    label: { en: 'Hours differ from BA approval', de: 'Stunden weichen von BA-Zustimmung ab' },
+    message: {
+      en: (p) => `Contract hours (${p.contractHoursPerWeek}h/week) exceed the hours in the Bundesagentur für Arbeit approval (${p.approvalHoursPerWeek}h/week).`,
+      de: (p) => `Die vertraglichen Stunden (${p.contractHoursPerWeek} Std./Woche) überschreiten die Stunden in der Zustimmung der Bundesagentur für Arbeit (${p.approvalHoursPerWeek} Std./Woche).`,
+    },
+  },
+  BA_APPROVAL_LOCATION_MISMATCH: {
+    severity: 'WARNING',
+    source: 'RULES',
+    fields: ['baApproval', 'plannedWorkCity'],
+    legalReference: '§39 AufenthG',
+    label: { en: 'Location differs from BA approval', de: 'Arbeitsort weicht von BA-Zustimmung ab' },
+    message: {
+      en: (p) => `Planned work location (${p.workLocationArea ?? p.plannedWorkCity}) is not the place of work in the Bundesagentur für Arbeit approval ("${p.approvalWorkLocation}").`,
+      de: (p) => `Der geplante Arbeitsort (${p.workLocationArea ?? p.plannedWorkCity}) ist nicht der Beschäftigungsort in der Zustimmung der Bundesagentur für Arbeit („${p.approvalWorkLocation}“).`,
+    },
+  },
+  BA_APPROVAL_CONDITIONS_MATCH: {
+    severity: 'INFO',
+    source: 'RULES',
+    fields: ['baApproval', 'hiringEmployerName', 'plannedRoleCategory', 'contractHoursPerWeek', 'plannedWorkCity'],
+    legalReference: '§39 AufenthG',
+    label: { en: 'Matches BA approval', de: 'Entspricht BA-Zustimmung' },
+    message: {
+      en: (p) => `The planned employment matches the conditions of the Bundesagentur für Arbeit approval (${p.checkedConditions}).`,
+      de: (p) => `Die geplante Beschäftigung entspricht den Bedingungen der Zustimmung der Bundesagentur für Arbeit (${p.checkedConditionsDe ?? p.checkedConditions}).`,
+    },
+  },
+  EMPLOYMENT_PERMISSION_UNCLEAR: {
+    severity: 'WARNING',
+    source: 'RULES',
+    fields: ['employmentPermission'],
+    label: { en: 'Work permission unclear', de: 'Erwerbstätigkeit unklar' },
+    message: {
+      en: () => 'Work permission wording is unclear – manual review required.',
+      de: () => 'Die Angabe zur Erwerbstätigkeit ist unklar – manuelle Prüfung erforderlich.',
+    },
+  },
+  EMPLOYMENT_PERIOD_ENDED: {
+    severity: 'BLOCKER',
+    source: 'RULES',
+    fields: ['employmentPermittedUntil'],
+    legalReference: '§12 AufenthG',
+    label: { en: 'Employment period ended', de: 'Beschäftigungszeitraum abgelaufen' },
+    message: {
+      en: (p) => `Employment was only permitted until ${dateText(p.permittedUntil, 'en')} (Nebenbestimmung) – the title no longer allows work.`,
+      de: (p) => `Die Beschäftigung war nur bis zum ${dateText(p.permittedUntil, 'de')} gestattet (Nebenbestimmung) – der Titel erlaubt keine Erwerbstätigkeit mehr.`,
+    },
+  },
+  EMPLOYMENT_PERIOD_ENDS_BEFORE_TITLE: {
+    severity: 'INFO',
+    source: 'RULES',
+    fields: ['employmentPermittedUntil', 'documentValidTo'],
+    legalReference: '§12 AufenthG',
+    label: { en: 'Employment period ends first', de: 'Beschäftigungszeitraum endet zuerst' },
+    message: {
+      en: (p) => `Employment is only permitted until ${dateText(p.permittedUntil, 'en')}${p.titleValidTo ? `, before the residence title ends (${dateText(p.titleValidTo, 'en')})` : ''}.`,
+      de: (p) => `Die Beschäftigung ist nur bis zum ${dateText(p.permittedUntil, 'de')} gestattet${p.titleValidTo ? `, vor dem Ende des Aufenthaltstitels (${dateText(p.titleValidTo, 'de')})` : ''}.`,
+    },
+  },
+  EMPLOYER_MISMATCH: {
+    severity: 'WARNING',
+    source: 'RULES',
+    fields: ['permitNamesSpecificEmployer', 'employerOnPermit', 'hiringEmployerName', 'hiringEmployerAliases'],
+    label: { en: 'Different employer on permit', de: 'Anderer Arbeitgeber im Titel' },
+    message: {
+      en: (p) => `Permit appears tied to a different employer ("${p.employerOnPermit}") than the hiring company ("${p.hiringEmployerName}")${employerMatchSuffix(p, 'en')}.`,
+      de: (p) => `Der Titel scheint an einen anderen Arbeitgeber („${p.employerOnPermit}“) gebunden zu sein als das einstellende Unternehmen („${p.hiringEmployerName}“)${employerMatchSuffix(p, 'de')}.`,
+    },
+  },
+  EMPLOYER_MATCH: {
+    severity: 'INFO',
+    source: 'RULES',
+    fields: ['permitNamesSpecificEmployer', 'employerOnPermit', 'hiringEmployerName', 'hiringEmployerAliases'],
+    label: { en: 'Employer matches permit', de: 'Arbeitgeber stimmt überein' },
+    message: {
+      en: (p) => `Permit appears to name the same employer as the hiring company${employerMatchSuffix(p, 'en')}.`,
+      de: (p) => `Der Titel scheint denselben Arbeitgeber wie das einstellende Unternehmen zu nennen${employerMatchSuffix(p, 'de')}.`,
+    },
+  },
+  EMPLOYER_PARTIAL_MATCH: {
+    severity: 'WARNING',
+    source: 'RULES',
+    fields: ['permitNamesSpecificEmployer', 'employerOnPermit', 'hiringEmployerName', 'hiringEmployerAliases'],
+    label: { en: 'Employer only partly matches', de: 'Arbeitgeber nur teilweise übereinstimmend' },
+    message: {
+      en: (p) => `Employer on the permit ("${p.employerOnPermit}") resembles "${p.matchedName}" but is not clearly the same legal entity${employerMatchSuffix(p, 'en')} – confirm it is the hiring employer or add it as an alias.`,
+      de: (p) => `Der Arbeitgeber im Titel („${p.employerOnPermit}“) ähnelt „${p.matchedName}“, ist aber nicht eindeutig dieselbe Gesellschaft${employerMatchSuffix(p, 'de')} – bitte bestätigen oder als Alias hinterlegen.`,
+    },
+  },
+  EMPLOYER_RESTRICTION_UNKNOWN: {
+    severity: 'WARNING',
+    source: 'RULES',
+    fields: ['permitNamesSpecificEmployer'],
+    missingInformation: true,
+    label: { en: 'Employer restriction unknown', de: 'Arbeitgeberbindung unbekannt' },
+    message: {
+      en: () => 'We could not determine from the information provided whether the permit is tied to a specific employer.',
+      de: () => 'Aus den Angaben ließ sich nicht feststellen, ob der Titel an einen bestimmten Arbeitgeber gebunden ist.',
+    },
+  },
+  OCCUPATION_MISMATCH: {
+    severity: 'WARNING',
+    source: 'RULES',
+    fields: ['permitLimitedToOccupation', 'occupationOnPermit', 'plannedRoleCategory'],
+    label: { en: 'Occupation may not match', de: 'Tätigkeit passt ggf. nicht' },
+    message: {
+      en: (p) => `Permit appears limited to occupation "${p.occupationOnPermit}", which may not match the planned role ("${p.plannedRoleCategory}")${occupationCodeSuffix(p)}.`,
+      de: (p) => `Der Titel scheint auf die Tätigkeit „${p.occupationOnPermit}“ beschränkt zu sein, die möglicherweise nicht zur geplanten Stelle („${p.plannedRoleCategory}“) passt${occupationCodeSuffix(p)}.`,
+    },
+  },
+  OCCUPATION_MATCH: {
+    severity: 'INFO',
+    source: 'RULES',
+    fields: ['permitLimitedToOccupation', 'occupationOnPermit', 'plannedRoleCategory'],
+    label: { en: 'Occupation matches permit', de: 'Tätigkeit stimmt überein' },
+    message: {
+      en: (p) => `Planned role broadly matches the occupation indicated on the permit${occupationCodeSuffix(p)}.`,
+      de: (p) => `Die geplante Stelle entspricht im Wesentlichen der im Titel genannten Tätigkeit${occupationCodeSuffix(p)}.`,
+    },
+  },
+  OCCUPATION_SAME_GROUP: {
+    severity: 'WARNING',
+    source: 'RULES',
+    fields: ['permitLimitedToOccupation', 'occupationOnPermit', 'plannedRoleCategory'],
+    label: { en: 'Occupation in same group only', de: 'Tätigkeit nur in derselben Berufsgruppe' },
+    message: {
+      en: (p) => `Planned role ("${p.plannedRoleCategory}") is in the same occupation group (${p.groupCode}${p.groupTitleEn ? ` ${p.groupTitleEn}` : ''}) as the occupation on the permit ("${p.occupationOnPermit}"), but is a different occupation${occupationCodeSuffix(p)} – check whether the permit covers it.`,
+      de: (p) => `Die geplante Stelle („${p.plannedRoleCategory}“) gehört zur selben Berufsgruppe (${p.groupCode}${p.groupTitleDe ? ` ${p.groupTitleDe}` : ''}) wie die Tätigkeit im Titel („${p.occupationOnPermit}“), ist aber ein anderer Beruf${occupationCodeSuffix(p)} – prüfen, ob der Titel sie abdeckt.`,
+    },
+  },
+  OCCUPATION_NOT_IN_TAXONOMY: {
+    severity: 'INFO',
+    source: 'RULES',
+    fields: ['occupationOnPermit', 'plannedRoleCategory'],
+    label: { en: 'Occupation compared as text', de: 'Tätigkeit als Text verglichen' },
+    message: {
+      en: (p) => `Not in the bundled occupation list (${p.bundledOccupations} of ${p.totalOccupations} KldB 2010 occupations): ${p.unresolvedOccupations}. The occupations were compared as text only – verify manually.`,
+      de: (p) => `Nicht in der hinterlegten Berufsliste (${p.bundledOccupations} von ${p.totalOccupations} Berufsgattungen der KldB 2010): ${p.unresolvedOccupations}. Die Tätigkeiten wurden nur als Text verglichen – bitte manuell prüfen.`,
+    },
+  },
+  OCCUPATION_RESTRICTION_UNKNOWN: {
+    severity: 'WARNING',
+    source: 'RULES',
+    fields: ['permitLimitedToOccupation'],
+    missingInformation: true,
+    label: { en: 'Occupation restriction unknown', de: 'Tätigkeitsbeschränkung unbekannt' },
+    message: {
+      en: () => 'We could not determine from the information provided whether the permit is limited to a specific occupation.',
+      de: () => 'Aus den Angaben ließ sich nicht feststellen, ob der Titel auf eine bestimmte Tätigkeit beschränkt ist.',
+    },
+  },
+  HOURS_LIMIT_EXCEEDED: {
+    severity: 'WARNING',
+    source: 'RULES',
+    fields: ['hasHoursLimitOnPermit', 'hoursLimitPerWeekOnPermit', 'contractHoursPerWeek'],
+    label: { en: 'Hours limit exceeded', de: 'Stundengrenze überschritten' },
+    message: {
+      en: (p) => `Contract hours (${p.contractHoursPerWeek}h/week) exceed the permitted limit (${p.hoursLimitPerWeekOnPermit}h/week).`,
+      de: (p) => `Die vertraglichen Stunden (${p.contractHoursPerWeek} Std./Woche) überschreiten die erlaubte Grenze (${p.hoursLimitPerWeekOnPermit} Std./Woche).`,
+    },
+  },
+  HOURS_WITHIN_LIMIT: {
+    severity: 'INFO',
+    source: 'RULES',
+    fields: ['hasHoursLimitOnPermit', 'hoursLimitPerWeekOnPermit', 'contractHoursPerWeek'],
+    label: { en: 'Within hours limit', de: 'Innerhalb der Stundengrenze' },
+    message: {
+      en: (p) => `Contract hours (${p.contractHoursPerWeek}h/week) are within the stated limit (${p.hoursLimitPerWeekOnPermit}h/week).`,
+      de: (p) => `Die vertraglichen Stunden (${p.contractHoursPerWeek} Std./Woche) liegen innerhalb der angegebenen Grenze (${p.hoursLimitPerWeekOnPermit} Std./Woche).`,
+    },
+  },
+  HOURS_LIMIT_UNKNOWN: {
+    severity: 'WARNING',
+    source: 'RULES',
+    fields: ['hasHoursLimitOnPermit'],
+    missingInformation: true,
+    label: { en: 'Hours limit unknown', de: 'Stundengrenze unbekannt' },
+    message: {
+      en: () => 'We could not determine from the information provided whether there is an hours-per-week limit on the permit.',
+      de: () => 'Aus den Angaben ließ sich nicht feststellen, ob der Titel eine Begrenzung der Wochenstunden enthält.',
+    },
+  },
+  LOCATION_MISMATCH: {
+    severity: 'WARNING',
+    source: 'RULES',
+    fields: ['hasLocationRestriction', 'locationRestrictionDescription', 'plannedWorkCity'],
+    label: { en: 'Location may not match', de: 'Arbeitsort passt ggf. nicht' },
+    message: {
+      en: (p) => p.restrictedArea
+        ? `Planned work location ${p.workLocationArea} lies outside the area the permit is restricted to (${p.restrictedArea}).`
+        : `Permit may have a regional/location restriction ("${p.locationRestrictionDescription}") that may not match the planned work location (${p.plannedWorkCity}).`,
+      de: (p) => p.restrictedArea
+        ? `Der geplante Arbeitsort ${p.workLocationArea} liegt außerhalb des Gebiets, auf das der Titel beschränkt ist (${p.restrictedArea}).`
+        : `Der Titel enthält möglicherweise eine räumliche Beschränkung („${p.locationRestrictionDescription}“), die nicht zum geplanten Arbeitsort (${p.plannedWorkCity}) passt.`,
+    },
+  },
+  LOCATION_MATCH: {
+    severity: 'INFO',
+    source: 'RULES',
+    fields: ['hasLocationRestriction', 'locationRestrictionDescription', 'plannedWorkCity'],
+    label: { en: 'Location matches permit', de: 'Arbeitsort stimmt überein' },
+    message: {
+      en: (p) => p.matchedArea
+        ? `Planned work location ${p.workLocationArea} lies within the area the permit is restricted to (${p.matchedArea}).`
+        : 'Location restriction text appears to include the planned work city.',
+      de: (p) => p.matchedArea
+        ? `Der geplante Arbeitsort ${p.workLocationArea} liegt im Gebiet, auf das der Titel beschränkt ist (${p.matchedArea}).`
+        : 'Die räumliche Beschränkung scheint den geplanten Arbeitsort einzuschließen.',
+    },
+  },
+  LOCATION_NOT_IN_GAZETTEER: {
+    severity: 'INFO',
+    source: 'RULES',
+    fields: ['locationRestrictionDescription', 'plannedWorkCity'],
+    label: { en: 'Location compared as text', de: 'Arbeitsort als Text verglichen' },
+    message: {
+      en: (p) => `Not found in the bundled gazetteer (${p.bundledMunicipalities} of about ${Number(p.totalMunicipalities).toLocaleString('en-US')} municipalities): ${p.unresolvedLocations}. The location was compared as text only – verify manually.`,
+      de: (p) => `Nicht im hinterlegten Ortsverzeichnis (${p.bundledMunicipalities} von etwa ${Number(p.totalMunicipalities).toLocaleString('de-DE')} Gemeinden): ${p.unresolvedLocations}. Der Arbeitsort wurde nur als Text verglichen – bitte manuell prüfen.`,
+    },
+  },
+  LOCATION_RESTRICTION_UNKNOWN: {
+    severity: 'WARNING',
+    source: 'RULES',
+    fields: ['hasLocationRestriction'],
+    missingInformation: true,
+    label: { en: 'Location restriction unknown', de: 'Räumliche Beschränkung unbekannt' },
+    message: {
+      en: () => 'We could not determine from the information provided whether the permit has any regional/location restriction.',
+      de: () => 'Aus den Angaben ließ sich nicht feststellen, ob der Titel eine räumliche Beschränkung enthält.',
+    },
+  },
+  BLUE_CARD_EMPLOYER_CHANGE_REVIEW: {
+    severity: 'WARNING',
+    source: 'RULES',
+    fields: ['isBlueCard', 'isChangingEmployer', 'monthsOnBlueCardInGermany'],
+    label: { en: 'Early Blue Card employer change', de: 'Früher Arbeitgeberwechsel (Blaue Karte)' },
+    message: {
+      en: (p) => `EU Blue Card holder changing employer within the first ${p.reviewMonths} months – immigration authority notification/approval is typically required.`,
+      de: (p) => `Wechsel des Arbeitgebers innerhalb der ersten ${p.reviewMonths} Monate mit Blauer Karte EU – in der Regel ist eine Mitteilung an bzw. Zustimmung der Ausländerbehörde erforderlich.`,
+    },
+  },
+  BLUE_CARD_EMPLOYER_CHANGE_NOTIFY: {
+    severity: 'INFO',
+    source: 'RULES',
+    fields: ['isBlueCard', 'isChangingEmployer', 'monthsOnBlueCardInGermany'],
+    label: { en: 'Blue Card employer change', de: 'Arbeitgeberwechsel (Blaue Karte)' },
+    message: {
+      en: (p) => `EU Blue Card holder changing employer after ${p.reviewMonths}+ months – still ensure authority has been notified according to current rules.`,
+      de: (p) => `Wechsel des Arbeitgebers nach mehr als ${p.reviewMonths} Monaten mit Blauer Karte EU – dennoch sicherstellen, dass die Behörde nach geltendem Recht informiert wurde.`,
+    },
+  },
+  BLUE_CARD_SAME_EMPLOYER: {
+    severity: 'INFO',
+    source: 'RULES',
+    fields: ['isBlueCard', 'isChangingEmployer'],
+    label: { en: 'Blue Card, same employer', de: 'Blaue Karte, gleicher Arbeitgeber' },
+    message: {
+      en: () => 'EU Blue Card holder continuing with same employer.',
+      de: () => 'Blaue Karte EU – Beschäftigung beim selben Arbeitgeber wird fortgesetzt.',
+    },
+  },
+  BLUE_CARD_SALARY_MISSING: {
+    severity: 'WARNING',
+    source: 'RULES',
+    fields: ['isBlueCard', 'contractGrossSalaryPerYear'],
+    legalReference: '§18g AufenthG',
+    missingInformation: true,
+    label: { en: 'Blue Card salary not recorded', de: 'Gehalt für Blaue Karte nicht erfasst' },
+    message: {
+      en: (p) => `Contract gross salary not recorded – the ${p.thresholdYear} Blue Card minimum${salaryCategorySuffix(p, 'en')} is ${euro(p.minimumSalary, 'en')} per year.`,
+      de: (p) => `Bruttojahresgehalt laut Vertrag nicht erfasst – die Mindestgrenze ${p.thresholdYear} für die Blaue Karte${salaryCategorySuffix(p, 'de')} beträgt ${euro(p.minimumSalary, 'de')} pro Jahr.`,
+    },
+  },
+  BLUE_CARD_SALARY_BELOW_THRESHOLD: {
+    severity: 'WARNING',
+    source: 'RULES',
+    fields: ['isBlueCard', 'contractGrossSalaryPerYear', 'blueCardSalaryCategory'],
+    legalReference: '§18g AufenthG',
+    label: { en: 'Blue Card salary below minimum', de: 'Gehalt unter Mindestgrenze der Blauen Karte' },
+    message: {
+      en: (p) => `Contract salary (${euro(p.contractGrossSalaryPerYear, 'en')} per year) is below the ${p.thresholdYear} Blue Card minimum${salaryCategorySuffix(p, 'en')} of ${euro(p.minimumSalary, 'en')} – the Blue Card conditions are not met.`,
+      de: (p) => `Das Vertragsgehalt (${euro(p.contractGrossSalaryPerYear, 'de')} pro Jahr) liegt unter der Mindestgrenze ${p.thresholdYear} für die Blaue Karte${salaryCategorySuffix(p, 'de')} von ${euro(p.minimumSalary, 'de')} – die Voraussetzungen der Blauen Karte sind nicht erfüllt.`,
+    },
+  },
+  BLUE_CARD_SALARY_MEETS_THRESHOLD: {
+    severity: 'INFO',
+    source: 'RULES',
+    fields: ['isBlueCard', 'contractGrossSalaryPerYear', 'blueCardSalaryCategory'],
+    legalReference: '§18g AufenthG',
+    label: { en: 'Blue Card salary above minimum', de: 'Gehalt über Mindestgrenze der Blauen Karte' },
+    message: {
+      en: (p) => `Contract salary (${euro(p.contractGrossSalaryPerYear, 'en')} per year) meets the ${p.thresholdYear} Blue Card minimum${salaryCategorySuffix(p, 'en')} of ${euro(p.minimumSalary, 'en')}.`,
+      de: (p) => `Das Vertragsgehalt (${euro(p.contractGrossSalaryPerYear, 'de')} pro Jahr) erreicht die Mindestgrenze ${p.thresholdYear} für die Blaue Karte${salaryCategorySuffix(p, 'de')} von ${euro(p.minimumSalary, 'de')}.`,
+    },
+  },
+  FIKTION_CONTINUATION: {
+    severity: 'WARNING',
+    source: 'RULES',
+    fields: ['documentType', 'isContinuationOfSameJobAndEmployer'],
+    legalReference: '§81 AufenthG',
+    label: { en: 'Fiktionsbescheinigung, same job', de: 'Fiktionsbescheinigung, gleiche Stelle' },
+    message: {
+      en: () => 'Fiktionsbescheinigung – appears to continue previous work-eligible title with same job/employer. Treat as temporary extension and review carefully.',
+      de: () => 'Fiktionsbescheinigung – scheint einen bisherigen Titel mit Erwerbstätigkeit bei gleicher Stelle/gleichem Arbeitgeber fortzuführen. Als vorübergehende Verlängerung behandeln und sorgfältig prüfen.',
+    },
+  },
+  FIKTION_CHANGE: {
+    severity: 'WARNING',
+    source: 'RULES',
+    fields: ['documentType', 'isContinuationOfSameJobAndEmployer'],
+    legalReference: '§81 AufenthG',
+    label: { en: 'Fiktionsbescheinigung, new job', de: 'Fiktionsbescheinigung, neue Stelle' },
+    message: {
+      en: () => 'Fiktionsbescheinigung with change of job/employer – work rights depend on underlying application; manual review required.',
+      de: () => 'Fiktionsbescheinigung bei Wechsel von Stelle/Arbeitgeber – die Erwerbstätigkeit hängt vom zugrunde liegenden Antrag ab; manuelle Prüfung erforderlich.',
+    },
+  },
+  FIKTION_CONTINUATION_UNKNOWN: {
+    severity: 'WARNING',
+    source: 'RULES',
+    fields: ['documentType', 'isContinuationOfSameJobAndEmployer'],
+    legalReference: '§81 AufenthG',
+    label: { en: 'Fiktionsbescheinigung, continuation unknown', de: 'Fiktionsbescheinigung, Fortführung unklar' },
+    message: {
+      en: () => 'Fiktionsbescheinigung – unclear whether it continues a previous work-eligible title; manual review required.',
+      de: () => 'Fiktionsbescheinigung – unklar, ob sie einen bisherigen Titel mit Erwerbstätigkeit fortführt; manuelle Prüfung erforderlich.',
+    },
+  },
+  TOLERATED_STAY_PERMISSION_REQUIRED: {
+    severity: 'WARNING',
+    source: 'RULES',
+    fields: ['documentType', 'employmentPermission'],
+    label: { en: 'Beschäftigungserlaubnis required', de: 'Beschäftigungserlaubnis erforderlich' },
+    message: {
+      en: (p) => `${p.title} is not a work permit by itself – employment requires an explicit Beschäftigungserlaubnis from the immigration authority.`,
+      de: (p) => `${p.title} ist für sich allein keine Arbeitserlaubnis – eine Beschäftigung erfordert eine ausdrückliche Beschäftigungserlaubnis der Ausländerbehörde.`,
+    },
+  },
+  TOLERATED_STAY_WITH_PERMISSION: {
+    severity: 'INFO',
+    source: 'RULES',
+    fields: ['documentType', 'employmentPermission'],
+    label: { en: 'Beschäftigungserlaubnis present', de: 'Beschäftigungserlaubnis vorhanden' },
+    message: {
+      en: (p) => `${p.title} with Beschäftigungserlaubnis – check that the permission covers this employer and job, and re-check at every extension.`,
+      de: (p) => `${p.title} mit Beschäftigungserlaubnis – prüfen, ob die Erlaubnis diesen Arbeitgeber und diese Stelle abdeckt, und bei jeder Verlängerung erneut prüfen.`,
+    },
+  },
+  CHANCENKARTE_NOT_AVAILABLE: {
+    severity: 'WARNING',
+    source: 'RULES',
+    fields: ['documentType', 'todayIsoDate'],
+    legalReference: '§20a AufenthG',
+    label: { en: 'Chancenkarte not yet available', de: 'Chancenkarte noch nicht verfügbar' },
+    message: {
+      en: (p) => `Chancenkarte did not exist under the rules in force (rule set ${p.ruleSetVersion}) – verify the residence title.`,
+      de: (p) => `Die Chancenkarte gab es nach den damals geltenden Regeln (Regelwerk ${p.ruleSetVersion}) noch nicht – Aufenthaltstitel prüfen.`,
+    },
+  },
+  CHANCENKARTE_HOURS_EXCEEDED: {
+    severity: 'WARNING',
+    source: 'RULES',
+    fields: ['documentType', 'contractHoursPerWeek'],
+    legalReference: '§20a AufenthG',
+    label: { en: 'Chancenkarte hours exceeded', de: 'Chancenkarte-Stunden überschritten' },
+    message: {
+      en: (p) => `Chancenkarte allows at most ${p.maxHours}h/week of employment (plus short trial work); contract hours (${p.contractHoursPerWeek}h/week) need a different residence title.`,
+      de: (p) => `Die Chancenkarte erlaubt höchstens ${p.maxHours} Std./Woche Beschäftigung (plus kurze Probebeschäftigung); für die vertraglichen Stunden (${p.contractHoursPerWeek} Std./Woche) ist ein anderer Aufenthaltstitel nötig.`,
+    },
+  },
+  CHANCENKARTE_PART_TIME: {
+    severity: 'INFO',
+    source: 'RULES',
+    fields: ['documentType', 'contractHoursPerWeek'],
+    legalReference: '§20a AufenthG',
+    label: { en: 'Chancenkarte part-time', de: 'Chancenkarte Teilzeit' },
+    message: {
+      en: (p) => `Chancenkarte – part-time employment up to ${p.maxHours}h/week is permitted.`,
+      de: (p) => `Chancenkarte – Teilzeitbeschäftigung bis ${p.maxHours} Std./Woche ist erlaubt.`,
+    },
+  },
+  STUDENT_WORK_DAYS_NOT_TRACKED: {
+    severity: 'INFO',
+    source: 'RULES',
+    fields: ['documentType'],
+    legalReference: '§16b Abs. 3 AufenthG',
+    label: { en: 'Student work days not tracked', de: 'Arbeitstage nicht erfasst' },
+    message: {
+      en: (p) => `Student permit – at most ${p.allowanceDays} full or ${p.allowanceHalfDays} half working days per calendar year; import timesheets to track the days worked.`,
+      de: (p) => `Aufenthaltserlaubnis zum Studium – höchstens ${p.allowanceDays} ganze oder ${p.allowanceHalfDays} halbe Arbeitstage pro Kalenderjahr; Zeiterfassung importieren, um die Arbeitstage zu verfolgen.`,
+    },
+  },
+  STUDENT_WORK_DAYS_EXCEEDED: {
+    severity: 'WARNING',
+    source: 'RULES',
+    fields: ['documentType', 'studentWorkDaysUsed'],
+    legalReference: '§16b Abs. 3 AufenthG',
+    label: { en: 'Student work days exceeded', de: 'Arbeitstage überschritten' },
+    message: {
+      en: (p) => `Student has worked ${p.usedDays} full-day equivalents this calendar year, more than the ${p.allowanceDays} full / ${p.allowanceHalfDays} half days allowed – further work needs approval by the immigration authority.`,
+      de: (p) => `Im laufenden Kalenderjahr wurden ${p.usedDays} Arbeitstage (ganze Tage) gearbeitet, mehr als die erlaubten ${p.allowanceDays} ganzen / ${p.allowanceHalfDays} halben Tage – weitere Beschäftigung bedarf der Zustimmung der Ausländerbehörde.`,
+    },
+  },
+  STUDENT_WORK_DAYS_WITHIN_ALLOWANCE: {
+    severity: 'INFO',
+    source: 'RULES',
+    fields: ['documentType', 'studentWorkDaysUsed'],
+    legalReference: '§16b Abs. 3 AufenthG',
+    label: { en: 'Student work days within allowance', de: 'Arbeitstage im Rahmen' },
+    message: {
+      en: (p) => `Student has worked ${p.usedDays} of ${p.allowanceDays} full-day equivalents this calendar year (${p.remainingDays} remaining).`,
+      de: (p) => `Im laufenden Kalenderjahr wurden ${p.usedDays} von ${p.allowanceDays} Arbeitstagen (ganze Tage) gearbeitet (${p.remainingDays} verbleibend).`,
+    },
+  },
+  EMPLOYER_BOUND_TITLE_UNCONFIRMED: {
+    severity: 'WARNING',
+    source: 'RULES',
+    fields: ['documentType', 'permitNamesSpecificEmployer', 'employerOnPermit'],
+    label: { en: 'Approved employer not recorded', de: 'Genehmigter Arbeitgeber nicht erfasst' },
+    message: {
+      en: (p) => `${p.title} is tied to the approved employer – record the employer named on the permit to confirm it matches the hiring company.`,
+      de: (p) => `${p.title} ist an den genehmigten Arbeitgeber gebunden – den im Titel genannten Arbeitgeber erfassen, um die Übereinstimmung mit dem einstellenden Unternehmen zu bestätigen.`,
+    },
+  },
+  EMPLOYER_BOUND_TITLE: {
+    severity: 'INFO',
+    source: 'RULES',
+    fields: ['documentType', 'permitNamesSpecificEmployer', 'employerOnPermit'],
+    label: { en: 'Employer-bound title', de: 'Arbeitgebergebundener Titel' },
+    message: {
+      en: (p) => `${p.title} is tied to the approved employer; a change of employer needs new approval.`,
+      de: (p) => `${p.title} ist an den genehmigten Arbeitgeber gebunden; ein Arbeitgeberwechsel erfordert eine neue Zustimmung.`,
+    },
+  },
+  NO_RED_FLAGS: {
+    severity: 'INFO',
+    source: 'RULES',
+    fields: [],
+    label: { en: 'No red flags', de: 'Keine Auffälligkeiten' },
+    message: {
+      en: () => 'No obvious red flags based on the information provided.',
+      de: () => 'Auf Grundlage der Angaben keine offensichtlichen Auffälligkeiten.',
+    },
+  },
+  AI_DECISION: {
+    severity: 'INFO',
+    source: 'AI',
+    fields: ['ocrRawText', 'ocrExtractedFields'],
+    label: { en: 'AI decision', de: 'KI-Entscheidung' },
+    message: {
+      en: (p) => `AI decision: ${p.explanation}`,
+      de: (p) => `KI-Entscheidung: ${p.explanation}`,
+    },
+  },
+  AI_MISSING_INFORMATION: {
+    severity: 'WARNING',
+    source: 'AI',
+    fields: ['ocrRawText', 'ocrExtractedFields'],
+    missingInformation: true,
+    label: { en: 'AI missing information', de: 'Fehlende Angaben (KI)' },
+    message: {
+      en: (p) => `AI missing information: ${p.item}`,
+      de: (p) => `Von der KI vermisste Angabe: ${p.item}`,
+    },
+  },
+  AI_RULES_CONFLICT: {
+    severity: 'WARNING',
+    source: 'GUARDRAIL',
+    fields: [],
+    label: { en: 'AI and rules disagree', de: 'KI und Regeln uneinig' },
+    message: {
+      en: (p) => `AI status (${p.aiStatus}) did not match rules-engine status (${p.rulesStatus}); final status set to NEEDS_REVIEW for safety per guardrail policy.`,
+      de: (p) => `KI-Status (${p.aiStatus}) weicht vom Status der Regel-Engine (${p.rulesStatus}) ab; der Endstatus wurde sicherheitshalber auf NEEDS_REVIEW gesetzt.`,
+    },
+  },
+};
+
+/**
+ * Builds a finding from its code. `legalReference` overrides the default of
+ * the code, for findings whose legal basis depends on the residence title.
+ */
+export function createReason(
+  code: ReasonCode,
+  params: ReasonParams = {},
+  legalReference?: string
+): DecisionReason {
+  const definition = REASON_DEFINITIONS[code];
+  const reference = legalReference ?? definition.legalReference;
+  return {
+    code,
+    severity: definition.severity,
+    source: definition.source,
+    fields: definition.fields,
+    ...(reference ? { legalReference: reference } : {}),
+    ...(Object.keys(params).length > 0 ? { params } : {}),
+    message: definition.message.en(params),
+  };
+}
+
+// Falls back to the stored English text for codes this build does not know.
+export function formatReason(reason: DecisionReason, language: ReasonLanguage): string {
+  const definition = REASON_DEFINITIONS[reason.code];
+  if (!definition) return reason.message;
+  return definition.message[language](reason.params ?? {});
+}
+
+export function getReasonLabel(code: string, language: ReasonLanguage): string {
+  return REASON_DEFINITIONS[code as ReasonCode]?.label[language] ?? code;
+}
+
+export function isMissingInformationReason(reason: DecisionReason): boolean {
+  return REASON_DEFINITIONS[reason.code]?.missingInformation === true;
+}
@@ -1,12 +1,32 @@
 // lib/rightToWork.ts
 
+import type { BaApprovalConditions } from './baApproval';
+import { getBlueCardSalaryThreshold, getMinimumBlueCardSalary, type BlueCardSalaryCategory } from './blueCardSalary';
+import { authenticitySignalLabels, describeAuthenticitySignal, type AuthenticitySignal } from './documentAuthenticity';
+import { matchEmployerName } from './employerMatch';
+import { describeArea, describeGazetteerCoverage, gazetteerCoverage, matchLocationRestriction } from './locationMatch';
+import {
+  crossCheckIdentity,
+  identityFieldLabels,
+  identitySourceLabels,
+  type IdentityRecord,
+  type IdentitySource,
+} from './identityCrossCheck';
+import { mrzCheckedFieldLabels, type MrzCheckedField } from './mrz';
+import { matchOccupations, occupationTaxonomyCoverage } from './occupationMatch';
+import { createDecisionTracer, type DecisionTraceStep } from './decisionTrace';
+import { countryNameInSentence, getCountry, type NationalityCategory } from './nationality';
+import { createReason, type DecisionReason, type ReasonCode } from './reasonCodes';
+import { getRuleSetForDate, type RuleSet } from './ruleSets';
+
 // High-level status the app shows to HR.
 // IMPORTANT: This is a risk flag, not legal advice.
 export type WorkStatus = 'ELIGIBLE' | 'NOT_ELIGIBLE' | 'NEEDS_REVIEW';
 
 export interface EvaluateRightToWorkInput {
   // 1) Who is the person?
-  citizenshipCategory: 'EU_EEA_CH' | 'THIRD_COUNTRY';
+  citizenshipCategory: NationalityCategory;
+  nationality?: string;  // ISO 3166-1 alpha-2, when known
 
   // 2) What residence title do they hold?
   documentType:
@@ -16,13 +36,24 @@ export interface EvaluateRightToWorkInput {
     | 'STUDENT_PERMIT'
     | 'JOB_SEEKER'
     | 'FIKTIONSBESCHEINIGUNG'
+    | 'NIEDERLASSUNGSERLAUBNIS'   // §9 AufenthG settlement permit
+    | 'DAUERAUFENTHALT_EU'        // §9a AufenthG EU long-term residence
+    | 'AUFENTHALTSGESTATTUNG'     // §55 AsylG, asylum procedure
+    | 'DULDUNG'                   // §60a AufenthG with Beschäftigungserlaubnis
+    | 'TEMPORARY_PROTECTION_24'   // §24 AufenthG (e.g. Ukraine)
+    | 'CHANCENKARTE'              // §20a AufenthG opportunity card
+    | 'ICT_KARTE'                 // §19 AufenthG intra-corporate transfer
+    | 'WESTBALKAN_REGELUNG'       // §26(2) BeschV
     | 'VISITOR_OR_NO_WORK'
     | 'OTHER';
 
   documentValidFrom: string; // ISO date, e.g. "2025-01-01"
-  documentValidTo: string;   // ISO date
+  documentValidTo?: string;  // ISO date; omitted when the title has no end date
+  isTitleUnlimited?: boolean; // title issued "unbefristet" (e.g. Niederlassungserlaubnis)
+  cardValidTo?: string;      // ISO date the card / passport carrying an unlimited title expires
 
-  // Optional override of "today" (for testing); otherwise use current date.
+  // Optional evaluation date (testing, or re-running a historic check);
+  // otherwise use current date. Also selects the rule set in force.
   todayIsoDate?: string;
 
   // 3) Does the title allow work at all?
@@ -31,11 +62,13 @@ export interface EvaluateRightToWorkInput {
     | 'EMPLOYMENT_ALLOWED_WITH_LIMITS'// e.g. specific employer / job / hours
     | 'EMPLOYMENT_NOT_ALLOWED'
     | 'UNCLEAR';
+  employmentPermittedUntil?: string; // ISO date; Nebenbestimmung "Beschäftigung bis … gestattet"
 
   // 4) Employer-related info
   hiringEmployerName: string;     // your company
   permitNamesSpecificEmployer: boolean | 'UNKNOWN';
   employerOnPermit?: string;      // name printed on card/supplement
+  hiringEmployerAliases?: string[]; // tenant's subsidiaries / trading names that count as the hiring employer
 
   // 5) Occupation / job-related info
   permitLimitedToOccupation: boolean | 'UNKNOWN';
@@ -56,20 +89,51 @@ export interface EvaluateRightToWorkInput {
   isBlueCard: boolean;                // convenience flag (usually same as documentType === 'EU_BLUE_CARD')
   isChangingEmployer: boolean;        // are they joining a NEW employer vs continuing the old one?
   monthsOnBlueCardInGermany?: number; // rough number (HR input, e.g. 6, 18, 30)
+  contractGrossSalaryPerYear?: number; // EUR gross per year from the contract
+  blueCardSalaryCategory?: BlueCardSalaryCategory; // which minimum applies; standard when unknown
 
   // 9) Fiktionsbescheinigung–specific
   isContinuationOfSameJobAndEmployer?: boolean; // HR's best knowledge
 
-  // 10) Free-text notes (for detail output)
+  // 10) Student-specific (§16b AufenthG): allowance used so far this calendar
+  // year, in full-day equivalents; undefined when days are not tracked
+  studentWorkDaysUsed?: number;
+
+  // 11) Free-text notes (for detail output)
   freeTextNotes?: string;
+
+  // 12) Bundesagentur für Arbeit approval attached to the check, if any
+  baApproval?: BaApprovalConditions;
+
+  // 13) MRZ of the scanned document: fields whose ICAO check digit failed;
+  // undefined when no MRZ was read
+  mrzCheckDigitFailures?: MrzCheckedField[];
+
+  // 14) Holder's name, date of birth and nationality per source (residence
+  // title, passport, employee record); only the sources that were recorded
+  identity?: Partial<Record<IdentitySource, IdentityRecord>>;
+
+  // 15) Traits of an edited or forged document (see lib/documentAuthenticity.ts);
+  // undefined when the documents were not assessed
+  authenticitySignals?: AuthenticitySignal[];
 }
 
 export interface EvaluateRightToWorkResult {
   workStatus: WorkStatus;
   decisionSummary: string;    // short 1–2 line summary for cards
-  decisionDetails: string[];  // bullet-style reasons shown in UI
+  decisionDetails: string[];  // bullet-style reasons shown in UI (English)
+  decisionReasons: DecisionReason[]; // the same reasons with codes, severity and source
+  ruleSetVersion: string;     // version of the rule set the decision was made under
+  decisionTrace: DecisionTraceStep[]; // every rule evaluated, its inputs and outcome
 }
 
+// Titles that by law allow any employment, so permit conditions do not apply.
+const STATUTORY_FULL_WORK_RIGHTS: Partial<Record<EvaluateRightToWorkInput['documentType'], ReasonCode>> = {
+  NIEDERLASSUNGSERLAUBNIS: 'SETTLEMENT_PERMIT',
+  DAUERAUFENTHALT_EU: 'EU_LONG_TERM_RESIDENCE',
+  TEMPORARY_PROTECTION_24: 'TEMPORARY_PROTECTION',
+};
+
 /**
  * Simplified German right-to-work evaluation helper.
  * This encodes conservative rules:
@@ -77,186 +141,698 @@ export interface EvaluateRightToWorkResult {
  * - Expired / clearly no work rights → NOT_ELIGIBLE
  * - Clean, straightforward cases only → ELIGIBLE
  *
+ * Runs under the rule set in force on the evaluation date unless a specific
+ * rule set is passed (e.g. to reproduce a historic check).
+ *
  * This is NOT legal advice. It is a triage tool for HR.
  */
 export function evaluateRightToWork(
-  input: EvaluateRightToWorkInput
+  input: EvaluateRightToWorkInput,
+  ruleSet: RuleSet = getRuleSetForDate(input.todayIsoDate ?? new Date())
 ): EvaluateRightToWorkResult {
-  const reasons: string[] = [];
+  const { workStatus, decisionSummary, decisionReasons, decisionTrace } = evaluateUnderRuleSet(input, ruleSet);
+  return {
+    workStatus,
+    decisionSummary,
+    decisionDetails: decisionReasons.map((reason) => reason.message),
+    decisionReasons,
+    ruleSetVersion: ruleSet.version,
+    decisionTrace,
+  };
+}
+
+function evaluateUnderRuleSet(
+  input: EvaluateRightToWorkInput,
+  ruleSet: RuleSet
+): Pick<EvaluateRightToWorkResult, 'workStatus' | 'decisionSummary' | 'decisionReasons' | 'decisionTrace'> {
+  const reasons: DecisionReason[] = [];
+  const add = (code: ReasonCode, params?: Record<string, string | number>, legalReference?: string) => {
+    reasons.push(createReason(code, params, legalReference));
+  };
   let status: WorkStatus = 'ELIGIBLE';
+  const trace = createDecisionTracer(reasons, () => status);
 
   const today = input.todayIsoDate
     ? new Date(input.todayIsoDate)
     : new Date();
-  const validTo = new Date(input.documentValidTo);
+  const validTo = input.documentValidTo ? new Date(input.documentValidTo) : null;
+  const cardValidTo = input.cardValidTo ? new Date(input.cardValidTo) : null;
+  const cardExpired = cardValidTo !== null && cardValidTo < today;
+  const country = getCountry(input.nationality);
+  const countryParams = country ? { countryEn: countryNameInSentence(country), countryDe: country.de } : undefined;
+
+  // 1) Document guardrails apply to every holder, EU/EEA/Swiss nationals
+  // included.
+  // 1a) Scanned eAT / passport: a failed MRZ check digit means the scan was
+  // misread or the document needs a closer look
+  const mrzFailures = input.mrzCheckDigitFailures;
+  trace.begin('MRZ_CHECK_DIGITS', 'MRZ check digits', {
+    mrzCheckDigitFailures: mrzFailures?.join(', '),
+  }, mrzFailures !== undefined);
+  if (mrzFailures && mrzFailures.length > 0) {
+    status = 'NEEDS_REVIEW';
+    add('MRZ_CHECK_DIGIT_FAILED', {
+      failedFields: mrzFailures.map((field) => mrzCheckedFieldLabels[field].en).join(', '),
+      failedFieldsDe: mrzFailures.map((field) => mrzCheckedFieldLabels[field].de).join(', '),
+    });
+  }
+
+  // 1b) Residence title, passport and employee record must describe the same
+  // person
+  const identityMismatches = crossCheckIdentity(input.identity ?? {});
+  trace.begin('IDENTITY_CROSS_CHECK', 'Identity across documents', {
+    identitySources: Object.keys(input.identity ?? {}).join(', '),
+    identityMismatches: identityMismatches.length,
+  }, Object.keys(input.identity ?? {}).length > 1);
+  for (const mismatch of identityMismatches) {
+    status = 'NEEDS_REVIEW';
+    const [sourceA, sourceB] = mismatch.sources;
+    const [valueA, valueB] = mismatch.values;
+    add('IDENTITY_MISMATCH', {
+      identityField: mismatch.field,
+      field: identityFieldLabels[mismatch.field].en,
+      fieldDe: identityFieldLabels[mismatch.field].de,
+      sourceA: identitySourceLabels[sourceA].en,
+      sourceADe: identitySourceLabels[sourceA].de,
+      sourceB: identitySourceLabels[sourceB].en,
+      sourceBDe: identitySourceLabels[sourceB].de,
+      ...(mismatch.field === 'NATIONALITY'
+        ? {
+            valueA: getCountry(valueA)?.en ?? valueA,
+            valueADe: getCountry(valueA)?.de ?? valueA,
+            valueB: getCountry(valueB)?.en ?? valueB,
+            valueBDe: getCountry(valueB)?.de ?? valueB,
+          }
+        : { valueA, valueB }),
+    });
+  }
 
-  // 1) Citizenship shortcut: EU / EEA / CH
+  // 1c) Authenticity signals never decide a check, but each one needs a
+  // look at the original document
+  const authenticitySignals = input.authenticitySignals ?? [];
+  trace.begin('DOCUMENT_AUTHENTICITY', 'Document authenticity signals', {
+    authenticitySignals: authenticitySignals.map((signal) => signal.code).join(', '),
+  }, input.authenticitySignals !== undefined);
+  for (const signal of authenticitySignals) {
+    status = 'NEEDS_REVIEW';
+    add('AUTHENTICITY_SIGNAL', {
+      signalCode: signal.code,
+      signal: authenticitySignalLabels[signal.code].en,
+      signalDe: authenticitySignalLabels[signal.code].de,
+      detail: describeAuthenticitySignal(signal, 'en'),
+      detailDe: describeAuthenticitySignal(signal, 'de'),
+    });
+  }
+
+  // 1d) Citizenship shortcut: EU / EEA / CH
+  trace.begin('CITIZENSHIP', 'EU/EEA/Swiss shortcut', {
+    citizenshipCategory: input.citizenshipCategory,
+    documentValidTo: input.documentValidTo,
+    cardValidTo: input.cardValidTo,
+    evaluationDate: today.toISOString().split('T')[0],
+  }, input.citizenshipCategory === 'EU_EEA_CH');
   if (input.citizenshipCategory === 'EU_EEA_CH') {
     // For EU/EEA/Swiss, valid ID + registration typically enough.
-    reasons.push(
-      'EU/EEA/Swiss national – generally free right to work in Germany (subject to registration obligations).'
-    );
-    if (validTo < today) {
+    add('EU_FREE_MOVEMENT');
+    const idExpired = (validTo !== null && validTo < today) || cardExpired;
+    if (idExpired) {
       status = 'NEEDS_REVIEW';
-      reasons.push('Document appears to be expired – ask for updated ID/passport.');
+      add('EU_ID_EXPIRED');
     }
+    trace.stop();
     return {
       workStatus: status,
       decisionSummary:
         status === 'ELIGIBLE'
           ? 'Eligible to work in Germany as EU/EEA/Swiss national.'
-          : 'Likely eligible as EU/EEA/Swiss national, but updated ID is required.',
-      decisionDetails: reasons,
+          : idExpired
+            ? 'Likely eligible as EU/EEA/Swiss national, but updated ID is required.'
+            : 'Likely eligible as EU/EEA/Swiss national, but the documents need review.',
+      decisionReasons: reasons,
+      decisionTrace: trace.finish(),
     };
   }
 
   // From here on: third-country nationals
 
   // 2) Hard stops: expiry & explicit "no employment"
-  if (validTo < today) {
+  trace.begin('TITLE_VALIDITY', 'Residence title validity', {
+    isTitleUnlimited: input.isTitleUnlimited ?? false,
+    documentValidTo: input.documentValidTo,
+    cardValidTo: input.cardValidTo,
+    evaluationDate: today.toISOString().split('T')[0],
+  });
+  // An unlimited title never expires; only an expired card needs follow-up.
+  if (input.isTitleUnlimited) {
+    add('TITLE_UNLIMITED');
+    if (cardExpired) {
+      status = 'NEEDS_REVIEW';
+      add('CARD_EXPIRED');
+    }
+  } else if (!validTo) {
+    status = 'NEEDS_REVIEW';
+    add('EXPIRY_MISSING');
+  } else if (validTo < today) {
     status = 'NOT_ELIGIBLE';
-    reasons.push('Residence title is expired – cannot be used for employment.');
+    add('TITLE_EXPIRED');
+    trace.stop();
     return {
       workStatus: status,
       decisionSummary: 'Not eligible – residence title expired.',
-      decisionDetails: reasons,
+      decisionReasons: reasons,
+      decisionTrace: trace.finish(),
     };
   }
 
+  trace.begin('WORK_TITLE', 'Title allows work at all', {
+    documentType: input.documentType,
+    citizenshipCategory: input.citizenshipCategory,
+  });
   if (input.documentType === 'VISITOR_OR_NO_WORK') {
     status = 'NOT_ELIGIBLE';
-    reasons.push('Residence status appears to be a visit/tourist or no-work title.');
+    add('NO_WORK_TITLE');
+    if (input.citizenshipCategory === 'PRIVILEGED_THIRD_COUNTRY') {
+      add('PRIVILEGED_NATIONALITY_NO_WORK_TITLE', countryParams);
+    }
+    trace.stop();
     return {
       workStatus: status,
       decisionSummary: 'Not eligible – residence status does not permit employment.',
-      decisionDetails: reasons,
+      decisionReasons: reasons,
+      decisionTrace: trace.finish(),
     };
   }
 
+  trace.begin('EMPLOYMENT_NOT_ALLOWED', 'Employment explicitly not allowed', {
+    employmentPermission: input.employmentPermission,
+  });
   if (input.employmentPermission === 'EMPLOYMENT_NOT_ALLOWED') {
     status = 'NOT_ELIGIBLE';
-    reasons.push('Permit explicitly does not allow employment.');
+    add('EMPLOYMENT_NOT_ALLOWED');
+    trace.stop();
     return {
       workStatus: status,
       decisionSummary: 'Not eligible – employment not permitted by the title.',
-      decisionDetails: reasons,
+      decisionReasons: reasons,
+      decisionTrace: trace.finish(),
     };
   }
 
+  // 2b) Titles with statutory full work rights: no employer/job/hours limits
+  const statutoryReason = STATUTORY_FULL_WORK_RIGHTS[input.documentType];
+  trace.begin(
+    'STATUTORY_WORK_RIGHTS',
+    'Title with statutory full work rights',
+    { documentType: input.documentType },
+    statutoryReason !== undefined
+  );
+  if (statutoryReason) {
+    add(statutoryReason);
+    trace.stop();
+    return {
+      workStatus: status,
+      decisionSummary:
+        status === 'ELIGIBLE'
+          ? 'Eligible to work in Germany – residence title permits any employment.'
+          : 'Residence title permits any employment, but the document needs a manual review.',
+      decisionReasons: reasons,
+      decisionTrace: trace.finish(),
+    };
+  }
+
+  // 2c) Nationality-specific paths for the remaining (restricted) titles
+  trace.begin('NATIONALITY', 'Nationality group', {
+    nationality: input.nationality,
+    citizenshipCategory: input.citizenshipCategory,
+    documentType: input.documentType,
+  }, input.citizenshipCategory !== 'THIRD_COUNTRY' || input.documentType === 'WESTBALKAN_REGELUNG');
+  switch (input.citizenshipCategory) {
+    case 'PRIVILEGED_THIRD_COUNTRY':
+      add('PRIVILEGED_NATIONALITY', countryParams);
+      if (input.documentType === 'WESTBALKAN_REGELUNG') {
+        status = 'NEEDS_REVIEW';
+        add('WESTBALKAN_NATIONALITY_MISMATCH', countryParams);
+      }
+      break;
+    case 'WESTERN_BALKANS':
+      if (input.documentType === 'WESTBALKAN_REGELUNG') {
+        add('WESTBALKAN_NATIONALITY_CONFIRMED', countryParams);
+      }
+      break;
+    case 'THIRD_COUNTRY':
+      // Without a recorded nationality the category is only the conservative default
+      if (input.documentType === 'WESTBALKAN_REGELUNG' && country) {
+        status = 'NEEDS_REVIEW';
+        add('WESTBALKAN_NATIONALITY_MISMATCH', countryParams);
+      }
+      break;
+  }
+
+  // 2d) Bundesagentur für Arbeit approval (§39 AufenthG): work is only
+  // authorised where both the title and the approval allow it
+  const approval = input.baApproval;
+  trace.begin('BA_APPROVAL', 'Bundesagentur für Arbeit approval', {
+    ...approval,
+    documentValidTo: input.documentValidTo,
+    hiringEmployerName: input.hiringEmployerName,
+    plannedRoleCategory: input.plannedRoleCategory,
+    contractHoursPerWeek: input.contractHoursPerWeek,
+    plannedWorkCity: input.plannedWorkCity,
+  }, approval !== undefined);
+  if (approval) {
+    if (approval.validTo && new Date(approval.validTo) < today) {
+      status = 'NOT_ELIGIBLE';
+      add('BA_APPROVAL_EXPIRED', { approvalValidTo: approval.validTo });
+      trace.stop();
+      return {
+        workStatus: status,
+        decisionSummary: 'Not eligible – Bundesagentur für Arbeit approval expired.',
+        decisionReasons: reasons,
+        decisionTrace: trace.finish(),
+      };
+    }
+    if (!approval.validTo) {
+      status = 'NEEDS_REVIEW';
+      add('BA_APPROVAL_VALIDITY_MISSING');
+    } else if (!validTo || new Date(approval.validTo) < validTo) {
+      add('BA_APPROVAL_ENDS_BEFORE_TITLE', {
+        approvalValidTo: approval.validTo,
+        ...(input.documentValidTo ? { titleValidTo: input.documentValidTo } : {}),
+      });
+    } else {
+      add('BA_APPROVAL_VALID', { approvalValidTo: approval.validTo });
+    }
+    if (approval.validFrom && new Date(approval.validFrom) > today) {
+      status = 'NEEDS_REVIEW';
+      add('BA_APPROVAL_NOT_YET_VALID', { approvalValidFrom: approval.validFrom });
+    }
+
+    const checked: Array<{ en: string; de: string }> = [];
+    let conditionMismatch = false;
+    if (approval.employerName) {
+      const match = matchEmployerName(approval.employerName, input.hiringEmployerName, input.hiringEmployerAliases ?? []);
+      checked.push({ en: 'employer', de: 'Arbeitgeber' });
+      if (match.verdict !== 'MATCH') {
+        conditionMismatch = true;
+        add('BA_APPROVAL_EMPLOYER_MISMATCH', {
+          approvalEmployerName: approval.employerName,
+          hiringEmployerName: input.hiringEmployerName,
+          score: Math.round(match.score * 100),
+        });
+      }
+    }
+    if (approval.occupation) {
+      const match = matchOccupations(approval.occupation, input.plannedRoleCategory);
+      checked.push({ en: 'occupation', de: 'Tätigkeit' });
+      const occ = approval.occupation.toLowerCase();
+      const planned = input.plannedRoleCategory.toLowerCase();
+      const covered = match.relation === 'SAME_OCCUPATION'
+        || (match.relation === 'UNRESOLVED' && (planned.includes(occ) || occ.includes(planned)));
+      if (!covered) {
+        conditionMismatch = true;
+        add('BA_APPROVAL_OCCUPATION_MISMATCH', {
+          approvalOccupation: approval.occupation,
+          plannedRoleCategory: input.plannedRoleCategory,
+          ...(match.permit && match.planned ? { permitKldb: match.permit.entry.kldb, plannedKldb: match.planned.entry.kldb } : {}),
+        });
+      }
+    }
+    if (approval.hoursPerWeek != null) {
+      checked.push({ en: 'hours', de: 'Stunden' });
+      if (input.contractHoursPerWeek > approval.hoursPerWeek) {
+        conditionMismatch = true;
+        add('BA_APPROVAL_HOURS_EXCEEDED', {
+          approvalHoursPerWeek: approval.hoursPerWeek,
+          contractHoursPerWeek: input.contractHoursPerWeek,
+        });
+      }
+    }
+    if (approval.workLocation) {
+      const match = matchLocationRestriction(approval.workLocation, input.plannedWorkCity);
+      checked.push({ en: 'location', de: 'Arbeitsort' });
+      const covered = match.isWithinRestriction ?? approval.workLocation.toLowerCase().includes(input.plannedWorkCity.toLowerCase());
+      if (!covered) {
+        conditionMismatch = true;
+        add('BA_APPROVAL_LOCATION_MISMATCH', {
+          approvalWorkLocation: approval.workLocation,
+          plannedWorkCity: input.plannedWorkCity,
+          ...(match.workLocation ? { workLocationArea: describeArea(match.workLocation) } : {}),
+        });
+      }
+    }
+    if (conditionMismatch) {
+      status = 'NEEDS_REVIEW';
+    } else if (checked.length > 0) {
+      add('BA_APPROVAL_CONDITIONS_MATCH', {
+        checkedConditions: checked.map((condition) => condition.en).join(', '),
+        checkedConditionsDe: checked.map((condition) => condition.de).join(', '),
+      });
+    }
+  }
+
   // 3) Unclear work permission => conservative
+  trace.begin('EMPLOYMENT_PERMISSION', 'Work permission wording', { employmentPermission: input.employmentPermission });
   if (input.employmentPermission === 'UNCLEAR') {
     status = 'NEEDS_REVIEW';
-    reasons.push('Work permission wording is unclear – manual review required.');
+    add('EMPLOYMENT_PERMISSION_UNCLEAR');
+  }
+
+  // 3b) Time limit on employment from the Nebenbestimmungen; it can end
+  // before the title does
+  const permittedUntil = input.employmentPermittedUntil;
+  trace.begin('EMPLOYMENT_TIME_LIMIT', 'Time limit on employment', {
+    employmentPermittedUntil: permittedUntil,
+    documentValidTo: input.documentValidTo,
+  }, permittedUntil !== undefined);
+  if (permittedUntil) {
+    if (new Date(permittedUntil) < today) {
+      status = 'NOT_ELIGIBLE';
+      add('EMPLOYMENT_PERIOD_ENDED', { permittedUntil });
+      trace.stop();
+      return {
+        workStatus: status,
+        decisionSummary: 'Not eligible – the period in which employment is permitted has ended.',
+        decisionReasons: reasons,
+        decisionTrace: trace.finish(),
+      };
+    }
+    if (!validTo || new Date(permittedUntil) < validTo) {
+      add('EMPLOYMENT_PERIOD_ENDS_BEFORE_TITLE', {
+        permittedUntil,
+        ...(input.documentValidTo ? { titleValidTo: input.documentValidTo } : {}),
+      });
+    }
   }
 
   // 4) Employer-specific checks
+  trace.begin('EMPLOYER', 'Employer named on the permit', {
+    permitNamesSpecificEmployer: input.permitNamesSpecificEmployer,
+    employerOnPermit: input.employerOnPermit,
+    hiringEmployerName: input.hiringEmployerName,
+    hiringEmployerAliases: input.hiringEmployerAliases,
+  }, input.permitNamesSpecificEmployer !== false);
   if (input.permitNamesSpecificEmployer === true && input.employerOnPermit) {
-    const permitName = input.employerOnPermit.toLowerCase().trim();
-    const hiringName = input.hiringEmployerName.toLowerCase().trim();
+    const match = matchEmployerName(
+      input.employerOnPermit,
+      input.hiringEmployerName,
+      input.hiringEmployerAliases ?? []
+    );
+    const params: Record<string, string | number> = {
+      employerOnPermit: input.employerOnPermit,
+      hiringEmployerName: input.hiringEmployerName,
+      matchedName: match.matchedName,
+      score: Math.round(match.score * 100),
+      ...(match.matchedAlias ? { matchedAlias: match.matchedAlias } : {}),
+    };
 
-    if (!hiringName.includes(permitName) && !permitName.includes(hiringName)) {
+    if (match.verdict === 'MATCH') {
+      add('EMPLOYER_MATCH', params);
+    } else if (match.verdict === 'PARTIAL') {
       status = 'NEEDS_REVIEW';
-      reasons.push(
-        `Permit appears tied to a different employer ("${input.employerOnPermit}") than the hiring company ("${input.hiringEmployerName}").`
-      );
+      add('EMPLOYER_PARTIAL_MATCH', params);
     } else {
-      reasons.push('Permit appears to name the same employer as the hiring company.');
+      status = 'NEEDS_REVIEW';
+      add('EMPLOYER_MISMATCH', params);
     }
   } else if (input.permitNamesSpecificEmployer === 'UNKNOWN') {
     status = 'NEEDS_REVIEW';
-    reasons.push('We could not determine from the information provided whether the permit is tied to a specific employer.');
+    add('EMPLOYER_RESTRICTION_UNKNOWN');
   }
 
   // 5) Occupation / job match
+  trace.begin('OCCUPATION', 'Occupation restriction', {
+    permitLimitedToOccupation: input.permitLimitedToOccupation,
+    occupationOnPermit: input.occupationOnPermit,
+    plannedRoleCategory: input.plannedRoleCategory,
+    taxonomyCoverage: `${occupationTaxonomyCoverage.bundledOccupations} of ${occupationTaxonomyCoverage.totalOccupations} KldB 2010 occupations`,
+  }, input.permitLimitedToOccupation !== false);
   if (input.permitLimitedToOccupation === true && input.occupationOnPermit) {
-    const occ = input.occupationOnPermit.toLowerCase();
-    const planned = input.plannedRoleCategory.toLowerCase();
+    // Compare by KldB / ISCO code; fall back to text for unknown occupations
+    const match = matchOccupations(input.occupationOnPermit, input.plannedRoleCategory);
+    const params: Record<string, string | number> = {
+      occupationOnPermit: input.occupationOnPermit,
+      plannedRoleCategory: input.plannedRoleCategory,
+      ...(match.permit ? { permitKldb: match.permit.entry.kldb, permitIsco: match.permit.entry.isco } : {}),
+      ...(match.planned ? { plannedKldb: match.planned.entry.kldb, plannedIsco: match.planned.entry.isco } : {}),
+    };
 
-    if (!planned.includes(occ) && !occ.includes(planned)) {
+    if (match.relation === 'SAME_OCCUPATION') {
+      add('OCCUPATION_MATCH', params);
+    } else if (match.relation === 'SAME_GROUP' && match.group) {
+      status = 'NEEDS_REVIEW';
+      add('OCCUPATION_SAME_GROUP', {
+        ...params,
+        groupCode: match.group.code,
+        ...(match.group.en ? { groupTitleEn: match.group.en } : {}),
+        ...(match.group.de ? { groupTitleDe: match.group.de } : {}),
+      });
+    } else if (match.relation === 'DIFFERENT') {
       status = 'NEEDS_REVIEW';
-      reasons.push(
-        `Permit appears limited to occupation "${input.occupationOnPermit}", which may not match the planned role ("${input.plannedRoleCategory}").`
-      );
+      add('OCCUPATION_MISMATCH', params);
     } else {
-      reasons.push('Planned role broadly matches the occupation indicated on the permit.');
+      // The bundled taxonomy is a subset of the KldB; record that the text
+      // comparison below is all the engine could do
+      add('OCCUPATION_NOT_IN_TAXONOMY', {
+        unresolvedOccupations: [
+          ...(match.permit ? [] : [input.occupationOnPermit]),
+          ...(match.planned ? [] : [input.plannedRoleCategory]),
+        ].filter((text, index, texts) => texts.indexOf(text) === index).map((text) => `"${text}"`).join(', '),
+        ...occupationTaxonomyCoverage,
+      });
+      const occ = input.occupationOnPermit.toLowerCase();
+      const planned = input.plannedRoleCategory.toLowerCase();
+      if (!planned.includes(occ) && !occ.includes(planned)) {
+        status = 'NEEDS_REVIEW';
+        add('OCCUPATION_MISMATCH', params);
+      } else {
+        add('OCCUPATION_MATCH', params);
+      }
     }
   } else if (input.permitLimitedToOccupation === 'UNKNOWN') {
     status = 'NEEDS_REVIEW';
-    reasons.push('We could not determine from the information provided whether the permit is limited to a specific occupation.');
+    add('OCCUPATION_RESTRICTION_UNKNOWN');
   }
 
   // 6) Hours limits (e.g. students or restricted work)
+  trace.begin('HOURS', 'Weekly hours limit', {
+    hasHoursLimitOnPermit: input.hasHoursLimitOnPermit,
+    hoursLimitPerWeekOnPermit: input.hoursLimitPerWeekOnPermit,
+    contractHoursPerWeek: input.contractHoursPerWeek,
+  }, input.hasHoursLimitOnPermit !== false);
   if (input.hasHoursLimitOnPermit === true && input.hoursLimitPerWeekOnPermit != null) {
+    const hours = {
+      contractHoursPerWeek: input.contractHoursPerWeek,
+      hoursLimitPerWeekOnPermit: input.hoursLimitPerWeekOnPermit,
+    };
     if (input.contractHoursPerWeek > input.hoursLimitPerWeekOnPermit) {
       status = 'NEEDS_REVIEW';
-      reasons.push(
-        `Contract hours (${input.contractHoursPerWeek}h/week) exceed the permitted limit (${input.hoursLimitPerWeekOnPermit}h/week).`
-      );
+      add('HOURS_LIMIT_EXCEEDED', hours);
     } else {
-      reasons.push(
-        `Contract hours (${input.contractHoursPerWeek}h/week) are within the stated limit (${input.hoursLimitPerWeekOnPermit}h/week).`
-      );
+      add('HOURS_WITHIN_LIMIT', hours);
     }
   } else if (input.hasHoursLimitOnPermit === 'UNKNOWN') {
     status = 'NEEDS_REVIEW';
-    reasons.push('We could not determine from the information provided whether there is an hours-per-week limit on the permit.');
+    add('HOURS_LIMIT_UNKNOWN');
   }
 
   // 7) Location / region
+  trace.begin('LOCATION', 'Location restriction', {
+    hasLocationRestriction: input.hasLocationRestriction,
+    locationRestrictionDescription: input.locationRestrictionDescription,
+    plannedWorkCity: input.plannedWorkCity,
+    gazetteerCoverage: describeGazetteerCoverage(),
+  }, input.hasLocationRestriction !== false);
   if (input.hasLocationRestriction === true && input.locationRestrictionDescription) {
-    // Very simple check: if text clearly mentions a different city, flag.
-    const desc = input.locationRestrictionDescription.toLowerCase();
-    const city = input.plannedWorkCity.toLowerCase();
-    if (!desc.includes(city)) {
+    const params: Record<string, string | number> = {
+      locationRestrictionDescription: input.locationRestrictionDescription,
+      plannedWorkCity: input.plannedWorkCity,
+    };
+    // Resolve both sides with the gazetteer (Land, Landkreis, municipality, postcode)
+    const match = matchLocationRestriction(input.locationRestrictionDescription, input.plannedWorkCity);
+
+    if (match.isWithinRestriction === true && match.matchedArea && match.workLocation) {
+      add('LOCATION_MATCH', {
+        ...params,
+        matchedArea: describeArea(match.matchedArea),
+        workLocationArea: describeArea(match.workLocation),
+      });
+    } else if (match.isWithinRestriction === false && match.workLocation) {
       status = 'NEEDS_REVIEW';
-      reasons.push(
-        `Permit may have a regional/location restriction ("${input.locationRestrictionDescription}") that may not match the planned work location (${input.plannedWorkCity}).`
-      );
+      add('LOCATION_MISMATCH', {
+        ...params,
+        restrictedArea: match.restrictionAreas.map(describeArea).join(', '),
+        workLocationArea: describeArea(match.workLocation),
+      });
     } else {
-      reasons.push('Location restriction text appears to include the planned work city.');
+      // Not in the gazetteer: very simple check, flag if the text does not mention the city
+      add('LOCATION_NOT_IN_GAZETTEER', {
+        unresolvedLocations: [
+          ...(match.restrictionAreas.length > 0 ? [] : [input.locationRestrictionDescription]),
+          ...(match.workLocation ? [] : [input.plannedWorkCity]),
+        ].filter((text, index, texts) => texts.indexOf(text) === index).map((text) => `"${text}"`).join(', '),
+        bundledMunicipalities: gazetteerCoverage.bundledMunicipalities,
+        totalMunicipalities: gazetteerCoverage.totalMunicipalities,
+      });
+      const desc = input.locationRestrictionDescription.toLowerCase();
+      const city = input.plannedWorkCity.toLowerCase();
+      if (!desc.includes(city)) {
+        status = 'NEEDS_REVIEW';
+        add('LOCATION_MISMATCH', params);
+      } else {
+        add('LOCATION_MATCH', params);
+      }
     }
   } else if (input.hasLocationRestriction === 'UNKNOWN') {
     status = 'NEEDS_REVIEW';
-    reasons.push('We could not determine from the information provided whether the permit has any regional/location restriction.');
+    add('LOCATION_RESTRICTION_UNKNOWN');
   }
 
   // 8) Blue Card specifics
+  trace.begin('BLUE_CARD', 'Blue Card employer change', {
+    isBlueCard: input.isBlueCard,
+    isChangingEmployer: input.isChangingEmployer,
+    monthsOnBlueCardInGermany: input.monthsOnBlueCardInGermany,
+    blueCardEmployerChangeReviewMonths: ruleSet.blueCardEmployerChangeReviewMonths,
+  }, input.isBlueCard);
   if (input.isBlueCard) {
-    if (input.isChangingEmployer && (input.monthsOnBlueCardInGermany ?? 0) < 12) {
+    const reviewMonths = ruleSet.blueCardEmployerChangeReviewMonths;
+    if (input.isChangingEmployer && (input.monthsOnBlueCardInGermany ?? 0) < reviewMonths) {
       status = 'NEEDS_REVIEW';
-      reasons.push(
-        'EU Blue Card holder changing employer within the first year – immigration authority notification/approval is typically required.'
-      );
+      add('BLUE_CARD_EMPLOYER_CHANGE_REVIEW', { reviewMonths });
     } else if (input.isChangingEmployer) {
-      reasons.push(
-        'EU Blue Card holder changing employer after 12+ months – still ensure authority has been notified according to current rules.'
-      );
+      add('BLUE_CARD_EMPLOYER_CHANGE_NOTIFY', { reviewMonths });
     } else {
-      reasons.push('EU Blue Card holder continuing with same employer.');
+      add('BLUE_CARD_SAME_EMPLOYER');
+    }
+  }
+
+  // 8b) Blue Card minimum salary (§18g AufenthG)
+  const salaryThreshold = getBlueCardSalaryThreshold(today);
+  const salaryCategory = input.blueCardSalaryCategory ?? 'STANDARD';
+  const minimumSalary = getMinimumBlueCardSalary(salaryThreshold, salaryCategory);
+  trace.begin('BLUE_CARD_SALARY', 'Blue Card minimum salary', {
+    isBlueCard: input.isBlueCard,
+    contractGrossSalaryPerYear: input.contractGrossSalaryPerYear,
+    blueCardSalaryCategory: salaryCategory,
+    minimumSalary,
+    thresholdEffectiveFrom: salaryThreshold.effectiveFrom,
+  }, input.isBlueCard);
+  if (input.isBlueCard) {
+    const params: Record<string, string | number> = {
+      minimumSalary,
+      thresholdYear: salaryThreshold.effectiveFrom.slice(0, 4),
+      // the category whose amount applied (new entrants had no reduced amount before 2023-11)
+      salaryCategory: minimumSalary === salaryThreshold.standard ? 'STANDARD' : salaryCategory,
+    };
+    if (input.contractGrossSalaryPerYear === undefined) {
+      status = 'NEEDS_REVIEW';
+      add('BLUE_CARD_SALARY_MISSING', params);
+    } else if (input.contractGrossSalaryPerYear < minimumSalary) {
+      status = 'NEEDS_REVIEW';
+      add('BLUE_CARD_SALARY_BELOW_THRESHOLD', { ...params, contractGrossSalaryPerYear: input.contractGrossSalaryPerYear });
+    } else {
+      add('BLUE_CARD_SALARY_MEETS_THRESHOLD', { ...params, contractGrossSalaryPerYear: input.contractGrossSalaryPerYear });
     }
   }
 
   // 9) Fiktionsbescheinigung specifics
+  trace.begin('FIKTION', 'Fiktionsbescheinigung continuation', {
+    documentType: input.documentType,
+    isContinuationOfSameJobAndEmployer: input.isContinuationOfSameJobAndEmployer,
+  }, input.documentType === 'FIKTIONSBESCHEINIGUNG');
   if (input.documentType === 'FIKTIONSBESCHEINIGUNG') {
     status = 'NEEDS_REVIEW';
     if (input.isContinuationOfSameJobAndEmployer === true) {
-      reasons.push(
-        'Fiktionsbescheinigung – appears to continue previous work-eligible title with same job/employer. Treat as temporary extension and review carefully.'
-      );
+      add('FIKTION_CONTINUATION');
     } else if (input.isContinuationOfSameJobAndEmployer === false) {
-      reasons.push(
-        'Fiktionsbescheinigung with change of job/employer – work rights depend on underlying application; manual review required.'
-      );
+      add('FIKTION_CHANGE');
+    } else {
+      add('FIKTION_CONTINUATION_UNKNOWN');
+    }
+  }
+
+  // 10) Aufenthaltsgestattung / Duldung: work only with explicit permission
+  trace.begin('TOLERATED_STAY', 'Gestattung / Duldung work permission', {
+    documentType: input.documentType,
+    employmentPermission: input.employmentPermission,
+  }, input.documentType === 'AUFENTHALTSGESTATTUNG' || input.documentType === 'DULDUNG');
+  if (input.documentType === 'AUFENTHALTSGESTATTUNG' || input.documentType === 'DULDUNG') {
+    const isDuldung = input.documentType === 'DULDUNG';
+    const title = isDuldung ? 'Duldung' : 'Aufenthaltsgestattung';
+    const legalReference = isDuldung ? '§60a AufenthG' : '§61 AsylG';
+    if (input.employmentPermission === 'UNCLEAR') {
+      add('TOLERATED_STAY_PERMISSION_REQUIRED', { title }, legalReference);
+    } else {
+      add('TOLERATED_STAY_WITH_PERMISSION', { title }, legalReference);
+    }
+  }
+
+  // 11) Chancenkarte: part-time work only
+  trace.begin('CHANCENKARTE', 'Chancenkarte hours cap', {
+    documentType: input.documentType,
+    contractHoursPerWeek: input.contractHoursPerWeek,
+    chancenkarteMaxHoursPerWeek: ruleSet.chancenkarteMaxHoursPerWeek,
+  }, input.documentType === 'CHANCENKARTE');
+  if (input.documentType === 'CHANCENKARTE') {
+    const maxHours = ruleSet.chancenkarteMaxHoursPerWeek;
+    if (maxHours === null) {
+      status = 'NEEDS_REVIEW';
+      add('CHANCENKARTE_NOT_AVAILABLE', { ruleSetVersion: ruleSet.version });
+    } else if (input.contractHoursPerWeek > maxHours) {
+      status = 'NEEDS_REVIEW';
+      add('CHANCENKARTE_HOURS_EXCEEDED', { maxHours, contractHoursPerWeek: input.contractHoursPerWeek });
+    } else {
+      add('CHANCENKARTE_PART_TIME', { maxHours });
+    }
+  }
+
+  // 12) Student permit: yearly work-day allowance
+  trace.begin('STUDENT_WORK_DAYS', 'Student work-day allowance', {
+    documentType: input.documentType,
+    studentWorkDaysUsed: input.studentWorkDaysUsed,
+    studentWorkDaysPerYear: ruleSet.studentWorkDaysPerYear,
+  }, input.documentType === 'STUDENT_PERMIT');
+  if (input.documentType === 'STUDENT_PERMIT') {
+    const allowance = {
+      allowanceDays: ruleSet.studentWorkDaysPerYear,
+      allowanceHalfDays: ruleSet.studentWorkDaysPerYear * 2,
+    };
+    if (input.studentWorkDaysUsed === undefined) {
+      add('STUDENT_WORK_DAYS_NOT_TRACKED', allowance);
+    } else if (input.studentWorkDaysUsed > ruleSet.studentWorkDaysPerYear) {
+      status = 'NEEDS_REVIEW';
+      add('STUDENT_WORK_DAYS_EXCEEDED', { ...allowance, usedDays: input.studentWorkDaysUsed });
+    } else {
+      add('STUDENT_WORK_DAYS_WITHIN_ALLOWANCE', {
+        ...allowance,
+        usedDays: input.studentWorkDaysUsed,
+        remainingDays: ruleSet.studentWorkDaysPerYear - input.studentWorkDaysUsed,
+      });
+    }
+  }
+
+  // 13) ICT-Karte / Westbalkanregelung: bound to the approved employer
+  trace.begin('EMPLOYER_BOUND_TITLE', 'Employer-bound title', {
+    documentType: input.documentType,
+    permitNamesSpecificEmployer: input.permitNamesSpecificEmployer,
+    employerOnPermit: input.employerOnPermit,
+  }, input.documentType === 'ICT_KARTE' || input.documentType === 'WESTBALKAN_REGELUNG');
+  if (input.documentType === 'ICT_KARTE' || input.documentType === 'WESTBALKAN_REGELUNG') {
+    const isIct = input.documentType === 'ICT_KARTE';
+    const title = isIct ? 'ICT-Karte' : 'Westbalkanregelung';
+    const legalReference = isIct ? '§19 AufenthG' : '§26 Abs. 2 BeschV';
+    if (input.permitNamesSpecificEmployer !== true || !input.employerOnPermit) {
+      status = 'NEEDS_REVIEW';
+      add('EMPLOYER_BOUND_TITLE_UNCONFIRMED', { title }, legalReference);
     } else {
-      reasons.push(
-        'Fiktionsbescheinigung – unclear whether it continues a previous work-eligible title; manual review required.'
-      );
+      add('EMPLOYER_BOUND_TITLE', { title }, legalReference);
     }
   }
 
-  // 10) Baseline explanation for "clean" cases
+  // 14) Baseline explanation for "clean" cases
+  trace.begin('BASELINE', 'Baseline explanation', { reasonsSoFar: reasons.length }, reasons.length === 0);
   if (reasons.length === 0) {
-    reasons.push('No obvious red flags based on the information provided.');
+    add('NO_RED_FLAGS');
   }
 
   let summary: string;
@@ -270,6 +846,7 @@ export function evaluateRightToWork(
   return {
     workStatus: status,
     decisionSummary: summary,
-    decisionDetails: reasons,
+    decisionReasons: reasons,
+    decisionTrace: trace.finish(),
   };
 }
@@ -0,0 +1,83 @@
+// lib/ruleSets.ts
+
+// German immigration rules change over time (e.g. the 2023 Blue Card reform,
+// the 2024 Chancenkarte). Every evaluation runs under the rule set that was in
+// force on the evaluation date, and the version is stored on the check so a
+// historic decision can be reproduced later.
+export interface RuleSet {
+  version: string;
+  effectiveFrom: string; // ISO date the rules came into force
+  description: string;
+
+  // Months after which a Blue Card holder may change employer without the
+  // immigration authority having to be involved.
+  blueCardEmployerChangeReviewMonths: number;
+
+  // Weekly hours cap for Chancenkarte holders (§20a AufenthG);
+  // null while the Chancenkarte did not exist yet.
+  chancenkarteMaxHoursPerWeek: number | null;
+
+  // Full working days per calendar year a student may work (§16b Abs. 3
+  // AufenthG); twice as many half days.
+  studentWorkDaysPerYear: number;
+}
+
+// Ordered oldest → newest. Add a new entry instead of editing an old one,
+// otherwise stored checks can no longer be reproduced.
+export const RULE_SETS: readonly RuleSet[] = [
+  {
+    version: '2020-03',
+    effectiveFrom: '2020-03-01',
+    description:
+      'Fachkräfteeinwanderungsgesetz – Blue Card employer changes need approval during the first 24 months.',
+    blueCardEmployerChangeReviewMonths: 24,
+    chancenkarteMaxHoursPerWeek: null,
+    studentWorkDaysPerYear: 120,
+  },
+  {
+    version: '2023-11',
+    effectiveFrom: '2023-11-18',
+    description:
+      'Blue Card reform – employer changes must be notified to the authority during the first 12 months.',
+    blueCardEmployerChangeReviewMonths: 12,
+    chancenkarteMaxHoursPerWeek: null,
+    studentWorkDaysPerYear: 120,
+  },
+  {
+    version: '2024-03',
+    effectiveFrom: '2024-03-01',
+    description: 'Students (§16b AufenthG) may work 140 full or 280 half days per year instead of 120 / 240.',
+    blueCardEmployerChangeReviewMonths: 12,
+    chancenkarteMaxHoursPerWeek: null,
+    studentWorkDaysPerYear: 140,
+  },
+  {
+    version: '2024-06',
+    effectiveFrom: '2024-06-01',
+    description: 'Chancenkarte (§20a AufenthG) introduced – part-time work up to 20h/week.',
+    blueCardEmployerChangeReviewMonths: 12,
+    chancenkarteMaxHoursPerWeek: 20,
+    studentWorkDaysPerYear: 140,
+  },
+];
+
+export const CURRENT_RULE_SET: RuleSet = RULE_SETS[RULE_SETS.length - 1];
+
+/**
+ * Returns the rule set in force on the given date. Dates before the oldest
+ * rule set fall back to the oldest one we know.
+ */
+export function getRuleSetForDate(date: string | Date): RuleSet {
+  const isoDate = (typeof date === 'string' ? new Date(date) : date).toISOString().split('T')[0];
+  let match = RULE_SETS[0];
+  for (const ruleSet of RULE_SETS) {
+    if (ruleSet.effectiveFrom <= isoDate) {
+      match = ruleSet;
+    }
+  }
+  return match;
+}
+
+export function getRuleSetByVersion(version: string): RuleSet | undefined {
+  return RULE_SETS.find((ruleSet) => ruleSet.version === version);
+}
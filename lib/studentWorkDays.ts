@@ -0,0 +1,139 @@
+// lib/studentWorkDays.ts
+
+// Students on a §16b AufenthG title may work a limited number of full or half
+// days per calendar year (140 / 280 since March 2024). HR imports shift and
+// timesheet exports; this module turns them into days and counts the
+// allowance used so far.
+
+import type { RuleSet } from './ruleSets';
+
+// A day with up to four hours of work counts as a half day (BA guidance).
+export const HALF_DAY_MAX_MINUTES = 4 * 60;
+
+// Share of the allowance from which the dashboard warns.
+export const STUDENT_ALLOWANCE_WARNING_SHARE = 0.9;
+
+export type StudentAllowanceLevel = 'WITHIN' | 'APPROACHING' | 'EXCEEDED';
+
+export interface WorkedDay {
+  workDate: string;      // ISO date
+  minutesWorked: number;
+}
+
+export interface StudentWorkDayUsage {
+  year: number;
+  fullDays: number;
+  halfDays: number;
+  usedDays: number;      // full-day equivalents: two half days count as one full day
+  allowanceDays: number; // full days allowed in the year
+  remainingDays: number;
+  level: StudentAllowanceLevel;
+}
+
+/**
+ * Counts the allowance used in one calendar year. Days outside the year and
+ * days without any minutes are ignored.
+ */
+export function summarizeStudentWorkDays(
+  days: WorkedDay[],
+  year: number,
+  ruleSet: Pick<RuleSet, 'studentWorkDaysPerYear'>
+): StudentWorkDayUsage {
+  let fullDays = 0;
+  let halfDays = 0;
+  for (const day of days) {
+    if (!day.workDate.startsWith(`${year}-`) || day.minutesWorked <= 0) continue;
+    if (day.minutesWorked <= HALF_DAY_MAX_MINUTES) {
+      halfDays++;
+    } else {
+      fullDays++;
+    }
+  }
+
+  const allowanceDays = ruleSet.studentWorkDaysPerYear;
+  const usedDays = fullDays + halfDays / 2;
+  let level: StudentAllowanceLevel = 'WITHIN';
+  if (usedDays > allowanceDays) {
+    level = 'EXCEEDED';
+  } else if (usedDays >= allowanceDays * STUDENT_ALLOWANCE_WARNING_SHARE) {
+    level = 'APPROACHING';
+  }
+
+  return {
+    year,
+    fullDays,
+    halfDays,
+    usedDays,
+    allowanceDays,
+    remainingDays: Math.max(allowanceDays - usedDays, 0),
+    level,
+  };
+}
+
+function parseWorkDate(value: string | undefined): string {
+  const text = value?.trim() ?? '';
+  let match = text.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  let iso: string | null = match ? `${match[1]}-${match[2]}-${match[3]}` : null;
+  if (!iso) {
+    // German exports: 15.03.2025
+    match = text.match(/^(\d{1,2})\.(\d{1,2})\.(\d{4})$/);
+    if (match) iso = `${match[3]}-${match[2].padStart(2, '0')}-${match[1].padStart(2, '0')}`;
+  }
+  if (!iso || Number.isNaN(new Date(`${iso}T00:00:00Z`).getTime())) {
+    throw new Error(`Invalid date "${text}" (use YYYY-MM-DD or DD.MM.YYYY)`);
+  }
+  return iso;
+}
+
+function parseClockTime(value: string, column: string): number {
+  const match = value.trim().match(/^(\d{1,2})[:.](\d{2})$/);
+  if (!match || Number(match[1]) > 24 || Number(match[2]) > 59) {
+    throw new Error(`Invalid ${column} time "${value}" (use HH:MM)`);
+  }
+  return Number(match[1]) * 60 + Number(match[2]);
+}
+
+function parseNumber(value: string, column: string): number {
+  const parsed = Number(value.trim().replace(',', '.'));
+  if (!Number.isFinite(parsed) || parsed < 0) {
+    throw new Error(`Invalid ${column} "${value}"`);
+  }
+  return parsed;
+}
+
+/**
+ * Reads one timesheet row: a `date` plus either `hours` (decimal, "7,5" is
+ * accepted) or `start` / `end` times with optional `break_minutes`. A shift
+ * that ends after midnight counts for the day it started.
+ */
+export function parseTimesheetRecord(record: Record<string, string | undefined>): WorkedDay {
+  const workDate = parseWorkDate(record.date);
+
+  let minutesWorked: number;
+  if (record.hours) {
+    minutesWorked = Math.round(parseNumber(record.hours, 'hours') * 60);
+  } else if (record.start && record.end) {
+    const start = parseClockTime(record.start, 'start');
+    let end = parseClockTime(record.end, 'end');
+    if (end <= start) end += 24 * 60;
+    const breakMinutes = record.break_minutes ? parseNumber(record.break_minutes, 'break_minutes') : 0;
+    minutesWorked = Math.max(end - start - breakMinutes, 0);
+  } else {
+    throw new Error('Each row needs "hours" or "start" and "end"');
+  }
+
+  if (minutesWorked > 24 * 60) {
+    throw new Error(`More than 24 hours on ${workDate}`);
+  }
+  return { workDate, minutesWorked };
+}
+
+// Adds up several shifts on the same day.
+export function mergeShiftsByDay(shifts: WorkedDay[]): WorkedDay[] {
+  const byDay = new Map<string, number>();
+  for (const shift of shifts) {
+    byDay.set(shift.workDate, (byDay.get(shift.workDate) ?? 0) + shift.minutesWorked);
+  }
+  return Array.from(byDay, ([workDate, minutesWorked]) => ({ workDate, minutesWorked }))
+    .sort((a, b) => a.workDate.localeCompare(b.workDate));
+}
@@ -0,0 +1,77 @@
+import type { DocumentType } from "@shared/schema";
+import {
+  checkDocumentDates,
+  checkDocumentNumberFormat,
+  getStoredAuthenticitySignals,
+  isSamePerson,
+  normalizeDocumentNumber,
+  type AuthenticitySignal,
+} from "../lib/documentAuthenticity";
+import { storage } from "./storage";
+
+// Numbers this short are placeholders or typos, not a document's serial
+const MIN_DUPLICATE_NUMBER_LENGTH = 5;
+
+export interface AuthenticityCheckDetails {
+  checkId?: string;                 // the check itself, so it does not match its own number
+  employeeId?: string | null;
+  firstName?: string | null;        // the holder: the employee's name for employee checks
+  lastName?: string | null;
+  documentType?: DocumentType | null;
+  documentNumber?: string | null;
+  passportNumber?: string | null;
+  dateOfIssue?: string | Date | null;
+  expiryDate?: string | Date | null;
+  cardExpiryDate?: string | Date | null;
+  dateOfBirth?: string | Date | null;
+  ocrExtractedFields?: unknown;     // signals found when the scan was read
+}
+
+/**
+ * Another check in the tenant that recorded the document or passport number
+ * for a different person. Lookup failures are logged and treated as no match.
+ */
+async function findDuplicateDocumentNumbers(userId: string, details: AuthenticityCheckDetails): Promise<AuthenticitySignal[]> {
+  const numbers = [details.documentNumber, details.passportNumber]
+    .map((number) => (number ? normalizeDocumentNumber(number) : ""))
+    .filter((number, index, all) => number.length >= MIN_DUPLICATE_NUMBER_LENGTH && all.indexOf(number) === index);
+  const signals: AuthenticitySignal[] = [];
+  for (const documentNumber of numbers) {
+    try {
+      const matches = await storage.getChecksByDocumentNumber(userId, documentNumber);
+      const other = matches.find((match) => match.checkId !== details.checkId && !isSamePerson(details, match));
+      if (other) {
+        signals.push({
+          code: "DUPLICATE_DOCUMENT_NUMBER",
+          params: {
+            documentNumber,
+            otherName: [other.firstName, other.lastName].filter(Boolean).join(" "),
+            otherCheckId: other.checkId,
+            otherCheckDate: other.createdAt ? other.createdAt.toISOString().split("T")[0] : "?",
+          },
+        });
+      }
+    } catch (error) {
+      console.warn("[AUTHENTICITY] Duplicate document number lookup failed:", error);
+    }
+  }
+  return signals;
+}
+
+/**
+ * Every authenticity signal for a check: those found in the scan when it was
+ * read, the format of the document and passport numbers, the document's
+ * dates, and document numbers already on file for someone else.
+ */
+export async function assessDocumentAuthenticity(
+  userId: string,
+  details: AuthenticityCheckDetails
+): Promise<AuthenticitySignal[]> {
+  return [
+    ...getStoredAuthenticitySignals(details.ocrExtractedFields),
+    ...checkDocumentNumberFormat(details.documentNumber, "RESIDENCE_TITLE", details.documentType),
+    ...checkDocumentNumberFormat(details.passportNumber, "PASSPORT"),
+    ...checkDocumentDates(details),
+    ...(await findDuplicateDocumentNumbers(userId, details)),
+  ];
+}
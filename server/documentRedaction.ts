@@ -0,0 +1,194 @@
+import { randomUUID } from "crypto";
+import type { DocumentRedactionSettings, RightToWorkCheckDocument } from "@shared/schema";
+import {
+  getOriginalDeleteAfter,
+  isOriginalDue,
+  parseRedactionRegions,
+  redactOcrData,
+  type RedactionRegion,
+} from "../lib/documentRedaction";
+import { redactDocumentFile } from "../lib/imageRedaction";
+import { ObjectNotFoundError, ObjectStorageService, objectStorageClient } from "./objectStorage";
+import { hashFileContent } from "./ocrCache";
+import { storage } from "./storage";
+
+export type RedactionSettings = Pick<DocumentRedactionSettings, "enabled" | "maskedFields" | "originalRetentionDays">;
+
+// Tenants that never saved redaction settings
+export const DEFAULT_REDACTION_SETTINGS: RedactionSettings = {
+  enabled: false,
+  maskedFields: ["PHOTO", "SIGNATURE"],
+  originalRetentionDays: 30,
+};
+
+// Expired originals are looked for this often
+const PURGE_INTERVAL_MS = 60 * 60 * 1000;
+
+export async function getRedactionSettings(userId: string): Promise<RedactionSettings> {
+  const settings = await storage.getDocumentRedactionSettings(userId);
+  return settings
+    ? { enabled: settings.enabled, maskedFields: settings.maskedFields, originalRetentionDays: settings.originalRetentionDays }
+    : DEFAULT_REDACTION_SETTINGS;
+}
+
+// Bytes of a stored document, by its /objects/... URL
+export async function readStoredDocument(fileUrl: string): Promise<Buffer> {
+  const objectFile = await new ObjectStorageService().getObjectEntityFile(fileUrl);
+  const [contents] = await objectFile.download();
+  return contents;
+}
+
+// Next to the check's other attachments, readable by the tenant only
+async function storeRedactedCopy(userId: string, buffer: Buffer, mimeType: string, extension: string): Promise<string> {
+  const objectStorageService = new ObjectStorageService();
+  const uniqueId = randomUUID();
+  const storagePath = `${objectStorageService.getPrivateObjectDir()}/check-attachments/${uniqueId}.${extension}`;
+  const pathParts = storagePath.split("/");
+  if (pathParts.length < 3) {
+    throw new Error("Invalid storage path");
+  }
+  const objectFile = objectStorageClient.bucket(pathParts[1]).file(pathParts.slice(2).join("/"));
+  await objectFile.save(buffer, { metadata: { contentType: mimeType } });
+
+  const fileUrl = `/objects/check-attachments/${uniqueId}.${extension}`;
+  await objectStorageService.trySetObjectEntityAclPolicy(fileUrl, { owner: userId, visibility: "private" });
+  return fileUrl;
+}
+
+// Objects that are already gone count as deleted
+async function deleteStoredObject(fileUrl: string): Promise<void> {
+  try {
+    const objectFile = await new ObjectStorageService().getObjectEntityFile(fileUrl);
+    await objectFile.delete({ ignoreNotFound: true });
+  } catch (error) {
+    if (!(error instanceof ObjectNotFoundError)) throw error;
+  }
+}
+
+// The check's OCR text and fields without what the document's regions masked
+async function redactCheckOcrData(document: RightToWorkCheckDocument): Promise<void> {
+  const fields = parseRedactionRegions(document.redactionRegions).flatMap((region) => (region.field ? [region.field] : []));
+  if (fields.length === 0) return;
+  const check = await storage.getRightToWorkCheckById(document.checkId);
+  if (!check || (check.ocrRawText == null && check.ocrExtractedFields == null)) return;
+  const redacted = redactOcrData({ rawText: check.ocrRawText, extractedFields: check.ocrExtractedFields }, fields);
+  await storage.updateRightToWorkCheckOcrData(check.id, {
+    ocrRawText: redacted.rawText,
+    ocrExtractedFields: redacted.extractedFields,
+  });
+}
+
+/**
+ * Deletes the unredacted original of a redacted document once its retention
+ * period has run out, together with the OCR text cached for it and what the
+ * masked fields showed in the check's OCR data, and lets the redacted copy
+ * take its place. Logged on the check; false when it was not due.
+ */
+export async function deleteOriginalDocument(
+  userId: string,
+  document: RightToWorkCheckDocument,
+  now: Date = new Date()
+): Promise<boolean> {
+  if (!isOriginalDue(document, now)) return false;
+  // The cache is keyed by the hash of the bytes; documents attached before
+  // uploads were hashed on the server may have none or the client's
+  let contentHash = document.contentHash;
+  try {
+    contentHash = hashFileContent(await readStoredDocument(document.fileUrl));
+  } catch (error) {
+    if (!(error instanceof ObjectNotFoundError)) throw error;
+  }
+  await deleteStoredObject(document.fileUrl);
+  await storage.replaceOriginalWithRedactedCopy(document.id);
+  if (contentHash) {
+    await storage.deleteOcrResultCacheEntries(userId, contentHash);
+  }
+  await redactCheckOcrData(document);
+
+  await storage.createAuditLog({
+    userId,
+    action: "ORIGINAL_DOCUMENT_DELETED",
+    entityType: "check",
+    entityId: document.checkId,
+    details: `Original of "${document.fileName}" deleted; the redacted copy is kept`,
+  });
+  return true;
+}
+
+/**
+ * Stores a copy of the document with the regions masked and schedules the
+ * original for deletion after the tenant's retention period. Redacting again
+ * while the original is still kept replaces the earlier copy.
+ */
+export async function redactStoredDocument(
+  userId: string,
+  document: RightToWorkCheckDocument,
+  regions: RedactionRegion[]
+): Promise<RightToWorkCheckDocument> {
+  if (document.originalDeletedAt) {
+    throw new Error("The original has already been deleted");
+  }
+  const settings = await getRedactionSettings(userId);
+  const original = await readStoredDocument(document.fileUrl);
+  const redacted = await redactDocumentFile(original, regions);
+  const redactedFileUrl = await storeRedactedCopy(userId, redacted.buffer, redacted.mimeType, redacted.extension);
+  if (document.redactedFileUrl) {
+    await deleteStoredObject(document.redactedFileUrl);
+  }
+
+  const now = new Date();
+  const originalDeleteAfter = getOriginalDeleteAfter(now, settings.originalRetentionDays);
+  const updated = await storage.updateRightToWorkCheckDocument(document.id, {
+    redactedFileUrl,
+    redactionRegions: regions,
+    redactedAt: now,
+    originalDeleteAfter,
+  });
+  if (!updated) {
+    throw new Error("Document not found");
+  }
+
+  await storage.createAuditLog({
+    userId,
+    action: "DOCUMENT_REDACTED",
+    entityType: "check",
+    entityId: document.checkId,
+    details: `"${document.fileName}" redacted (${regions.length} region${regions.length === 1 ? "" : "s"} masked); original kept until ${originalDeleteAfter.toISOString().split("T")[0]}`,
+  });
+
+  // No retention period: the original goes right away
+  if (settings.originalRetentionDays === 0) {
+    await deleteOriginalDocument(userId, updated, now);
+    return (await storage.getRightToWorkCheckDocumentById(document.id, userId)) ?? updated;
+  }
+  return updated;
+}
+
+/**
+ * Deletes every original whose retention period has run out. A document that
+ * fails is logged and retried on the next run.
+ */
+export async function purgeExpiredOriginals(now: Date = new Date()): Promise<number> {
+  const documents = await storage.getDocumentsWithExpiredOriginals(now);
+  let deleted = 0;
+  for (const document of documents) {
+    try {
+      if (await deleteOriginalDocument(document.userId, document, now)) deleted++;
+    } catch (error) {
+      console.error("[REDACTION] Could not delete original document:", document.id, error);
+    }
+  }
+  if (deleted > 0) {
+    console.log(`[REDACTION] Deleted ${deleted} original document(s) after redaction`);
+  }
+  return deleted;
+}
+
+// Runs the purge now and then every PURGE_INTERVAL_MS while the server is up
+export function scheduleOriginalPurge(): void {
+  const run = () => {
+    purgeExpiredOriginals().catch((error) => console.error("[REDACTION] Purge of expired originals failed:", error));
+  };
+  run();
+  setInterval(run, PURGE_INTERVAL_MS).unref();
+}
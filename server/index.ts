@@ -1,6 +1,7 @@
 import express, { type Request, Response, NextFunction } from "express";
 import { registerRoutes } from "./routes";
 import { setupVite, serveStatic, log } from "./vite";
+import { scheduleOriginalPurge } from "./documentRedaction";
 
 const app = express();
 
@@ -77,5 +78,7 @@ app.use((req, res, next) => {
     reusePort: true,
   }, () => {
     log(`serving on port ${port}`);
+    // Originals of redacted documents are deleted once their retention ends
+    scheduleOriginalPurge();
   });
 })();
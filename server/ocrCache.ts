@@ -0,0 +1,78 @@
+import { createHash } from "crypto";
+import { extractFieldsFromDocument, OCR_EXTRACTION_VERSION, type OcrExtractionResult } from "../lib/ocr";
+import { getOcrProvider, type OcrProvider } from "../lib/ocrProviders";
+import { storage } from "./storage";
+
+// The same scan is often read several times: on the check form, on public
+// submit and again when a reviewer re-uploads it. Results are cached per
+// tenant by the file's SHA-256 and the engine version, so only the first read
+// costs OCR quota.
+
+export function hashFileContent(buffer: Buffer): string {
+  return createHash("sha256").update(buffer).digest("hex");
+}
+
+// Engine build plus field-guesser version; a change in either misses the cache
+export function getOcrCacheVersion(provider: OcrProvider): string {
+  return `${provider.version}/extraction-${OCR_EXTRACTION_VERSION}`;
+}
+
+/**
+ * The cached result for this file, if the tenant had it read by the same
+ * engine version. Cache failures are logged and treated as a miss.
+ */
+export async function getCachedOcrResult(
+  userId: string,
+  contentHash: string,
+  provider: OcrProvider = getOcrProvider()
+): Promise<OcrExtractionResult | undefined> {
+  try {
+    const entry = await storage.getOcrResultCacheEntry(userId, contentHash, provider.name, getOcrCacheVersion(provider));
+    return entry ? (entry.result as OcrExtractionResult) : undefined;
+  } catch (error) {
+    console.warn("[OCR CACHE] Lookup failed:", error);
+    return undefined;
+  }
+}
+
+/**
+ * Reads the file with OCR and caches the result for the tenant.
+ */
+export async function extractAndCacheOcrResult(
+  userId: string,
+  fileBuffer: Buffer,
+  contentHash: string = hashFileContent(fileBuffer),
+  provider: OcrProvider = getOcrProvider()
+): Promise<OcrExtractionResult> {
+  const result = await extractFieldsFromDocument(fileBuffer, provider);
+  try {
+    await storage.saveOcrResultCacheEntry({
+      userId,
+      contentHash,
+      ocrProvider: provider.name,
+      ocrVersion: getOcrCacheVersion(provider),
+      result,
+    });
+  } catch (error) {
+    console.warn("[OCR CACHE] Could not store result:", error);
+  }
+  return result;
+}
+
+/**
+ * The cached result when there is one, otherwise a fresh OCR read that is
+ * cached for next time.
+ */
+export async function extractFieldsWithCache(
+  userId: string,
+  fileBuffer: Buffer
+): Promise<{ result: OcrExtractionResult; contentHash: string; cached: boolean }> {
+  const provider = getOcrProvider();
+  const contentHash = hashFileContent(fileBuffer);
+  const cachedResult = await getCachedOcrResult(userId, contentHash, provider);
+  if (cachedResult) {
+    return { result: cachedResult, contentHash, cached: true };
+  }
+  const result = await extractAndCacheOcrResult(userId, fileBuffer, contentHash, provider);
+  return { result, contentHash, cached: false };
+}
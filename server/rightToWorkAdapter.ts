@@ -1,71 +1,395 @@
 import type { EvaluateRightToWorkInput } from "../lib/rightToWork";
-import type { DocumentType } from "@shared/schema";
+import { getStoredAuthenticitySignals, type AuthenticitySignal } from "../lib/documentAuthenticity";
+import { getMrzIdentity, type IdentityRecord } from "../lib/identityCrossCheck";
+import { getMrzCheckDigitFailures, getStoredMrz, type MrzCheckedField } from "../lib/mrz";
+import { classifyNationality, getCountry } from "../lib/nationality";
+import { unlimitableDocumentTypes, unlimitedDocumentTypes } from "@shared/schema";
+import type {
+  BaApproval,
+  BlueCardSalaryCategory,
+  CitizenshipCategory,
+  DocumentType,
+  Employee,
+  EmploymentPermission,
+  PermitConditionAnswer,
+  RightToWorkCheck,
+} from "@shared/schema";
+
+type EmployeeIdentity = Pick<Employee, "firstName" | "lastName" | "dateOfBirth" | "nationality">;
 
 /**
- * Maps our simplified check form data to the comprehensive rules engine input.
- * Uses conservative defaults that will flag most cases as NEEDS_REVIEW.
- * 
- * This is intentional - we collect minimal data in the form, so the engine
- * should be cautious and request manual review for most cases.
+ * Permit conditions HR captures on the check form. Every field is optional:
+ * whatever is not provided falls back to a conservative default that makes
+ * the rules engine flag the check as NEEDS_REVIEW.
  */
-export function mapToRulesEngineInput(formData: {
+export interface RulesEngineFormData {
   documentType: DocumentType;
-  expiryDate: Date;
+  // End of the title itself; may be missing for unlimited titles
+  expiryDate?: Date | null;
   dateOfIssue?: Date;
-}): EvaluateRightToWorkInput {
+  isTitleUnlimited?: boolean | null;
+  // Card / passport expiry for unlimited titles
+  cardExpiryDate?: Date | null;
+  // ISO 3166-1 alpha-2; overrides citizenshipCategory when recognised
+  nationality?: string | null;
+  citizenshipCategory?: CitizenshipCategory | null;
+  employmentPermission?: EmploymentPermission | null;
+  // ISO date from the Zusatzblatt, when employment is time-limited
+  employmentPermittedUntil?: string | null;
+  hiringEmployerName?: string | null;
+  // Employer printed on the card / Zusatzblatt
+  employerName?: string | null;
+  // Tenant's subsidiaries / trading names, loaded from storage (not on the form)
+  hiringEmployerAliases?: string[];
+  permitNamesSpecificEmployer?: PermitConditionAnswer | null;
+  permitLimitedToOccupation?: PermitConditionAnswer | null;
+  occupationOnPermit?: string | null;
+  plannedRoleCategory?: string | null;
+  hasHoursLimitOnPermit?: PermitConditionAnswer | null;
+  hoursLimitPerWeekOnPermit?: number | null;
+  contractHoursPerWeek?: number | null;
+  hasLocationRestriction?: PermitConditionAnswer | null;
+  locationRestrictionDescription?: string | null;
+  plannedWorkCity?: string | null;
+  isChangingEmployer?: boolean | null;
+  monthsOnBlueCardInGermany?: number | null;
+  contractGrossSalaryPerYear?: number | null;
+  blueCardSalaryCategory?: BlueCardSalaryCategory | null;
+  isContinuationOfSameJobAndEmployer?: PermitConditionAnswer | null;
+  // Student allowance used this year, loaded from the work-day tracker (not on the form)
+  studentWorkDaysUsed?: number;
+  // Bundesagentur für Arbeit approval attached to the check, loaded from storage (not on the form)
+  baApproval?: BaApproval | null;
+  // MRZ check digits that failed on the scanned document, from the OCR fields (not on the form)
+  mrzCheckDigitFailures?: MrzCheckedField[];
+  // Name of the person checked; only recorded for checks without an employee
+  firstName?: string | null;
+  lastName?: string | null;
+  // Holder's date of birth as printed on the residence title (ISO date)
+  dateOfBirth?: string | null;
+  // Holder as read from the residence title's MRZ, from the OCR fields (not on the form)
+  residenceTitleMrzIdentity?: IdentityRecord;
+  // National passport the title was issued against
+  passportFirstName?: string | null;
+  passportLastName?: string | null;
+  passportDateOfBirth?: string | null;
+  passportNationality?: string | null;
+  // Employee the check is for, loaded from storage (not on the form)
+  employee?: EmployeeIdentity | null;
+  // Traits of an edited or forged document, from server/documentAuthenticity.ts (not on the form)
+  authenticitySignals?: AuthenticitySignal[];
+}
+
+/**
+ * Data on file that went into a check's decision besides the check's own
+ * fields. The employee record, the employer aliases and the student's work
+ * days change after the check is made, so they are stored with the check and
+ * a re-run uses them instead of today's values.
+ */
+export interface RecordedDecisionContext {
+  employee: EmployeeIdentity | null;
+  hiringEmployerAliases: string[];
+  studentWorkDaysUsed: number | null;
+  // Approvals are recorded against an existing check, so a check's own
+  // decision is made without one
+  baApprovalId: string | null;
+  // Read from the MRZ in the OCR fields, which redaction may strip
+  mrzCheckDigitFailures: MrzCheckedField[] | null;
+  residenceTitleMrzIdentity: IdentityRecord | null;
+}
+
+export function recordDecisionContext(formData: RulesEngineFormData): RecordedDecisionContext {
+  const { employee } = formData;
+  return {
+    employee: employee
+      ? {
+          firstName: employee.firstName,
+          lastName: employee.lastName,
+          dateOfBirth: employee.dateOfBirth,
+          nationality: employee.nationality,
+        }
+      : null,
+    hiringEmployerAliases: formData.hiringEmployerAliases ?? [],
+    studentWorkDaysUsed: formData.studentWorkDaysUsed ?? null,
+    baApprovalId: formData.baApproval?.id ?? null,
+    mrzCheckDigitFailures: formData.mrzCheckDigitFailures ?? null,
+    residenceTitleMrzIdentity: formData.residenceTitleMrzIdentity ?? null,
+  };
+}
+
+/**
+ * The context stored with a check; undefined for checks made before it was
+ * recorded.
+ */
+export function getRecordedDecisionContext(stored: unknown): RecordedDecisionContext | undefined {
+  if (!stored || typeof stored !== "object" || Array.isArray(stored)) return undefined;
+  const context = stored as Partial<RecordedDecisionContext>;
+  return {
+    employee: context.employee ?? null,
+    hiringEmployerAliases: Array.isArray(context.hiringEmployerAliases) ? context.hiringEmployerAliases : [],
+    studentWorkDaysUsed: typeof context.studentWorkDaysUsed === "number" ? context.studentWorkDaysUsed : null,
+    baApprovalId: context.baApprovalId ?? null,
+    mrzCheckDigitFailures: Array.isArray(context.mrzCheckDigitFailures) ? context.mrzCheckDigitFailures : null,
+    residenceTitleMrzIdentity: context.residenceTitleMrzIdentity ?? null,
+  };
+}
+
+const employmentPermissionMapping: Record<EmploymentPermission, EvaluateRightToWorkInput['employmentPermission']> = {
+  'ANY_EMPLOYMENT_ALLOWED': 'ANY_EMPLOYMENT_ALLOWED',
+  'RESTRICTED': 'EMPLOYMENT_ALLOWED_WITH_LIMITS',
+  'NOT_ALLOWED': 'EMPLOYMENT_NOT_ALLOWED',
+  'UNKNOWN': 'UNCLEAR',
+};
+
+function toTriState(answer: PermitConditionAnswer | null | undefined): boolean | 'UNKNOWN' {
+  if (answer === 'YES') return true;
+  if (answer === 'NO') return false;
+  return 'UNKNOWN';
+}
+
+function toOptionalNumber(value: number | string | null | undefined): number | undefined {
+  if (value === null || value === undefined || value === '') return undefined;
+  const parsed = typeof value === 'number' ? value : Number(value);
+  return Number.isFinite(parsed) ? parsed : undefined;
+}
+
+function toIsoDate(value: Date | null | undefined): string | undefined {
+  return value ? value.toISOString().split('T')[0] : undefined;
+}
+
+/**
+ * Whether HR may mark a title of this type as unbefristet. Time-limited types
+ * such as the Blue Card must never skip the expiry checks.
+ */
+export function canBeUnlimitedTitle(documentType: DocumentType): boolean {
+  return (unlimitableDocumentTypes as readonly DocumentType[]).includes(documentType);
+}
+
+/**
+ * Settlement permits and EU long-term residence are always unlimited, even if
+ * HR did not tick the box on the form. The box only counts for types that can
+ * be unbefristet at all.
+ */
+export function isUnlimitedTitle(
+  documentType: DocumentType,
+  isTitleUnlimited?: boolean | null,
+): boolean {
+  return (unlimitedDocumentTypes as readonly DocumentType[]).includes(documentType)
+    || (isTitleUnlimited === true && canBeUnlimitedTitle(documentType));
+}
+
+export interface TitleValidity {
+  isTitleUnlimited: boolean;
+  expiryDate: string | null;
+  cardExpiryDate: string | null;
+}
+
+/**
+ * Normalises the dates submitted for a check. Unlimited titles never carry an
+ * expiry date of their own: a single date submitted for them is treated as the
+ * card's expiry. Time-limited titles keep their expiry and drop any card date.
+ */
+export function resolveTitleValidity(
+  documentType: DocumentType,
+  dates: { expiryDate?: string | null; isTitleUnlimited?: boolean | null; cardExpiryDate?: string | null },
+): TitleValidity {
+  if (isUnlimitedTitle(documentType, dates.isTitleUnlimited)) {
+    return {
+      isTitleUnlimited: true,
+      expiryDate: null,
+      cardExpiryDate: dates.cardExpiryDate || dates.expiryDate || null,
+    };
+  }
+  return {
+    isTitleUnlimited: false,
+    expiryDate: dates.expiryDate || null,
+    cardExpiryDate: null,
+  };
+}
+
+/**
+ * The recorded nationality decides the citizenship category. The category HR
+ * picked by hand is only used when no (recognised) nationality is recorded.
+ */
+export function resolveCitizenshipCategory(
+  nationality: string | null | undefined,
+  citizenshipCategory: CitizenshipCategory | null | undefined,
+): CitizenshipCategory | null {
+  return classifyNationality(nationality) ?? citizenshipCategory ?? null;
+}
+
+function toOptionalText(value: string | null | undefined): string | undefined {
+  const trimmed = value?.trim();
+  return trimmed ? trimmed : undefined;
+}
+
+function toIdentityRecord(record: {
+  firstName?: string | null;
+  lastName?: string | null;
+  dateOfBirth?: string | null;
+  nationality?: string | null;
+}): IdentityRecord | undefined {
+  const identity: IdentityRecord = {
+    firstName: toOptionalText(record.firstName),
+    lastName: toOptionalText(record.lastName),
+    dateOfBirth: toOptionalText(record.dateOfBirth),
+    nationality: getCountry(record.nationality)?.alpha2,
+  };
+  return Object.values(identity).some(Boolean) ? identity : undefined;
+}
+
+/**
+ * The holder's name, date of birth and nationality per source, for the
+ * engine to cross-check. The residence title's name and nationality come from
+ * its MRZ when it checks out (the form's nationality may be the employee's on
+ * file); the date of birth HR typed in wins over the MRZ. Checks without an
+ * employee compare against the name recorded on the check instead.
+ */
+function buildIdentityRecords(formData: RulesEngineFormData): EvaluateRightToWorkInput["identity"] {
+  const titleMrz = formData.residenceTitleMrzIdentity;
+  const records: NonNullable<EvaluateRightToWorkInput["identity"]> = {
+    RESIDENCE_TITLE: toIdentityRecord({
+      firstName: titleMrz?.firstName,
+      lastName: titleMrz?.lastName,
+      dateOfBirth: formData.dateOfBirth || titleMrz?.dateOfBirth,
+      nationality: titleMrz?.nationality || formData.nationality,
+    }),
+    PASSPORT: toIdentityRecord({
+      firstName: formData.passportFirstName,
+      lastName: formData.passportLastName,
+      dateOfBirth: formData.passportDateOfBirth,
+      nationality: formData.passportNationality,
+    }),
+    EMPLOYEE_RECORD: toIdentityRecord(formData.employee ?? {
+      firstName: formData.firstName,
+      lastName: formData.lastName,
+    }),
+  };
+  return Object.fromEntries(Object.entries(records).filter(([, record]) => record !== undefined));
+}
+
+/**
+ * Maps the check form data to the comprehensive rules engine input.
+ *
+ * Conditions HR has answered are passed through as-is, so a clean permit can
+ * come out ELIGIBLE. Anything left blank keeps the conservative default
+ * (UNKNOWN / UNCLEAR / third-country), which the engine turns into
+ * NEEDS_REVIEW.
+ */
+export function mapToRulesEngineInput(formData: RulesEngineFormData): EvaluateRightToWorkInput {
   // Map simplified document types to rules engine types
   const documentTypeMapping: Record<DocumentType, EvaluateRightToWorkInput['documentType']> = {
     'EU_BLUE_CARD': 'EU_BLUE_CARD',
     'EAT': 'EAT_EMPLOYMENT',
     'FIKTIONSBESCHEINIGUNG': 'FIKTIONSBESCHEINIGUNG',
+    'NIEDERLASSUNGSERLAUBNIS': 'NIEDERLASSUNGSERLAUBNIS',
+    'DAUERAUFENTHALT_EU': 'DAUERAUFENTHALT_EU',
+    'AUFENTHALTSGESTATTUNG': 'AUFENTHALTSGESTATTUNG',
+    'DULDUNG': 'DULDUNG',
+    'TEMPORARY_PROTECTION_24': 'TEMPORARY_PROTECTION_24',
+    'CHANCENKARTE': 'CHANCENKARTE',
+    'ICT_KARTE': 'ICT_KARTE',
+    'WESTBALKAN_REGELUNG': 'WESTBALKAN_REGELUNG',
+    'STUDENT_PERMIT': 'STUDENT_PERMIT',
     'OTHER': 'OTHER',
   };
 
   // Calculate documentValidFrom
-  const documentValidFrom = formData.dateOfIssue 
+  const documentValidFrom = formData.dateOfIssue
     ? formData.dateOfIssue.toISOString().split('T')[0]
     : new Date(Date.now() - 365 * 24 * 60 * 60 * 1000).toISOString().split('T')[0]; // Default: 1 year ago
 
-  const documentValidTo = formData.expiryDate.toISOString().split('T')[0];
+  const isTitleUnlimited = isUnlimitedTitle(formData.documentType, formData.isTitleUnlimited);
+
+  const employerOnPermit = toOptionalText(formData.employerName);
+  const isContinuation = toTriState(formData.isContinuationOfSameJobAndEmployer);
 
   return {
-    // Assume third-country national (most conservative)
-    citizenshipCategory: 'THIRD_COUNTRY',
+    // Nationality first, then HR's choice, else third-country national (most conservative)
+    citizenshipCategory: resolveCitizenshipCategory(formData.nationality, formData.citizenshipCategory) ?? 'THIRD_COUNTRY',
+    nationality: getCountry(formData.nationality)?.alpha2,
 
     // Map document type
     documentType: documentTypeMapping[formData.documentType],
     documentValidFrom,
-    documentValidTo,
+    documentValidTo: isTitleUnlimited ? undefined : toIsoDate(formData.expiryDate),
+    isTitleUnlimited,
+    cardValidTo: isTitleUnlimited ? toIsoDate(formData.cardExpiryDate) : undefined,
 
-    // Conservative: mark work permission as unclear
-    // This will trigger NEEDS_REVIEW for manual verification
-    employmentPermission: 'UNCLEAR',
+    // Unanswered work permission is treated as unclear
+    employmentPermission: formData.employmentPermission
+      ? employmentPermissionMapping[formData.employmentPermission]
+      : 'UNCLEAR',
+    employmentPermittedUntil: formData.employmentPermittedUntil || undefined,
 
-    // Employer info - use placeholders that will trigger review
-    hiringEmployerName: 'Not specified',
-    permitNamesSpecificEmployer: 'UNKNOWN',
+    // Employer info
+    hiringEmployerName: toOptionalText(formData.hiringEmployerName) ?? 'Not specified',
+    permitNamesSpecificEmployer: toTriState(formData.permitNamesSpecificEmployer),
+    employerOnPermit,
+    hiringEmployerAliases: formData.hiringEmployerAliases ?? [],
 
-    // Occupation info - conservative defaults
-    permitLimitedToOccupation: 'UNKNOWN',
-    plannedRoleCategory: 'Not specified',
+    // Occupation info
+    permitLimitedToOccupation: toTriState(formData.permitLimitedToOccupation),
+    occupationOnPermit: toOptionalText(formData.occupationOnPermit),
+    plannedRoleCategory: toOptionalText(formData.plannedRoleCategory) ?? 'Not specified',
 
-    // Hours - conservative defaults
-    hasHoursLimitOnPermit: 'UNKNOWN',
-    contractHoursPerWeek: 40, // Standard full-time
+    // Hours
+    hasHoursLimitOnPermit: toTriState(formData.hasHoursLimitOnPermit),
+    hoursLimitPerWeekOnPermit: toOptionalNumber(formData.hoursLimitPerWeekOnPermit),
+    contractHoursPerWeek: toOptionalNumber(formData.contractHoursPerWeek) ?? 40, // Standard full-time
 
-    // Location - conservative defaults
-    hasLocationRestriction: 'UNKNOWN',
-    plannedWorkCity: 'Not specified',
+    // Location
+    hasLocationRestriction: toTriState(formData.hasLocationRestriction),
+    locationRestrictionDescription: toOptionalText(formData.locationRestrictionDescription),
+    plannedWorkCity: toOptionalText(formData.plannedWorkCity) ?? 'Not specified',
 
-    // Blue Card specifics
+    // Blue Card specifics - conservative if not answered: new employer, new card
     isBlueCard: formData.documentType === 'EU_BLUE_CARD',
-    isChangingEmployer: true, // Conservative: assume yes
-    monthsOnBlueCardInGermany: 0, // Conservative: assume new
+    isChangingEmployer: formData.isChangingEmployer ?? true,
+    monthsOnBlueCardInGermany: toOptionalNumber(formData.monthsOnBlueCardInGermany) ?? 0,
+    contractGrossSalaryPerYear: toOptionalNumber(formData.contractGrossSalaryPerYear),
+    blueCardSalaryCategory: formData.blueCardSalaryCategory ?? undefined,
 
     // Fiktionsbescheinigung specifics
-    isContinuationOfSameJobAndEmployer: undefined, // Unclear
+    isContinuationOfSameJobAndEmployer: isContinuation === 'UNKNOWN' ? undefined : isContinuation,
+
+    // Student permit specifics
+    studentWorkDaysUsed: formData.studentWorkDaysUsed,
 
-    // Free-text notes
-    freeTextNotes: 'Automated evaluation based on minimal input data. Manual review recommended to verify all permit conditions.',
+    // Bundesagentur für Arbeit approval: the engine intersects it with the title
+    baApproval: formData.baApproval
+      ? {
+          validFrom: formData.baApproval.validFrom ?? undefined,
+          validTo: formData.baApproval.validTo ?? undefined,
+          employerName: toOptionalText(formData.baApproval.employerName),
+          occupation: toOptionalText(formData.baApproval.occupation),
+          hoursPerWeek: toOptionalNumber(formData.baApproval.hoursPerWeek),
+          workLocation: toOptionalText(formData.baApproval.workLocation),
+        }
+      : undefined,
+
+    // Scanned document
+    mrzCheckDigitFailures: formData.mrzCheckDigitFailures,
+    identity: buildIdentityRecords(formData),
+    authenticitySignals: formData.authenticitySignals,
+
+    freeTextNotes: 'Automated evaluation based on the permit conditions captured on the check form.',
+  };
+}
+
+/**
+ * Rebuilds the form data from a stored check, so the check can be re-run
+ * through the rules engine exactly as it was captured.
+ */
+export function checkToRulesEngineFormData(check: RightToWorkCheck): RulesEngineFormData {
+  return {
+    ...check,
+    expiryDate: check.expiryDate ? new Date(check.expiryDate) : null,
+    dateOfIssue: check.dateOfIssue ? new Date(check.dateOfIssue) : undefined,
+    cardExpiryDate: check.cardExpiryDate ? new Date(check.cardExpiryDate) : null,
+    mrzCheckDigitFailures: getMrzCheckDigitFailures(check.ocrExtractedFields),
+    residenceTitleMrzIdentity: getMrzIdentity(getStoredMrz(check.ocrExtractedFields)),
+    // Checks made before signals existed were never assessed
+    authenticitySignals: check.authenticitySignals == null ? undefined : getStoredAuthenticitySignals(check.authenticitySignals),
   };
 }
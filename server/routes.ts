@@ -8,10 +8,40 @@ import {
   objectStorageClient,
 } from "./objectStorage";
 import { randomUUID } from "crypto";
-import { evaluateRightToWork } from "../lib/rightToWork";
-import { mapToRulesEngineInput } from "./rightToWorkAdapter";
-import { extractFieldsFromDocument } from "../lib/ocr";
-import { insertEmployeeSchema, insertRightToWorkCheckSchema, caseStatuses } from "@shared/schema";
+import { evaluateRightToWork, type EvaluateRightToWorkInput, type WorkStatus } from "../lib/rightToWork";
+import { createReason, type DecisionReason } from "../lib/reasonCodes";
+import { createAiCrossCheckStep } from "../lib/decisionTrace";
+import { getRuleSetByVersion, getRuleSetForDate } from "../lib/ruleSets";
+import {
+  canBeUnlimitedTitle,
+  checkToRulesEngineFormData,
+  getRecordedDecisionContext,
+  mapToRulesEngineInput,
+  recordDecisionContext,
+  resolveCitizenshipCategory,
+  resolveTitleValidity,
+  type RecordedDecisionContext,
+  type RulesEngineFormData,
+  type TitleValidity,
+} from "./rightToWorkAdapter";
+import { getMrzCheckDigitFailures, getStoredMrz } from "../lib/mrz";
+import { getMrzIdentity } from "../lib/identityCrossCheck";
+import { findCountry, getCountry } from "../lib/nationality";
+import { findPhotosToRetake, retakeMessage } from "../lib/imagePreprocessing";
+import { extractAndCacheOcrResult, extractFieldsWithCache, getCachedOcrResult, hashFileContent } from "./ocrCache";
+import { assessDocumentAuthenticity } from "./documentAuthenticity";
+import type { AuthenticitySignal } from "../lib/documentAuthenticity";
+import { getRedactionSettings, readStoredDocument, redactStoredDocument } from "./documentRedaction";
+import { detectRedactionRegions, parseRedactionRegions, redactableFieldLabels } from "../lib/documentRedaction";
+import { isPdf, MAX_PDF_PAGES, renderPdfPages } from "../lib/pdfPages";
+import {
+  mergeShiftsByDay,
+  parseTimesheetRecord,
+  summarizeStudentWorkDays,
+  type StudentWorkDayUsage,
+  type WorkedDay,
+} from "../lib/studentWorkDays";
+import { insertBaApprovalSchema, insertDocumentRedactionSettingsSchema, insertEmployeeSchema, insertRightToWorkCheckSchema, blueCardSalaryCategories, caseStatuses, documentKinds, ocrProviders, redactableFields, workStatuses, type CreateRightToWorkCheck, type DocumentType, type Employee, type InsertRightToWorkCheck, type RightToWorkCheck } from "@shared/schema";
 import multer from "multer";
 import { parse } from "csv-parse/sync";
 import { createPublicUploadToken, verifyPublicUploadToken } from "./publicUploadToken";
@@ -41,6 +71,174 @@ function checkOcrRateLimit(userId: string): { allowed: boolean; remaining: numbe
   return { allowed: true, remaining: OCR_RATE_LIMIT - recentRequests.length };
 }
 
+// Student allowance used in a calendar year, under the rule set in force at its end
+async function getStudentWorkDayUsage(employeeId: string, userId: string, year: number): Promise<StudentWorkDayUsage> {
+  const days = await storage.getStudentWorkDays(employeeId, userId, year);
+  return summarizeStudentWorkDays(days, year, getRuleSetForDate(`${year}-12-31`));
+}
+
+// Rules-engine input for re-evaluating a stored check against today's facts:
+// the data captured with the check plus what is on file now (employee,
+// employer aliases, BA approval). Every route that evaluates a stored check
+// anew builds its input here so none of them drops a factor.
+async function buildStoredCheckEngineInput(
+  check: RightToWorkCheck,
+  userId: string,
+  overrides: Partial<RulesEngineFormData> = {},
+): Promise<EvaluateRightToWorkInput> {
+  const employerAliases = await storage.getEmployerAliases(userId);
+  return mapToRulesEngineInput({
+    ...checkToRulesEngineFormData(check),
+    employee: check.employeeId ? await storage.getEmployeeById(check.employeeId) : undefined,
+    hiringEmployerAliases: employerAliases.map((entry) => entry.alias),
+    baApproval: (await storage.getBaApprovalsByCheckId(check.id, userId))[0],
+    ...overrides,
+  });
+}
+
+// Rules-engine input that reproduces a check's decision: the data captured
+// with the check and the context recorded when it was made. Checks made
+// before the context was recorded fall back to what is on file now, without
+// BA approvals or work days recorded after the check.
+async function buildRecordedCheckEngineInput(check: RightToWorkCheck, userId: string): Promise<EvaluateRightToWorkInput> {
+  const recorded = getRecordedDecisionContext(check.decisionContext);
+  const approvals = await storage.getBaApprovalsByCheckId(check.id, userId);
+  if (recorded) {
+    const formData = checkToRulesEngineFormData(check);
+    return mapToRulesEngineInput({
+      ...formData,
+      mrzCheckDigitFailures: recorded.mrzCheckDigitFailures ?? formData.mrzCheckDigitFailures,
+      residenceTitleMrzIdentity: recorded.residenceTitleMrzIdentity ?? formData.residenceTitleMrzIdentity,
+      employee: recorded.employee,
+      hiringEmployerAliases: recorded.hiringEmployerAliases,
+      studentWorkDaysUsed: recorded.studentWorkDaysUsed ?? undefined,
+      baApproval: approvals.find((approval) => approval.id === recorded.baApprovalId) ?? null,
+    });
+  }
+  
+  const checkedAt = check.createdAt ?? new Date();
+  const checkDate = checkedAt.toISOString().split("T")[0];
+  // Students: the days worked that year before the check was made
+  const studentWorkDaysUsed = check.documentType === "STUDENT_PERMIT" && check.employeeId
+    ? summarizeStudentWorkDays(
+        (await storage.getStudentWorkDays(check.employeeId, userId, checkedAt.getFullYear()))
+          .filter((day) => day.workDate < checkDate),
+        checkedAt.getFullYear(),
+        getRuleSetForDate(checkDate),
+      ).usedDays
+    : undefined;
+  return buildStoredCheckEngineInput(check, userId, {
+    studentWorkDaysUsed,
+    // An approval recorded after the check was not part of its decision
+    baApproval: approvals.find((approval) => approval.createdAt !== null && approval.createdAt <= checkedAt) ?? null,
+  });
+}
+
+type CheckFormFields = Partial<Omit<InsertRightToWorkCheck, "userId">>;
+
+const checkCountryFields = ["nationality", "passportNationality", "passportIssuingCountry"] as const;
+
+// Country fields as the ISO alpha-2 codes their columns hold. The form may
+// send the alpha-3 code the MRZ prints or a country name, so this runs before
+// the fields are validated; values that are no country are dropped.
+function normalizeCheckCountries<T extends object>(formFields: T): T {
+  const fields = { ...formFields } as Record<string, unknown>;
+  for (const field of checkCountryFields) {
+    const value = fields[field];
+    if (typeof value === "string") {
+      fields[field] = findCountry(value)?.alpha2 ?? null;
+    }
+  }
+  return fields as T;
+}
+
+interface NewCheckContext {
+  documentType: DocumentType;
+  titleValidity: TitleValidity;
+  // Employee the check is for, already checked to belong to the tenant
+  employee?: Employee;
+  // Name of the person checked when there is no employee
+  firstName?: string;
+  lastName?: string;
+  ocrExtractedFields?: unknown;
+}
+
+// Rules-engine input for a check being captured: the form data plus what is
+// on file (employee, employer aliases, student work days). Creating and previewing a check both
+// build their input here, so the preview shows the decision that is saved.
+// Returns the form fields as they are stored, with the nationality resolved.
+async function buildNewCheckEngineInput(
+  userId: string,
+  formFields: CheckFormFields,
+  context: NewCheckContext,
+): Promise<{
+  fields: CheckFormFields;
+  rulesEngineInput: EvaluateRightToWorkInput;
+  authenticitySignals: AuthenticitySignal[];
+  decisionContext: RecordedDecisionContext;
+}> {
+  const { documentType, titleValidity, employee } = context;
+  const fields = normalizeCheckCountries(formFields);
+  
+  // Nationality from the form, else the one on file for the employee;
+  // a recognised nationality decides the citizenship category
+  fields.nationality = getCountry(fields.nationality)?.alpha2 ?? employee?.nationality ?? null;
+  fields.citizenshipCategory = resolveCitizenshipCategory(fields.nationality, fields.citizenshipCategory);
+  
+  // Default the hiring employer to the HR user's company
+  if (!fields.hiringEmployerName) {
+    const user = await storage.getUser(userId);
+    fields.hiringEmployerName = user?.companyName || null;
+  }
+  const employerAliases = await storage.getEmployerAliases(userId);
+  
+  // Students: count the days the employee already worked this calendar year
+  const studentWorkDaysUsed = documentType === "STUDENT_PERMIT" && employee
+    ? (await getStudentWorkDayUsage(employee.id, userId, new Date().getFullYear())).usedDays
+    : undefined;
+  
+  // Traces of editing, impossible data and document numbers on file for
+  // someone else send the check to review
+  const authenticitySignals = await assessDocumentAuthenticity(userId, {
+    employeeId: employee?.id ?? null,
+    firstName: employee?.firstName ?? context.firstName,
+    lastName: employee?.lastName ?? context.lastName,
+    documentType,
+    documentNumber: fields.documentNumber,
+    passportNumber: fields.passportNumber,
+    dateOfIssue: fields.dateOfIssue,
+    expiryDate: titleValidity.expiryDate,
+    cardExpiryDate: titleValidity.cardExpiryDate,
+    dateOfBirth: fields.dateOfBirth,
+    ocrExtractedFields: context.ocrExtractedFields,
+  });
+  
+  // Map form data (including permit conditions) to rules engine input
+  const formData: RulesEngineFormData = {
+    ...fields,
+    firstName: context.firstName,
+    lastName: context.lastName,
+    employee,
+    hiringEmployerAliases: employerAliases.map((entry) => entry.alias),
+    studentWorkDaysUsed,
+    mrzCheckDigitFailures: getMrzCheckDigitFailures(context.ocrExtractedFields),
+    residenceTitleMrzIdentity: getMrzIdentity(getStoredMrz(context.ocrExtractedFields)),
+    authenticitySignals,
+    documentType,
+    expiryDate: titleValidity.expiryDate ? new Date(titleValidity.expiryDate) : null,
+    isTitleUnlimited: titleValidity.isTitleUnlimited,
+    cardExpiryDate: titleValidity.cardExpiryDate ? new Date(titleValidity.cardExpiryDate) : null,
+    dateOfIssue: fields.dateOfIssue ? new Date(fields.dateOfIssue) : undefined,
+  };
+  
+  return {
+    fields,
+    rulesEngineInput: mapToRulesEngineInput(formData),
+    authenticitySignals,
+    decisionContext: recordDecisionContext(formData),
+  };
+}
+
 export async function registerRoutes(app: Express): Promise<Server> {
   // Auth middleware
   await setupAuth(app);
@@ -398,11 +596,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
           const record = records[i] as any;
           console.log("[IMPORT] Processing row", i + 1, ":", record);
           
+          const nationality = findCountry(record.nationality);
+          if (record.nationality && !nationality) {
+            throw new Error(`Unknown nationality "${record.nationality}"`);
+          }
+          
           const validatedData = insertEmployeeSchema.parse({
             userId,
             firstName: record.first_name,
             lastName: record.last_name,
             dateOfBirth: record.date_of_birth || null,
+            nationality: nationality?.alpha2 ?? null,
             notes: record.notes || null,
           });
           
@@ -428,19 +632,145 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // OCR extraction route with file validation
-  app.post("/api/ocr/extract", isAuthenticated, upload.single("file"), async (req: any, res) => {
+  // Student work-day tracker (§16b AufenthG: 140 full / 280 half days per year)
+  app.get("/api/employees/:id/student-work-days", isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
+      const employee = await storage.getEmployeeById(req.params.id);
+      if (!employee) {
+        return res.status(404).json({ error: "Employee not found" });
+      }
+      if (employee.userId !== userId) {
+        return res.status(403).json({ error: "Access denied" });
+      }
+      
+      const year = req.query.year ? Number(req.query.year) : new Date().getFullYear();
+      if (!Number.isInteger(year) || year < 2000 || year > 2100) {
+        return res.status(400).json({ error: "Invalid year" });
+      }
+      
+      const days = await storage.getStudentWorkDays(employee.id, userId, year);
+      const usage = summarizeStudentWorkDays(days, year, getRuleSetForDate(`${year}-12-31`));
+      const studentCheck = employee.latestCheck?.documentType === "STUDENT_PERMIT" ? employee.latestCheck : null;
+      
+      res.json({ studentCheckId: studentCheck?.id ?? null, usage, days });
+    } catch (error: any) {
+      console.error("Error fetching student work days:", error);
+      res.status(500).json({ error: "Failed to fetch student work days" });
+    }
+  });
 
-      // Check rate limit
-      const rateLimitCheck = checkOcrRateLimit(userId);
-      if (!rateLimitCheck.allowed) {
-        return res.status(429).json({
-          error: "Too many OCR requests. Please wait a bit before trying again.",
-          message: "Rate limit exceeded. You can make up to 30 OCR requests per hour."
-        });
+  app.post("/api/employees/:id/student-work-days/import", isAuthenticated, upload.single("file"), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const employee = await storage.getEmployeeById(req.params.id);
+      if (!employee) {
+        return res.status(404).json({ error: "Employee not found" });
+      }
+      if (employee.userId !== userId) {
+        return res.status(403).json({ error: "Access denied" });
+      }
+      if (!req.file) {
+        return res.status(400).json({ error: "No file uploaded" });
       }
+      
+      const records = parse(req.file.buffer.toString("utf-8"), {
+        columns: (header: string[]) => header.map((column) => column.trim().toLowerCase()),
+        skip_empty_lines: true,
+        trim: true,
+      });
+      
+      const results = {
+        total: records.length,
+        successful: 0,
+        failed: 0,
+        errors: [] as Array<{ row: number; message: string }>,
+        daysImported: 0,
+      };
+      
+      const shifts: WorkedDay[] = [];
+      for (let i = 0; i < records.length; i++) {
+        try {
+          shifts.push(parseTimesheetRecord(records[i] as Record<string, string>));
+          results.successful++;
+        } catch (error: any) {
+          results.failed++;
+          results.errors.push({
+            row: i + 2, // +2 because header is row 1 and index starts at 0
+            message: error.message || "Invalid data format",
+          });
+        }
+      }
+      
+      // Shifts on the same day count as one day; re-imported days replace the stored ones
+      const days = mergeShiftsByDay(shifts);
+      await storage.saveStudentWorkDays(userId, employee.id, days, req.file.originalname);
+      results.daysImported = days.length;
+      
+      await storage.createAuditLog({
+        userId,
+        action: "STUDENT_WORK_DAYS_IMPORTED",
+        entityType: "employee",
+        entityId: employee.id,
+        details: `Imported ${days.length} work day(s) from ${req.file.originalname} (${results.failed} row(s) rejected)`,
+      });
+      
+      res.json(results);
+    } catch (error: any) {
+      console.error("Error importing student work days:", error);
+      res.status(500).json({ error: "Failed to import timesheet", details: error.message });
+    }
+  });
+
+  // Re-evaluate the employee's student permit check today, counting the days worked this year (the check is left unchanged; the evaluation is audit-logged)
+  app.post("/api/employees/:id/student-work-days/evaluate", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const employee = await storage.getEmployeeById(req.params.id);
+      if (!employee) {
+        return res.status(404).json({ error: "Employee not found" });
+      }
+      if (employee.userId !== userId) {
+        return res.status(403).json({ error: "Access denied" });
+      }
+      
+      const check = employee.latestCheck;
+      if (!check || check.documentType !== "STUDENT_PERMIT") {
+        return res.status(400).json({ error: "The employee's latest check is not a student permit check" });
+      }
+      
+      const evaluatedAsOf = new Date().toISOString().split("T")[0];
+      const usage = await getStudentWorkDayUsage(employee.id, userId, new Date().getFullYear());
+      const rulesEngineInput = await buildStoredCheckEngineInput(check, userId, {
+        studentWorkDaysUsed: usage.usedDays,
+      });
+      const rulesResult = evaluateRightToWork({ ...rulesEngineInput, todayIsoDate: evaluatedAsOf });
+      
+      await storage.createAuditLog({
+        userId,
+        action: "STUDENT_ALLOWANCE_EVALUATED",
+        entityType: "check",
+        entityId: check.id,
+        details: `Student permit re-evaluated with ${usage.usedDays} of ${usage.allowanceDays} days used in ${usage.year}: ${rulesResult.workStatus}`,
+      });
+      
+      res.json({
+        ...rulesResult,
+        checkId: check.id,
+        usage,
+        evaluatedAsOf,
+        isPreview: true,
+      });
+    } catch (error: any) {
+      console.error("Error evaluating student allowance:", error);
+      res.status(500).json({ error: "Failed to evaluate student allowance" });
+    }
+  });
+
+  // OCR extraction route with file validation
+  app.post("/api/ocr/extract", isAuthenticated, upload.single("file"), async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
 
       if (!req.file) {
         return res.status(400).json({ 
@@ -469,19 +799,57 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       console.log("[OCR] Processing file:", req.file.originalname, "type:", req.file.mimetype, "size:", req.file.size);
 
-      const result = await extractFieldsFromDocument(req.file.buffer);
+      // Files this tenant already attached to a check
+      const contentHash = hashFileContent(req.file.buffer);
+      const duplicateDocuments = (await storage.getRightToWorkCheckDocumentsByContentHash(contentHash, userId))
+        .map((doc) => ({ documentId: doc.id, checkId: doc.checkId, fileName: doc.fileName, uploadedAt: doc.uploadedAt }));
+
+      // A file read before is answered from the cache and does not count
+      // against the rate limit; refresh=true forces a new read
+      const refresh = req.body.refresh === "true" || req.query.refresh === "true";
+      const cachedResult = refresh ? undefined : await getCachedOcrResult(userId, contentHash);
+      if (cachedResult) {
+        console.log("[OCR] Cache hit:", contentHash);
+        return res.json({ ...cachedResult, contentHash, cached: true, duplicateDocuments });
+      }
+
+      // Check rate limit
+      const rateLimitCheck = checkOcrRateLimit(userId);
+      if (!rateLimitCheck.allowed) {
+        return res.status(429).json({
+          error: "Too many OCR requests. Please wait a bit before trying again.",
+          message: "Rate limit exceeded. You can make up to 30 OCR requests per hour."
+        });
+      }
+
+      const result = await extractAndCacheOcrResult(userId, req.file.buffer, contentHash);
 
       console.log("[OCR] Extraction complete:", {
+        ocrProvider: result.ocrProvider,
         hasRawText: result.rawText.length > 0,
         documentTypeGuess: result.documentTypeGuess,
         hasDocumentNumber: !!result.documentNumberGuess,
         hasExpiryDate: !!result.expiryDateGuessIso,
       });
 
-      res.json(result);
+      res.json({ ...result, contentHash, cached: false, duplicateDocuments });
     } catch (error: any) {
       console.error("[OCR] Extraction failed:", error);
       
+      if (error.message?.includes('OCR_PROVIDER')) {
+        return res.status(500).json({
+          error: "OCR service misconfigured",
+          message: "The configured OCR provider is not supported. Please contact your administrator."
+        });
+      }
+
+      if (error.message?.includes('The PDF could not be opened')) {
+        return res.status(400).json({
+          error: "Unreadable PDF",
+          message: error.message
+        });
+      }
+
       if (error.message?.includes('GOOGLE_CLOUD_VISION_CREDENTIALS')) {
         return res.status(500).json({ 
           error: "OCR service not configured",
@@ -510,6 +878,24 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Drop cached OCR results, e.g. after a misread: one file by its hash, or
+  // the tenant's whole cache
+  app.delete("/api/ocr/cache/:contentHash?", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const { contentHash } = req.params;
+      if (contentHash && !/^[0-9a-f]{64}$/.test(contentHash)) {
+        return res.status(400).json({ error: "Invalid content hash" });
+      }
+
+      const deleted = await storage.deleteOcrResultCacheEntries(userId, contentHash);
+      res.json({ deleted });
+    } catch (error) {
+      console.error("Error clearing OCR cache:", error);
+      res.status(500).json({ error: "Failed to clear OCR cache" });
+    }
+  });
+
   // Right-to-work check routes
   app.get("/api/checks/standalone", isAuthenticated, async (req: any, res) => {
     try {
@@ -522,6 +908,195 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Count decision reason codes across all checks, e.g. why checks need review
+  app.get("/api/reports/decision-reasons", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const workStatus = req.query.workStatus as string | undefined;
+      
+      if (workStatus && !(workStatuses as readonly string[]).includes(workStatus)) {
+        return res.status(400).json({ error: "Invalid work status. Must be one of: ELIGIBLE, NOT_ELIGIBLE, NEEDS_REVIEW" });
+      }
+      
+      const counts = await storage.getDecisionReasonCounts(userId, workStatus as WorkStatus | undefined);
+      res.json(counts);
+    } catch (error: any) {
+      console.error("Error counting decision reasons:", error);
+      res.status(500).json({ error: "Failed to count decision reasons" });
+    }
+  });
+
+  // Students on a §16b title who are close to or over this year's work-day allowance
+  app.get("/api/reports/student-work-days", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const year = new Date().getFullYear();
+      
+      const employees = await storage.getEmployeesByUserId(userId);
+      const students = employees.filter((employee) => employee.latestCheck?.documentType === "STUDENT_PERMIT");
+      if (students.length === 0) {
+        return res.json([]);
+      }
+      
+      const ruleSet = getRuleSetForDate(`${year}-12-31`);
+      const days = await storage.getStudentWorkDaysForUser(userId, year);
+      const warnings = students
+        .map((employee) => ({
+          employeeId: employee.id,
+          firstName: employee.firstName,
+          lastName: employee.lastName,
+          checkId: employee.latestCheck!.id,
+          usage: summarizeStudentWorkDays(days.filter((day) => day.employeeId === employee.id), year, ruleSet),
+        }))
+        .filter((entry) => entry.usage.level !== "WITHIN")
+        .sort((a, b) => b.usage.usedDays - a.usage.usedDays);
+      
+      res.json(warnings);
+    } catch (error: any) {
+      console.error("Error building student work-day report:", error);
+      res.status(500).json({ error: "Failed to build student work-day report" });
+    }
+  });
+
+  // Bundesagentur für Arbeit approvals that expired or expire within the window
+  app.get("/api/reports/expiring-ba-approvals", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const withinDays = req.query.withinDays ? parseInt(req.query.withinDays as string, 10) : 90;
+      
+      const approvals = await storage.getExpiringBaApprovals(userId, Number.isFinite(withinDays) ? withinDays : 90);
+      if (approvals.length === 0) {
+        return res.json([]);
+      }
+      
+      const checks = await storage.getAllRightToWorkChecksForUser(userId);
+      const checksById = new Map(checks.map((check) => [check.id, check]));
+      const today = new Date().toISOString().split("T")[0];
+      res.json(
+        approvals.map((approval) => {
+          const check = checksById.get(approval.checkId);
+          return {
+            ...approval,
+            employeeId: check?.employeeId ?? null,
+            firstName: check?.firstName ?? null,
+            lastName: check?.lastName ?? null,
+            isExpired: approval.validTo! < today,
+          };
+        })
+      );
+    } catch (error: any) {
+      console.error("Error building BA approval expiry report:", error);
+      res.status(500).json({ error: "Failed to build BA approval expiry report" });
+    }
+  });
+
+  // Employer aliases: subsidiaries and trading names accepted as the hiring employer
+  app.get("/api/employer-aliases", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const aliases = await storage.getEmployerAliases(userId);
+      res.json(aliases);
+    } catch (error: any) {
+      console.error("Error fetching employer aliases:", error);
+      res.status(500).json({ error: "Failed to fetch employer aliases" });
+    }
+  });
+
+  app.post("/api/employer-aliases", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const { alias } = req.body;
+      
+      if (!alias || typeof alias !== "string" || alias.trim().length === 0) {
+        return res.status(400).json({ error: "Alias is required" });
+      }
+      
+      const existing = await storage.getEmployerAliases(userId);
+      if (existing.some((entry) => entry.alias.toLowerCase() === alias.trim().toLowerCase())) {
+        return res.status(409).json({ error: "Alias already exists" });
+      }
+      
+      const created = await storage.createEmployerAlias({ userId, alias: alias.trim() });
+      
+      await storage.createAuditLog({
+        userId,
+        action: "EMPLOYER_ALIAS_ADDED",
+        entityType: "employer_alias",
+        entityId: created.id,
+        details: `Employer alias added: ${created.alias}`,
+      });
+      
+      res.status(201).json(created);
+    } catch (error: any) {
+      console.error("Error creating employer alias:", error);
+      res.status(500).json({ error: "Failed to create employer alias" });
+    }
+  });
+
+  app.delete("/api/employer-aliases/:id", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      
+      const existing = await storage.getEmployerAliases(userId);
+      const alias = existing.find((entry) => entry.id === req.params.id);
+      if (!alias) {
+        return res.status(404).json({ error: "Alias not found" });
+      }
+      
+      await storage.deleteEmployerAlias(alias.id, userId);
+      
+      await storage.createAuditLog({
+        userId,
+        action: "EMPLOYER_ALIAS_DELETED",
+        entityType: "employer_alias",
+        entityId: alias.id,
+        details: `Employer alias removed: ${alias.alias}`,
+      });
+      
+      res.json({ success: true });
+    } catch (error: any) {
+      console.error("Error deleting employer alias:", error);
+      res.status(500).json({ error: "Failed to delete employer alias" });
+    }
+  });
+
+  // Data-minimising redaction of stored documents: what the tenant has masked
+  // and how long originals are kept once redacted
+  app.get("/api/redaction-settings", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      res.json(await getRedactionSettings(userId));
+    } catch (error) {
+      console.error("Error fetching redaction settings:", error);
+      res.status(500).json({ error: "Failed to fetch redaction settings" });
+    }
+  });
+
+  app.put("/api/redaction-settings", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const validatedData = insertDocumentRedactionSettingsSchema.parse({ ...req.body, userId });
+      const saved = await storage.saveDocumentRedactionSettings(validatedData);
+      
+      const masked = saved.maskedFields.map((field) => redactableFieldLabels[field]).join(", ") || "nothing";
+      await storage.createAuditLog({
+        userId,
+        action: "REDACTION_SETTINGS_UPDATED",
+        entityType: "redaction_settings",
+        entityId: saved.id,
+        details: `Document redaction ${saved.enabled ? "enabled" : "disabled"}; masks ${masked}; originals kept ${saved.originalRetentionDays} days after redaction`,
+      });
+      
+      res.json(saved);
+    } catch (error: any) {
+      console.error("Error saving redaction settings:", error);
+      if (error.name === "ZodError") {
+        return res.status(400).json({ error: "Invalid redaction settings", details: error.errors });
+      }
+      res.status(500).json({ error: "Failed to save redaction settings" });
+    }
+  });
+
   app.get("/api/checks/export", isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
@@ -538,10 +1113,16 @@ export async function registerRoutes(app: Express): Promise<Server> {
         expiryDate: string;
         createdAt: string;
         decisionSummary: string;
+        reasonCodes: string;
       };
 
       const rows: ExportRow[] = [];
 
+      const joinReasonCodes = (decisionReasons: unknown): string =>
+        Array.isArray(decisionReasons)
+          ? (decisionReasons as DecisionReason[]).map((reason) => reason.code).join(";")
+          : "";
+
       for (const emp of employeesWithChecks) {
         for (const check of emp.checks) {
           rows.push({
@@ -550,9 +1131,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
             documentType: check.documentType ?? "",
             documentNumber: check.documentNumber ?? "",
             workStatus: check.workStatus ?? "",
-            expiryDate: check.expiryDate ?? "",
+            expiryDate: check.isTitleUnlimited ? "UNLIMITED" : check.expiryDate ?? "",
             createdAt: check.createdAt?.toISOString?.() ?? String(check.createdAt ?? ""),
             decisionSummary: check.decisionSummary ?? "",
+            reasonCodes: joinReasonCodes(check.decisionReasons),
           });
         }
       }
@@ -564,9 +1146,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
           documentType: check.documentType ?? "",
           documentNumber: check.documentNumber ?? "",
           workStatus: check.workStatus ?? "",
-          expiryDate: check.expiryDate ?? "",
+          expiryDate: check.isTitleUnlimited ? "UNLIMITED" : check.expiryDate ?? "",
           createdAt: check.createdAt?.toISOString?.() ?? String(check.createdAt ?? ""),
           decisionSummary: check.decisionSummary ?? "",
+          reasonCodes: joinReasonCodes(check.decisionReasons),
         });
       }
 
@@ -579,6 +1162,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         "expiryDate",
         "createdAt",
         "decisionSummary",
+        "reasonCodes",
       ];
 
       const escapeCsvValue = (value: unknown): string => {
@@ -691,6 +1275,108 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Re-run a stored check under the rules that applied when it was made; the
+  // check itself is left unchanged, only the re-run is audit-logged
+  app.post("/api/checks/:id/rerun", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      
+      const check = await storage.getRightToWorkCheckById(req.params.id);
+      if (!check) {
+        return res.status(404).json({ error: "Check not found" });
+      }
+      if (check.userId !== userId) {
+        return res.status(403).json({ error: "Unauthorized" });
+      }
+      
+      // Evaluate as of the original check date; older checks without a stored
+      // version use the rule set in force on that date
+      const evaluatedAsOf = (check.createdAt ?? new Date()).toISOString().split('T')[0];
+      const ruleSet = (check.ruleSetVersion && getRuleSetByVersion(check.ruleSetVersion))
+        || getRuleSetForDate(evaluatedAsOf);
+      
+      const rulesEngineInput = await buildRecordedCheckEngineInput(check, userId);
+      const rulesResult = evaluateRightToWork({ ...rulesEngineInput, todayIsoDate: evaluatedAsOf }, ruleSet);
+      
+      await storage.createAuditLog({
+        userId,
+        action: "CHECK_RERUN",
+        entityType: "check",
+        entityId: check.id,
+        details: `Check re-run under rule set ${ruleSet.version} as of ${evaluatedAsOf}: ${rulesResult.workStatus}`,
+      });
+      
+      res.json({
+        ...rulesResult,
+        evaluatedAsOf,
+        isPreview: true,
+      });
+    } catch (error: any) {
+      console.error("Error re-running check:", error);
+      res.status(500).json({ error: "Failed to re-run check" });
+    }
+  });
+
+  // Re-evaluate a Blue Card check for a changed contract salary, e.g. a pay cut (the check is left unchanged; the evaluation is audit-logged)
+  app.post("/api/checks/:id/salary-change", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      
+      const check = await storage.getRightToWorkCheckById(req.params.id);
+      if (!check) {
+        return res.status(404).json({ error: "Check not found" });
+      }
+      if (check.userId !== userId) {
+        return res.status(403).json({ error: "Unauthorized" });
+      }
+      if (check.documentType !== "EU_BLUE_CARD") {
+        return res.status(400).json({ error: "Salary re-evaluation is only available for Blue Card checks" });
+      }
+      
+      const { contractGrossSalaryPerYear, blueCardSalaryCategory, effectiveDate } = req.body;
+      const salary = Number(contractGrossSalaryPerYear);
+      if (contractGrossSalaryPerYear === undefined || contractGrossSalaryPerYear === "" || !Number.isFinite(salary) || salary < 0) {
+        return res.status(400).json({ error: "A valid contract gross salary is required" });
+      }
+      if (blueCardSalaryCategory && !blueCardSalaryCategories.includes(blueCardSalaryCategory)) {
+        return res.status(400).json({ error: "Invalid occupation group" });
+      }
+      if (effectiveDate && Number.isNaN(new Date(effectiveDate).getTime())) {
+        return res.status(400).json({ error: "Invalid effective date" });
+      }
+      
+      // The new contract is judged by the rules and thresholds in force when it takes effect
+      const evaluatedAsOf = effectiveDate
+        ? new Date(effectiveDate).toISOString().split('T')[0]
+        : new Date().toISOString().split('T')[0];
+      
+      const rulesEngineInput = await buildStoredCheckEngineInput(check, userId, {
+        contractGrossSalaryPerYear: salary,
+        blueCardSalaryCategory: blueCardSalaryCategory || check.blueCardSalaryCategory,
+      });
+      const rulesResult = evaluateRightToWork({ ...rulesEngineInput, todayIsoDate: evaluatedAsOf });
+      
+      await storage.createAuditLog({
+        userId,
+        action: "BLUE_CARD_SALARY_REEVALUATED",
+        entityType: "check",
+        entityId: check.id,
+        details: `Salary changed from ${check.contractGrossSalaryPerYear ?? "not recorded"} to ${salary} EUR/year as of ${evaluatedAsOf}: ${rulesResult.workStatus}`,
+      });
+      
+      res.json({
+        ...rulesResult,
+        previousContractGrossSalaryPerYear: check.contractGrossSalaryPerYear,
+        contractGrossSalaryPerYear: salary,
+        evaluatedAsOf,
+        isPreview: true,
+      });
+    } catch (error: any) {
+      console.error("Error re-evaluating salary change:", error);
+      res.status(500).json({ error: "Failed to re-evaluate salary change" });
+    }
+  });
+
   app.post("/api/checks", isAuthenticated, async (req: any, res) => {
     try {
       const userId = req.user.claims.sub;
@@ -702,12 +1388,17 @@ export async function registerRoutes(app: Express): Promise<Server> {
         expiryDate, 
         ocrRawText, 
         ocrExtractedFields,
-        ...otherData 
+        ocrProvider,
+        ...clientFields 
       } = req.body;
+      // Only fields HR may set; the decision, its reasons and trace are always
+      // the engine's own
+      const otherData = insertRightToWorkCheckSchema.omit({ userId: true }).partial().parse(normalizeCheckCountries(clientFields));
       
       // Verify employee exists and belongs to user if employeeId is provided
+      let employee: Awaited<ReturnType<typeof storage.getEmployeeById>>;
       if (employeeId) {
-        const employee = await storage.getEmployeeById(employeeId);
+        employee = await storage.getEmployeeById(employeeId);
         if (!employee) {
           return res.status(404).json({ error: "Employee not found" });
         }
@@ -721,15 +1412,26 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }
       }
       
-      // Convert expiry date to Date object
-      const expiryDateObj = new Date(expiryDate);
-      const dateOfIssueObj = otherData.dateOfIssue ? new Date(otherData.dateOfIssue) : undefined;
+      // Unlimited titles have no expiry of their own, only a card expiry
+      if (otherData.isTitleUnlimited === true && !canBeUnlimitedTitle(documentType)) {
+        return res.status(400).json({ error: "This document type is always issued with an expiry date" });
+      }
+      const titleValidity = resolveTitleValidity(documentType, {
+        expiryDate,
+        isTitleUnlimited: otherData.isTitleUnlimited,
+        cardExpiryDate: otherData.cardExpiryDate,
+      });
+      if (!titleValidity.isTitleUnlimited && !titleValidity.expiryDate) {
+        return res.status(400).json({ error: "Expiry date is required unless the title is unlimited" });
+      }
       
-      // Map form data to rules engine input
-      const rulesEngineInput = mapToRulesEngineInput({
+      const { fields, rulesEngineInput, authenticitySignals, decisionContext } = await buildNewCheckEngineInput(userId, otherData, {
         documentType,
-        expiryDate: expiryDateObj,
-        dateOfIssue: dateOfIssueObj,
+        titleValidity,
+        employee,
+        firstName,
+        lastName,
+        ocrExtractedFields,
       });
       
       // Evaluate work eligibility using comprehensive rules engine (as guardrail)
@@ -757,8 +1459,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
       // Merge AI and rules results with conservative guardrails
       const aiStatus = veniceResult.status;
       const rulesStatus = rulesResult.workStatus;
-      let finalStatus: string = rulesStatus;
-      let conflictDetail: string | null = null;
+      let finalStatus: WorkStatus = rulesStatus;
+      let conflictReason: DecisionReason | null = null;
       
       if (aiStatus !== "UNKNOWN") {
         // If AI and rules agree, use AI status
@@ -767,7 +1469,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         } else {
           // If AI and rules disagree, downgrade to NEEDS_REVIEW for safety
           finalStatus = "NEEDS_REVIEW" as any;
-          conflictDetail = `AI status (${aiStatus}) did not match rules-engine status (${rulesStatus}); final status set to NEEDS_REVIEW for safety per guardrail policy.`;
+          conflictReason = createReason("AI_RULES_CONFLICT", { aiStatus, rulesStatus });
         }
       } else {
         // AI returned UNKNOWN, use rules result
@@ -782,44 +1484,62 @@ export async function registerRoutes(app: Express): Promise<Server> {
         decisionSummary = rulesResult.decisionSummary;
       }
       
-      const decisionDetails: string[] = [];
+      const decisionReasons: DecisionReason[] = [];
       
       // Only add AI decision details if AI provided a meaningful result (not UNKNOWN)
       if (aiStatus !== "UNKNOWN" && veniceResult.explanation) {
-        decisionDetails.push("AI decision: " + veniceResult.explanation);
+        decisionReasons.push(createReason("AI_DECISION", { explanation: veniceResult.explanation }));
         if (veniceResult.missingInformation.length > 0) {
           veniceResult.missingInformation.forEach(item => {
-            decisionDetails.push("AI missing information: " + item);
+            decisionReasons.push(createReason("AI_MISSING_INFORMATION", { item }));
           });
         }
       }
       
       // Append all rules engine details (for transparency)
-      decisionDetails.push(...rulesResult.decisionDetails);
+      decisionReasons.push(...rulesResult.decisionReasons);
       
       // Add conflict detail if present
-      if (conflictDetail) {
-        decisionDetails.push(conflictDetail);
+      if (conflictReason) {
+        decisionReasons.push(conflictReason);
       }
       
-      // Build validated data with merged evaluation results
-      const validatedData = {
+      const decisionDetails = decisionReasons.map((reason) => reason.message);
+      const decisionTrace = [
+        ...rulesResult.decisionTrace,
+        createAiCrossCheckStep(aiStatus, rulesStatus, finalStatus as typeof rulesStatus),
+      ];
+      
+      // Build validated data with merged evaluation results; HR's fields go
+      // first so they can never override the engine's decision
+      const validatedData: CreateRightToWorkCheck = {
+        ...fields,
+        ...titleValidity,
         employeeId: employeeId || null,
         userId,
         firstName: firstName || null,
         lastName: lastName || null,
         documentType,
-        expiryDate,
         workStatus: finalStatus,
         decisionSummary,
         decisionDetails,
+        decisionReasons,
+        ruleSetVersion: rulesResult.ruleSetVersion,
+        decisionTrace,
         ocrRawText: ocrRawText || null,
         ocrExtractedFields: ocrExtractedFields || null,
-        ...otherData,
-      } as any;
+        ocrProvider: ocrRawText && ocrProviders.includes(ocrProvider) ? ocrProvider : null,
+        authenticitySignals,
+        decisionContext,
+      };
       
       const check = await storage.createRightToWorkCheck(validatedData);
       
+      // Keep the nationality on file for the employee's next checks
+      if (employee && !employee.nationality && fields.nationality) {
+        await storage.updateEmployee(employee.id, { nationality: fields.nationality });
+      }
+      
       // Log check creation
       await storage.createAuditLog({
         userId,
@@ -842,28 +1562,46 @@ export async function registerRoutes(app: Express): Promise<Server> {
   // Preview check evaluation (no DB write, read-only)
   app.post("/api/checks/preview", isAuthenticated, async (req: any, res) => {
     try {
+      const userId = req.user.claims.sub;
       const { 
         documentType, 
         expiryDate, 
         ocrRawText, 
         ocrExtractedFields,
-        dateOfIssue,
+        employeeId,
+        firstName,
+        lastName,
+        ...permitConditions
       } = req.body;
       
       // Validate required fields
-      if (!documentType || !expiryDate) {
-        return res.status(400).json({ error: "Document type and expiry date are required" });
+      if (!documentType) {
+        return res.status(400).json({ error: "Document type is required" });
+      }
+      if (permitConditions.isTitleUnlimited === true && !canBeUnlimitedTitle(documentType)) {
+        return res.status(400).json({ error: "This document type is always issued with an expiry date" });
+      }
+      const titleValidity = resolveTitleValidity(documentType, {
+        expiryDate,
+        isTitleUnlimited: permitConditions.isTitleUnlimited,
+        cardExpiryDate: permitConditions.cardExpiryDate,
+      });
+      if (!titleValidity.isTitleUnlimited && !titleValidity.expiryDate) {
+        return res.status(400).json({ error: "Expiry date is required unless the title is unlimited" });
       }
       
-      // Convert expiry date to Date object
-      const expiryDateObj = new Date(expiryDate);
-      const dateOfIssueObj = dateOfIssue ? new Date(dateOfIssue) : undefined;
+      // The employee record is cross-checked with the documents; another
+      // tenant's employee is ignored
+      const foundEmployee = employeeId ? await storage.getEmployeeById(employeeId) : undefined;
+      const employee = foundEmployee?.userId === userId ? foundEmployee : undefined;
       
-      // Map form data to rules engine input
-      const rulesEngineInput = mapToRulesEngineInput({
+      const { rulesEngineInput, authenticitySignals } = await buildNewCheckEngineInput(userId, permitConditions, {
         documentType,
-        expiryDate: expiryDateObj,
-        dateOfIssue: dateOfIssueObj,
+        titleValidity,
+        employee,
+        firstName,
+        lastName,
+        ocrExtractedFields,
       });
       
       // Evaluate work eligibility using comprehensive rules engine (as guardrail)
@@ -892,7 +1630,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const aiStatus = veniceResult.status;
       const rulesStatus = rulesResult.workStatus;
       let finalStatus: string = rulesStatus;
-      let conflictDetail: string | null = null;
+      let conflictReason: DecisionReason | null = null;
       
       if (aiStatus !== "UNKNOWN") {
         // If AI and rules agree, use AI status
@@ -901,7 +1639,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
         } else {
           // If AI and rules disagree, downgrade to NEEDS_REVIEW for safety
           finalStatus = "NEEDS_REVIEW" as any;
-          conflictDetail = `AI status (${aiStatus}) did not match rules-engine status (${rulesStatus}); final status set to NEEDS_REVIEW for safety per guardrail policy.`;
+          conflictReason = createReason("AI_RULES_CONFLICT", { aiStatus, rulesStatus });
         }
       } else {
         // AI returned UNKNOWN, use rules result
@@ -916,31 +1654,41 @@ export async function registerRoutes(app: Express): Promise<Server> {
         decisionSummary = rulesResult.decisionSummary;
       }
       
-      const decisionDetails: string[] = [];
+      const decisionReasons: DecisionReason[] = [];
       
       // Only add AI decision details if AI provided a meaningful result (not UNKNOWN)
       if (aiStatus !== "UNKNOWN" && veniceResult.explanation) {
-        decisionDetails.push("AI decision: " + veniceResult.explanation);
+        decisionReasons.push(createReason("AI_DECISION", { explanation: veniceResult.explanation }));
         if (veniceResult.missingInformation.length > 0) {
           veniceResult.missingInformation.forEach(item => {
-            decisionDetails.push("AI missing information: " + item);
+            decisionReasons.push(createReason("AI_MISSING_INFORMATION", { item }));
           });
         }
       }
       
       // Append all rules engine details (for transparency)
-      decisionDetails.push(...rulesResult.decisionDetails);
+      decisionReasons.push(...rulesResult.decisionReasons);
       
       // Add conflict detail if present
-      if (conflictDetail) {
-        decisionDetails.push(conflictDetail);
+      if (conflictReason) {
+        decisionReasons.push(conflictReason);
       }
       
+      const decisionDetails = decisionReasons.map((reason) => reason.message);
+      const decisionTrace = [
+        ...rulesResult.decisionTrace,
+        createAiCrossCheckStep(aiStatus, rulesStatus, finalStatus as typeof rulesStatus),
+      ];
+      
       // Return preview without saving to database
       res.json({
         workStatus: finalStatus,
         decisionSummary,
         decisionDetails,
+        decisionReasons,
+        ruleSetVersion: rulesResult.ruleSetVersion,
+        decisionTrace,
+        authenticitySignals,
         isPreview: true,
       });
     } catch (error: any) {
@@ -1109,17 +1857,23 @@ export async function registerRoutes(app: Express): Promise<Server> {
           },
         });
         
-        // Create database record
+        // Create database record, noting earlier uploads of the same file
         const fileUrl = `/objects/check-attachments/${uniqueId}.${fileExtension}`;
+        const contentHash = hashFileContent(file.buffer);
+        const duplicates = await storage.getRightToWorkCheckDocumentsByContentHash(contentHash, userId);
         const document = await storage.createRightToWorkCheckDocument({
           checkId,
           fileName: file.originalname,
           fileUrl,
           mimeType: file.mimetype,
           sizeBytes: file.size.toString(),
+          contentHash,
         });
         
-        uploadedDocuments.push(document);
+        uploadedDocuments.push({
+          ...document,
+          duplicateOf: duplicates.map((doc) => ({ documentId: doc.id, checkId: doc.checkId, fileName: doc.fileName })),
+        });
         
         // Log attachment upload
         await storage.createAuditLog({
@@ -1154,6 +1908,133 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Bundesagentur für Arbeit approvals (Zustimmung) attached to a check
+  app.get("/api/checks/:id/ba-approvals", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const check = await storage.getRightToWorkCheckById(req.params.id);
+      if (!check) {
+        return res.status(404).json({ error: "Check not found" });
+      }
+      if (check.userId !== userId) {
+        return res.status(403).json({ error: "Unauthorized" });
+      }
+      
+      const approvals = await storage.getBaApprovalsByCheckId(check.id, userId);
+      res.json(approvals);
+    } catch (error: any) {
+      console.error("Error fetching BA approvals:", error);
+      res.status(500).json({ error: "Failed to fetch BA approvals" });
+    }
+  });
+
+  app.post("/api/checks/:id/ba-approvals", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const check = await storage.getRightToWorkCheckById(req.params.id);
+      if (!check) {
+        return res.status(404).json({ error: "Check not found" });
+      }
+      if (check.userId !== userId) {
+        return res.status(403).json({ error: "Unauthorized" });
+      }
+      
+      const validatedData = insertBaApprovalSchema.parse(req.body);
+      if (validatedData.validFrom && validatedData.validTo && validatedData.validFrom > validatedData.validTo) {
+        return res.status(400).json({ error: "The approval cannot end before it starts" });
+      }
+      // The scanned letter must be one of this check's attachments
+      if (validatedData.documentId) {
+        const documents = await storage.getRightToWorkCheckDocumentsByCheckId(check.id, userId);
+        if (!documents.some((document) => document.id === validatedData.documentId)) {
+          return res.status(400).json({ error: "Document is not attached to this check" });
+        }
+      }
+      
+      const approval = await storage.createBaApproval({ ...validatedData, checkId: check.id, userId });
+      
+      await storage.createAuditLog({
+        userId,
+        action: "BA_APPROVAL_ADDED",
+        entityType: "check",
+        entityId: check.id,
+        details: `BA approval${approval.referenceNumber ? ` ${approval.referenceNumber}` : ""} recorded, valid until ${approval.validTo ?? "not recorded"}`,
+      });
+      
+      res.status(201).json(approval);
+    } catch (error: any) {
+      console.error("Error creating BA approval:", error);
+      if (error.name === "ZodError") {
+        return res.status(400).json({ error: "Invalid approval data", details: error.errors });
+      }
+      res.status(500).json({ error: "Failed to save BA approval" });
+    }
+  });
+
+  app.delete("/api/checks/:id/ba-approvals/:approvalId", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const deleted = await storage.deleteBaApproval(req.params.approvalId, userId);
+      if (!deleted || deleted.checkId !== req.params.id) {
+        return res.status(404).json({ error: "Approval not found" });
+      }
+      
+      await storage.createAuditLog({
+        userId,
+        action: "BA_APPROVAL_DELETED",
+        entityType: "check",
+        entityId: deleted.checkId,
+        details: `BA approval${deleted.referenceNumber ? ` ${deleted.referenceNumber}` : ""} removed`,
+      });
+      
+      res.json({ success: true });
+    } catch (error: any) {
+      console.error("Error deleting BA approval:", error);
+      res.status(500).json({ error: "Failed to delete BA approval" });
+    }
+  });
+
+  // Evaluate the check today against title and approval combined (the check is left unchanged; the evaluation is audit-logged)
+  app.post("/api/checks/:id/ba-approvals/evaluate", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const check = await storage.getRightToWorkCheckById(req.params.id);
+      if (!check) {
+        return res.status(404).json({ error: "Check not found" });
+      }
+      if (check.userId !== userId) {
+        return res.status(403).json({ error: "Unauthorized" });
+      }
+      
+      const [approval] = await storage.getBaApprovalsByCheckId(check.id, userId);
+      if (!approval) {
+        return res.status(400).json({ error: "No BA approval recorded for this check" });
+      }
+      
+      const evaluatedAsOf = new Date().toISOString().split("T")[0];
+      const rulesEngineInput = await buildStoredCheckEngineInput(check, userId, { baApproval: approval });
+      const rulesResult = evaluateRightToWork({ ...rulesEngineInput, todayIsoDate: evaluatedAsOf });
+      
+      await storage.createAuditLog({
+        userId,
+        action: "BA_APPROVAL_EVALUATED",
+        entityType: "check",
+        entityId: check.id,
+        details: `Check evaluated with BA approval${approval.referenceNumber ? ` ${approval.referenceNumber}` : ""} as of ${evaluatedAsOf}: ${rulesResult.workStatus}`,
+      });
+      
+      res.json({
+        ...rulesResult,
+        approvalId: approval.id,
+        evaluatedAsOf,
+        isPreview: true,
+      });
+    } catch (error: any) {
+      console.error("Error evaluating BA approval:", error);
+      res.status(500).json({ error: "Failed to evaluate BA approval" });
+    }
+  });
+
   // Public upload link routes
   // Create upload link (authenticated - for HR users)
   app.post("/api/public-upload/link", isAuthenticated, async (req: any, res) => {
@@ -1273,25 +2154,72 @@ export async function registerRoutes(app: Express): Promise<Server> {
 
       console.log(`[PUBLIC UPLOAD] Processing ${files.length} file(s) for employee:`, employeeId);
 
+      // Ask for a retake of blurry, tiny or glare-covered photos before any
+      // OCR runs or a check is created. PDFs are left to the OCR step.
+      const retake = await findPhotosToRetake(
+        files.map((file) => ({ fileName: file.originalname, mimeType: file.mimetype, buffer: file.buffer }))
+      );
+      if (retake.length > 0) {
+        console.log("[PUBLIC UPLOAD] Retake requested:", retake.map((r) => ({ fileName: r.fileName, issues: r.issues })));
+        return res.status(422).json({
+          error: "Image quality too low",
+          message: retakeMessage(retake),
+          retake,
+        });
+      }
+
       // Run OCR on each file
-      const ocrResults = await Promise.all(
-        files.map(file => extractFieldsFromDocument(file.buffer))
+      const ocrReads = await Promise.all(
+        files.map(file => extractFieldsWithCache(userId, file.buffer))
       );
+      const ocrResults = ocrReads.map((read) => read.result);
 
       // Aggregate OCR results
       let combinedRawText = "";
       let primaryDocumentTypeGuess: string | null = null;
       let primaryDocumentNumberGuess = "";
       let earliestExpiryGuessIso: string | null = null;
+      let issueDateGuessIso: string | null = null;
       let employerNameGuess = "";
       let employmentPermissionGuess = "";
+      let nationalityGuess = "";
+      let mrz: (typeof ocrResults)[number]["mrz"];
+      let passport: (typeof ocrResults)[number] | undefined;
 
       const documents = files.map((file, index) => {
         const ocr = ocrResults[index];
+        const summary = {
+          fileName: file.originalname,
+          mimeType: file.mimetype,
+          contentHash: ocrReads[index].contentHash,
+          documentKindGuess: ocr.documentKindGuess,
+          documentTypeGuess: ocr.documentTypeGuess,
+          documentNumberGuess: ocr.documentNumberGuess,
+          expiryDateGuessIso: ocr.expiryDateGuessIso,
+          issueDateGuessIso: ocr.issueDateGuessIso,
+          birthDateGuessIso: ocr.birthDateGuessIso,
+          employerNameGuess: ocr.employerNameGuess,
+          employmentPermissionGuess: ocr.employmentPermissionGuess,
+          nationalityGuess: ocr.nationalityGuess,
+          mrz: ocr.mrz,
+          permitConditionsGuess: ocr.permitConditionsGuess,
+          fieldSources: ocr.fieldSources,
+          totalPages: ocr.totalPages,
+          fieldPages: ocr.fieldPages,
+          imageQuality: ocr.imageQuality,
+          authenticitySignals: ocr.authenticitySignals,
+        };
         
         // Append to combined raw text with separator
         combinedRawText += `\n\n--- Document: ${file.originalname} ---\n\n${ocr.rawText}`;
         
+        // The passport is cross-checked with the title, not read as part of
+        // it: its expiry and number say nothing about the right to work
+        if (ocr.documentKindGuess === "PASSPORT") {
+          passport ??= ocr;
+          return summary;
+        }
+        
         // First non-UNKNOWN document type wins
         if (!primaryDocumentTypeGuess && ocr.documentTypeGuess && (ocr.documentTypeGuess as string) !== "UNKNOWN") {
           primaryDocumentTypeGuess = ocr.documentTypeGuess;
@@ -1310,6 +2238,11 @@ export async function registerRoutes(app: Express): Promise<Server> {
           }
         }
         
+        // First labelled date of issue wins
+        if (!issueDateGuessIso && ocr.issueDateGuessIso) {
+          issueDateGuessIso = ocr.issueDateGuessIso;
+        }
+        
         // First non-empty employer name wins
         if (!employerNameGuess && ocr.employerNameGuess) {
           employerNameGuess = ocr.employerNameGuess;
@@ -1320,21 +2253,24 @@ export async function registerRoutes(app: Express): Promise<Server> {
           employmentPermissionGuess = ocr.employmentPermissionGuess;
         }
         
-        return {
-          fileName: file.originalname,
-          mimeType: file.mimetype,
-          documentTypeGuess: ocr.documentTypeGuess,
-          documentNumberGuess: ocr.documentNumberGuess,
-          expiryDateGuessIso: ocr.expiryDateGuessIso,
-          employerNameGuess: ocr.employerNameGuess,
-          employmentPermissionGuess: ocr.employmentPermissionGuess,
-        };
+        // First recognised nationality (MRZ or printed field) wins
+        if (!nationalityGuess && ocr.nationalityGuess) {
+          nationalityGuess = ocr.nationalityGuess;
+        }
+        
+        // First machine-readable zone wins
+        if (!mrz && ocr.mrz) {
+          mrz = ocr.mrz;
+        }
+        
+        return summary;
       });
 
       console.log("[PUBLIC UPLOAD] OCR complete for all files:", {
         fileCount: files.length,
         primaryDocumentType: primaryDocumentTypeGuess,
         hasEarliestExpiry: !!earliestExpiryGuessIso,
+        hasPassport: !!passport,
       });
 
       // Prepare data for rules engine using aggregated results
@@ -1342,14 +2278,51 @@ export async function registerRoutes(app: Express): Promise<Server> {
       const documentType = (primaryDocumentTypeGuess && primaryDocumentTypeGuess !== "UNKNOWN") 
         ? primaryDocumentTypeGuess 
         : "OTHER";
-      const expiryDateStr = earliestExpiryGuessIso;
-      const expiryDateObj = expiryDateStr ? new Date(expiryDateStr) : null;
+      // On unlimited titles the detected date is the card expiry
+      const titleValidity = resolveTitleValidity(documentType as any, { expiryDate: earliestExpiryGuessIso });
+      const passportIdentity = getMrzIdentity(passport?.mrz);
+      const passportFields = {
+        passportNumber: passport?.documentNumberGuess ?? null,
+        passportIssuingCountry: findCountry(passport?.mrz?.issuingState)?.alpha2 ?? null,
+        passportExpiryDate: passport?.expiryDateGuessIso ?? null,
+        passportFirstName: passportIdentity?.firstName ?? null,
+        passportLastName: passportIdentity?.lastName ?? null,
+        passportDateOfBirth: passport?.birthDateGuessIso ?? null,
+        passportNationality: passport?.nationalityGuess ?? null,
+      };
+      const nationality = employee.nationality || nationalityGuess || passportFields.passportNationality || null;
+      const residenceTitleMrzIdentity = getMrzIdentity(mrz);
+      const authenticitySignals = await assessDocumentAuthenticity(userId, {
+        employeeId,
+        firstName: employee.firstName,
+        lastName: employee.lastName,
+        documentType: documentType as any,
+        documentNumber: primaryDocumentNumberGuess,
+        passportNumber: passportFields.passportNumber,
+        dateOfIssue: issueDateGuessIso,
+        expiryDate: titleValidity.expiryDate,
+        cardExpiryDate: titleValidity.cardExpiryDate,
+        dateOfBirth: residenceTitleMrzIdentity?.dateOfBirth,
+        // Every uploaded file, the passport included
+        ocrExtractedFields: { authenticitySignals: ocrResults.flatMap((ocr) => ocr.authenticitySignals ?? []) },
+      });
 
       // Map to rules engine input and evaluate
-      const rulesEngineInput = mapToRulesEngineInput({
+      const formData: RulesEngineFormData = {
+        nationality,
+        dateOfBirth: residenceTitleMrzIdentity?.dateOfBirth,
+        residenceTitleMrzIdentity,
+        ...passportFields,
+        employee,
         documentType: documentType as any,
-        expiryDate: expiryDateObj as any,
-      });
+        expiryDate: titleValidity.expiryDate ? new Date(titleValidity.expiryDate) : null,
+        isTitleUnlimited: titleValidity.isTitleUnlimited,
+        cardExpiryDate: titleValidity.cardExpiryDate ? new Date(titleValidity.cardExpiryDate) : null,
+        dateOfIssue: issueDateGuessIso ? new Date(issueDateGuessIso) : undefined,
+        mrzCheckDigitFailures: mrz?.failedCheckDigits,
+        authenticitySignals,
+      };
+      const rulesEngineInput = mapToRulesEngineInput(formData);
 
       const evaluation = evaluateRightToWork(rulesEngineInput);
 
@@ -1366,17 +2339,31 @@ export async function registerRoutes(app: Express): Promise<Server> {
         lastName: null,
         documentType: (primaryDocumentTypeGuess && primaryDocumentTypeGuess !== "UNKNOWN" ? documentType : null) as any,
         documentNumber: (primaryDocumentNumberGuess || null) as any,
-        expiryDate: (expiryDateStr || null) as any,
+        nationality,
+        citizenshipCategory: resolveCitizenshipCategory(nationality, null),
+        dateOfIssue: issueDateGuessIso,
+        dateOfBirth: residenceTitleMrzIdentity?.dateOfBirth ?? null,
+        ...passportFields,
+        ...titleValidity,
         workStatus: evaluation.workStatus,
         decisionSummary: evaluation.decisionSummary,
         decisionDetails: evaluation.decisionDetails,
+        decisionReasons: evaluation.decisionReasons,
+        ruleSetVersion: evaluation.ruleSetVersion,
+        decisionTrace: evaluation.decisionTrace,
+        authenticitySignals,
+        decisionContext: recordDecisionContext(formData),
         ocrRawText: combinedRawText,
+        ocrProvider: ocrResults[0]?.ocrProvider ?? null,
         ocrExtractedFields: JSON.stringify({
           documentTypeGuess: primaryDocumentTypeGuess,
           documentNumberGuess: primaryDocumentNumberGuess,
           expiryDateGuessIso: earliestExpiryGuessIso,
+          issueDateGuessIso,
           employerNameGuess,
           employmentPermissionGuess,
+          nationalityGuess: nationalityGuess || null,
+          mrz: mrz ?? null,
           documents,
         }),
       } as any);
@@ -1390,6 +2377,10 @@ export async function registerRoutes(app: Express): Promise<Server> {
         details: "Check created via public upload",
       });
 
+      if (!employee.nationality && nationalityGuess) {
+        await storage.updateEmployee(employee.id, { nationality: nationalityGuess });
+      }
+
       console.log("[PUBLIC UPLOAD] Check created:", createdCheck.id);
 
       return res.json({
@@ -1486,7 +2477,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
     try {
       const userId = req.user.claims.sub;
       const { checkId } = req.params;
-      const { fileName, fileUrl, mimeType, sizeBytes, isPrimary } = req.body;
+      const { fileName, fileUrl, mimeType, sizeBytes, isPrimary, documentKind } = req.body;
       
       // Verify the check belongs to this user
       const check = await storage.getRightToWorkCheckById(checkId);
@@ -1494,6 +2485,18 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(403).json({ error: "Access denied" });
       }
       
+      // Hash the stored file itself: duplicate detection and the OCR cache
+      // purge on redaction must not depend on what the client reports
+      let contentHash: string;
+      try {
+        contentHash = hashFileContent(await readStoredDocument(fileUrl));
+      } catch (error) {
+        if (error instanceof ObjectNotFoundError) {
+          return res.status(400).json({ error: "Uploaded file not found" });
+        }
+        throw error;
+      }
+      
       // Create the document
       const document = await storage.createRightToWorkCheckDocument({
         checkId,
@@ -1502,6 +2505,8 @@ export async function registerRoutes(app: Express): Promise<Server> {
         mimeType,
         sizeBytes,
         isPrimary: isPrimary || false,
+        contentHash,
+        documentKind: documentKinds.includes(documentKind) ? documentKind : null,
       });
       
       // If this is the primary document, update the check's fileUrl
@@ -1559,6 +2564,141 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Page images of a stored document for the redaction editor: PDFs are
+  // rendered page by page, images are sent as they are
+  app.get("/api/checks/:checkId/documents/:documentId/pages/:pageNumber", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const document = await storage.getRightToWorkCheckDocumentById(req.params.documentId, userId);
+      if (!document || document.checkId !== req.params.checkId) {
+        return res.status(404).json({ error: "Document not found" });
+      }
+      
+      const pageNumber = parseInt(req.params.pageNumber, 10);
+      if (!Number.isInteger(pageNumber) || pageNumber < 1) {
+        return res.status(404).json({ error: "Page not found" });
+      }
+      const fileBuffer = await readStoredDocument(document.fileUrl);
+      if (!isPdf(fileBuffer)) {
+        if (pageNumber !== 1) {
+          return res.status(404).json({ error: "Page not found" });
+        }
+        res.set({ "Content-Type": document.mimeType || "application/octet-stream", "Cache-Control": "private, max-age=300" });
+        return res.send(fileBuffer);
+      }
+      
+      // Only the page asked for: a full render is up to MAX_PDF_PAGES pages
+      const pdf = await renderPdfPages(fileBuffer, { from: pageNumber, to: pageNumber });
+      const [page] = pdf.pages;
+      if (!page) {
+        return res.status(404).json({ error: "Page not found" });
+      }
+      res.set({ "Content-Type": "image/png", "Cache-Control": "private, max-age=300" });
+      res.send(page);
+    } catch (error: any) {
+      console.error("Error rendering document page:", error);
+      if (error instanceof ObjectNotFoundError) {
+        return res.status(404).json({ error: "Document file not found" });
+      }
+      res.status(500).json({ error: "Failed to render document page" });
+    }
+  });
+
+  // Regions to mask, found in the OCR layout of the document; the editor
+  // shows them for correction before anything is masked
+  app.post("/api/checks/:checkId/documents/:documentId/redaction/detect", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const document = await storage.getRightToWorkCheckDocumentById(req.params.documentId, userId);
+      if (!document || document.checkId !== req.params.checkId) {
+        return res.status(404).json({ error: "Document not found" });
+      }
+      if (document.originalDeletedAt) {
+        return res.status(409).json({ error: "The original has been deleted", message: "Only the redacted copy of this document is left." });
+      }
+      const settings = await getRedactionSettings(userId);
+      if (!settings.enabled) {
+        return res.status(400).json({ error: "Redaction is not enabled", message: "Turn on document redaction in the redaction settings first." });
+      }
+      
+      // The fields asked for, or the tenant's choice
+      const fields = Array.isArray(req.body?.fields)
+        ? req.body.fields.filter((field: any) => redactableFields.includes(field))
+        : settings.maskedFields;
+      
+      const fileBuffer = await readStoredDocument(document.fileUrl);
+      const contentHash = hashFileContent(fileBuffer);
+      let result = await getCachedOcrResult(userId, contentHash);
+      if (!result) {
+        const rateLimitCheck = checkOcrRateLimit(userId);
+        if (!rateLimitCheck.allowed) {
+          return res.status(429).json({
+            error: "Too many OCR requests. Please wait a bit before trying again.",
+            message: "Rate limit exceeded. You can make up to 30 OCR requests per hour."
+          });
+        }
+        result = await extractAndCacheOcrResult(userId, fileBuffer, contentHash);
+      }
+      if (result.totalPages !== undefined && result.totalPages > MAX_PDF_PAGES) {
+        return res.status(400).json({
+          error: "Too many pages",
+          message: `Only PDFs of up to ${MAX_PDF_PAGES} pages can be redacted; this one has ${result.totalPages}.`
+        });
+      }
+      
+      res.json({
+        fields,
+        pageCount: result.pages?.length ?? 1,
+        regions: detectRedactionRegions(result, fields),
+      });
+    } catch (error: any) {
+      console.error("Error detecting redaction regions:", error);
+      if (error instanceof ObjectNotFoundError) {
+        return res.status(404).json({ error: "Document file not found" });
+      }
+      if (error.message?.includes("No text could be extracted") || error.message?.includes("The PDF could not be opened")) {
+        return res.status(422).json({ error: "Layout not detected", message: `${error.message} Mark the regions by hand instead.` });
+      }
+      res.status(500).json({ error: "Failed to detect redaction regions" });
+    }
+  });
+
+  // Stores the redacted copy; the original is deleted after the tenant's
+  // retention period (see server/documentRedaction.ts)
+  app.post("/api/checks/:checkId/documents/:documentId/redaction", isAuthenticated, async (req: any, res) => {
+    try {
+      const userId = req.user.claims.sub;
+      const document = await storage.getRightToWorkCheckDocumentById(req.params.documentId, userId);
+      if (!document || document.checkId !== req.params.checkId) {
+        return res.status(404).json({ error: "Document not found" });
+      }
+      if (document.originalDeletedAt) {
+        return res.status(409).json({ error: "The original has been deleted", message: "Only the redacted copy of this document is left." });
+      }
+      const settings = await getRedactionSettings(userId);
+      if (!settings.enabled) {
+        return res.status(400).json({ error: "Redaction is not enabled", message: "Turn on document redaction in the redaction settings first." });
+      }
+      
+      const regions = parseRedactionRegions(req.body?.regions, MAX_PDF_PAGES);
+      if (regions.length === 0) {
+        return res.status(400).json({ error: "No regions", message: "Mark at least one region to mask." });
+      }
+      
+      const updated = await redactStoredDocument(userId, document, regions);
+      res.json(updated);
+    } catch (error: any) {
+      console.error("Error redacting document:", error);
+      if (error instanceof ObjectNotFoundError) {
+        return res.status(404).json({ error: "Document file not found" });
+      }
+      if (error.message?.includes("can be redacted") || error.message?.includes("The PDF could not be opened")) {
+        return res.status(400).json({ error: "Document cannot be redacted", message: error.message });
+      }
+      res.status(500).json({ error: "Failed to redact document" });
+    }
+  });
+
   // CSV export route for audit purposes
   app.get("/api/audit/checks.csv", isAuthenticated, async (req: any, res) => {
     try {
@@ -1608,7 +2748,7 @@ export async function registerRoutes(app: Express): Promise<Server> {
           JSON.stringify(check.workStatus),
           JSON.stringify(check.documentType ?? ""),
           JSON.stringify(check.documentNumber ?? ""),
-          JSON.stringify(check.expiryDate ?? ""),
+          JSON.stringify(check.isTitleUnlimited ? "UNLIMITED" : check.expiryDate ?? ""),
           JSON.stringify(check.createdAt ?? "")
         ].join(",");
 
@@ -6,6 +6,11 @@ import {
   rightToWorkCheckDocuments,
   auditLogs,
   talentProfiles,
+  employerAliases,
+  studentWorkDays,
+  baApprovals,
+  ocrResultCache,
+  documentRedactionSettings,
   type User,
   type UpsertUser,
   type Employee,
@@ -19,11 +24,25 @@ import {
   type RightToWorkCheckDocument,
   type InsertRightToWorkCheckDocument,
   type CaseStatus,
+  type WorkStatus,
   type AuditLog,
   type TalentProfile,
   type InsertTalentProfile,
   type TalentProfileWithEmployee,
+  type EmployerAlias,
+  type InsertEmployerAlias,
+  type StudentWorkDay,
+  type BaApproval,
+  type InsertBaApproval,
+  type OcrResultCacheEntry,
+  type InsertOcrResultCacheEntry,
+  type DocumentRedactionSettings,
+  type InsertDocumentRedactionSettings,
 } from "@shared/schema";
+import type { DecisionReason, ReasonSeverity, ReasonSource } from "../lib/reasonCodes";
+import { normalizeDocumentNumber } from "../lib/documentAuthenticity";
+import { isAreaWithin, resolveLocation } from "../lib/locationMatch";
+import type { WorkedDay } from "../lib/studentWorkDays";
 import { db } from "./db";
 import { eq, desc, and, or, gte, lte, like, sql, inArray, isNull } from "drizzle-orm";
 
@@ -45,6 +64,33 @@ export interface TalentFilters {
   isActivelyLooking?: boolean;
 }
 
+export interface DecisionReasonCount {
+  code: string;
+  severity: ReasonSeverity;
+  source: ReasonSource;
+  workStatus: string;
+  count: number; // number of checks with this reason
+}
+
+// A check in the tenant that recorded a given document or passport number
+export interface DocumentNumberMatch {
+  checkId: string;
+  employeeId: string | null;
+  firstName: string | null;  // the employee's name for employee checks
+  lastName: string | null;
+  createdAt: Date | null;
+}
+
+// A check due for renewal: the title itself expires, or, for an unbefristet
+// title, the card that carries it
+export type ExpiringRightToWorkCheck = RightToWorkCheck & {
+  renewalType: "TITLE" | "CARD";
+  renewalDate: string;
+};
+
+// A stored document whose original is due for deletion, with its tenant
+export type DocumentWithExpiredOriginal = RightToWorkCheckDocument & { userId: string };
+
 export interface IStorage {
   // User operations
   getUser(id: string): Promise<User | undefined>;
@@ -63,9 +109,12 @@ export interface IStorage {
   getStandaloneChecksByUserId(userId: string): Promise<RightToWorkCheck[]>;
   getRightToWorkCheckById(id: string): Promise<RightToWorkCheck | undefined>;
   updateCaseStatus(id: string, caseStatus: CaseStatus): Promise<RightToWorkCheck | undefined>;
+  updateRightToWorkCheckOcrData(id: string, data: Pick<RightToWorkCheck, "ocrRawText" | "ocrExtractedFields">): Promise<RightToWorkCheck | undefined>;
   deleteRightToWorkCheck(id: string): Promise<void>;
-  getExpiringRightToWorkChecks(userId: string, withinDays: number): Promise<RightToWorkCheck[]>;
+  getExpiringRightToWorkChecks(userId: string, withinDays: number): Promise<ExpiringRightToWorkCheck[]>;
   getAllRightToWorkChecksForUser(userId: string): Promise<RightToWorkCheck[]>;
+  getDecisionReasonCounts(userId: string, workStatus?: WorkStatus): Promise<DecisionReasonCount[]>;
+  getChecksByDocumentNumber(userId: string, documentNumber: string): Promise<DocumentNumberMatch[]>;
   
   // Check notes operations
   createRightToWorkCheckNote(note: InsertRightToWorkCheckNote): Promise<RightToWorkCheckNote>;
@@ -76,11 +125,41 @@ export interface IStorage {
   getRightToWorkCheckDocumentsByCheckId(checkId: string, userId: string): Promise<RightToWorkCheckDocument[]>;
   deleteRightToWorkCheckDocument(id: string, userId: string): Promise<void>;
   setDocumentAsPrimary(documentId: string, checkId: string, userId: string): Promise<void>;
+  getRightToWorkCheckDocumentsByContentHash(contentHash: string, userId: string): Promise<RightToWorkCheckDocument[]>;
+  getRightToWorkCheckDocumentById(id: string, userId: string): Promise<RightToWorkCheckDocument | undefined>;
+  updateRightToWorkCheckDocument(id: string, data: Partial<InsertRightToWorkCheckDocument>): Promise<RightToWorkCheckDocument | undefined>;
+  getDocumentsWithExpiredOriginals(now: Date): Promise<DocumentWithExpiredOriginal[]>;
+  replaceOriginalWithRedactedCopy(documentId: string): Promise<RightToWorkCheckDocument | undefined>;
+  
+  // Document redaction settings operations
+  getDocumentRedactionSettings(userId: string): Promise<DocumentRedactionSettings | undefined>;
+  saveDocumentRedactionSettings(settings: InsertDocumentRedactionSettings): Promise<DocumentRedactionSettings>;
   
   // Audit log operations
   createAuditLog(entry: { userId: string; action: string; entityType: string; entityId?: string; details?: string }): Promise<AuditLog>;
   getRecentAuditLogsForCheck(checkId: string, userId: string, limit?: number): Promise<AuditLog[]>;
   
+  // Employer alias operations
+  getEmployerAliases(userId: string): Promise<EmployerAlias[]>;
+  createEmployerAlias(alias: InsertEmployerAlias): Promise<EmployerAlias>;
+  deleteEmployerAlias(id: string, userId: string): Promise<void>;
+  
+  // Student work-day tracker operations
+  getStudentWorkDays(employeeId: string, userId: string, year: number): Promise<StudentWorkDay[]>;
+  getStudentWorkDaysForUser(userId: string, year: number): Promise<StudentWorkDay[]>;
+  saveStudentWorkDays(userId: string, employeeId: string, days: WorkedDay[], source: string): Promise<void>;
+  
+  // Bundesagentur für Arbeit approval operations
+  createBaApproval(approval: InsertBaApproval & { checkId: string; userId: string }): Promise<BaApproval>;
+  getBaApprovalsByCheckId(checkId: string, userId: string): Promise<BaApproval[]>;
+  deleteBaApproval(id: string, userId: string): Promise<BaApproval | undefined>;
+  getExpiringBaApprovals(userId: string, withinDays: number): Promise<BaApproval[]>;
+  
+  // OCR result cache operations
+  getOcrResultCacheEntry(userId: string, contentHash: string, ocrProvider: string, ocrVersion: string): Promise<OcrResultCacheEntry | undefined>;
+  saveOcrResultCacheEntry(entry: InsertOcrResultCacheEntry): Promise<OcrResultCacheEntry>;
+  deleteOcrResultCacheEntries(userId: string, contentHash?: string): Promise<number>;
+  
   // Talent profile operations
   createOrUpdateTalentProfile(userId: string, employeeId: string, data: Partial<InsertTalentProfile>): Promise<TalentProfile>;
   getTalentProfiles(userId: string, filters?: TalentFilters): Promise<TalentProfileWithEmployee[]>;
@@ -256,12 +335,17 @@ export class DatabaseStorage implements IStorage {
         .where(inArray(rightToWorkCheckNotes.checkId, checkIds));
     }
 
-    // 4. Delete the checks
+    // 4. Delete tracked student work days
+    await db
+      .delete(studentWorkDays)
+      .where(eq(studentWorkDays.employeeId, employeeId));
+
+    // 5. Delete the checks
     await db
       .delete(rightToWorkChecks)
       .where(eq(rightToWorkChecks.employeeId, employeeId));
 
-    // 5. Delete the employee
+    // 6. Delete the employee
     await db
       .delete(employees)
       .where(eq(employees.id, employeeId));
@@ -315,29 +399,53 @@ export class DatabaseStorage implements IStorage {
     return check;
   }
 
+  async updateRightToWorkCheckOcrData(id: string, data: Pick<RightToWorkCheck, "ocrRawText" | "ocrExtractedFields">): Promise<RightToWorkCheck | undefined> {
+    const [check] = await db
+      .update(rightToWorkChecks)
+      .set({
+        ...data,
+        updatedAt: new Date(),
+      })
+      .where(eq(rightToWorkChecks.id, id))
+      .returning();
+    return check;
+  }
+
   async deleteRightToWorkCheck(id: string): Promise<void> {
     await db.delete(rightToWorkChecks).where(eq(rightToWorkChecks.id, id));
   }
 
-  async getExpiringRightToWorkChecks(userId: string, withinDays: number): Promise<RightToWorkCheck[]> {
+  async getExpiringRightToWorkChecks(userId: string, withinDays: number): Promise<ExpiringRightToWorkCheck[]> {
     const today = new Date();
     const futureDate = new Date();
     futureDate.setDate(today.getDate() + withinDays);
 
-    const todayStr = today.toISOString().split('T')[0];
     const futureDateStr = futureDate.toISOString().split('T')[0];
 
-    return await db
+    // Unlimited titles never expire, but the eAT card carrying them does
+    const renewalDate = sql`coalesce(${rightToWorkChecks.expiryDate}, ${rightToWorkChecks.cardExpiryDate})`;
+    const checks = await db
       .select()
       .from(rightToWorkChecks)
       .where(
         and(
           eq(rightToWorkChecks.userId, userId),
-          sql`${rightToWorkChecks.expiryDate} IS NOT NULL`,
-          lte(rightToWorkChecks.expiryDate, futureDateStr)
+          or(
+            lte(rightToWorkChecks.expiryDate, futureDateStr),
+            and(
+              eq(rightToWorkChecks.isTitleUnlimited, true),
+              lte(rightToWorkChecks.cardExpiryDate, futureDateStr)
+            )
+          )
         )
       )
-      .orderBy(rightToWorkChecks.expiryDate);
+      .orderBy(renewalDate);
+
+    return checks.map((check) => ({
+      ...check,
+      renewalType: check.isTitleUnlimited ? "CARD" as const : "TITLE" as const,
+      renewalDate: (check.isTitleUnlimited ? check.cardExpiryDate : check.expiryDate)!,
+    }));
   }
 
   async getAllRightToWorkChecksForUser(userId: string): Promise<RightToWorkCheck[]> {
@@ -348,6 +456,75 @@ export class DatabaseStorage implements IStorage {
       .orderBy(desc(rightToWorkChecks.createdAt));
   }
 
+  // Matches the document number and the passport number of every check,
+  // ignoring case and spaces
+  async getChecksByDocumentNumber(userId: string, documentNumber: string): Promise<DocumentNumberMatch[]> {
+    const normalized = normalizeDocumentNumber(documentNumber);
+    return await db
+      .select({
+        checkId: rightToWorkChecks.id,
+        employeeId: rightToWorkChecks.employeeId,
+        firstName: sql<string | null>`coalesce(${employees.firstName}, ${rightToWorkChecks.firstName})`,
+        lastName: sql<string | null>`coalesce(${employees.lastName}, ${rightToWorkChecks.lastName})`,
+        createdAt: rightToWorkChecks.createdAt,
+      })
+      .from(rightToWorkChecks)
+      .leftJoin(employees, eq(rightToWorkChecks.employeeId, employees.id))
+      .where(
+        and(
+          eq(rightToWorkChecks.userId, userId),
+          or(
+            sql`upper(replace(${rightToWorkChecks.documentNumber}, ' ', '')) = ${normalized}`,
+            sql`upper(replace(${rightToWorkChecks.passportNumber}, ' ', '')) = ${normalized}`
+          )
+        )
+      )
+      .orderBy(desc(rightToWorkChecks.createdAt));
+  }
+
+  async getDecisionReasonCounts(userId: string, workStatus?: WorkStatus): Promise<DecisionReasonCount[]> {
+    const conditions = [eq(rightToWorkChecks.userId, userId)];
+    if (workStatus) {
+      conditions.push(eq(rightToWorkChecks.workStatus, workStatus));
+    }
+
+    const checks = await db
+      .select({
+        workStatus: rightToWorkChecks.workStatus,
+        decisionReasons: rightToWorkChecks.decisionReasons,
+      })
+      .from(rightToWorkChecks)
+      .where(and(...conditions));
+
+    const counts = new Map<string, DecisionReasonCount>();
+    for (const check of checks) {
+      // Checks created before reason codes existed have no structured reasons
+      const reasons = Array.isArray(check.decisionReasons) ? (check.decisionReasons as DecisionReason[]) : [];
+      const seenCodes = new Set<string>();
+      for (const reason of reasons) {
+        // Count each reason once per check
+        if (seenCodes.has(reason.code)) continue;
+        seenCodes.add(reason.code);
+
+        const key = `${reason.code}:${check.workStatus}`;
+        const existing = counts.get(key);
+        if (existing) {
+          existing.count += 1;
+        } else {
+          counts.set(key, {
+            code: reason.code,
+            severity: reason.severity,
+            source: reason.source,
+            workStatus: check.workStatus,
+            count: 1,
+          });
+        }
+      }
+    }
+
+    return Array.from(counts.values()).sort((a, b) => b.count - a.count);
+  }
+
   async createRightToWorkCheckNote(noteData: InsertRightToWorkCheckNote): Promise<RightToWorkCheckNote> {
     // Verify the check belongs to this user before creating note
     const check = await this.getRightToWorkCheckById(noteData.checkId);
@@ -441,6 +618,93 @@ export class DatabaseStorage implements IStorage {
     }
   }
 
+  async getRightToWorkCheckDocumentsByContentHash(contentHash: string, userId: string): Promise<RightToWorkCheckDocument[]> {
+    // Only this tenant's checks: the same file elsewhere is none of its business
+    const rows = await db
+      .select({ document: rightToWorkCheckDocuments })
+      .from(rightToWorkCheckDocuments)
+      .innerJoin(rightToWorkChecks, eq(rightToWorkCheckDocuments.checkId, rightToWorkChecks.id))
+      .where(and(eq(rightToWorkCheckDocuments.contentHash, contentHash), eq(rightToWorkChecks.userId, userId)))
+      .orderBy(desc(rightToWorkCheckDocuments.uploadedAt));
+    return rows.map((row) => row.document);
+  }
+
+  async getRightToWorkCheckDocumentById(id: string, userId: string): Promise<RightToWorkCheckDocument | undefined> {
+    const [row] = await db
+      .select({ document: rightToWorkCheckDocuments })
+      .from(rightToWorkCheckDocuments)
+      .innerJoin(rightToWorkChecks, eq(rightToWorkCheckDocuments.checkId, rightToWorkChecks.id))
+      .where(and(eq(rightToWorkCheckDocuments.id, id), eq(rightToWorkChecks.userId, userId)));
+    return row?.document;
+  }
+
+  async updateRightToWorkCheckDocument(id: string, data: Partial<InsertRightToWorkCheckDocument>): Promise<RightToWorkCheckDocument | undefined> {
+    const [document] = await db
+      .update(rightToWorkCheckDocuments)
+      .set(data)
+      .where(eq(rightToWorkCheckDocuments.id, id))
+      .returning();
+    return document;
+  }
+
+  async getDocumentsWithExpiredOriginals(now: Date): Promise<DocumentWithExpiredOriginal[]> {
+    // Across all tenants: the purge runs on a timer, not for a request
+    const rows = await db
+      .select({ document: rightToWorkCheckDocuments, userId: rightToWorkChecks.userId })
+      .from(rightToWorkCheckDocuments)
+      .innerJoin(rightToWorkChecks, eq(rightToWorkCheckDocuments.checkId, rightToWorkChecks.id))
+      .where(
+        and(
+          lte(rightToWorkCheckDocuments.originalDeleteAfter, now),
+          isNull(rightToWorkCheckDocuments.originalDeletedAt)
+        )
+      );
+    return rows.map((row) => ({ ...row.document, userId: row.userId }));
+  }
+
+  async replaceOriginalWithRedactedCopy(documentId: string): Promise<RightToWorkCheckDocument | undefined> {
+    const [document] = await db
+      .select()
+      .from(rightToWorkCheckDocuments)
+      .where(eq(rightToWorkCheckDocuments.id, documentId));
+    if (!document?.redactedFileUrl) {
+      return undefined;
+    }
+
+    const [updated] = await db
+      .update(rightToWorkCheckDocuments)
+      .set({ fileUrl: document.redactedFileUrl, originalDeletedAt: new Date() })
+      .where(eq(rightToWorkCheckDocuments.id, documentId))
+      .returning();
+
+    // The check links its primary document by URL
+    await db
+      .update(rightToWorkChecks)
+      .set({ fileUrl: document.redactedFileUrl })
+      .where(and(eq(rightToWorkChecks.id, document.checkId), eq(rightToWorkChecks.fileUrl, document.fileUrl)));
+    return updated;
+  }
+
+  async getDocumentRedactionSettings(userId: string): Promise<DocumentRedactionSettings | undefined> {
+    const [settings] = await db
+      .select()
+      .from(documentRedactionSettings)
+      .where(eq(documentRedactionSettings.userId, userId));
+    return settings;
+  }
+
+  async saveDocumentRedactionSettings(settings: InsertDocumentRedactionSettings): Promise<DocumentRedactionSettings> {
+    const [saved] = await db
+      .insert(documentRedactionSettings)
+      .values(settings)
+      .onConflictDoUpdate({
+        target: documentRedactionSettings.userId,
+        set: { ...settings, updatedAt: new Date() },
+      })
+      .returning();
+    return saved;
+  }
+
   async createAuditLog(entry: { userId: string; action: string; entityType: string; entityId?: string; details?: string }): Promise<AuditLog> {
     const [log] = await db.insert(auditLogs).values(entry).returning();
     return log;
@@ -466,6 +730,153 @@ export class DatabaseStorage implements IStorage {
       .limit(limit);
   }
 
+  async getEmployerAliases(userId: string): Promise<EmployerAlias[]> {
+    return await db
+      .select()
+      .from(employerAliases)
+      .where(eq(employerAliases.userId, userId))
+      .orderBy(employerAliases.alias);
+  }
+
+  async createEmployerAlias(alias: InsertEmployerAlias): Promise<EmployerAlias> {
+    const [created] = await db.insert(employerAliases).values(alias).returning();
+    return created;
+  }
+
+  async deleteEmployerAlias(id: string, userId: string): Promise<void> {
+    // Scoped to the user so one tenant cannot delete another's aliases
+    await db
+      .delete(employerAliases)
+      .where(and(eq(employerAliases.id, id), eq(employerAliases.userId, userId)));
+  }
+
+  async getStudentWorkDays(employeeId: string, userId: string, year: number): Promise<StudentWorkDay[]> {
+    return await db
+      .select()
+      .from(studentWorkDays)
+      .where(
+        and(
+          eq(studentWorkDays.employeeId, employeeId),
+          eq(studentWorkDays.userId, userId),
+          gte(studentWorkDays.workDate, `${year}-01-01`),
+          lte(studentWorkDays.workDate, `${year}-12-31`)
+        )
+      )
+      .orderBy(studentWorkDays.workDate);
+  }
+
+  async getStudentWorkDaysForUser(userId: string, year: number): Promise<StudentWorkDay[]> {
+    return await db
+      .select()
+      .from(studentWorkDays)
+      .where(
+        and(
+          eq(studentWorkDays.userId, userId),
+          gte(studentWorkDays.workDate, `${year}-01-01`),
+          lte(studentWorkDays.workDate, `${year}-12-31`)
+        )
+      );
+  }
+
+  async saveStudentWorkDays(userId: string, employeeId: string, days: WorkedDay[], source: string): Promise<void> {
+    // A re-imported day replaces the stored one; a day with no minutes removes it
+    for (const day of days) {
+      if (day.minutesWorked <= 0) {
+        await db
+          .delete(studentWorkDays)
+          .where(and(eq(studentWorkDays.employeeId, employeeId), eq(studentWorkDays.workDate, day.workDate)));
+        continue;
+      }
+      await db
+        .insert(studentWorkDays)
+        .values({ userId, employeeId, workDate: day.workDate, minutesWorked: day.minutesWorked, source })
+        .onConflictDoUpdate({
+          target: [studentWorkDays.employeeId, studentWorkDays.workDate],
+          set: { minutesWorked: day.minutesWorked, source, updatedAt: new Date() },
+        });
+    }
+  }
+
+  async createBaApproval(approval: InsertBaApproval & { checkId: string; userId: string }): Promise<BaApproval> {
+    const [created] = await db.insert(baApprovals).values(approval).returning();
+    return created;
+  }
+
+  async getBaApprovalsByCheckId(checkId: string, userId: string): Promise<BaApproval[]> {
+    // Newest first: the engine applies the most recently recorded approval
+    return await db
+      .select()
+      .from(baApprovals)
+      .where(and(eq(baApprovals.checkId, checkId), eq(baApprovals.userId, userId)))
+      .orderBy(desc(baApprovals.createdAt));
+  }
+
+  async deleteBaApproval(id: string, userId: string): Promise<BaApproval | undefined> {
+    const [deleted] = await db
+      .delete(baApprovals)
+      .where(and(eq(baApprovals.id, id), eq(baApprovals.userId, userId)))
+      .returning();
+    return deleted;
+  }
+
+  async getExpiringBaApprovals(userId: string, withinDays: number): Promise<BaApproval[]> {
+    const futureDate = new Date();
+    futureDate.setDate(futureDate.getDate() + withinDays);
+
+    return await db
+      .select()
+      .from(baApprovals)
+      .where(
+        and(
+          eq(baApprovals.userId, userId),
+          sql`${baApprovals.validTo} IS NOT NULL`,
+          lte(baApprovals.validTo, futureDate.toISOString().split('T')[0])
+        )
+      )
+      .orderBy(baApprovals.validTo);
+  }
+
+  async getOcrResultCacheEntry(userId: string, contentHash: string, ocrProvider: string, ocrVersion: string): Promise<OcrResultCacheEntry | undefined> {
+    const [entry] = await db
+      .select()
+      .from(ocrResultCache)
+      .where(
+        and(
+          eq(ocrResultCache.userId, userId),
+          eq(ocrResultCache.contentHash, contentHash),
+          eq(ocrResultCache.ocrProvider, ocrProvider as OcrResultCacheEntry["ocrProvider"]),
+          eq(ocrResultCache.ocrVersion, ocrVersion)
+        )
+      );
+    return entry;
+  }
+
+  async saveOcrResultCacheEntry(entry: InsertOcrResultCacheEntry): Promise<OcrResultCacheEntry> {
+    // A forced re-scan replaces the cached result
+    const [saved] = await db
+      .insert(ocrResultCache)
+      .values(entry)
+      .onConflictDoUpdate({
+        target: [ocrResultCache.userId, ocrResultCache.contentHash, ocrResultCache.ocrProvider, ocrResultCache.ocrVersion],
+        set: { result: entry.result, createdAt: new Date() },
+      })
+      .returning();
+    return saved;
+  }
+
+  async deleteOcrResultCacheEntries(userId: string, contentHash?: string): Promise<number> {
+    // Without a hash, the tenant's whole cache is cleared
+    const deleted = await db
+      .delete(ocrResultCache)
+      .where(
+        contentHash
+          ? and(eq(ocrResultCache.userId, userId), eq(ocrResultCache.contentHash, contentHash))
+          : eq(ocrResultCache.userId, userId)
+      )
+      .returning({ id: ocrResultCache.id });
+    return deleted.length;
+  }
+
   async createOrUpdateTalentProfile(userId: string, employeeId: string, data: Partial<InsertTalentProfile>): Promise<TalentProfile> {
     // Verify employee belongs to this user
     const [employee] = await db.select().from(employees).where(
@@ -556,10 +967,18 @@ export class DatabaseStorage implements IStorage {
 
     if (filters?.locationCity) {
       const locationLower = filters.locationCity.toLowerCase();
+      // A filter naming a Bundesland, Landkreis or postcode also matches
+      // profiles whose city lies inside that area
+      const filterArea = resolveLocation(filters.locationCity);
       results = results.filter(p => {
         const city = (p.locationCity || "").toLowerCase();
         const region = (p.locationRegion || "").toLowerCase();
-        return city.includes(locationLower) || region.includes(locationLower);
+        if (city.includes(locationLower) || region.includes(locationLower)) {
+          return true;
+        }
+        if (!filterArea) return false;
+        const profileArea = resolveLocation(p.locationCity) ?? resolveLocation(p.locationRegion);
+        return profileArea !== null && isAreaWithin(profileArea, filterArea);
       });
     }
 
@@ -664,7 +1083,9 @@ export class DatabaseStorage implements IStorage {
     let employerChangePossible: string | null = null;
     let workAuthorizationSummary = "Work authorization details need to be checked on hire.";
 
-    if (check.expiryDate) {
+    if (check.isTitleUnlimited) {
+      permitHorizonBand = "UNLIMITED";
+    } else if (check.expiryDate) {
       const expiryDate = new Date(check.expiryDate);
       const now = new Date();
       const monthsDiff = (expiryDate.getTime() - now.getTime()) / (1000 * 60 * 60 * 24 * 30);
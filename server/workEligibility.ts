@@ -1,7 +1,6 @@
 import type { EvaluateRightToWorkInput, EvaluateRightToWorkResult } from "../lib/rightToWork";
 import { evaluateRightToWork as runRulesEngine } from "../lib/rightToWork";
-import type { DocumentType } from "@shared/schema";
-import { mapToRulesEngineInput } from "./rightToWorkAdapter";
+import { mapToRulesEngineInput, type RulesEngineFormData } from "./rightToWorkAdapter";
 
 export type EvaluationResult = EvaluateRightToWorkResult;
 
@@ -12,18 +11,20 @@ export type EvaluationResult = EvaluateRightToWorkResult;
  * shortcuts for titles like Fiktionsbescheinigung or employer-tied permits.
  */
 export function evaluateRightToWork({
-  documentType,
   expiryDate,
   dateOfIssue,
-}: {
-  documentType: DocumentType;
-  expiryDate: string;
+  cardExpiryDate,
+  ...permitConditions
+}: Omit<RulesEngineFormData, "expiryDate" | "dateOfIssue" | "cardExpiryDate"> & {
+  expiryDate?: string | null;
   dateOfIssue?: string;
+  cardExpiryDate?: string | null;
 }): EvaluationResult {
   const mappedInput: EvaluateRightToWorkInput = mapToRulesEngineInput({
-    documentType,
-    expiryDate: new Date(expiryDate),
+    ...permitConditions,
+    expiryDate: expiryDate ? new Date(expiryDate) : null,
     dateOfIssue: dateOfIssue ? new Date(dateOfIssue) : undefined,
+    cardExpiryDate: cardExpiryDate ? new Date(cardExpiryDate) : null,
   });
 
   return runRulesEngine(mappedInput);
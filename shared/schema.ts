@@ -8,6 +8,8 @@ import {
   timestamp,
   varchar,
   date,
+  integer,
+  uniqueIndex,
 } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
@@ -47,6 +49,8 @@ export const employees = pgTable("employees", {
   firstName: varchar("first_name").notNull(),
   lastName: varchar("last_name").notNull(),
   dateOfBirth: date("date_of_birth"),
+  // ISO 3166-1 alpha-2 code (see lib/nationality.ts)
+  nationality: varchar("nationality", { length: 2 }),
   notes: text("notes"),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
@@ -65,6 +69,30 @@ export const documentTypes = [
   "EU_BLUE_CARD",
   "EAT",
   "FIKTIONSBESCHEINIGUNG",
+  "NIEDERLASSUNGSERLAUBNIS",
+  "DAUERAUFENTHALT_EU",
+  "AUFENTHALTSGESTATTUNG",
+  "DULDUNG",
+  "TEMPORARY_PROTECTION_24",
+  "CHANCENKARTE",
+  "ICT_KARTE",
+  "WESTBALKAN_REGELUNG",
+  "STUDENT_PERMIT",
+  "OTHER",
+] as const;
+
+// Titles that are issued without an end date (unbefristet). Only the card that
+// carries them expires, never the right to work itself.
+export const unlimitedDocumentTypes = [
+  "NIEDERLASSUNGSERLAUBNIS",
+  "DAUERAUFENTHALT_EU",
+] as const;
+
+// Titles HR may mark as unbefristet: the always-unlimited ones plus OTHER, which
+// covers e.g. the Daueraufenthaltskarte of EU family members. Blue Cards,
+// Chancenkarten, Fiktionsbescheinigungen etc. are always time-limited.
+export const unlimitableDocumentTypes = [
+  ...unlimitedDocumentTypes,
   "OTHER",
 ] as const;
 
@@ -86,9 +114,57 @@ export const caseStatuses = [
 export const employmentPermissions = [
   "ANY_EMPLOYMENT_ALLOWED",
   "RESTRICTED",
+  "NOT_ALLOWED",
+  "UNKNOWN",
+] as const;
+
+// Citizenship category enum values (drives the rules-engine path)
+export const citizenshipCategories = [
+  "EU_EEA_CH",
+  "PRIVILEGED_THIRD_COUNTRY",
+  "WESTERN_BALKANS",
+  "THIRD_COUNTRY",
+] as const;
+
+// Yes/No/Unknown answers for permit conditions captured by HR
+export const permitConditionAnswers = [
+  "YES",
+  "NO",
   "UNKNOWN",
 ] as const;
 
+// Which Blue Card minimum salary applies (see lib/blueCardSalary.ts)
+export const blueCardSalaryCategories = [
+  "STANDARD",
+  "SHORTAGE_OCCUPATION",
+  "NEW_ENTRANT",
+] as const;
+
+// OCR engines a document can be read with (see lib/ocrProviders.ts)
+export const ocrProviders = [
+  "GOOGLE_VISION",
+  "TESSERACT",
+] as const;
+
+// What a stored document is; a check usually has the residence title and the
+// national passport it was issued against
+export const documentKinds = [
+  "RESIDENCE_TITLE",
+  "PASSPORT",
+  "OTHER",
+] as const;
+
+// Parts of a stored document a tenant can have masked in the redacted copy
+export const redactableFields = [
+  "PHOTO",
+  "SIGNATURE",
+  "MRZ",
+  "DOCUMENT_NUMBER",
+  "BIRTH_DATE",
+  "NATIONALITY",
+  "ADDRESS",
+] as const;
+
 // Right to Work Check table
 export const rightToWorkChecks = pgTable("right_to_work_checks", {
   id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
@@ -100,16 +176,74 @@ export const rightToWorkChecks = pgTable("right_to_work_checks", {
   documentNumber: varchar("document_number"),
   countryOfIssue: varchar("country_of_issue"),
   dateOfIssue: date("date_of_issue"),
-  expiryDate: date("expiry_date").notNull(),
+  // End of the residence title itself; null when the title is unlimited
+  expiryDate: date("expiry_date"),
+  isTitleUnlimited: boolean("is_title_unlimited").notNull().default(false),
+  // Expiry of the physical card / passport carrying an unlimited title
+  cardExpiryDate: date("card_expiry_date"),
   employerName: varchar("employer_name"),
   employmentPermission: varchar("employment_permission", { enum: employmentPermissions }),
+  // Nebenbestimmung "Beschäftigung bis … gestattet"; may end before the title
+  employmentPermittedUntil: date("employment_permitted_until"),
+  // Holder's date of birth as printed on the residence title
+  dateOfBirth: date("date_of_birth"),
+
+  // National passport the title was issued against; cross-checked with the
+  // title and the employee record (see lib/identityCrossCheck.ts)
+  passportNumber: varchar("passport_number"),
+  // ISO 3166-1 alpha-2
+  passportIssuingCountry: varchar("passport_issuing_country", { length: 2 }),
+  passportExpiryDate: date("passport_expiry_date"),
+  passportFirstName: varchar("passport_first_name"),
+  passportLastName: varchar("passport_last_name"),
+  passportDateOfBirth: date("passport_date_of_birth"),
+  // ISO 3166-1 alpha-2
+  passportNationality: varchar("passport_nationality", { length: 2 }),
+
+  // Rules-engine input captured on the check form
+  // ISO 3166-1 alpha-2; when set, it determines citizenshipCategory
+  nationality: varchar("nationality", { length: 2 }),
+  citizenshipCategory: varchar("citizenship_category", { enum: citizenshipCategories }),
+  hiringEmployerName: varchar("hiring_employer_name"),
+  permitNamesSpecificEmployer: varchar("permit_names_specific_employer", { enum: permitConditionAnswers }),
+  permitLimitedToOccupation: varchar("permit_limited_to_occupation", { enum: permitConditionAnswers }),
+  occupationOnPermit: varchar("occupation_on_permit"),
+  plannedRoleCategory: varchar("planned_role_category"),
+  hasHoursLimitOnPermit: varchar("has_hours_limit_on_permit", { enum: permitConditionAnswers }),
+  hoursLimitPerWeekOnPermit: integer("hours_limit_per_week_on_permit"),
+  contractHoursPerWeek: integer("contract_hours_per_week"),
+  hasLocationRestriction: varchar("has_location_restriction", { enum: permitConditionAnswers }),
+  locationRestrictionDescription: text("location_restriction_description"),
+  plannedWorkCity: varchar("planned_work_city"),
+  isChangingEmployer: boolean("is_changing_employer"),
+  monthsOnBlueCardInGermany: integer("months_on_blue_card_in_germany"),
+  // Gross EUR per year from the employment contract (Blue Card salary threshold)
+  contractGrossSalaryPerYear: integer("contract_gross_salary_per_year"),
+  blueCardSalaryCategory: varchar("blue_card_salary_category", { enum: blueCardSalaryCategories }),
+  isContinuationOfSameJobAndEmployer: varchar("is_continuation_of_same_job_and_employer", { enum: permitConditionAnswers }),
+
   workStatus: varchar("work_status", { enum: workStatuses }).notNull(),
   caseStatus: varchar("case_status", { enum: caseStatuses }).notNull().default("OPEN"),
   decisionSummary: text("decision_summary"),
   decisionDetails: text("decision_details").array(),
+  // Structured version of decisionDetails (codes, severity, source, legal reference)
+  decisionReasons: jsonb("decision_reasons"),
+  // Version of the rules-engine rule set the decision was made under
+  ruleSetVersion: varchar("rule_set_version"),
+  // Step-by-step record of every rule evaluated (see lib/decisionTrace.ts)
+  decisionTrace: jsonb("decision_trace"),
+  // Traits of an edited or forged document found when the check was made
+  // (see lib/documentAuthenticity.ts)
+  authenticitySignals: jsonb("authenticity_signals"),
+  // Data on file the decision was made with (employee record, employer
+  // aliases, student work days, BA approval), so a re-run can reproduce it
+  // (see RecordedDecisionContext in server/rightToWorkAdapter.ts)
+  decisionContext: jsonb("decision_context"),
   fileUrl: varchar("file_url"),
   ocrRawText: text("ocr_raw_text"),
   ocrExtractedFields: jsonb("ocr_extracted_fields"),
+  // Engine that produced ocrRawText
+  ocrProvider: varchar("ocr_provider", { enum: ocrProviders }),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
 });
@@ -125,6 +259,7 @@ export const rightToWorkChecksRelations = relations(rightToWorkChecks, ({ one, m
   }),
   notes: many(rightToWorkCheckNotes),
   documents: many(rightToWorkCheckDocuments),
+  baApprovals: many(baApprovals),
 }));
 
 // Right to Work Check Notes table
@@ -156,8 +291,17 @@ export const rightToWorkCheckDocuments = pgTable("right_to_work_check_documents"
   mimeType: varchar("mime_type"),
   sizeBytes: varchar("size_bytes"),
   isPrimary: boolean("is_primary").notNull().default(false),
+  documentKind: varchar("document_kind", { enum: documentKinds }),
+  contentHash: varchar("content_hash", { length: 64 }), // SHA-256 of the file bytes, hex
+  // Data minimisation: a copy with the unneeded parts masked replaces the
+  // original once originalDeleteAfter has passed (see server/documentRedaction.ts)
+  redactedFileUrl: varchar("redacted_file_url"),
+  redactionRegions: jsonb("redaction_regions"),          // RedactionRegion[] (lib/documentRedaction.ts)
+  redactedAt: timestamp("redacted_at"),
+  originalDeleteAfter: timestamp("original_delete_after"),
+  originalDeletedAt: timestamp("original_deleted_at"),
   uploadedAt: timestamp("uploaded_at").defaultNow(),
-});
+}, (table) => [index("IDX_right_to_work_check_documents_content_hash").on(table.contentHash)]);
 
 export const rightToWorkCheckDocumentsRelations = relations(rightToWorkCheckDocuments, ({ one }) => ({
   check: one(rightToWorkChecks, {
@@ -189,6 +333,11 @@ export const insertRightToWorkCheckSchema = createInsertSchema(rightToWorkChecks
   workStatus: true,
   decisionSummary: true,
   decisionDetails: true,
+  decisionReasons: true,
+  ruleSetVersion: true,
+  decisionTrace: true,
+  authenticitySignals: true,
+  decisionContext: true,
 });
 
 // Schema for creating checks with evaluation results (used by backend)
@@ -205,12 +354,40 @@ export const employeeFormSchema = insertEmployeeSchema.omit({ userId: true }).ex
 
 export const checkFormSchema = insertRightToWorkCheckSchema.omit({ userId: true }).extend({
   dateOfIssue: z.string().optional(),
-  expiryDate: z.string().min(1, "Expiry date is required"),
+  expiryDate: z.string().optional(),
+  isTitleUnlimited: z.boolean().optional(),
+  cardExpiryDate: z.string().optional(),
   firstName: z.string().optional(),
   lastName: z.string().optional(),
   employeeId: z.string().optional(),
   employerName: z.string().optional(),
-  employmentPermission: z.enum(['ANY_EMPLOYMENT_ALLOWED', 'RESTRICTED', 'UNKNOWN']).optional(),
+  employmentPermission: z.enum(employmentPermissions).optional(),
+  employmentPermittedUntil: z.string().optional(),
+  dateOfBirth: z.string().optional(),
+  passportNumber: z.string().optional(),
+  passportExpiryDate: z.string().optional(),
+  passportFirstName: z.string().optional(),
+  passportLastName: z.string().optional(),
+  passportDateOfBirth: z.string().optional(),
+  citizenshipCategory: z.enum(citizenshipCategories).optional(),
+  hiringEmployerName: z.string().optional(),
+  occupationOnPermit: z.string().optional(),
+  plannedRoleCategory: z.string().optional(),
+  hoursLimitPerWeekOnPermit: z.number().int().min(0).max(168).optional(),
+  contractHoursPerWeek: z.number().int().min(0).max(168).optional(),
+  locationRestrictionDescription: z.string().optional(),
+  plannedWorkCity: z.string().optional(),
+  // YES / NO / UNKNOWN on the form; stored as a boolean, null when unknown
+  isChangingEmployer: z.enum(permitConditionAnswers).optional(),
+  monthsOnBlueCardInGermany: z.number().int().min(0).optional(),
+  contractGrossSalaryPerYear: z.number().int().min(0).optional(),
+  blueCardSalaryCategory: z.enum(blueCardSalaryCategories).optional(),
+}).refine((data) => data.isTitleUnlimited || !!data.expiryDate, {
+  message: "Expiry date is required unless the title is unlimited",
+  path: ["expiryDate"],
+}).refine((data) => !data.isTitleUnlimited || (unlimitableDocumentTypes as readonly string[]).includes(data.documentType), {
+  message: "This document type is always issued with an expiry date",
+  path: ["isTitleUnlimited"],
 });
 
 export const insertRightToWorkCheckNoteSchema = createInsertSchema(rightToWorkCheckNotes).omit({
@@ -235,6 +412,12 @@ export type DocumentType = typeof documentTypes[number];
 export type WorkStatus = typeof workStatuses[number];
 export type CaseStatus = typeof caseStatuses[number];
 export type EmploymentPermission = typeof employmentPermissions[number];
+export type CitizenshipCategory = typeof citizenshipCategories[number];
+export type PermitConditionAnswer = typeof permitConditionAnswers[number];
+export type BlueCardSalaryCategory = typeof blueCardSalaryCategories[number];
+export type OcrProviderName = typeof ocrProviders[number];
+export type DocumentKind = typeof documentKinds[number];
+export type RedactableField = typeof redactableFields[number];
 
 // Notification preferences table
 export const notificationPreferences = pgTable("notification_preferences", {
@@ -271,6 +454,158 @@ export const auditLogsRelations = relations(auditLogs, ({ one }) => ({
   }),
 }));
 
+// Employer aliases: subsidiaries and trading names a tenant hires under,
+// accepted as the hiring employer when matching the employer on a permit
+export const employerAliases = pgTable("employer_aliases", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  alias: varchar("alias").notNull(),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+export const employerAliasesRelations = relations(employerAliases, ({ one }) => ({
+  user: one(users, {
+    fields: [employerAliases.userId],
+    references: [users.id],
+  }),
+}));
+
+export const insertEmployerAliasSchema = createInsertSchema(employerAliases).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type InsertEmployerAlias = z.infer<typeof insertEmployerAliasSchema>;
+export type EmployerAlias = typeof employerAliases.$inferSelect;
+
+// Days a student (§16b AufenthG) worked, imported from shift / timesheet CSVs.
+// One row per employee and day; shifts on the same day are added up.
+export const studentWorkDays = pgTable(
+  "student_work_days",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+    employeeId: varchar("employee_id").notNull().references(() => employees.id, { onDelete: "cascade" }),
+    workDate: date("work_date").notNull(),
+    minutesWorked: integer("minutes_worked").notNull(),
+    source: varchar("source"), // file name of the imported timesheet
+    createdAt: timestamp("created_at").defaultNow(),
+    updatedAt: timestamp("updated_at").defaultNow(),
+  },
+  (table) => [uniqueIndex("UQ_student_work_days_employee_date").on(table.employeeId, table.workDate)],
+);
+
+export const studentWorkDaysRelations = relations(studentWorkDays, ({ one }) => ({
+  employee: one(employees, {
+    fields: [studentWorkDays.employeeId],
+    references: [employees.id],
+  }),
+}));
+
+export const insertStudentWorkDaySchema = createInsertSchema(studentWorkDays).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+});
+
+export type InsertStudentWorkDay = z.infer<typeof insertStudentWorkDaySchema>;
+export type StudentWorkDay = typeof studentWorkDays.$inferSelect;
+
+// Zustimmung der Bundesagentur für Arbeit (§39 AufenthG). The approval sets its
+// own employer, occupation, hours, location and validity; the title only
+// authorises work within both.
+export const baApprovals = pgTable("ba_approvals", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  checkId: varchar("check_id").notNull().references(() => rightToWorkChecks.id, { onDelete: "cascade" }),
+  userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+  documentId: varchar("document_id").references(() => rightToWorkCheckDocuments.id, { onDelete: "set null" }),
+  referenceNumber: varchar("reference_number"), // Geschäftszeichen of the Agentur
+  employerName: varchar("employer_name"),
+  occupation: varchar("occupation"),
+  hoursPerWeek: integer("hours_per_week"),
+  workLocation: varchar("work_location"),
+  validFrom: date("valid_from"),
+  validTo: date("valid_to"),
+  ocrRawText: text("ocr_raw_text"),
+  ocrExtractedFields: jsonb("ocr_extracted_fields"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export const baApprovalsRelations = relations(baApprovals, ({ one }) => ({
+  check: one(rightToWorkChecks, {
+    fields: [baApprovals.checkId],
+    references: [rightToWorkChecks.id],
+  }),
+  document: one(rightToWorkCheckDocuments, {
+    fields: [baApprovals.documentId],
+    references: [rightToWorkCheckDocuments.id],
+  }),
+}));
+
+export const insertBaApprovalSchema = createInsertSchema(baApprovals).omit({
+  id: true,
+  checkId: true,
+  userId: true,
+  createdAt: true,
+  updatedAt: true,
+}).extend({
+  hoursPerWeek: z.number().int().min(1).max(60).nullable().optional(),
+});
+
+export type InsertBaApproval = z.infer<typeof insertBaApprovalSchema>;
+export type BaApproval = typeof baApprovals.$inferSelect;
+
+// OCR results per tenant, keyed by the SHA-256 of the file and the engine
+// version, so the same scan is not sent to the OCR engine twice
+export const ocrResultCache = pgTable(
+  "ocr_result_cache",
+  {
+    id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+    userId: varchar("user_id").notNull().references(() => users.id, { onDelete: "cascade" }),
+    contentHash: varchar("content_hash", { length: 64 }).notNull(),
+    ocrProvider: varchar("ocr_provider", { enum: ocrProviders }).notNull(),
+    ocrVersion: varchar("ocr_version").notNull(), // engine build and field-guesser version
+    result: jsonb("result").notNull(),            // OcrExtractionResult (lib/ocr.ts)
+    createdAt: timestamp("created_at").defaultNow(),
+  },
+  (table) => [
+    uniqueIndex("UQ_ocr_result_cache_key").on(table.userId, table.contentHash, table.ocrProvider, table.ocrVersion),
+  ],
+);
+
+export const insertOcrResultCacheSchema = createInsertSchema(ocrResultCache).omit({
+  id: true,
+  createdAt: true,
+});
+
+export type InsertOcrResultCacheEntry = z.infer<typeof insertOcrResultCacheSchema>;
+export type OcrResultCacheEntry = typeof ocrResultCache.$inferSelect;
+
+// Per-tenant redaction of stored documents: which parts to mask and how long
+// the unredacted original is kept once a redacted copy exists
+export const documentRedactionSettings = pgTable("document_redaction_settings", {
+  id: varchar("id").primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id").notNull().unique().references(() => users.id, { onDelete: "cascade" }),
+  enabled: boolean("enabled").notNull().default(false),
+  maskedFields: varchar("masked_fields", { enum: redactableFields }).array().notNull().default(sql`ARRAY['PHOTO', 'SIGNATURE']`),
+  originalRetentionDays: integer("original_retention_days").notNull().default(30),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+export const insertDocumentRedactionSettingsSchema = createInsertSchema(documentRedactionSettings).omit({
+  id: true,
+  createdAt: true,
+  updatedAt: true,
+}).extend({
+  maskedFields: z.array(z.enum(redactableFields)),
+  originalRetentionDays: z.number().int().min(0).max(3650),
+});
+
+export type InsertDocumentRedactionSettings = z.infer<typeof insertDocumentRedactionSettingsSchema>;
+export type DocumentRedactionSettings = typeof documentRedactionSettings.$inferSelect;
+
 // Talent Profile enums
 export const workAreas = [
   "CLEANING",
@@ -305,6 +640,7 @@ export const languageLevels = [
 ] as const;
 
 export const permitHorizonBands = [
+  "UNLIMITED",
   "OVER_24M",
   "M12_24",
   "M6_12",
@@ -0,0 +1,115 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { isBaApprovalText, parseBaApprovalText } from '../lib/baApproval';
+import { evaluateRightToWork, type EvaluateRightToWorkInput } from '../lib/rightToWork';
+
+const APPROVAL_LETTER = [
+  'Bundesagentur für Arbeit',
+  'Zentrale Auslands- und Fachvermittlung',
+  'Geschäftszeichen: ZAV-123-4567',
+  'Zustimmung zur Beschäftigung gemäß § 39 AufenthG',
+  'Arbeitgeber: Musterbau GmbH',
+  'Tätigkeit: Maurer',
+  'Arbeitszeit: 40 Stunden wöchentlich',
+  'Beschäftigungsort: Musterstadt',
+  'Die Zustimmung gilt vom 01.11.2026 bis 31.10.2028.',
+].join('\n');
+
+test('recognises an approval letter', () => {
+  assert.equal(isBaApprovalText(APPROVAL_LETTER), true);
+  assert.equal(isBaApprovalText('Bundesagentur für Arbeit\nArbeitslosengeld-Bescheid'), false);
+});
+
+test('reads the conditions from an approval letter', () => {
+  assert.deepEqual(parseBaApprovalText(APPROVAL_LETTER), {
+    referenceNumber: 'ZAV-123-4567',
+    validFrom: '2026-11-01',
+    validTo: '2028-10-31',
+    hoursPerWeek: 40,
+    occupation: 'Maurer',
+    employerName: 'Musterbau GmbH',
+    workLocation: 'Musterstadt',
+  });
+});
+
+test('reads conditions written in running text', () => {
+  const fields = parseBaApprovalText(
+    'Der Beschäftigung als Lagerhelfer bei der Beispiel Logistik GmbH in 14467 Potsdam ' +
+    'mit einer wöchentlichen Arbeitszeit von 30,5 Stunden wird zugestimmt. Befristet bis 30.06.2027.'
+  );
+  assert.equal(fields.occupation, 'Lagerhelfer');
+  assert.equal(fields.employerName, 'Beispiel Logistik GmbH');
+  assert.equal(fields.workLocation, '14467 Potsdam');
+  assert.equal(fields.hoursPerWeek, 30);
+  assert.equal(fields.validTo, '2027-06-30');
+  assert.equal(fields.validFrom, undefined);
+});
+
+// An employment title whose own conditions allow the job, so only the
+// approval decides.
+const baseInput: EvaluateRightToWorkInput = {
+  citizenshipCategory: 'THIRD_COUNTRY',
+  documentType: 'EAT_EMPLOYMENT',
+  documentValidFrom: '2026-01-01',
+  documentValidTo: '2028-12-31',
+  todayIsoDate: '2026-10-18',
+  employmentPermission: 'ANY_EMPLOYMENT_ALLOWED',
+  hiringEmployerName: 'Beispiel Logistik GmbH',
+  permitNamesSpecificEmployer: false,
+  permitLimitedToOccupation: false,
+  plannedRoleCategory: 'Lagerhelfer',
+  hasHoursLimitOnPermit: false,
+  contractHoursPerWeek: 30,
+  hasLocationRestriction: false,
+  plannedWorkCity: 'Teltow',
+  isBlueCard: false,
+  isChangingEmployer: false,
+};
+
+const approval = {
+  validFrom: '2026-01-01',
+  validTo: '2028-06-30',
+  employerName: 'Beispiel Logistik GmbH',
+  occupation: 'Lagerhelfer',
+  hoursPerWeek: 30,
+  workLocation: 'Landkreis Potsdam-Mittelmark',
+};
+
+function reasonCodes(input: EvaluateRightToWorkInput): string[] {
+  return evaluateRightToWork(input).decisionReasons.map((reason) => reason.code);
+}
+
+test('work within every approval condition is eligible', () => {
+  const result = evaluateRightToWork({ ...baseInput, baApproval: approval });
+  assert.equal(result.workStatus, 'ELIGIBLE');
+  const codes = result.decisionReasons.map((reason) => reason.code);
+  assert.ok(codes.includes('BA_APPROVAL_CONDITIONS_MATCH'));
+  assert.ok(codes.includes('BA_APPROVAL_ENDS_BEFORE_TITLE'));
+});
+
+test('each approval condition the job falls outside needs review', () => {
+  const cases: Array<[Partial<EvaluateRightToWorkInput>, string]> = [
+    [{ hiringEmployerName: 'Musterbau GmbH' }, 'BA_APPROVAL_EMPLOYER_MISMATCH'],
+    [{ plannedRoleCategory: 'Berufskraftfahrer' }, 'BA_APPROVAL_OCCUPATION_MISMATCH'],
+    [{ contractHoursPerWeek: 40 }, 'BA_APPROVAL_HOURS_EXCEEDED'],
+    [{ plannedWorkCity: 'München' }, 'BA_APPROVAL_LOCATION_MISMATCH'],
+  ];
+  for (const [override, code] of cases) {
+    const input = { ...baseInput, ...override, baApproval: approval };
+    assert.equal(evaluateRightToWork(input).workStatus, 'NEEDS_REVIEW', code);
+    assert.ok(reasonCodes(input).includes(code), code);
+    assert.ok(!reasonCodes(input).includes('BA_APPROVAL_CONDITIONS_MATCH'), code);
+  }
+});
+
+test('an expired approval makes the holder not eligible', () => {
+  const result = evaluateRightToWork({ ...baseInput, baApproval: { ...approval, validTo: '2026-09-30' } });
+  assert.equal(result.workStatus, 'NOT_ELIGIBLE');
+  assert.ok(result.decisionReasons.some((reason) => reason.code === 'BA_APPROVAL_EXPIRED'));
+});
+
+test('an approval that starts later needs review', () => {
+  const input = { ...baseInput, baApproval: { ...approval, validFrom: '2026-11-01' } };
+  assert.equal(evaluateRightToWork(input).workStatus, 'NEEDS_REVIEW');
+  assert.ok(reasonCodes(input).includes('BA_APPROVAL_NOT_YET_VALID'));
+});
@@ -0,0 +1,126 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  checkDocumentDates,
+  checkDocumentNumberFormat,
+  EAT_NUMBER_PATTERN,
+  isSamePerson,
+  MAX_VALIDITY_MONTHS,
+} from '../lib/documentAuthenticity';
+import type { DocumentType } from '../shared/schema';
+
+// The date `months` months and `days` days after an ISO date
+function after(iso: string, months: number, days = 0): string {
+  const date = new Date(iso);
+  date.setUTCMonth(date.getUTCMonth() + months);
+  date.setUTCDate(date.getUTCDate() + days);
+  return date.toISOString().split('T')[0];
+}
+
+test('eAT serial numbers use digits and unambiguous consonants only', () => {
+  for (const valid of ['L01X00T47', '123456789', 'CFGHJKLMN']) {
+    assert.equal(EAT_NUMBER_PATTERN.test(valid), true, valid);
+  }
+  for (const invalid of ['L01X00T4', 'L01X00T470', 'L01X00TA7', 'L01X00TB7', 'L01X00TD7', 'L01X00TQ7', 'L01X00TS7', 'l01x00t47']) {
+    assert.equal(EAT_NUMBER_PATTERN.test(invalid), false, invalid);
+  }
+});
+
+test('flags card numbers that are no eAT serial', () => {
+  assert.deepEqual(checkDocumentNumberFormat('L01X00T47', 'RESIDENCE_TITLE', 'EU_BLUE_CARD'), []);
+  // Spaces and lower case from the form are normalised first
+  assert.deepEqual(checkDocumentNumberFormat('l01x 00t47', 'RESIDENCE_TITLE', 'EAT'), []);
+  assert.deepEqual(checkDocumentNumberFormat('L01X00TA7', 'RESIDENCE_TITLE', 'NIEDERLASSUNGSERLAUBNIS'), [
+    { code: 'DOCUMENT_NUMBER_FORMAT', params: { documentNumber: 'L01X00TA7', documentKind: 'RESIDENCE_TITLE' } },
+  ]);
+});
+
+test('leaves paper documents and unknown types unchecked', () => {
+  for (const documentType of ['FIKTIONSBESCHEINIGUNG', 'DULDUNG', 'AUFENTHALTSGESTATTUNG', 'OTHER', null] as const) {
+    assert.deepEqual(checkDocumentNumberFormat('A-12/345', 'RESIDENCE_TITLE', documentType), [], String(documentType));
+  }
+  assert.deepEqual(checkDocumentNumberFormat('A-12/345', 'OTHER'), []);
+  assert.deepEqual(checkDocumentNumberFormat(null, 'RESIDENCE_TITLE', 'EAT'), []);
+});
+
+test('passport numbers follow the ICAO format', () => {
+  assert.deepEqual(checkDocumentNumberFormat('C01X00T47', 'PASSPORT'), []);
+  assert.deepEqual(checkDocumentNumberFormat('AB1234', 'PASSPORT'), []);
+  assert.equal(checkDocumentNumberFormat('AB12', 'PASSPORT').length, 1);
+  assert.equal(checkDocumentNumberFormat('AB-123456', 'PASSPORT').length, 1);
+  assert.equal(checkDocumentNumberFormat('C01X00T47X', 'PASSPORT').length, 1);
+});
+
+test('flags an expiry before the date of issue', () => {
+  assert.deepEqual(checkDocumentDates({ dateOfIssue: '2025-03-01', expiryDate: '2025-02-28' }), [
+    { code: 'IMPOSSIBLE_DATES', params: { problem: 'EXPIRY_BEFORE_ISSUE', dateOfIssue: '2025-03-01', expiryDate: '2025-02-28' } },
+  ]);
+  // Unlimited titles: the card's expiry counts
+  assert.equal(
+    checkDocumentDates({ documentType: 'NIEDERLASSUNGSERLAUBNIS', dateOfIssue: '2025-03-01', expiryDate: null, cardExpiryDate: '2024-03-01' })[0]?.params.problem,
+    'EXPIRY_BEFORE_ISSUE'
+  );
+});
+
+test('flags a holder born after the date of issue', () => {
+  assert.deepEqual(checkDocumentDates({ dateOfIssue: '2025-03-01', dateOfBirth: new Date('2025-06-01') }), [
+    { code: 'IMPOSSIBLE_DATES', params: { problem: 'BIRTH_AFTER_ISSUE', dateOfIssue: '2025-03-01', dateOfBirth: '2025-06-01' } },
+  ]);
+  assert.deepEqual(checkDocumentDates({ dateOfIssue: '2025-03-01', dateOfBirth: '1990-06-01', expiryDate: '2027-03-01' }), []);
+});
+
+test('dates are only compared with a date of issue', () => {
+  assert.deepEqual(checkDocumentDates({ expiryDate: '2020-01-01', dateOfBirth: '2030-01-01' }), []);
+  assert.deepEqual(checkDocumentDates({ dateOfIssue: 'not a date', expiryDate: '2020-01-01' }), []);
+});
+
+test('each document type is allowed its longest validity and a month of slack', () => {
+  const issue = '2024-01-15';
+  for (const [documentType, maxMonths] of Object.entries(MAX_VALIDITY_MONTHS) as [DocumentType, number][]) {
+    assert.deepEqual(checkDocumentDates({ documentType, dateOfIssue: issue, expiryDate: after(issue, maxMonths) }), [], documentType);
+    assert.deepEqual(checkDocumentDates({ documentType, dateOfIssue: issue, expiryDate: after(issue, maxMonths, 31) }), [], documentType);
+    assert.deepEqual(
+      checkDocumentDates({ documentType, dateOfIssue: issue, expiryDate: after(issue, maxMonths + 2) }),
+      [{ code: 'VALIDITY_TOO_LONG', params: { dateOfIssue: issue, expiryDate: after(issue, maxMonths + 2), months: maxMonths + 2, maxMonths } }],
+      documentType
+    );
+  }
+});
+
+test('validity caps follow the residence act', () => {
+  assert.equal(MAX_VALIDITY_MONTHS.EU_BLUE_CARD, 48);
+  assert.equal(MAX_VALIDITY_MONTHS.ICT_KARTE, 36);
+  assert.equal(MAX_VALIDITY_MONTHS.STUDENT_PERMIT, 24);
+  assert.equal(MAX_VALIDITY_MONTHS.CHANCENKARTE, 24);
+  // Paper documents have no fixed cap
+  for (const documentType of ['FIKTIONSBESCHEINIGUNG', 'DULDUNG', 'AUFENTHALTSGESTATTUNG', 'OTHER'] as const) {
+    assert.equal(MAX_VALIDITY_MONTHS[documentType], undefined);
+    assert.deepEqual(checkDocumentDates({ documentType, dateOfIssue: '2020-01-01', expiryDate: '2040-01-01' }), []);
+  }
+});
+
+test('the same employee is the same person whatever the names say', () => {
+  assert.equal(
+    isSamePerson({ employeeId: 'e1', firstName: 'Anna', lastName: 'Schmidt' }, { employeeId: 'e1', firstName: 'Anna', lastName: 'Meier' }),
+    true
+  );
+});
+
+test('different names on the same number are different people', () => {
+  assert.equal(
+    isSamePerson({ employeeId: 'e1', firstName: 'Anna', lastName: 'Schmidt' }, { employeeId: 'e2', firstName: 'Olena', lastName: 'Kovalenko' }),
+    false
+  );
+  assert.equal(isSamePerson({ firstName: 'Anna', lastName: 'Schmidt' }, { firstName: 'Anna', lastName: 'Meier' }), false);
+});
+
+test('names that match as in the MRZ are the same person', () => {
+  assert.equal(isSamePerson({ firstName: 'Jürgen', lastName: 'Müller' }, { firstName: 'JUERGEN', lastName: 'MUELLER' }), true);
+  // A middle name on one side only
+  assert.equal(isSamePerson({ firstName: 'Maria Luisa', lastName: 'García' }, { employeeId: 'e3', firstName: 'Maria', lastName: 'Garcia' }), true);
+});
+
+test('without names on both sides there is no telling people apart', () => {
+  assert.equal(isSamePerson({ employeeId: 'e1' }, { employeeId: 'e2', firstName: 'Anna', lastName: 'Schmidt' }), true);
+  assert.equal(isSamePerson({ firstName: 'Anna', lastName: 'Schmidt' }, { firstName: null, lastName: null }), true);
+});
@@ -0,0 +1,210 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import {
+  detectRedactionRegions,
+  getOriginalDeleteAfter,
+  isOriginalDue,
+  parseRedactionRegions,
+  redactOcrData,
+  type RedactionLayout,
+} from '../lib/documentRedaction';
+import type { OcrLine } from '../lib/ocrProviders';
+
+const line = (text: string, x: number, y: number, width = 0.4, height = 0.04): OcrLine => ({
+  text,
+  box: { x, y, width, height },
+});
+
+// Front of an ID card: photo on the left, data fields beside it, MRZ at the foot
+const ID_CARD_LINES: OcrLine[] = [
+  line('BUNDESREPUBLIK DEUTSCHLAND', 0.35, 0.05, 0.5),
+  line('MUSTERMANN', 0.35, 0.2),
+  line('ERIKA', 0.35, 0.28),
+  line('Geburtstag 12.08.1983', 0.35, 0.36),
+  line('Staatsangehörigkeit DEUTSCH', 0.35, 0.44),
+  line('Dokumentnummer T22000129', 0.35, 0.52),
+  line('Unterschrift', 0.35, 0.62, 0.15, 0.03),
+  line('IDD<<T220001293<<<<<<<<<<<<<<<', 0.05, 0.78, 0.9, 0.05),
+  line('8308126<3108011D<<2108<<<<<<<4', 0.05, 0.85, 0.9, 0.05),
+  line('MUSTERMANN<<ERIKA<<<<<<<<<<<<<', 0.05, 0.92, 0.9, 0.05),
+];
+
+const ID_CARD_LAYOUT: RedactionLayout = {
+  pageLines: [ID_CARD_LINES],
+  documentNumberGuess: 'T22000129',
+  birthDateGuessIso: '1983-08-12',
+  fieldSources: {
+    nationalityGuess: { method: 'LABEL_PROXIMITY', confidence: 0.8, page: 1, box: ID_CARD_LINES[4].box },
+  },
+};
+
+const ID_CARD_TEXT = ID_CARD_LINES.map((entry) => entry.text).join('\n');
+
+test('keeps regions within the page and drops invalid ones', () => {
+  assert.deepEqual(
+    parseRedactionRegions([
+      { page: 1, box: { x: -0.25, y: 0.75, width: 0.75, height: 0.5 }, field: 'PHOTO' },
+      { page: 2, box: { x: 0.25, y: 0.25, width: 0.5, height: 0.5 }, field: 'SOMETHING' },
+      { page: 1, box: { x: 0.1, y: 0.1, width: 0.001, height: 0.2 } },
+      { page: 3, box: { x: 0.1, y: 0.1, width: 0.2, height: 0.2 } },
+      { page: 1, box: { x: '0.1', y: 0.1, width: 0.2, height: 0.2 } },
+    ], 2),
+    [
+      { page: 1, box: { x: 0, y: 0.75, width: 0.5, height: 0.25 }, field: 'PHOTO' },
+      { page: 2, box: { x: 0.25, y: 0.25, width: 0.5, height: 0.5 } },
+    ]
+  );
+  assert.deepEqual(parseRedactionRegions('not a list'), []);
+});
+
+test('finds the regions of each field on an ID card', () => {
+  const regions = detectRedactionRegions(ID_CARD_LAYOUT, ['MRZ', 'DOCUMENT_NUMBER', 'BIRTH_DATE', 'NATIONALITY', 'SIGNATURE', 'PHOTO']);
+  assert.deepEqual(
+    regions.map((region) => region.field).sort(),
+    ['BIRTH_DATE', 'DOCUMENT_NUMBER', 'MRZ', 'NATIONALITY', 'PHOTO', 'SIGNATURE']
+  );
+  assert.ok(regions.every((region) => region.page === 1));
+
+  const mrz = regions.find((region) => region.field === 'MRZ')!;
+  assert.ok(mrz.box.y < 0.78 && mrz.box.y + mrz.box.height > 0.97);
+  // The document number is masked on its printed line, not in the MRZ
+  const documentNumber = regions.find((region) => region.field === 'DOCUMENT_NUMBER')!;
+  assert.ok(documentNumber.box.y < 0.52 && documentNumber.box.y + documentNumber.box.height < 0.6);
+  // The photo fills the gap left of the data fields, above the MRZ
+  const photo = regions.find((region) => region.field === 'PHOTO')!;
+  assert.equal(photo.box.x, 0.05);
+  assert.ok(photo.box.x + photo.box.width < 0.35);
+  assert.ok(photo.box.y + photo.box.height <= 0.78);
+});
+
+test('masks only the fields asked for', () => {
+  assert.deepEqual(
+    detectRedactionRegions(ID_CARD_LAYOUT, ['PHOTO']).map((region) => region.field),
+    ['PHOTO']
+  );
+  assert.deepEqual(detectRedactionRegions(ID_CARD_LAYOUT, []), []);
+});
+
+test('leaves a nationality read from the MRZ to the MRZ mask', () => {
+  const layout: RedactionLayout = {
+    ...ID_CARD_LAYOUT,
+    fieldSources: { nationalityGuess: { method: 'MRZ', confidence: 0.99, page: 1, box: ID_CARD_LINES[8].box } },
+  };
+  assert.deepEqual(detectRedactionRegions(layout, ['NATIONALITY']), []);
+});
+
+test('masks the address label with the lines under it', () => {
+  const layout: RedactionLayout = {
+    pageLines: [[
+      line('Anschrift', 0.1, 0.2, 0.2, 0.04),
+      line('Musterstraße 1', 0.1, 0.26),
+      line('12345 Musterstadt', 0.1, 0.32),
+      line('Augenfarbe GRAU', 0.1, 0.7),
+    ]],
+  };
+  const [address, ...others] = detectRedactionRegions(layout, ['ADDRESS']);
+  assert.equal(others.length, 0);
+  assert.equal(address.field, 'ADDRESS');
+  assert.ok(address.box.y < 0.2 && address.box.y + address.box.height > 0.36);
+  assert.ok(address.box.y + address.box.height < 0.7);
+});
+
+test('blanks the lines of masked fields in the OCR text and drops their guesses', () => {
+  const redacted = redactOcrData(
+    {
+      rawText: ID_CARD_TEXT,
+      extractedFields: {
+        documentNumberGuess: 'T22000129',
+        birthDateGuessIso: '1983-08-12',
+        nationalityGuess: 'DE',
+        expiryDateGuessIso: '2031-08-01',
+        mrz: { documentNumber: 'T22000129', birthDate: '1983-08-12' },
+        fieldSources: {
+          nationalityGuess: { method: 'LABEL_PROXIMITY', confidence: 0.8, lineNumber: 5, line: 'Staatsangehörigkeit DEUTSCH' },
+          expiryDateGuessIso: { method: 'MRZ', confidence: 0.99 },
+        },
+        pageLines: [ID_CARD_LINES],
+      },
+    },
+    ['DOCUMENT_NUMBER', 'BIRTH_DATE', 'NATIONALITY', 'PHOTO']
+  );
+
+  const lines = redacted.rawText!.split('\n');
+  assert.equal(lines.length, ID_CARD_LINES.length);
+  assert.deepEqual(lines.slice(3, 6), ['', '', '']);
+  assert.equal(lines[1], 'MUSTERMANN');
+  // The MRZ keeps its copy of the values unless it is masked too
+  assert.equal(lines[7], 'IDD<<T220001293<<<<<<<<<<<<<<<');
+
+  const fields = redacted.extractedFields as Record<string, any>;
+  assert.equal(fields.documentNumberGuess, undefined);
+  assert.equal(fields.birthDateGuessIso, undefined);
+  assert.equal(fields.nationalityGuess, undefined);
+  assert.equal(fields.fieldSources.nationalityGuess, undefined);
+  assert.equal(fields.expiryDateGuessIso, '2031-08-01');
+  assert.deepEqual(fields.mrz, { documentNumber: 'T22000129', birthDate: '1983-08-12' });
+  assert.deepEqual(fields.pageLines[0].slice(3, 6).map((entry: OcrLine) => entry.text), ['', '', '']);
+  assert.deepEqual(fields.pageLines[0][3].box, ID_CARD_LINES[3].box);
+});
+
+test('a masked MRZ leaves neither its lines nor its fields', () => {
+  const redacted = redactOcrData(
+    { rawText: ID_CARD_TEXT, extractedFields: { documentNumberGuess: 'T22000129', mrz: { documentNumber: 'T22000129' } } },
+    ['MRZ']
+  );
+  assert.deepEqual(redacted.rawText!.split('\n').slice(7), ['', '', '']);
+  assert.deepEqual(redacted.extractedFields, { documentNumberGuess: 'T22000129' });
+});
+
+test('blanks the address label and the lines under it', () => {
+  const redacted = redactOcrData(
+    { rawText: 'Anschrift\nMusterstraße 1\n12345 Musterstadt\n\nAugenfarbe GRAU', extractedFields: null },
+    ['ADDRESS']
+  );
+  assert.equal(redacted.rawText, '\n\n\n\nAugenfarbe GRAU');
+  assert.equal(redacted.extractedFields, null);
+});
+
+test('keeps OCR fields stored as JSON as JSON, nested documents included', () => {
+  const redacted = redactOcrData(
+    {
+      rawText: null,
+      extractedFields: JSON.stringify({
+        documentNumberGuess: 'T22000129',
+        documents: [{ fileName: 'ausweis.jpg', documentNumberGuess: 'T22000129', text: 'Dokumentnummer T22000129\nGültig bis 01.08.2031' }],
+      }),
+    },
+    ['DOCUMENT_NUMBER']
+  );
+  assert.equal(typeof redacted.extractedFields, 'string');
+  assert.deepEqual(JSON.parse(redacted.extractedFields as string), {
+    documents: [{ fileName: 'ausweis.jpg', text: '\nGültig bis 01.08.2031' }],
+  });
+  assert.equal(redacted.rawText, null);
+});
+
+test('the original is kept for the retention period', () => {
+  const redactedAt = new Date('2026-10-18T10:00:00.000Z');
+  const originalDeleteAfter = getOriginalDeleteAfter(redactedAt, 30);
+  assert.equal(originalDeleteAfter.toISOString(), '2026-11-17T10:00:00.000Z');
+
+  const document = { redactedFileUrl: '/objects/check-attachments/copy.png', originalDeleteAfter, originalDeletedAt: null };
+  assert.equal(isOriginalDue(document, new Date('2026-11-17T09:59:59.999Z')), false);
+  assert.equal(isOriginalDue(document, originalDeleteAfter), true);
+  assert.equal(isOriginalDue(document, new Date('2027-01-01T00:00:00.000Z')), true);
+});
+
+test('without a retention period the original is due at once', () => {
+  const redactedAt = new Date('2026-10-18T10:00:00.000Z');
+  const originalDeleteAfter = getOriginalDeleteAfter(redactedAt, 0);
+  assert.equal(originalDeleteAfter.getTime(), redactedAt.getTime());
+  assert.equal(isOriginalDue({ redactedFileUrl: '/objects/copy.png', originalDeleteAfter, originalDeletedAt: null }, redactedAt), true);
+});
+
+test('only redacted originals that are still kept are due', () => {
+  const now = new Date('2026-10-18T10:00:00.000Z');
+  const past = new Date('2026-10-01T00:00:00.000Z');
+  assert.equal(isOriginalDue({ redactedFileUrl: null, originalDeleteAfter: past, originalDeletedAt: null }, now), false);
+  assert.equal(isOriginalDue({ redactedFileUrl: '/objects/copy.png', originalDeleteAfter: past, originalDeletedAt: past }, now), false);
+  assert.equal(isOriginalDue({ redactedFileUrl: '/objects/copy.png', originalDeleteAfter: null, originalDeletedAt: null }, now), false);
+});
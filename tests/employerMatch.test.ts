@@ -0,0 +1,37 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { matchEmployerName, normalizeEmployerName } from '../lib/employerMatch';
+
+test('normalises umlauts, legal form and c/o lines', () => {
+  assert.deepEqual(normalizeEmployerName('Müller Logistik GmbH & Co. KG c/o Steuerbüro Schmidt'), {
+    tokens: ['mueller', 'logistik'],
+    legalForm: 'gmbh & co kg',
+  });
+  assert.deepEqual(normalizeEmployerName('Beispiel Software'), { tokens: ['beispiel', 'software'], legalForm: null });
+});
+
+test('matches names that differ only in spelling of umlauts and legal form', () => {
+  const result = matchEmployerName('Mueller Logistik GmbH & Co KG', 'Müller Logistik GmbH & Co. KG');
+  assert.equal(result.verdict, 'MATCH');
+  assert.equal(result.score, 1);
+  assert.equal(result.legalFormDiffers, false);
+});
+
+test('a different legal form is only a partial match', () => {
+  const result = matchEmployerName('Müller Logistik AG', 'Müller Logistik GmbH');
+  assert.equal(result.verdict, 'PARTIAL');
+  assert.equal(result.score, 0.85);
+  assert.equal(result.legalFormDiffers, true);
+});
+
+test('unrelated employers do not match', () => {
+  const result = matchEmployerName('Schmidt Bau GmbH', 'Müller Logistik GmbH');
+  assert.equal(result.verdict, 'MISMATCH');
+  assert.equal(result.score, 0);
+});
+
+test('a tenant alias counts as the hiring employer', () => {
+  const result = matchEmployerName('MLX Fulfilment GmbH', 'Müller Logistik GmbH', ['MLX Fulfilment GmbH']);
+  assert.equal(result.verdict, 'MATCH');
+  assert.equal(result.matchedAlias, 'MLX Fulfilment GmbH');
+});
@@ -0,0 +1,162 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createCanvas, loadImage } from '@napi-rs/canvas';
+import {
+  assessImageQuality,
+  findPhotosToRetake,
+  imageQualityFeedback,
+  preprocessImage,
+  retakeMessage,
+  toUploadBox,
+} from '../lib/imagePreprocessing';
+
+interface DrawOptions {
+  width?: number;
+  height?: number;
+  background?: string;
+  skewDegrees?: number;
+  // Share of the image the card with the text takes, centred
+  documentShare?: number;
+  glare?: boolean;
+  blurry?: boolean;
+}
+
+// A photo of lines of "text": dark bars on a light card
+function photo({
+  width = 1000,
+  height = 700,
+  background = '#c8c8c8',
+  skewDegrees = 0,
+  documentShare = 1,
+  glare = false,
+  blurry = false,
+}: DrawOptions = {}): Buffer {
+  const canvas = createCanvas(width, height);
+  const ctx = canvas.getContext('2d');
+  ctx.fillStyle = background;
+  ctx.fillRect(0, 0, width, height);
+  if (blurry) {
+    const gradient = ctx.createLinearGradient(0, 0, width, 0);
+    gradient.addColorStop(0, '#404040');
+    gradient.addColorStop(1, '#b0b0b0');
+    ctx.fillStyle = gradient;
+    ctx.fillRect(0, 0, width, height);
+    return canvas.toBuffer('image/png');
+  }
+
+  const cardWidth = width * documentShare;
+  const cardHeight = height * documentShare;
+  ctx.translate(width / 2, height / 2);
+  ctx.rotate((skewDegrees * Math.PI) / 180);
+  ctx.fillStyle = '#d8d8d8';
+  ctx.fillRect(-cardWidth / 2, -cardHeight / 2, cardWidth, cardHeight);
+  ctx.fillStyle = '#101010';
+  for (let y = -cardHeight / 2 + 20; y < cardHeight / 2 - 20; y += 24) {
+    for (let x = -cardWidth / 2 + 20; x < cardWidth / 2 - 40; x += 60) {
+      ctx.fillRect(x, y, 44, 8);
+    }
+  }
+  ctx.setTransform(1, 0, 0, 1, 0, 0);
+  if (glare) {
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, width * 0.4, height * 0.4);
+  }
+  return canvas.toBuffer('image/png');
+}
+
+test('a sharp, large photo has no issues', async () => {
+  const report = await assessImageQuality(photo({ width: 1400, height: 1000 }));
+  assert.deepEqual(report.issues, []);
+  assert.equal(report.width, 1400);
+  assert.equal(report.height, 1000);
+  assert.equal(report.glareRatio, 0);
+  assert.ok(report.sharpness >= 150, String(report.sharpness));
+  assert.equal(report.score, 100);
+});
+
+test('flags a photo without sharp edges as blurry', async () => {
+  const report = await assessImageQuality(photo({ blurry: true }));
+  assert.deepEqual(report.issues, ['BLURRY']);
+  assert.ok(report.sharpness < 60);
+  assert.equal(report.score, 0);
+});
+
+test('flags a photo whose short side is under 600 pixels', async () => {
+  const report = await assessImageQuality(photo({ width: 800, height: 500 }));
+  assert.deepEqual(report.issues, ['LOW_RESOLUTION']);
+  // The score is the weakest measure: 500 of the 1000 pixels wanted
+  assert.equal(report.score, 50);
+});
+
+test('flags clipped highlights as glare, but not a white scan background', async () => {
+  const glare = await assessImageQuality(photo({ glare: true }));
+  assert.deepEqual(glare.issues, ['GLARE']);
+  assert.ok(glare.glareRatio > 0.03);
+
+  const scan = await assessImageQuality(photo({ background: '#ffffff', documentShare: 0.6 }));
+  assert.equal(scan.glareRatio, 0);
+  assert.ok(!scan.issues.includes('GLARE'));
+});
+
+test('preprocessing scores the upload and leaves a straight, full-frame photo as it is', async () => {
+  const upload = photo();
+  const processed = await preprocessImage(upload);
+  assert.deepEqual(processed.quality, await assessImageQuality(upload));
+  assert.deepEqual(processed.transform, { skewAngle: 0, crop: { x: 0, y: 0, width: 1, height: 1 } });
+  const image = await loadImage(processed.buffer);
+  assert.equal(image.width, 1000);
+  assert.equal(image.height, 700);
+});
+
+test('preprocessing straightens a skewed photo', async () => {
+  const { transform } = await preprocessImage(photo({ skewDegrees: 4, documentShare: 0.7, background: '#606060' }));
+  assert.ok(Math.abs(transform.skewAngle - 4) <= 0.5, String(transform.skewAngle));
+});
+
+test('preprocessing crops to the document', async () => {
+  const processed = await preprocessImage(photo({ width: 1200, height: 900, documentShare: 0.6, background: '#606060' }));
+  const { crop } = processed.transform;
+  // The card spans 0.2–0.8 of each side; the crop keeps a small margin
+  assert.ok(crop.x > 0.15 && crop.x < 0.22, JSON.stringify(crop));
+  assert.ok(crop.y > 0.15 && crop.y < 0.22, JSON.stringify(crop));
+  assert.ok(crop.x + crop.width > 0.78 && crop.x + crop.width < 0.85, JSON.stringify(crop));
+  assert.ok(crop.y + crop.height > 0.78 && crop.y + crop.height < 0.85, JSON.stringify(crop));
+  const image = await loadImage(processed.buffer);
+  assert.ok(Math.abs(image.width - crop.width * 1200) <= 1);
+});
+
+test('maps boxes on the cropped image back onto the upload', () => {
+  const transform = { skewAngle: 0, crop: { x: 0.2, y: 0.1, width: 0.5, height: 0.8 } };
+  assert.deepEqual(toUploadBox({ x: 0, y: 0, width: 1, height: 1 }, transform), { x: 0.2, y: 0.1, width: 0.5, height: 0.8 });
+  assert.deepEqual(toUploadBox({ x: 0.5, y: 0.5, width: 0.2, height: 0.25 }, transform), { x: 0.45, y: 0.5, width: 0.1, height: 0.2 });
+});
+
+test('undoes the deskew for the centre of a box, keeping its size', () => {
+  const crop = { x: 0, y: 0, width: 1, height: 1 };
+  // A box centred on the image stays where it is
+  const centred = toUploadBox({ x: 0.4, y: 0.45, width: 0.2, height: 0.1 }, { skewAngle: 5, crop });
+  assert.ok(Math.abs(centred.x - 0.4) < 1e-9 && Math.abs(centred.y - 0.45) < 1e-9);
+
+  // Right of the centre, turned a quarter turn clockwise: below the centre
+  const box = toUploadBox({ x: 0.7, y: 0.45, width: 0.1, height: 0.1 }, { skewAngle: 90, crop });
+  assert.ok(Math.abs(box.x - 0.45) < 1e-9, JSON.stringify(box));
+  assert.ok(Math.abs(box.y - 0.7) < 1e-9, JSON.stringify(box));
+  assert.equal(box.width, 0.1);
+  assert.equal(box.height, 0.1);
+});
+
+test('asks for a retake of poor photos only', async () => {
+  const retake = await findPhotosToRetake([
+    { fileName: 'pass.png', mimeType: 'image/png', buffer: photo({ width: 1400, height: 1000 }) },
+    { fileName: 'karte.png', mimeType: 'image/png', buffer: photo({ blurry: true }) },
+    { fileName: 'zusatzblatt.pdf', mimeType: 'application/pdf', buffer: Buffer.from('%PDF-1.7') },
+    // Not decodable: left to the OCR step
+    { fileName: 'kaputt.jpg', mimeType: 'image/jpeg', buffer: Buffer.from('not an image') },
+  ]);
+  assert.deepEqual(retake, [{ fileName: 'karte.png', issues: ['BLURRY'], feedback: [imageQualityFeedback.BLURRY] }]);
+  assert.equal(retakeMessage(retake), 'Please retake the photo "karte.png".');
+  assert.equal(
+    retakeMessage([...retake, { fileName: 'pass.png', issues: ['GLARE'], feedback: [imageQualityFeedback.GLARE] }]),
+    'Please retake 2 photos.'
+  );
+});
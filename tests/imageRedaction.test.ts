@@ -0,0 +1,75 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { createCanvas, loadImage, PDFDocument, type SKRSContext2D } from '@napi-rs/canvas';
+import { redactDocumentFile } from '../lib/imageRedaction';
+import { isPdf, MAX_PDF_PAGES, renderPdfPages } from '../lib/pdfPages';
+
+// Right half of the page
+const RIGHT_HALF = [{ page: 1, box: { x: 0.5, y: 0, width: 0.5, height: 1 } }];
+
+function whiteImage(mimeType: 'image/png' | 'image/jpeg'): Buffer {
+  const canvas = createCanvas(80, 40);
+  const ctx = canvas.getContext('2d');
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, 80, 40);
+  return mimeType === 'image/png' ? canvas.toBuffer('image/png') : canvas.toBuffer('image/jpeg', 95);
+}
+
+function whitePdf(pageCount: number): Buffer {
+  const document = new PDFDocument();
+  for (let i = 0; i < pageCount; i++) {
+    const ctx = document.beginPage(72, 36) as SKRSContext2D;
+    ctx.fillStyle = '#ffffff';
+    ctx.fillRect(0, 0, 72, 36);
+    document.endPage();
+  }
+  return document.close();
+}
+
+// Brightness of the pixel at the share of the image's width and height
+async function brightness(buffer: Buffer, x: number, y: number): Promise<number> {
+  const image = await loadImage(buffer);
+  const canvas = createCanvas(image.width, image.height);
+  const ctx = canvas.getContext('2d');
+  ctx.drawImage(image, 0, 0);
+  const { data } = ctx.getImageData(Math.floor(x * image.width), Math.floor(y * image.height), 1, 1);
+  return (data[0] + data[1] + data[2]) / 3;
+}
+
+test('masks the regions of an image and keeps PNGs as PNG', async () => {
+  const redacted = await redactDocumentFile(whiteImage('image/png'), RIGHT_HALF);
+  assert.equal(redacted.mimeType, 'image/png');
+  assert.equal(redacted.extension, 'png');
+  assert.equal(await brightness(redacted.buffer, 0.25, 0.5), 255);
+  assert.equal(await brightness(redacted.buffer, 0.75, 0.5), 0);
+});
+
+test('keeps JPEGs as JPEG', async () => {
+  const redacted = await redactDocumentFile(whiteImage('image/jpeg'), RIGHT_HALF);
+  assert.equal(redacted.mimeType, 'image/jpeg');
+  assert.equal(redacted.extension, 'jpg');
+  assert.ok(await brightness(redacted.buffer, 0.25, 0.5) > 240);
+  assert.ok(await brightness(redacted.buffer, 0.75, 0.5) < 15);
+});
+
+test('ignores regions on other pages of an image', async () => {
+  const redacted = await redactDocumentFile(whiteImage('image/png'), [{ ...RIGHT_HALF[0], page: 2 }]);
+  assert.equal(await brightness(redacted.buffer, 0.75, 0.5), 255);
+});
+
+test('rebuilds PDFs from the masked pages', async () => {
+  const redacted = await redactDocumentFile(whitePdf(2), RIGHT_HALF);
+  assert.equal(redacted.mimeType, 'application/pdf');
+  assert.ok(isPdf(redacted.buffer));
+
+  const { pages, totalPages } = await renderPdfPages(redacted.buffer);
+  assert.equal(totalPages, 2);
+  assert.ok(await brightness(pages[0], 0.25, 0.5) > 240);
+  assert.ok(await brightness(pages[0], 0.75, 0.5) < 15);
+  // Only the first page had a region
+  assert.ok(await brightness(pages[1], 0.75, 0.5) > 240);
+});
+
+test('refuses PDFs with more pages than are rendered', async () => {
+  await assert.rejects(redactDocumentFile(whitePdf(MAX_PDF_PAGES + 1), RIGHT_HALF), /can be redacted/);
+});
@@ -0,0 +1,46 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { describeArea, findAreasInText, matchLocationRestriction, resolveLocation } from '../lib/locationMatch';
+
+test('resolves a work location by postcode or name', () => {
+  assert.equal(resolveLocation('14467 Potsdam')?.name, 'Potsdam');
+  assert.deepEqual(resolveLocation('Teltow'), {
+    kind: 'MUNICIPALITY',
+    name: 'Teltow',
+    land: 'BB',
+    kreis: 'Landkreis Potsdam-Mittelmark',
+  });
+  assert.equal(resolveLocation('Nirgendwo'), null);
+});
+
+test('a city state as work location is the city', () => {
+  assert.equal(resolveLocation('Berlin')?.kind, 'MUNICIPALITY');
+});
+
+test('prefers the longest place name in a text', () => {
+  const areas = findAreasInText('Wohnsitzauflage: Landkreis München');
+  assert.deepEqual(areas.map((area) => [area.kind, area.name]), [['KREIS', 'Landkreis München']]);
+});
+
+test('a municipality lies within its Landkreis and Land', () => {
+  const result = matchLocationRestriction('Beschäftigung nur im Landkreis Potsdam-Mittelmark', 'Teltow');
+  assert.equal(result.isWithinRestriction, true);
+  assert.equal(result.matchedArea?.name, 'Landkreis Potsdam-Mittelmark');
+  assert.equal(matchLocationRestriction('Land Brandenburg', 'Teltow').isWithinRestriction, true);
+});
+
+test('a kreisfreie city is not part of the Landkreis of the same name', () => {
+  assert.equal(matchLocationRestriction('Landkreis München', 'München').isWithinRestriction, false);
+});
+
+test('a work location in another Land is outside the restriction', () => {
+  assert.equal(matchLocationRestriction('Beschäftigung nur im Land Brandenburg', 'München').isWithinRestriction, false);
+});
+
+test('unknown places leave the restriction unresolved', () => {
+  assert.equal(matchLocationRestriction('Land Brandenburg', 'Nirgendwo').isWithinRestriction, null);
+});
+
+test('describes a municipality with its Landkreis', () => {
+  assert.equal(describeArea(resolveLocation('Teltow')!), 'Teltow, Landkreis Potsdam-Mittelmark');
+});
@@ -0,0 +1,76 @@
+// MRZ parsing and ICAO 9303 check digits, using the specimen documents from
+// ICAO Doc 9303 (Utopia, Anna Maria Eriksson).
+
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { computeMrzCheckDigit, getMrzCheckDigitFailures, getStoredMrz, parseMrz } from '../lib/mrz';
+
+const TD3_SAMPLE = [
+  'P<UTOERIKSSON<<ANNA<MARIA<<<<<<<<<<<<<<<<<<<',
+  'L898902C36UTO7408122F1204159ZE184226B<<<<<10',
+].join('\n');
+
+const TD1_SAMPLE = [
+  'I<UTOD231458907<<<<<<<<<<<<<<<',
+  '7408122F1204159UTO<<<<<<<<<<<6',
+  'ERIKSSON<<ANNA<MARIA<<<<<<<<<<',
+].join('\n');
+
+test('computes the check digits of the ICAO specimen', () => {
+  assert.equal(computeMrzCheckDigit('L898902C3'), 6);
+  assert.equal(computeMrzCheckDigit('740812'), 2);
+  assert.equal(computeMrzCheckDigit('120415'), 9);
+  assert.equal(computeMrzCheckDigit('<<<'), 0);
+});
+
+test('parses the TD3 passport specimen', () => {
+  const mrz = parseMrz(TD3_SAMPLE);
+  assert.ok(mrz);
+  assert.equal(mrz.format, 'TD3');
+  assert.equal(mrz.documentCode, 'P');
+  assert.equal(mrz.issuingState, 'UTO');
+  assert.equal(mrz.documentNumber, 'L898902C3');
+  assert.equal(mrz.birthDate, '1974-08-12');
+  assert.equal(mrz.expiryDate, '2012-04-15');
+  assert.equal(mrz.sex, 'F');
+  assert.equal(mrz.surname, 'ERIKSSON');
+  assert.equal(mrz.givenNames, 'ANNA MARIA');
+  assert.deepEqual(mrz.failedCheckDigits, []);
+  assert.equal(mrz.isValid, true);
+});
+
+test('parses the TD1 identity card specimen', () => {
+  const mrz = parseMrz(TD1_SAMPLE);
+  assert.ok(mrz);
+  assert.equal(mrz.format, 'TD1');
+  assert.equal(mrz.documentCode, 'I');
+  assert.equal(mrz.documentNumber, 'D23145890');
+  assert.equal(mrz.birthDate, '1974-08-12');
+  assert.equal(mrz.expiryDate, '2012-04-15');
+  assert.equal(mrz.isValid, true);
+});
+
+test('finds the MRZ among other OCR lines', () => {
+  const mrz = parseMrz(`REISEPASS\nPASSPORT\n${TD3_SAMPLE}\n`);
+  assert.equal(mrz?.documentNumber, 'L898902C3');
+});
+
+test('reports a misread birth date as failed check digits', () => {
+  const mrz = parseMrz(TD3_SAMPLE.replace('7408122', '7408123'));
+  assert.ok(mrz);
+  assert.deepEqual(mrz.failedCheckDigits, ['birthDate', 'composite']);
+  assert.equal(mrz.isValid, false);
+});
+
+test('returns undefined when the text has no complete MRZ', () => {
+  assert.equal(parseMrz('Aufenthaltstitel\nErwerbstätigkeit erlaubt'), undefined);
+  assert.equal(parseMrz(TD1_SAMPLE.split('\n').slice(0, 2).join('\n')), undefined);
+});
+
+test('reads check digit failures from stored OCR fields', () => {
+  const stored = JSON.stringify({ mrz: { failedCheckDigits: ['expiryDate', 'unknownField'] } });
+  assert.deepEqual(getMrzCheckDigitFailures(stored), ['expiryDate']);
+  assert.equal(getMrzCheckDigitFailures({ documentNumber: 'X' }), undefined);
+  assert.equal(getStoredMrz('not json'), undefined);
+  assert.equal(getStoredMrz({ mrz: null }), undefined);
+});
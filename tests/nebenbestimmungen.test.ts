@@ -0,0 +1,103 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { isZusatzblattText, parseNebenbestimmungen } from '../lib/nebenbestimmungen';
+
+test('recognises a Zusatzblatt', () => {
+  assert.equal(isZusatzblattText('Zusatzblatt zum Aufenthaltstitel Nr. L01X00T47'), true);
+  assert.equal(isZusatzblattText('Beschäftigung nur bei der Musterbau GmbH gestattet.'), true);
+  assert.equal(isZusatzblattText('Wohnsitzauflage: Stadt Leipzig'), true);
+  assert.equal(isZusatzblattText('Reisepass\nBundesrepublik Deutschland'), false);
+});
+
+test('reads employer, occupation, hours and end date', () => {
+  assert.deepEqual(
+    parseNebenbestimmungen(
+      'Zusatzblatt\nNebenbestimmungen:\nBeschäftigung nur bei der Musterbau GmbH als Maurer, max. 20 Std./Woche.\n' +
+      'Beschäftigung bis 31.12.2026 gestattet.'
+    ),
+    {
+      employmentPermission: 'EMPLOYMENT_ALLOWED_WITH_LIMITS',
+      permitNamesSpecificEmployer: true,
+      employerOnPermit: 'Musterbau GmbH',
+      permitLimitedToOccupation: true,
+      occupationOnPermit: 'Maurer',
+      hasHoursLimitOnPermit: true,
+      hoursLimitPerWeekOnPermit: 20,
+      employmentPermittedUntil: '2026-12-31',
+    }
+  );
+});
+
+test('a ban on self-employment says nothing about employment', () => {
+  assert.deepEqual(
+    parseNebenbestimmungen('Erwerbstätigkeit gestattet.\nSelbständige Tätigkeit nicht gestattet.'),
+    {
+      employmentPermission: 'ANY_EMPLOYMENT_ALLOWED',
+      permitNamesSpecificEmployer: false,
+      permitLimitedToOccupation: false,
+      hasHoursLimitOnPermit: false,
+      hasLocationRestriction: false,
+    }
+  );
+  assert.equal(
+    parseNebenbestimmungen('Selbstständige Erwerbstätigkeit nicht gestattet.').employmentPermission,
+    undefined
+  );
+});
+
+test('a ban on employment stops reading', () => {
+  assert.deepEqual(
+    parseNebenbestimmungen('Erwerbstätigkeit nicht gestattet. Wohnsitzauflage: Stadt Leipzig'),
+    { employmentPermission: 'EMPLOYMENT_NOT_ALLOWED' }
+  );
+});
+
+test('joins conditions that wrap across lines', () => {
+  const conditions = parseNebenbestimmungen(
+    'Beschäftigung nur bei der Beispiel\nLogistik GmbH als Lager-\nhelfer gestattet.'
+  );
+  assert.equal(conditions.employerOnPermit, 'Beispiel Logistik GmbH');
+  assert.equal(conditions.occupationOnPermit, 'Lagerhelfer');
+});
+
+test('tells "bis zu 20 Std." from "bis 31.12."', () => {
+  const conditions = parseNebenbestimmungen('Beschäftigung bis zu 20 Std. pro Woche gestattet, befristet bis 31.12.2026.');
+  assert.equal(conditions.hasHoursLimitOnPermit, true);
+  assert.equal(conditions.hoursLimitPerWeekOnPermit, 20);
+  assert.equal(conditions.employmentPermittedUntil, '2026-12-31');
+  assert.equal(conditions.employmentPermission, 'EMPLOYMENT_ALLOWED_WITH_LIMITS');
+
+  const hoursOnly = parseNebenbestimmungen('Beschäftigung bis zu 20 Stunden wöchentlich gestattet.');
+  assert.equal(hoursOnly.hoursLimitPerWeekOnPermit, 20);
+  assert.equal(hoursOnly.employmentPermittedUntil, undefined);
+
+  const dateOnly = parseNebenbestimmungen('Beschäftigung bis 31.12.2026 gestattet.');
+  assert.equal(dateOnly.employmentPermittedUntil, '2026-12-31');
+  assert.equal(dateOnly.hasHoursLimitOnPermit, undefined);
+});
+
+test('reads hours written as Wochenstunden with a decimal comma', () => {
+  assert.equal(parseNebenbestimmungen('Beschäftigung nur als Pflegehelfer, 19,5 Wochenstunden.').hoursLimitPerWeekOnPermit, 19);
+});
+
+test('a sheet with only a Wohnsitzauflage limits nothing about employment', () => {
+  assert.deepEqual(
+    parseNebenbestimmungen('Zusatzblatt\nWohnsitzauflage: Stadt Leipzig'),
+    { hasLocationRestriction: true, locationRestrictionDescription: 'Stadt Leipzig' }
+  );
+  assert.deepEqual(
+    parseNebenbestimmungen('Wohnsitznahme ist nur in Sachsen gestattet.'),
+    { hasLocationRestriction: true, locationRestrictionDescription: 'Sachsen' }
+  );
+});
+
+test('ends the Wohnsitzauflage where the next condition starts', () => {
+  const conditions = parseNebenbestimmungen('Wohnsitzauflage: Landkreis Görlitz Erwerbstätigkeit gestattet.');
+  assert.equal(conditions.locationRestrictionDescription, 'Landkreis Görlitz');
+  assert.equal(conditions.employmentPermission, 'ANY_EMPLOYMENT_ALLOWED');
+  assert.equal(conditions.hasLocationRestriction, true);
+});
+
+test('text without conditions yields none', () => {
+  assert.deepEqual(parseNebenbestimmungen('Zusatzblatt zum Aufenthaltstitel'), {});
+});
@@ -0,0 +1,31 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { getKldbGroup, matchOccupations, resolveOccupation, searchOccupations } from '../lib/occupationMatch';
+
+test('resolves explicit codes, titles and titles inside longer text', () => {
+  assert.deepEqual(
+    [resolveOccupation('KldB 51312')?.entry.de, resolveOccupation('KldB 51312')?.matchedBy],
+    ['Fachkraft für Lagerlogistik', 'CODE']
+  );
+  assert.equal(resolveOccupation('Warehouse operative')?.entry.kldb, '51301');
+  assert.equal(resolveOccupation('Lagerhelfer Frühschicht')?.entry.kldb, '51301');
+  assert.equal(resolveOccupation('Berufskraftfahrer (m/w/d)')?.entry.kldb, '52122');
+  assert.equal(resolveOccupation('Astronaut'), null);
+});
+
+test('compares occupations by KldB code', () => {
+  assert.equal(matchOccupations('Lagerhelfer', 'Warehouse operative').relation, 'SAME_OCCUPATION');
+  assert.equal(matchOccupations('Lagerhelfer', 'Fachkraft für Lagerlogistik').relation, 'SAME_GROUP');
+  assert.equal(matchOccupations('Lagerhelfer', 'Berufskraftfahrer').relation, 'DIFFERENT');
+  assert.equal(matchOccupations('Lagerhelfer', 'Astronaut').relation, 'UNRESOLVED');
+});
+
+test('reports the shared KldB group', () => {
+  const result = matchOccupations('Lagerhelfer', 'Fachkraft für Lagerlogistik');
+  assert.equal(result.group?.code, 'KldB 513');
+  assert.equal(getKldbGroup('51312')?.code, '513');
+});
+
+test('search finds occupations by title', () => {
+  assert.ok(searchOccupations('Lager').some((entry) => entry.kldb === '51312'));
+});
@@ -0,0 +1,240 @@
+/**
+ * OCR Field Guesser Benchmark
+ * Runs the field guessers in lib/ocr.ts against the fixtures in
+ * tests/ocr-corpus and reports precision and recall per field. Exits with
+ * status 1 when a field scores below tests/ocr-benchmark-baseline.json;
+ * `npm test` runs it after the unit tests, so a drop fails the build.
+ *
+ *   npm run test:ocr                        text fixtures only
+ *   npm run test:ocr -- --images            also OCR fixtures that have an image (needs an OCR engine)
+ *   npm run test:ocr -- --verbose           list every miss
+ *   npm run test:ocr -- --update-baseline   accept the current scores
+ *   npm run test:ocr -- --write-results     save scores and misses to tests/ocr-benchmark-results.json (git-ignored)
+ *
+ * Fixture format (one JSON file per sample, synthetic or anonymised only):
+ *   {
+ *     "description": "what the sample is",
+ *     "documentType": "EU_BLUE_CARD",     // the document type it stands for
+ *     "text": ["line 1", "line 2"],       // raw OCR text, one entry per line
+ *     "image": "eu-blue-card.png",        // optional, relative to the corpus
+ *     "expected": { "expiryDateGuessIso": "2029-03-14", "employerNameGuess": null },
+ *     "expectedFailures": { "nationalityGuess": "why the guesser gets it wrong" }  // optional
+ *   }
+ * Only the fields listed under "expected" are scored. null means nothing
+ * should be found. Objects (permitConditionsGuess, baApprovalGuess) are scored
+ * per property. Fields under "expectedFailures" are known gaps: they are left
+ * out of the scores and listed separately, and a known gap that starts passing
+ * is reported so it can be removed.
+ */
+
+import { readFileSync, readdirSync, writeFileSync, existsSync } from 'fs';
+import { extractFieldsFromDocument, extractFieldsFromText } from '../lib/ocr';
+
+const CORPUS_DIR = new URL('./ocr-corpus/', import.meta.url);
+const BASELINE_FILE = new URL('./ocr-benchmark-baseline.json', import.meta.url);
+const RESULTS_FILE = new URL('./ocr-benchmark-results.json', import.meta.url);
+
+const args = process.argv.slice(2);
+const withImages = args.includes('--images');
+const verbose = args.includes('--verbose');
+const updateBaseline = args.includes('--update-baseline');
+const writeResults = args.includes('--write-results');
+
+type Value = string | number | boolean | null;
+
+interface Fixture {
+  name: string;
+  description: string;
+  documentType: string;
+  text: string[];
+  image?: string;
+  expected: Record<string, Value | Record<string, Value>>;
+  expectedFailures?: Record<string, string>;  // field -> reason
+}
+
+interface FieldScore {
+  expected: number;   // samples where the field should be found
+  predicted: number;  // samples where a value was guessed
+  correct: number;    // guesses equal to the expected value
+  precision: number | null;
+  recall: number | null;
+}
+
+interface Miss {
+  sample: string;
+  field: string;
+  expected: Value;
+  actual: Value;
+}
+
+interface ExpectedFailure extends Miss {
+  reason: string;
+  passes: boolean;  // the guesser now gets it right
+}
+
+function loadCorpus(): Fixture[] {
+  return readdirSync(CORPUS_DIR)
+    .filter((file) => file.endsWith('.json'))
+    .sort()
+    .map((file) => ({ name: file.replace(/\.json$/, ''), ...JSON.parse(readFileSync(new URL(file, CORPUS_DIR), 'utf8')) }));
+}
+
+// The guessers report "nothing found" as undefined or, for the permission, UNKNOWN
+function toValue(value: unknown): Value {
+  if (value === undefined || value === null || value === 'UNKNOWN') return null;
+  if (typeof value === 'string') return value.replace(/\s+/g, ' ').trim();
+  if (typeof value === 'number' || typeof value === 'boolean') return value;
+  return JSON.stringify(value);
+}
+
+// Expected and actual value per scored field, with objects split per property
+function scoredFields(fixture: Fixture, result: Record<string, unknown>): { field: string; expected: Value; actual: Value }[] {
+  const fields: { field: string; expected: Value; actual: Value }[] = [];
+  for (const [field, expected] of Object.entries(fixture.expected)) {
+    if (expected !== null && typeof expected === 'object') {
+      const actualObject = (result[field] ?? {}) as Record<string, unknown>;
+      for (const [property, expectedValue] of Object.entries(expected)) {
+        fields.push({ field: `${field}.${property}`, expected: toValue(expectedValue), actual: toValue(actualObject[property]) });
+      }
+    } else {
+      fields.push({ field, expected: toValue(expected), actual: toValue(result[field]) });
+    }
+  }
+  return fields;
+}
+
+function score(samples: { fixture: Fixture; result: Record<string, unknown> }[]): {
+  scores: Record<string, FieldScore>;
+  misses: Miss[];
+  expectedFailures: ExpectedFailure[];
+} {
+  const scores: Record<string, FieldScore> = {};
+  const misses: Miss[] = [];
+  const expectedFailures: ExpectedFailure[] = [];
+  for (const { fixture, result } of samples) {
+    for (const { field, expected, actual } of scoredFields(fixture, result)) {
+      const knownGap = fixture.expectedFailures?.[field];
+      if (knownGap !== undefined) {
+        expectedFailures.push({ sample: fixture.name, field, expected, actual, reason: knownGap, passes: actual === expected });
+        continue;
+      }
+      const fieldScore = scores[field] ??= { expected: 0, predicted: 0, correct: 0, precision: null, recall: null };
+      if (expected !== null) fieldScore.expected++;
+      if (actual !== null) fieldScore.predicted++;
+      if (actual !== null && actual === expected) {
+        fieldScore.correct++;
+      } else if (actual !== expected) {
+        misses.push({ sample: fixture.name, field, expected, actual });
+      }
+    }
+  }
+  for (const fieldScore of Object.values(scores)) {
+    fieldScore.precision = fieldScore.predicted > 0 ? fieldScore.correct / fieldScore.predicted : null;
+    fieldScore.recall = fieldScore.expected > 0 ? fieldScore.correct / fieldScore.expected : null;
+  }
+  return { scores, misses, expectedFailures };
+}
+
+function percent(value: number | null): string {
+  return value === null ? '     –' : `${(value * 100).toFixed(1).padStart(5)}%`;
+}
+
+function printScores(title: string, { scores, misses, expectedFailures }: ReturnType<typeof score>): void {
+  console.log(`\n${title}`);
+  console.log('─'.repeat(82));
+  console.log(`${'Field'.padEnd(52)} ${'Precision'.padStart(9)} ${'Recall'.padStart(9)} ${'n'.padStart(4)}`);
+  for (const [field, fieldScore] of Object.entries(scores).sort(([a], [b]) => a.localeCompare(b))) {
+    console.log(`${field.padEnd(52)} ${percent(fieldScore.precision).padStart(9)} ${percent(fieldScore.recall).padStart(9)} ${String(fieldScore.expected).padStart(4)}`);
+  }
+  if (verbose && misses.length > 0) {
+    console.log('\nMisses:');
+    for (const miss of misses) {
+      console.log(`  ${miss.sample} · ${miss.field}: expected ${JSON.stringify(miss.expected)}, got ${JSON.stringify(miss.actual)}`);
+    }
+  }
+  if (expectedFailures.length > 0) {
+    console.log(`\nExpected failures (${expectedFailures.filter((failure) => !failure.passes).length} of ${expectedFailures.length} still failing):`);
+    for (const failure of expectedFailures) {
+      const outcome = failure.passes
+        ? 'now passes – remove it from "expectedFailures"'
+        : `expected ${JSON.stringify(failure.expected)}, got ${JSON.stringify(failure.actual)}`;
+      console.log(`  ${failure.sample} · ${failure.field}: ${outcome} (${failure.reason})`);
+    }
+  }
+}
+
+// Fields that score lower than in the baseline; new fields are not compared
+function findRegressions(scores: Record<string, FieldScore>, baseline: Record<string, FieldScore>): string[] {
+  const regressions: string[] = [];
+  for (const [field, fieldScore] of Object.entries(scores)) {
+    const before = baseline[field];
+    if (!before) continue;
+    for (const measure of ['precision', 'recall'] as const) {
+      const was = before[measure];
+      const now = fieldScore[measure];
+      if (was !== null && (now === null || now < was - 1e-9)) {
+        regressions.push(`${field} ${measure}: ${percent(was).trim()} → ${percent(now).trim()}`);
+      }
+    }
+  }
+  return regressions;
+}
+
+async function main(): Promise<void> {
+  const corpus = loadCorpus();
+  console.log(`🔍 Benchmarking OCR field guessers on ${corpus.length} samples...`);
+
+  const textRun = score(corpus.map((fixture) => ({
+    fixture,
+    result: extractFieldsFromText(fixture.text.join('\n')) as Record<string, unknown>,
+  })));
+  printScores('Text fixtures', textRun);
+
+  // Images go through the configured OCR engine, so they are scored separately
+  // and never compared with the baseline
+  const imageFixtures = corpus.filter((fixture) => fixture.image);
+  if (withImages && imageFixtures.length > 0) {
+    const samples = [];
+    for (const fixture of imageFixtures) {
+      const buffer = readFileSync(new URL(fixture.image!, CORPUS_DIR));
+      samples.push({ fixture, result: await extractFieldsFromDocument(buffer) as unknown as Record<string, unknown> });
+    }
+    const imageRun = score(samples);
+    printScores(`Image fixtures (${imageFixtures.length})`, imageRun);
+  }
+
+  if (writeResults) {
+    writeFileSync(RESULTS_FILE, JSON.stringify({
+      samples: corpus.length,
+      scores: textRun.scores,
+      misses: textRun.misses,
+      expectedFailures: textRun.expectedFailures,
+    }, null, 2) + '\n');
+  }
+
+  if (updateBaseline) {
+    writeFileSync(BASELINE_FILE, JSON.stringify(textRun.scores, null, 2) + '\n');
+    console.log('\n✓ Baseline updated');
+    return;
+  }
+
+  if (!existsSync(BASELINE_FILE)) {
+    console.log('\n⚠ No baseline yet; run with --update-baseline to create one');
+    return;
+  }
+
+  const regressions = findRegressions(textRun.scores, JSON.parse(readFileSync(BASELINE_FILE, 'utf8')));
+  if (regressions.length > 0) {
+    console.log('\n❌ Accuracy regressed:');
+    regressions.forEach((regression) => console.log(`   ${regression}`));
+    process.exit(1);
+  }
+  console.log('\n✓ No field scores below the baseline');
+}
+
+main()
+  .then(() => process.exit(0))
+  .catch((error) => {
+    console.error('❌ Benchmark failed:', error);
+    process.exit(1);
+  });
@@ -0,0 +1,53 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { loadImage, PDFDocument } from '@napi-rs/canvas';
+import { isPdf, MAX_PDF_PAGES, renderPdfPages } from '../lib/pdfPages';
+
+// Page n is n half-inches wide, so a rendered page tells which one it was
+function pdfWithPages(pageCount: number): Buffer {
+  const document = new PDFDocument();
+  for (let page = 1; page <= pageCount; page++) {
+    document.beginPage(36 * page, 36);
+    document.endPage();
+  }
+  return document.close();
+}
+
+// Half an inch at 300 DPI
+async function renderedPageNumber(png: Buffer): Promise<number> {
+  return Math.round((await loadImage(png)).width / 150);
+}
+
+test('recognises PDFs by their header', () => {
+  assert.equal(isPdf(pdfWithPages(1)), true);
+  assert.equal(isPdf(Buffer.from('\x89PNG\r\n')), false);
+});
+
+test('renders the first pages by default', async () => {
+  const { pages, totalPages } = await renderPdfPages(pdfWithPages(MAX_PDF_PAGES + 2));
+  assert.equal(totalPages, MAX_PDF_PAGES + 2);
+  assert.equal(pages.length, MAX_PDF_PAGES);
+  assert.equal(await renderedPageNumber(pages[0]), 1);
+  assert.equal(await renderedPageNumber(pages[MAX_PDF_PAGES - 1]), MAX_PDF_PAGES);
+});
+
+test('renders only the pages in the range', async () => {
+  const pdf = pdfWithPages(4);
+  const single = await renderPdfPages(pdf, { from: 3, to: 3 });
+  assert.equal(single.totalPages, 4);
+  assert.equal(single.pages.length, 1);
+  assert.equal(await renderedPageNumber(single.pages[0]), 3);
+
+  const range = await renderPdfPages(pdf, { from: 2, to: 9 });
+  assert.deepEqual(await Promise.all(range.pages.map(renderedPageNumber)), [2, 3, 4]);
+});
+
+test('renders nothing for a range past the end or beyond MAX_PDF_PAGES', async () => {
+  assert.deepEqual((await renderPdfPages(pdfWithPages(2), { from: 3, to: 3 })).pages, []);
+  const pastLimit = MAX_PDF_PAGES + 1;
+  assert.deepEqual((await renderPdfPages(pdfWithPages(pastLimit), { from: pastLimit, to: pastLimit })).pages, []);
+});
+
+test('refuses files that are no PDF', async () => {
+  await assert.rejects(renderPdfPages(Buffer.from('%PDF-1.7 broken')), /could not be opened/);
+});
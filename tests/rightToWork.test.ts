@@ -0,0 +1,71 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { evaluateRightToWork, type EvaluateRightToWorkInput } from '../lib/rightToWork';
+
+// An EU national with a valid identity card
+const euNational: EvaluateRightToWorkInput = {
+  citizenshipCategory: 'EU_EEA_CH',
+  nationality: 'PL',
+  documentType: 'OTHER',
+  documentValidFrom: '2022-05-01',
+  documentValidTo: '2032-04-30',
+  todayIsoDate: '2026-10-18',
+  employmentPermission: 'ANY_EMPLOYMENT_ALLOWED',
+  hiringEmployerName: 'Beispiel Logistik GmbH',
+  permitNamesSpecificEmployer: false,
+  permitLimitedToOccupation: false,
+  plannedRoleCategory: 'Lagerhelfer',
+  hasHoursLimitOnPermit: false,
+  contractHoursPerWeek: 40,
+  hasLocationRestriction: false,
+  plannedWorkCity: 'Berlin',
+  isBlueCard: false,
+  isChangingEmployer: false,
+};
+
+function reasonCodes(input: EvaluateRightToWorkInput): string[] {
+  return evaluateRightToWork(input).decisionReasons.map((reason) => reason.code);
+}
+
+test('an EU national with a valid ID is eligible', () => {
+  const result = evaluateRightToWork(euNational);
+  assert.equal(result.workStatus, 'ELIGIBLE');
+  assert.deepEqual(reasonCodes(euNational), ['EU_FREE_MOVEMENT']);
+});
+
+test('an EU national with an expired ID needs review', () => {
+  const input = { ...euNational, documentValidTo: '2026-01-31' };
+  const result = evaluateRightToWork(input);
+  assert.equal(result.workStatus, 'NEEDS_REVIEW');
+  assert.ok(reasonCodes(input).includes('EU_ID_EXPIRED'));
+  assert.match(result.decisionSummary, /updated ID is required/);
+});
+
+test('document guardrails apply to EU nationals', () => {
+  const cases: Array<[Partial<EvaluateRightToWorkInput>, string]> = [
+    [{ mrzCheckDigitFailures: ['documentNumber'] }, 'MRZ_CHECK_DIGIT_FAILED'],
+    [
+      {
+        identity: {
+          RESIDENCE_TITLE: { lastName: 'Kowalski', dateOfBirth: '1990-02-01' },
+          EMPLOYEE_RECORD: { lastName: 'Nowak', dateOfBirth: '1990-02-01' },
+        },
+      },
+      'IDENTITY_MISMATCH',
+    ],
+    [{ authenticitySignals: [{ code: 'EDITING_SOFTWARE', params: { software: 'Photoshop' } }] }, 'AUTHENTICITY_SIGNAL'],
+  ];
+  for (const [override, code] of cases) {
+    const input = { ...euNational, ...override };
+    const result = evaluateRightToWork(input);
+    assert.equal(result.workStatus, 'NEEDS_REVIEW', code);
+    assert.ok(reasonCodes(input).includes(code), code);
+    assert.ok(reasonCodes(input).includes('EU_FREE_MOVEMENT'), code);
+    assert.match(result.decisionSummary, /documents need review/, code);
+  }
+});
+
+test('the guardrails are traced before the EU/EEA/Swiss shortcut', () => {
+  const rules = evaluateRightToWork(euNational).decisionTrace.map((step) => step.rule);
+  assert.deepEqual(rules.slice(0, 4), ['MRZ_CHECK_DIGITS', 'IDENTITY_CROSS_CHECK', 'DOCUMENT_AUTHENTICITY', 'CITIZENSHIP']);
+});
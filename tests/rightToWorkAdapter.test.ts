@@ -0,0 +1,59 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { evaluateRightToWork } from '../lib/rightToWork';
+import {
+  getRecordedDecisionContext,
+  mapToRulesEngineInput,
+  recordDecisionContext,
+  type RulesEngineFormData,
+} from '../server/rightToWorkAdapter';
+
+const studentCheck: RulesEngineFormData = {
+  documentType: 'STUDENT_PERMIT',
+  expiryDate: new Date('2027-09-30'),
+  dateOfIssue: new Date('2025-10-01'),
+  nationality: 'IN',
+  employmentPermission: 'RESTRICTED',
+  hiringEmployerName: 'Beispiel Logistik GmbH',
+  employee: { firstName: 'Priya', lastName: 'Sharma', dateOfBirth: '2001-04-12', nationality: 'IN' },
+  hiringEmployerAliases: ['Beispiel Fulfilment GmbH'],
+  studentWorkDaysUsed: 150,
+};
+
+test('records the data on file a decision was made with', () => {
+  assert.deepEqual(recordDecisionContext(studentCheck), {
+    employee: { firstName: 'Priya', lastName: 'Sharma', dateOfBirth: '2001-04-12', nationality: 'IN' },
+    hiringEmployerAliases: ['Beispiel Fulfilment GmbH'],
+    studentWorkDaysUsed: 150,
+    baApprovalId: null,
+    mrzCheckDigitFailures: null,
+    residenceTitleMrzIdentity: null,
+  });
+});
+
+test('a re-run from the stored context reproduces the decision', () => {
+  const original = evaluateRightToWork({ ...mapToRulesEngineInput(studentCheck), todayIsoDate: '2026-10-18' });
+  // Stored as jsonb and read back
+  const recorded = getRecordedDecisionContext(JSON.parse(JSON.stringify(recordDecisionContext(studentCheck))));
+  assert.ok(recorded);
+  const rerun = evaluateRightToWork({
+    ...mapToRulesEngineInput({
+      ...studentCheck,
+      employee: recorded.employee,
+      hiringEmployerAliases: recorded.hiringEmployerAliases,
+      studentWorkDaysUsed: recorded.studentWorkDaysUsed ?? undefined,
+    }),
+    todayIsoDate: '2026-10-18',
+  });
+  assert.equal(rerun.workStatus, original.workStatus);
+  assert.deepEqual(
+    rerun.decisionReasons.map((reason) => reason.code),
+    original.decisionReasons.map((reason) => reason.code)
+  );
+  assert.ok(!rerun.decisionReasons.some((reason) => reason.code === 'STUDENT_WORK_DAYS_NOT_TRACKED'));
+});
+
+test('checks made before the context was recorded have none', () => {
+  assert.equal(getRecordedDecisionContext(null), undefined);
+  assert.equal(getRecordedDecisionContext([]), undefined);
+});
@@ -0,0 +1,99 @@
+import { test } from 'node:test';
+import assert from 'node:assert/strict';
+import { getRuleSetForDate } from '../lib/ruleSets';
+import {
+  HALF_DAY_MAX_MINUTES,
+  mergeShiftsByDay,
+  parseTimesheetRecord,
+  summarizeStudentWorkDays,
+  type WorkedDay,
+} from '../lib/studentWorkDays';
+
+const RULES_2025 = getRuleSetForDate('2025-06-01');
+
+// `count` consecutive days in 2025 with the same minutes worked
+function days(count: number, minutesWorked: number, startDay = 0): WorkedDay[] {
+  return Array.from({ length: count }, (_, index) => {
+    const date = new Date(Date.UTC(2025, 0, 1 + startDay + index));
+    return { workDate: date.toISOString().slice(0, 10), minutesWorked };
+  });
+}
+
+test('the allowance is 140 full days since March 2024 and 120 before', () => {
+  assert.equal(RULES_2025.studentWorkDaysPerYear, 140);
+  assert.equal(getRuleSetForDate('2024-02-29').studentWorkDaysPerYear, 120);
+});
+
+test('up to four hours count as a half day', () => {
+  const usage = summarizeStudentWorkDays(
+    [
+      { workDate: '2025-03-03', minutesWorked: HALF_DAY_MAX_MINUTES },
+      { workDate: '2025-03-04', minutesWorked: HALF_DAY_MAX_MINUTES + 1 },
+    ],
+    2025,
+    RULES_2025
+  );
+  assert.equal(usage.halfDays, 1);
+  assert.equal(usage.fullDays, 1);
+  assert.equal(usage.usedDays, 1.5);
+});
+
+test('140 full days use up the allowance without exceeding it', () => {
+  const usage = summarizeStudentWorkDays(days(140, 480), 2025, RULES_2025);
+  assert.equal(usage.usedDays, 140);
+  assert.equal(usage.remainingDays, 0);
+  assert.equal(usage.level, 'APPROACHING');
+  assert.equal(summarizeStudentWorkDays(days(141, 480), 2025, RULES_2025).level, 'EXCEEDED');
+});
+
+test('280 half days use up the allowance without exceeding it', () => {
+  const usage = summarizeStudentWorkDays(days(280, 180), 2025, RULES_2025);
+  assert.equal(usage.halfDays, 280);
+  assert.equal(usage.usedDays, 140);
+  assert.equal(usage.level, 'APPROACHING');
+  assert.equal(summarizeStudentWorkDays(days(281, 180), 2025, RULES_2025).level, 'EXCEEDED');
+});
+
+test('warns from 90 % of the allowance', () => {
+  assert.equal(summarizeStudentWorkDays(days(125, 480), 2025, RULES_2025).level, 'WITHIN');
+  assert.equal(summarizeStudentWorkDays(days(126, 480), 2025, RULES_2025).level, 'APPROACHING');
+});
+
+test('ignores days of other years and days without work', () => {
+  const usage = summarizeStudentWorkDays(
+    [
+      { workDate: '2024-12-31', minutesWorked: 480 },
+      { workDate: '2025-01-02', minutesWorked: 0 },
+      { workDate: '2025-01-03', minutesWorked: 480 },
+    ],
+    2025,
+    RULES_2025
+  );
+  assert.equal(usage.usedDays, 1);
+});
+
+test('reads timesheet rows with hours or start and end times', () => {
+  assert.deepEqual(parseTimesheetRecord({ date: '15.03.2025', hours: '7,5' }), {
+    workDate: '2025-03-15',
+    minutesWorked: 450,
+  });
+  assert.deepEqual(parseTimesheetRecord({ date: '2025-03-15', start: '22:00', end: '06:00', break_minutes: '30' }), {
+    workDate: '2025-03-15',
+    minutesWorked: 450,
+  });
+  assert.throws(() => parseTimesheetRecord({ date: '2025-03-15' }), /"hours" or "start" and "end"/);
+  assert.throws(() => parseTimesheetRecord({ date: '15/03/2025', hours: '4' }), /Invalid date/);
+});
+
+test('two short shifts on one day make a full day', () => {
+  const merged = mergeShiftsByDay([
+    { workDate: '2025-03-15', minutesWorked: 180 },
+    { workDate: '2025-03-14', minutesWorked: 60 },
+    { workDate: '2025-03-15', minutesWorked: 180 },
+  ]);
+  assert.deepEqual(merged, [
+    { workDate: '2025-03-14', minutesWorked: 60 },
+    { workDate: '2025-03-15', minutesWorked: 360 },
+  ]);
+  assert.equal(summarizeStudentWorkDays(merged, 2025, RULES_2025).fullDays, 1);
+});